@@ -0,0 +1,45 @@
+import { Request, Response } from 'express';
+import { RegisterUserUseCase } from '../../application/ports/RegisterUserUseCase';
+import { LoginUseCase } from '../../application/ports/LoginUseCase';
+import { User } from '../../domain/entities/User';
+import { AuthenticationException } from '../../domain/exceptions/DomainException';
+
+/**
+ * Inbound Adapter - REST API Controller for accounts and tokens
+ * Password hashes never leave the server
+ */
+export class AuthController {
+  constructor(
+    private readonly registerUserUseCase: RegisterUserUseCase,
+    private readonly loginUseCase: LoginUseCase
+  ) {}
+
+  async register(req: Request, res: Response): Promise<void> {
+    const { email, password } = req.body;
+    const user = await this.registerUserUseCase.execute({ email, password });
+    res.status(201).json(this.toResponse(user));
+  }
+
+  async login(req: Request, res: Response): Promise<void> {
+    const { email, password } = req.body;
+    const result = await this.loginUseCase.execute({ email, password });
+    res.status(200).json({
+      token: result.token,
+      tokenType: 'Bearer',
+      expiresAt: result.expiresAt,
+      user: this.toResponse(result.user)
+    });
+  }
+
+  async me(req: Request, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new AuthenticationException();
+    }
+    res.status(200).json(this.toResponse(req.user));
+  }
+
+  private toResponse(user: User) {
+    const { passwordHash, ...rest } = user.toObject();
+    return rest;
+  }
+}
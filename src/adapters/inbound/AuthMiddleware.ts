@@ -0,0 +1,39 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { AuthenticateUseCase } from '../../application/ports/AuthenticateUseCase';
+import { User } from '../../domain/entities/User';
+import { AuthenticationException } from '../../domain/exceptions/DomainException';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by the auth middleware for authenticated requests
+      user?: User;
+    }
+  }
+}
+
+/**
+ * Inbound Adapter - Requires an `Authorization: Bearer <token>` header
+ * and attaches the authenticated user to the request
+ */
+export function createAuthMiddleware(authenticateUseCase: AuthenticateUseCase): RequestHandler {
+  // Failures reach the error middleware, which answers 401 with a Bearer challenge
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const match = /^Bearer\s+(\S+)$/i.exec(req.get('Authorization')?.trim() ?? '');
+    if (!match) {
+      throw new AuthenticationException();
+    }
+    req.user = await authenticateUseCase.execute(match[1]);
+    next();
+  };
+}
+
+/**
+ * Id of the authenticated user; only valid behind the auth middleware
+ */
+export function currentUserId(req: Request): string {
+  if (!req.user) {
+    throw new AuthenticationException();
+  }
+  return req.user.getId();
+}
@@ -0,0 +1,17 @@
+import { RequestHandler, Router } from 'express';
+import { AuthController } from './AuthController';
+
+export function createAuthRoutes(authController: AuthController, requireAuth: RequestHandler): Router {
+  const router = Router();
+
+  // Create an account
+  router.post('/auth/register', (req, res) => authController.register(req, res));
+
+  // Exchange email and password for a bearer token
+  router.post('/auth/login', (req, res) => authController.login(req, res));
+
+  // The account the token belongs to
+  router.get('/auth/me', requireAuth, (req, res) => authController.me(req, res));
+
+  return router;
+}
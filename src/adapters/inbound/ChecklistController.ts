@@ -0,0 +1,45 @@
+import { Request, Response } from 'express';
+import { AddChecklistItemUseCase } from '../../application/ports/AddChecklistItemUseCase';
+import { ToggleChecklistItemUseCase } from '../../application/ports/ToggleChecklistItemUseCase';
+import { ReorderChecklistUseCase } from '../../application/ports/ReorderChecklistUseCase';
+import { RemoveChecklistItemUseCase } from '../../application/ports/RemoveChecklistItemUseCase';
+import { currentUserId } from './AuthMiddleware';
+
+/**
+ * Inbound Adapter - REST API Controller for todo checklists
+ */
+export class ChecklistController {
+  constructor(
+    private readonly addChecklistItemUseCase: AddChecklistItemUseCase,
+    private readonly toggleChecklistItemUseCase: ToggleChecklistItemUseCase,
+    private readonly reorderChecklistUseCase: ReorderChecklistUseCase,
+    private readonly removeChecklistItemUseCase: RemoveChecklistItemUseCase
+  ) {}
+
+  async addItem(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const { text } = req.body;
+    const todo = await this.addChecklistItemUseCase.execute({ todoId: id, ownerId: currentUserId(req), text });
+    res.status(201).json(todo.toObject());
+  }
+
+  async toggleItem(req: Request, res: Response): Promise<void> {
+    const { id, itemId } = req.params;
+    const { done } = req.body ?? {};
+    const todo = await this.toggleChecklistItemUseCase.execute({ todoId: id, ownerId: currentUserId(req), itemId, done });
+    res.status(200).json(todo.toObject());
+  }
+
+  async reorder(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const { itemIds } = req.body;
+    const todo = await this.reorderChecklistUseCase.execute({ todoId: id, ownerId: currentUserId(req), itemIds });
+    res.status(200).json(todo.toObject());
+  }
+
+  async removeItem(req: Request, res: Response): Promise<void> {
+    const { id, itemId } = req.params;
+    const todo = await this.removeChecklistItemUseCase.execute({ todoId: id, ownerId: currentUserId(req), itemId });
+    res.status(200).json(todo.toObject());
+  }
+}
@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { ChecklistController } from './ChecklistController';
+
+export function createChecklistRoutes(checklistController: ChecklistController): Router {
+  const router = Router();
+
+  // Add an item to a todo's checklist
+  router.post('/todos/:id/checklist', (req, res) => checklistController.addItem(req, res));
+
+  // Reorder a todo's checklist
+  router.put('/todos/:id/checklist/order', (req, res) => checklistController.reorder(req, res));
+
+  // Mark a checklist item as done or open
+  router.patch('/todos/:id/checklist/:itemId', (req, res) => checklistController.toggleItem(req, res));
+
+  // Remove a checklist item
+  router.delete('/todos/:id/checklist/:itemId', (req, res) => checklistController.removeItem(req, res));
+
+  return router;
+}
@@ -0,0 +1,148 @@
+import { TodoRecord } from '../../application/ports/ImportTodosUseCase';
+import { DueDateProps } from '../../domain/value-objects/TodoDueDate';
+import { TodoFormat } from './TodoFormat';
+import { ValidationException } from '../../domain/exceptions/DomainException';
+
+const COLUMNS = [
+  'id', 'title', 'description', 'status', 'priority', 'tags', 'checklist', 'requireChecklistCompletion',
+  'dueDate', 'dueTime', 'dueTimeZone', 'recurrence', 'seriesId', 'listId', 'createdAt', 'updatedAt'
+] as const;
+
+type Column = typeof COLUMNS[number];
+
+/**
+ * RFC 4180 CSV with a header row
+ * Tags are separated by commas within their cell and the checklist is a JSON
+ * array; the due date is split over dueDate, dueTime and dueTimeZone. Columns
+ * are matched by name on import, and missing or empty cells count as absent.
+ */
+export class CsvTodoFormat implements TodoFormat {
+  readonly contentType = 'text/csv; charset=utf-8';
+  readonly extension = 'csv';
+
+  begin(): string {
+    return toLine([...COLUMNS]);
+  }
+
+  write(record: TodoRecord): string {
+    const dueDate = record.dueDate as DueDateProps | undefined;
+    const cells: Record<Column, unknown> = {
+      ...record,
+      tags: (record.tags as string[] | undefined)?.join(', '),
+      checklist: (record.checklist as unknown[] | undefined)?.length ? JSON.stringify(record.checklist) : undefined,
+      dueDate: dueDate?.date,
+      dueTime: dueDate?.time,
+      dueTimeZone: dueDate?.timeZone
+    } as Record<Column, unknown>;
+    return toLine(COLUMNS.map(column => (cells[column] === undefined ? '' : String(cells[column]))));
+  }
+
+  end(): string {
+    return '';
+  }
+
+  parse(text: string): TodoRecord[] {
+    const rows = parseCsv(text).filter(row => row.length > 1 || row[0] !== '');
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const [header, ...body] = rows;
+    const columns = header.map(name => name.trim());
+    return body.map(row => {
+      const cells = new Map<string, string>();
+      columns.forEach((column, index) => {
+        const value = row[index] ?? '';
+        if (value !== '') {
+          cells.set(column, value);
+        }
+      });
+      return toRecord(cells);
+    });
+  }
+}
+
+function toRecord(cells: Map<string, string>): TodoRecord {
+  const record: TodoRecord = {};
+  for (const column of ['id', 'title', 'description', 'status', 'priority', 'recurrence', 'seriesId', 'listId', 'createdAt', 'updatedAt']) {
+    record[column] = cells.get(column);
+  }
+
+  const tags = cells.get('tags');
+  record.tags = tags?.split(',').map(tag => tag.trim()).filter(Boolean);
+
+  // Left as text when it is not JSON, so that the row fails validation
+  const checklist = cells.get('checklist');
+  if (checklist !== undefined) {
+    try {
+      record.checklist = JSON.parse(checklist);
+    } catch {
+      record.checklist = checklist;
+    }
+  }
+
+  const requireChecklistCompletion = cells.get('requireChecklistCompletion');
+  record.requireChecklistCompletion = requireChecklistCompletion === 'true' ? true
+    : requireChecklistCompletion === 'false' ? false
+      : requireChecklistCompletion;
+
+  if (cells.has('dueDate') || cells.has('dueTime') || cells.has('dueTimeZone')) {
+    record.dueDate = { date: cells.get('dueDate'), time: cells.get('dueTime'), timeZone: cells.get('dueTimeZone') };
+  }
+
+  return record;
+}
+
+function toLine(cells: string[]): string {
+  return `${cells.map(escapeCell).join(',')}\r\n`;
+}
+
+function escapeCell(value: string): string {
+  return /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new ValidationException('CSV import has an unterminated quoted field');
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
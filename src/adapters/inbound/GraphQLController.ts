@@ -0,0 +1,403 @@
+import { Request, Response } from 'express';
+import {
+  buildSchema,
+  DocumentNode,
+  execute,
+  ExecutionResult,
+  getOperationAST,
+  GraphQLError,
+  GraphQLFormattedError,
+  GraphQLSchema,
+  parse,
+  subscribe,
+  validate
+} from 'graphql';
+import { CreateTodoUseCase } from '../../application/ports/CreateTodoUseCase';
+import { GetTodoUseCase } from '../../application/ports/GetTodoUseCase';
+import { ListTodosUseCase } from '../../application/ports/ListTodosUseCase';
+import { UpdateTodoUseCase } from '../../application/ports/UpdateTodoUseCase';
+import { CompleteTodoUseCase } from '../../application/ports/CompleteTodoUseCase';
+import { ReopenTodoUseCase } from '../../application/ports/ReopenTodoUseCase';
+import { DeleteTodoUseCase } from '../../application/ports/DeleteTodoUseCase';
+import { GetAgendaUseCase } from '../../application/ports/GetAgendaUseCase';
+import { GetTodoHistoryUseCase } from '../../application/ports/GetTodoHistoryUseCase';
+import { SearchTodosUseCase } from '../../application/ports/SearchTodosUseCase';
+import { EventSubscriber } from '../../application/ports/EventSubscriber';
+import { Logger } from '../../application/ports/Logger';
+import { SortDirection, TagMatch, TodoSortField } from '../../application/ports/TodoRepository';
+import { TodoProps } from '../../domain/entities/Todo';
+import { FieldChange, TodoEvent, TodoEventType } from '../../domain/events/TodoEvent';
+import { DueDateProps } from '../../domain/value-objects/TodoDueDate';
+import { TodoStatusEnum } from '../../domain/value-objects/TodoStatus';
+import { TodoPriorityEnum } from '../../domain/value-objects/TodoPriority';
+import { currentUserId } from './AuthMiddleware';
+import { toProblem } from './ProblemDetails';
+import { TYPE_DEFS } from './GraphQLSchema';
+import { todoEventStream } from './TodoEventStream';
+
+// Keeps idle subscription streams open through proxies
+const KEEP_ALIVE_INTERVAL_MS = 15000;
+
+interface Context {
+  ownerId: string;
+}
+
+interface TodoFilterInput {
+  listId?: string | null;
+  status?: TodoStatusEnum | null;
+  priorities?: TodoPriorityEnum[] | null;
+  tags?: string[] | null;
+  tagMatch?: TagMatch | null;
+  createdFrom?: string | null;
+  createdTo?: string | null;
+  updatedFrom?: string | null;
+  updatedTo?: string | null;
+  titleContains?: string | null;
+}
+
+interface TodosArgs {
+  filter?: TodoFilterInput | null;
+  sortBy?: TodoSortField | null;
+  order?: SortDirection | null;
+  limit?: number | null;
+  offset?: number | null;
+  cursor?: string | null;
+}
+
+interface TodoInput {
+  title?: string | null;
+  description?: string | null;
+  priority?: TodoPriorityEnum | null;
+  tags?: string[] | null;
+  requireChecklistCompletion?: boolean | null;
+  dueDate?: DueDateProps | null;
+  recurrence?: string | null;
+  listId?: string | null;
+}
+
+/**
+ * Inbound Adapter - GraphQL API over HTTP
+ * Resolvers call the same use cases as the REST controllers. Errors carry the
+ * `code` and `status` the REST API would answer with in their extensions.
+ * Subscriptions are streamed as server-sent events to requests that accept
+ * text/event-stream.
+ */
+export class GraphQLController {
+  private readonly schema: GraphQLSchema = buildSchema(TYPE_DEFS);
+
+  constructor(
+    private readonly createTodoUseCase: CreateTodoUseCase,
+    private readonly getTodoUseCase: GetTodoUseCase,
+    private readonly listTodosUseCase: ListTodosUseCase,
+    private readonly updateTodoUseCase: UpdateTodoUseCase,
+    private readonly completeTodoUseCase: CompleteTodoUseCase,
+    private readonly reopenTodoUseCase: ReopenTodoUseCase,
+    private readonly deleteTodoUseCase: DeleteTodoUseCase,
+    private readonly getAgendaUseCase: GetAgendaUseCase,
+    private readonly getTodoHistoryUseCase: GetTodoHistoryUseCase,
+    private readonly searchTodosUseCase: SearchTodosUseCase,
+    private readonly eventSubscriber: EventSubscriber,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Parse and validation errors answer 400; once a query runs, the response
+   * is 200 and errors are reported next to the data
+   */
+  async execute(req: Request, res: Response): Promise<void> {
+    const { query, variables, operationName } = req.body ?? {};
+    if (typeof query !== 'string') {
+      this.sendRequestError(res, 'Query must be a string', 'BAD_REQUEST');
+      return;
+    }
+    if (variables !== undefined && variables !== null && (typeof variables !== 'object' || Array.isArray(variables))) {
+      this.sendRequestError(res, 'Variables must be an object', 'BAD_REQUEST');
+      return;
+    }
+    if (operationName !== undefined && operationName !== null && typeof operationName !== 'string') {
+      this.sendRequestError(res, 'Operation name must be a string', 'BAD_REQUEST');
+      return;
+    }
+
+    let document: DocumentNode;
+    try {
+      document = parse(query);
+    } catch (error) {
+      this.sendRequestError(res, (error as Error).message, 'GRAPHQL_PARSE_FAILED');
+      return;
+    }
+    const validationErrors = validate(this.schema, document);
+    if (validationErrors.length > 0) {
+      res.status(400).json({
+        errors: validationErrors.map(error => ({ ...error.toJSON(), extensions: { code: 'GRAPHQL_VALIDATION_FAILED' } }))
+      });
+      return;
+    }
+
+    const contextValue: Context = { ownerId: currentUserId(req) };
+    const args = {
+      schema: this.schema,
+      document,
+      rootValue: this.rootValue(),
+      contextValue,
+      variableValues: variables,
+      operationName
+    };
+
+    try {
+      if (getOperationAST(document, operationName)?.operation === 'subscription') {
+        if (!(req.get('Accept') ?? '').includes('text/event-stream')) {
+          this.sendRequestError(res, 'Subscriptions must accept text/event-stream', 'BAD_REQUEST');
+          return;
+        }
+        const result = await subscribe(args);
+        if (Symbol.asyncIterator in result) {
+          await this.stream(res, result);
+        } else {
+          res.status(200).json(this.formatResult(result));
+        }
+        return;
+      }
+
+      res.status(200).json(this.formatResult(await execute(args)));
+    } catch (error) {
+      this.sendRequestError(res, (error as Error).message, 'BAD_REQUEST');
+    }
+  }
+
+  private rootValue(): object {
+    return {
+      todo: async ({ id }: { id: string }, context: Context) => {
+        const todo = await this.getTodoUseCase.execute(id, context.ownerId);
+        return this.toTodo(todo.toObject());
+      },
+
+      todos: async (args: TodosArgs, context: Context) => {
+        const filter = args.filter ?? {};
+        const result = await this.listTodosUseCase.execute(context.ownerId, {
+          listId: filter.listId ?? undefined,
+          status: filter.status ?? undefined,
+          priorities: filter.priorities ?? undefined,
+          tags: filter.tags ?? undefined,
+          tagMatch: filter.tagMatch ?? undefined,
+          createdFrom: toDate(filter.createdFrom),
+          createdTo: toDate(filter.createdTo),
+          updatedFrom: toDate(filter.updatedFrom),
+          updatedTo: toDate(filter.updatedTo),
+          titleContains: filter.titleContains ?? undefined,
+          sortBy: args.sortBy ?? undefined,
+          sortDirection: args.order ?? undefined,
+          limit: args.limit ?? undefined,
+          offset: args.offset ?? undefined,
+          cursor: args.cursor ?? undefined
+        });
+        return {
+          items: result.items.map(todo => this.toTodo(todo.toObject())),
+          total: result.total,
+          nextCursor: result.nextCursor
+        };
+      },
+
+      agenda: async ({ timeZone }: { timeZone?: string | null }, context: Context) => {
+        const agenda = await this.getAgendaUseCase.execute(context.ownerId, { timeZone: timeZone ?? undefined });
+        return {
+          timeZone: agenda.timeZone,
+          date: agenda.date,
+          overdue: agenda.overdue.map(todo => this.toTodo(todo.toObject())),
+          today: agenda.today.map(todo => this.toTodo(todo.toObject())),
+          thisWeek: agenda.thisWeek.map(todo => this.toTodo(todo.toObject())),
+          later: agenda.later.map(todo => this.toTodo(todo.toObject()))
+        };
+      },
+
+      searchTodos: async ({ q, limit }: { q: string; limit?: number | null }, context: Context) => {
+        const result = await this.searchTodosUseCase.execute(context.ownerId, { q, limit: limit ?? undefined });
+        return {
+          items: result.hits.map(hit => ({ todo: this.toTodo(hit.todo.toObject()), score: hit.score, highlights: hit.highlights })),
+          total: result.total
+        };
+      },
+
+      createTodo: async ({ input }: { input: TodoInput }, context: Context) => {
+        const { title, description, priority, tags, requireChecklistCompletion, dueDate, recurrence, listId } = input;
+        const todo = await this.createTodoUseCase.execute({
+          ownerId: context.ownerId,
+          title: title ?? '',
+          description: description ?? undefined,
+          priority: priority ?? undefined,
+          tags: tags ?? undefined,
+          requireChecklistCompletion: requireChecklistCompletion ?? undefined,
+          dueDate: dueDate ?? undefined,
+          recurrence: recurrence ?? undefined,
+          listId: listId ?? undefined
+        });
+        return this.toTodo(todo.toObject());
+      },
+
+      updateTodo: async (
+        { id, input, expectedVersion }: { id: string; input: TodoInput; expectedVersion?: number | null },
+        context: Context
+      ) => {
+        const { title, description, priority, tags, requireChecklistCompletion, dueDate, recurrence, listId } = input;
+        const todo = await this.updateTodoUseCase.execute({
+          id,
+          ownerId: context.ownerId,
+          expectedVersion: expectedVersion ?? undefined,
+          title: title ?? undefined,
+          description: description ?? undefined,
+          priority: priority ?? undefined,
+          tags: tags ?? undefined,
+          requireChecklistCompletion: requireChecklistCompletion ?? undefined,
+          // Explicit nulls clear these
+          dueDate,
+          recurrence,
+          listId
+        });
+        return this.toTodo(todo.toObject());
+      },
+
+      completeTodo: async ({ id, expectedVersion }: { id: string; expectedVersion?: number | null }, context: Context) => {
+        const todo = await this.completeTodoUseCase.execute(id, context.ownerId, expectedVersion ?? undefined);
+        return this.toTodo(todo.toObject());
+      },
+
+      reopenTodo: async ({ id, expectedVersion }: { id: string; expectedVersion?: number | null }, context: Context) => {
+        const todo = await this.reopenTodoUseCase.execute(id, context.ownerId, expectedVersion ?? undefined);
+        return this.toTodo(todo.toObject());
+      },
+
+      deleteTodo: async ({ id, expectedVersion }: { id: string; expectedVersion?: number | null }, context: Context) => {
+        await this.deleteTodoUseCase.execute(id, context.ownerId, expectedVersion ?? undefined);
+        return id;
+      },
+
+      todoChanged: ({ types }: { types?: (keyof typeof TodoEventType)[] | null }, context: Context) => {
+        const events = todoEventStream(
+          this.eventSubscriber,
+          context.ownerId,
+          types?.map(type => TodoEventType[type])
+        );
+        return {
+          next: async (): Promise<IteratorResult<object>> => {
+            const result = await events.next();
+            return result.done ? result : { value: { todoChanged: this.toChange(result.value) }, done: false };
+          },
+          return: () => events.return!(),
+          [Symbol.asyncIterator]() {
+            return this;
+          }
+        };
+      }
+    };
+  }
+
+  /**
+   * Each result is sent as a `next` event, followed by `complete` when the
+   * subscription ends; closing the connection ends the subscription
+   */
+  private async stream(res: Response, results: AsyncGenerator<ExecutionResult>): Promise<void> {
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+    res.flushHeaders();
+
+    const keepAlive = setInterval(() => res.write(':\n\n'), KEEP_ALIVE_INTERVAL_MS);
+    res.on('close', () => {
+      clearInterval(keepAlive);
+      void results.return(undefined);
+    });
+
+    for await (const result of results) {
+      res.write(`event: next\ndata: ${JSON.stringify(this.formatResult(result))}\n\n`);
+    }
+
+    clearInterval(keepAlive);
+    if (!res.writableEnded && !res.destroyed) {
+      res.end('event: complete\ndata:\n\n');
+    }
+  }
+
+  private toTodo(todo: TodoProps): object {
+    return {
+      ...todo,
+      dueDate: todo.dueDate ?? null,
+      createdAt: todo.createdAt?.toISOString(),
+      updatedAt: todo.updatedAt?.toISOString(),
+      history: async (_args: unknown, context: Context) => {
+        const entries = await this.getTodoHistoryUseCase.execute(todo.id!, context.ownerId);
+        return entries.map(entry => entry.toObject()).map(entry => ({
+          id: entry.id,
+          action: eventTypeName(entry.action),
+          changes: toFieldChanges(entry.changes),
+          actor: entry.actor ?? null,
+          occurredAt: entry.occurredAt.toISOString()
+        }));
+      }
+    };
+  }
+
+  private toChange(event: TodoEvent): object {
+    return {
+      id: event.id,
+      type: eventTypeName(event.type),
+      todoId: event.todoId,
+      occurredAt: event.occurredAt.toISOString(),
+      changes: toFieldChanges(event.changes),
+      todo: this.toTodo(event.todo)
+    };
+  }
+
+  private formatResult(result: ExecutionResult): object {
+    return {
+      ...(result.errors && { errors: result.errors.map(error => this.formatError(error)) }),
+      ...(result.data !== undefined && { data: result.data })
+    };
+  }
+
+  /**
+   * Messages of unexpected errors are not exposed
+   */
+  private formatError(error: GraphQLError): GraphQLFormattedError {
+    let cause: Error | undefined = error.originalError;
+    while (cause instanceof GraphQLError) {
+      cause = cause.originalError;
+    }
+    // Errors without an original error are raised by GraphQL for bad arguments or variables
+    const { code, status, detail } = cause === undefined
+      ? { code: 'BAD_USER_INPUT', status: 400, detail: error.message }
+      : toProblem(cause);
+    if (status >= 500) {
+      this.logger.error('GraphQL resolver failed', { path: error.path?.join('.'), error: cause });
+    }
+    return {
+      ...error.toJSON(),
+      message: status >= 500 ? detail : error.message,
+      extensions: { code, status }
+    };
+  }
+
+  private sendRequestError(res: Response, message: string, code: string): void {
+    res.status(400).json({ errors: [{ message, extensions: { code } }] });
+  }
+}
+
+function toDate(value: string | null | undefined): Date | undefined {
+  return value === undefined || value === null ? undefined : new Date(value);
+}
+
+/**
+ * Name of the GraphQL enum value for an event type
+ */
+function eventTypeName(type: TodoEventType): string {
+  return Object.keys(TodoEventType).find(key => TodoEventType[key as keyof typeof TodoEventType] === type)!;
+}
+
+function toFieldChanges(changes: Record<string, FieldChange>): object[] {
+  return Object.entries(changes).map(([field, change]) => ({
+    field,
+    from: JSON.stringify(change.from) ?? null,
+    to: JSON.stringify(change.to) ?? null
+  }));
+}
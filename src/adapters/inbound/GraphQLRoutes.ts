@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { GraphQLController } from './GraphQLController';
+
+export function createGraphQLRoutes(graphQLController: GraphQLController): Router {
+  const router = Router();
+
+  // Queries and mutations; subscriptions when the request accepts text/event-stream
+  router.post('/graphql', (req, res) => graphQLController.execute(req, res));
+
+  return router;
+}
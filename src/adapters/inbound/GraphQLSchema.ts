@@ -0,0 +1,217 @@
+/**
+ * GraphQL schema of the todo API, resolved by GraphQLController
+ * Dates are ISO 8601 strings. Enums use the values of the REST API, except
+ * event types, which are named after their TodoEventType key: CREATED for
+ * todo.created.
+ */
+export const TYPE_DEFS = `
+  enum TodoStatus {
+    PENDING
+    COMPLETED
+  }
+
+  enum TodoPriority {
+    NONE
+    LOW
+    MEDIUM
+    HIGH
+    URGENT
+  }
+
+  enum TodoSortField {
+    id
+    title
+    description
+    status
+    priority
+    createdAt
+    updatedAt
+  }
+
+  enum SortDirection {
+    asc
+    desc
+  }
+
+  enum TagMatch {
+    any
+    all
+  }
+
+  enum TodoEventType {
+    CREATED
+    UPDATED
+    COMPLETED
+    REOPENED
+    DELETED
+    RESTORED
+    PURGED
+  }
+
+  type DueDate {
+    date: String!
+    time: String
+    timeZone: String
+  }
+
+  type ChecklistItem {
+    id: ID!
+    text: String!
+    done: Boolean!
+  }
+
+  "A changed field with its previous and new value, both JSON-encoded"
+  type FieldChange {
+    field: String!
+    from: String
+    to: String
+  }
+
+  type HistoryEntry {
+    id: ID!
+    action: TodoEventType!
+    changes: [FieldChange!]!
+    actor: String
+    occurredAt: String!
+  }
+
+  type Todo {
+    id: ID!
+    title: String!
+    description: String!
+    status: TodoStatus!
+    priority: TodoPriority!
+    tags: [String!]!
+    checklist: [ChecklistItem!]!
+    requireChecklistCompletion: Boolean!
+    "Share of checklist items done, from 0 to 1"
+    checklistProgress: Float!
+    dueDate: DueDate
+    recurrence: String
+    seriesId: String
+    listId: ID
+    version: Int!
+    createdAt: String!
+    updatedAt: String!
+    "Changes to the todo, oldest first"
+    history: [HistoryEntry!]!
+  }
+
+  type TodoPage {
+    items: [Todo!]!
+    total: Int!
+    nextCursor: String
+  }
+
+  type Agenda {
+    timeZone: String!
+    date: String!
+    overdue: [Todo!]!
+    today: [Todo!]!
+    thisWeek: [Todo!]!
+    later: [Todo!]!
+  }
+
+  type TextRange {
+    start: Int!
+    end: Int!
+  }
+
+  type SearchHighlight {
+    field: String!
+    fragment: String!
+    matches: [TextRange!]!
+  }
+
+  type SearchHit {
+    todo: Todo!
+    score: Float!
+    highlights: [SearchHighlight!]!
+  }
+
+  type SearchResult {
+    items: [SearchHit!]!
+    total: Int!
+  }
+
+  type TodoChange {
+    id: ID!
+    type: TodoEventType!
+    todoId: ID!
+    occurredAt: String!
+    changes: [FieldChange!]!
+    "State of the todo once the change was saved"
+    todo: Todo!
+  }
+
+  input TodoFilter {
+    listId: ID
+    status: TodoStatus
+    priorities: [TodoPriority!]
+    tags: [String!]
+    tagMatch: TagMatch
+    createdFrom: String
+    createdTo: String
+    updatedFrom: String
+    updatedTo: String
+    titleContains: String
+  }
+
+  input DueDateInput {
+    date: String!
+    time: String
+    timeZone: String
+  }
+
+  input CreateTodoInput {
+    title: String!
+    description: String
+    priority: TodoPriority
+    tags: [String!]
+    requireChecklistCompletion: Boolean
+    dueDate: DueDateInput
+    recurrence: String
+    listId: ID
+  }
+
+  "Omitted fields are left as they are; null clears dueDate, recurrence and listId"
+  input UpdateTodoInput {
+    title: String
+    description: String
+    priority: TodoPriority
+    tags: [String!]
+    requireChecklistCompletion: Boolean
+    dueDate: DueDateInput
+    recurrence: String
+    listId: ID
+  }
+
+  type Query {
+    todo(id: ID!): Todo!
+    todos(
+      filter: TodoFilter
+      sortBy: TodoSortField
+      order: SortDirection
+      limit: Int
+      offset: Int
+      cursor: String
+    ): TodoPage!
+    agenda(timeZone: String): Agenda!
+    searchTodos(q: String!, limit: Int): SearchResult!
+  }
+
+  "expectedVersion rejects the mutation unless the todo is still at that version"
+  type Mutation {
+    createTodo(input: CreateTodoInput!): Todo!
+    updateTodo(id: ID!, input: UpdateTodoInput!, expectedVersion: Int): Todo!
+    completeTodo(id: ID!, expectedVersion: Int): Todo!
+    reopenTodo(id: ID!, expectedVersion: Int): Todo!
+    "Moves the todo to the trash and returns its id"
+    deleteTodo(id: ID!, expectedVersion: Int): ID!
+  }
+
+  type Subscription {
+    "Changes to the caller's todos, optionally of some types only"
+    todoChanged(types: [TodoEventType!]): TodoChange!
+  }
+`;
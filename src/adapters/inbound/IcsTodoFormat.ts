@@ -0,0 +1,305 @@
+import { TodoRecord } from '../../application/ports/ImportTodosUseCase';
+import { DueDateProps } from '../../domain/value-objects/TodoDueDate';
+import { TodoPriorityEnum } from '../../domain/value-objects/TodoPriority';
+import { TodoFormat } from './TodoFormat';
+import { ValidationException } from '../../domain/exceptions/DomainException';
+
+// iCalendar priorities go from 1 (highest) to 9 (lowest); 0 means undefined
+const ICS_PRIORITIES: Record<TodoPriorityEnum, number> = {
+  [TodoPriorityEnum.NONE]: 0,
+  [TodoPriorityEnum.LOW]: 7,
+  [TodoPriorityEnum.MEDIUM]: 5,
+  [TodoPriorityEnum.HIGH]: 3,
+  [TodoPriorityEnum.URGENT]: 1
+};
+
+// Octets per line before it is folded
+const MAX_LINE_LENGTH = 75;
+
+interface Property {
+  name: string;
+  params: Map<string, string>;
+  value: string;
+}
+
+/**
+ * iCalendar (RFC 5545) with one VTODO per todo
+ * Fields iCalendar has no property for travel as X-TODOHEX- properties.
+ * Due times refer to their IANA timezone by TZID, without a VTIMEZONE.
+ * On import, other components are ignored and floating or UTC due times
+ * are taken as UTC.
+ */
+export class IcsTodoFormat implements TodoFormat {
+  readonly contentType = 'text/calendar; charset=utf-8';
+  readonly extension = 'ics';
+
+  begin(): string {
+    return toLines(['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//todo-hex//Todo export//EN']);
+  }
+
+  write(record: TodoRecord): string {
+    const lines = ['BEGIN:VTODO', `UID:${escapeText(record.id as string)}`];
+    const updatedAt = record.updatedAt as string;
+    lines.push(`DTSTAMP:${toIcsDateTime(updatedAt)}`);
+    lines.push(`CREATED:${toIcsDateTime(record.createdAt as string)}`);
+    lines.push(`LAST-MODIFIED:${toIcsDateTime(updatedAt)}`);
+    lines.push(`SUMMARY:${escapeText(record.title as string)}`);
+    if (record.description) {
+      lines.push(`DESCRIPTION:${escapeText(record.description as string)}`);
+    }
+    lines.push(`STATUS:${record.status === 'COMPLETED' ? 'COMPLETED' : 'NEEDS-ACTION'}`);
+
+    const priority = ICS_PRIORITIES[record.priority as TodoPriorityEnum];
+    if (priority) {
+      lines.push(`PRIORITY:${priority}`);
+    }
+    const tags = record.tags as string[] | undefined;
+    if (tags?.length) {
+      lines.push(`CATEGORIES:${tags.map(escapeText).join(',')}`);
+    }
+
+    const dueDate = record.dueDate as DueDateProps | undefined;
+    if (dueDate?.time) {
+      lines.push(`DUE;TZID=${dueDate.timeZone}:${compactDate(dueDate.date)}T${dueDate.time.replace(':', '')}00`);
+    } else if (dueDate) {
+      lines.push(`DUE;VALUE=DATE:${compactDate(dueDate.date)}`);
+    }
+    if (record.recurrence) {
+      lines.push(`RRULE:${record.recurrence}`);
+    }
+
+    if (record.seriesId) {
+      lines.push(`X-TODOHEX-SERIES-ID:${escapeText(record.seriesId as string)}`);
+    }
+    if (record.listId) {
+      lines.push(`X-TODOHEX-LIST-ID:${escapeText(record.listId as string)}`);
+    }
+    if ((record.checklist as unknown[] | undefined)?.length) {
+      lines.push(`X-TODOHEX-CHECKLIST:${escapeText(JSON.stringify(record.checklist))}`);
+    }
+    if (record.requireChecklistCompletion) {
+      lines.push('X-TODOHEX-REQUIRE-CHECKLIST:TRUE');
+    }
+
+    lines.push('END:VTODO');
+    return toLines(lines);
+  }
+
+  end(): string {
+    return toLines(['END:VCALENDAR']);
+  }
+
+  parse(text: string): TodoRecord[] {
+    const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(line => line.trim() !== '');
+    if (lines.length === 0 || lines[0].trim().toUpperCase() !== 'BEGIN:VCALENDAR') {
+      throw new ValidationException('iCalendar import must start with BEGIN:VCALENDAR');
+    }
+
+    const records: TodoRecord[] = [];
+    let todo: Property[] | null = null;
+    // Components nested in a VTODO, such as alarms
+    let nested = 0;
+
+    for (const line of lines) {
+      const property = parseProperty(line);
+      if (todo === null) {
+        if (property.name === 'BEGIN' && property.value.toUpperCase() === 'VTODO') {
+          todo = [];
+        }
+      } else if (property.name === 'BEGIN') {
+        nested++;
+      } else if (property.name === 'END' && nested > 0) {
+        nested--;
+      } else if (property.name === 'END' && property.value.toUpperCase() === 'VTODO') {
+        records.push(toRecord(todo));
+        todo = null;
+      } else if (nested === 0) {
+        todo.push(property);
+      }
+    }
+
+    if (todo !== null) {
+      throw new ValidationException('iCalendar import has a VTODO without END:VTODO');
+    }
+    return records;
+  }
+}
+
+function toRecord(properties: Property[]): TodoRecord {
+  const record: TodoRecord = {};
+  const tags: string[] = [];
+
+  for (const { name, params, value } of properties) {
+    switch (name) {
+      case 'UID':
+        record.id = unescapeText(value);
+        break;
+      case 'SUMMARY':
+        record.title = unescapeText(value);
+        break;
+      case 'DESCRIPTION':
+        record.description = unescapeText(value);
+        break;
+      case 'STATUS':
+        record.status = value.toUpperCase() === 'COMPLETED' ? 'COMPLETED' : 'PENDING';
+        break;
+      case 'PRIORITY':
+        record.priority = fromIcsPriority(Number(value));
+        break;
+      case 'CATEGORIES':
+        tags.push(...splitList(value).map(unescapeText));
+        break;
+      case 'DUE':
+        record.dueDate = toDueDate(value, params);
+        break;
+      case 'RRULE':
+        record.recurrence = value;
+        break;
+      case 'CREATED':
+        record.createdAt = fromIcsDateTime(value);
+        break;
+      case 'LAST-MODIFIED':
+        record.updatedAt = fromIcsDateTime(value);
+        break;
+      case 'X-TODOHEX-SERIES-ID':
+        record.seriesId = unescapeText(value);
+        break;
+      case 'X-TODOHEX-LIST-ID':
+        record.listId = unescapeText(value);
+        break;
+      case 'X-TODOHEX-CHECKLIST':
+        try {
+          record.checklist = JSON.parse(unescapeText(value));
+        } catch {
+          record.checklist = unescapeText(value);
+        }
+        break;
+      case 'X-TODOHEX-REQUIRE-CHECKLIST':
+        record.requireChecklistCompletion = value.toUpperCase() === 'TRUE';
+        break;
+    }
+  }
+
+  if (tags.length > 0) {
+    record.tags = tags;
+  }
+  return record;
+}
+
+function parseProperty(line: string): Property {
+  // The value starts at the first colon outside a quoted parameter value
+  let colon = -1;
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      quoted = !quoted;
+    } else if (line[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) {
+    throw new ValidationException(`Malformed iCalendar line: ${line}`);
+  }
+
+  const [name, ...params] = line.slice(0, colon).split(';');
+  return {
+    name: name.trim().toUpperCase(),
+    params: new Map(params.map(param => {
+      const [key, ...value] = param.split('=');
+      return [key.toUpperCase(), value.join('=').replace(/^"|"$/g, '')];
+    })),
+    value: line.slice(colon + 1)
+  };
+}
+
+function toDueDate(value: string, params: Map<string, string>): Partial<DueDateProps> {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z?))?$/.exec(value.trim());
+  if (!match) {
+    // Rejected by the due date validation
+    return { date: value };
+  }
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  if (match[4] === undefined) {
+    return { date };
+  }
+  const timeZone = match[6] ? 'UTC' : params.get('TZID') ?? 'UTC';
+  return { date, time: `${match[4]}:${match[5]}`, timeZone };
+}
+
+function fromIcsPriority(priority: number): TodoPriorityEnum {
+  if (!Number.isInteger(priority) || priority < 1 || priority > 9) {
+    return TodoPriorityEnum.NONE;
+  }
+  if (priority === 1) {
+    return TodoPriorityEnum.URGENT;
+  }
+  if (priority <= 4) {
+    return TodoPriorityEnum.HIGH;
+  }
+  return priority === 5 ? TodoPriorityEnum.MEDIUM : TodoPriorityEnum.LOW;
+}
+
+function compactDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function toIcsDateTime(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * UTC or floating date-time, both read as UTC
+ */
+function fromIcsDateTime(value: string): string {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z?$/.exec(value.trim());
+  if (!match) {
+    // Rejected by the date validation
+    return value;
+  }
+  return `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}Z`;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+}
+
+/**
+ * Split a list value on the commas that are not escaped
+ */
+function splitList(value: string): string[] {
+  return value.split(/(?<!\\),/).filter(item => item !== '');
+}
+
+function toLines(lines: string[]): string {
+  return lines.map(fold).join('');
+}
+
+/**
+ * Fold a content line into lines of at most 75 octets, without splitting characters
+ */
+function fold(line: string): string {
+  let folded = '';
+  let current = '';
+  let length = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (length + size > MAX_LINE_LENGTH) {
+      folded += `${current}\r\n `;
+      current = '';
+      // The leading space counts towards the continuation line
+      length = 1;
+    }
+    current += char;
+    length += size;
+  }
+  return `${folded}${current}\r\n`;
+}
@@ -0,0 +1,94 @@
+import { createHash } from 'crypto';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { IdempotentRequestsUseCase } from '../../application/ports/IdempotentRequestsUseCase';
+import { StoredResponse } from '../../application/ports/IdempotencyStore';
+import { Logger } from '../../application/ports/Logger';
+import { InvalidRequestException } from '../../domain/exceptions/DomainException';
+import { currentUserId } from './AuthMiddleware';
+
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+const MAX_KEY_LENGTH = 255;
+// Headers given again with a stored response
+const STORED_HEADERS = ['content-type', 'etag', 'location'];
+
+/**
+ * Inbound Adapter - Honours an `Idempotency-Key` header on mutating requests
+ * The first response to a key is stored and given again, marked with
+ * `Idempotent-Replayed: true`, to retries of the same request. Server errors
+ * and responses that are not sent in one piece free the key instead, so that
+ * the request can be retried. Only valid behind the auth middleware.
+ */
+export function createIdempotencyMiddleware(
+  idempotentRequestsUseCase: IdempotentRequestsUseCase,
+  logger: Logger
+): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const key = req.get('Idempotency-Key');
+    if (key === undefined || !MUTATING_METHODS.includes(req.method)) {
+      next();
+      return;
+    }
+    if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+      throw new InvalidRequestException([
+        { field: 'header.Idempotency-Key', message: `must be 1 to ${MAX_KEY_LENGTH} characters long` }
+      ]);
+    }
+
+    const ownerId = currentUserId(req);
+    const stored = await idempotentRequestsUseCase.start(ownerId, key, fingerprint(req));
+    if (stored) {
+      res.status(stored.status).set(stored.headers).set('Idempotent-Replayed', 'true').send(stored.body);
+      return;
+    }
+
+    let settled = false;
+    const send = res.send.bind(res);
+    // res.json and res.send with an object end up here again with the serialized body
+    res.send = (body?: unknown): Response => {
+      if (settled || (body !== undefined && typeof body !== 'string' && !Buffer.isBuffer(body))) {
+        return send(body);
+      }
+      settled = true;
+      const response = toStoredResponse(res, body);
+      // The response only goes out once stored, so that a retry after it finds it
+      const store = response.status >= 500
+        ? idempotentRequestsUseCase.abandon(ownerId, key)
+        : idempotentRequestsUseCase.finish(ownerId, key, response);
+      store
+        .catch(error => logger.error('Storing the response to an idempotency key failed', { idempotencyKey: key, error }))
+        .finally(() => send(body));
+      return res;
+    };
+    res.on('close', () => {
+      if (!settled) {
+        settled = true;
+        idempotentRequestsUseCase.abandon(ownerId, key)
+          .catch(error => logger.error('Releasing an idempotency key failed', { idempotencyKey: key, error }));
+      }
+    });
+
+    next();
+  };
+}
+
+/**
+ * Method, URL and body; the same key with another request is rejected
+ */
+function fingerprint(req: Request): string {
+  return createHash('sha256').update(JSON.stringify([req.method, req.originalUrl, req.body ?? null])).digest('hex');
+}
+
+function toStoredResponse(res: Response, body: string | Buffer | undefined): StoredResponse {
+  const headers: Record<string, string> = {};
+  for (const name of STORED_HEADERS) {
+    const value = res.get(name);
+    if (value !== undefined) {
+      headers[name] = value;
+    }
+  }
+  return {
+    status: res.statusCode,
+    headers,
+    body: Buffer.isBuffer(body) ? body.toString('utf8') : body ?? ''
+  };
+}
@@ -0,0 +1,116 @@
+import { Request, Response } from 'express';
+import { ExportTodosUseCase } from '../../application/ports/ExportTodosUseCase';
+import { DuplicateStrategy, ImportTodosUseCase } from '../../application/ports/ImportTodosUseCase';
+import { ValidationException } from '../../domain/exceptions/DomainException';
+import { currentUserId } from './AuthMiddleware';
+import { TodoFormat, toRecord } from './TodoFormat';
+import { JsonTodoFormat } from './JsonTodoFormat';
+import { CsvTodoFormat } from './CsvTodoFormat';
+import { IcsTodoFormat } from './IcsTodoFormat';
+
+const FORMATS: Record<string, TodoFormat> = {
+  json: new JsonTodoFormat(),
+  csv: new CsvTodoFormat(),
+  ics: new IcsTodoFormat()
+};
+
+/**
+ * Inbound Adapter - REST API Controller for moving todos in and out as files
+ * Exports are streamed; imports arrive as raw text and are parsed here
+ */
+export class ImportExportController {
+  constructor(
+    private readonly exportTodosUseCase: ExportTodosUseCase,
+    private readonly importTodosUseCase: ImportTodosUseCase
+  ) {}
+
+  /**
+   * A failure once the export has started can only cut the download short
+   */
+  async exportTodos(req: Request, res: Response): Promise<void> {
+    const format = this.formatNamed(this.queryString(req.query.format) ?? 'json');
+    const todos = this.exportTodosUseCase.execute(currentUserId(req));
+
+    res.status(200).set({
+      'Content-Type': format.contentType,
+      'Content-Disposition': `attachment; filename="todos.${format.extension}"`
+    });
+    await this.send(res, format.begin());
+    let index = 0;
+    for await (const todo of todos) {
+      if (res.destroyed) {
+        return;
+      }
+      await this.send(res, format.write(toRecord(todo.toObject()), index++));
+    }
+    res.end(format.end());
+  }
+
+  async importTodos(req: Request, res: Response): Promise<void> {
+    const format = this.formatNamed(this.queryString(req.query.format) ?? this.formatOfContentType(req));
+    const records = format.parse(typeof req.body === 'string' ? req.body : '');
+    const result = await this.importTodosUseCase.execute({
+      ownerId: currentUserId(req),
+      records,
+      onDuplicate: this.queryString(req.query.onDuplicate) as DuplicateStrategy | undefined,
+      dryRun: this.queryBoolean(req.query.dryRun)
+    });
+    res.status(200).json(result);
+  }
+
+  /**
+   * Write a chunk, waiting for the client to catch up when its buffer is full
+   */
+  private async send(res: Response, chunk: string): Promise<void> {
+    if (chunk === '' || res.write(chunk)) {
+      return;
+    }
+    await new Promise<void>(resolve => {
+      const done = (): void => {
+        res.off('drain', done);
+        res.off('close', done);
+        resolve();
+      };
+      res.on('drain', done);
+      res.on('close', done);
+    });
+  }
+
+  private formatNamed(name: string): TodoFormat {
+    if (!Object.prototype.hasOwnProperty.call(FORMATS, name)) {
+      throw new ValidationException(`Format must be one of ${Object.keys(FORMATS).join(', ')}`);
+    }
+    return FORMATS[name];
+  }
+
+  private formatOfContentType(req: Request): string {
+    if (req.is('text/csv')) {
+      return 'csv';
+    }
+    if (req.is('text/calendar')) {
+      return 'ics';
+    }
+    return 'json';
+  }
+
+  private queryString(value: unknown): string | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (typeof value !== 'string') {
+      throw new ValidationException('Query parameters must not be repeated');
+    }
+    return value;
+  }
+
+  private queryBoolean(value: unknown): boolean | undefined {
+    const raw = this.queryString(value);
+    if (raw === undefined) {
+      return undefined;
+    }
+    if (raw !== 'true' && raw !== 'false') {
+      throw new ValidationException('Boolean query parameters must be true or false');
+    }
+    return raw === 'true';
+  }
+}
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { ImportExportController } from './ImportExportController';
+
+export function createImportExportRoutes(importExportController: ImportExportController): Router {
+  const router = Router();
+
+  // Download every todo as JSON, CSV or iCalendar
+  router.get('/todos/export', (req, res) => importExportController.exportTodos(req, res));
+
+  // Upload todos in one of the export formats
+  router.post('/todos/import', (req, res) => importExportController.importTodos(req, res));
+
+  return router;
+}
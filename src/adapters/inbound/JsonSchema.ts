@@ -0,0 +1,149 @@
+import { FieldError } from '../../domain/exceptions/DomainException';
+
+type JsonType = 'string' | 'integer' | 'number' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * The subset of JSON Schema used by the request schemas
+ * Schemas are plain objects, so they go into the OpenAPI document as they are.
+ */
+export interface JsonSchema {
+  type?: JsonType | JsonType[];
+  description?: string;
+  example?: unknown;
+  enum?: readonly unknown[];
+  format?: 'date-time';
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  additionalProperties?: boolean;
+  // Only checked together with a discriminator, whose value picks the branch listing it in its enum
+  oneOf?: JsonSchema[];
+  discriminator?: { propertyName: string };
+  // Only used for response schemas, which are documented but not validated
+  $ref?: string;
+}
+
+/**
+ * Checks a value against a schema and returns every mismatch, or none
+ */
+export function validateSchema(schema: JsonSchema, value: unknown, field: string): FieldError[] {
+  const types = schema.type === undefined ? undefined : Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types && !types.some(type => hasType(value, type))) {
+    return [{ field, message: `must be ${types.map(article).join(' or ')}` }];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [{ field, message: `must be one of ${schema.enum.join(', ')}` }];
+  }
+
+  if (typeof value === 'string') {
+    return validateString(schema, value, field);
+  } else if (typeof value === 'number') {
+    return validateNumber(schema, value, field);
+  } else if (Array.isArray(value)) {
+    return validateArray(schema, value, field);
+  } else if (typeof value === 'object' && value !== null) {
+    return validateObject(schema, value as Record<string, unknown>, field);
+  }
+  return [];
+}
+
+function hasType(value: unknown, type: JsonType): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function article(type: JsonType): string {
+  if (type === 'null') {
+    return 'null';
+  }
+  return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+}
+
+function validateString(schema: JsonSchema, value: string, field: string): FieldError[] {
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    return [{ field, message: schema.minLength === 1 ? 'must not be empty' : `must have at least ${schema.minLength} characters` }];
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    return [{ field, message: `must have at most ${schema.maxLength} characters` }];
+  }
+  if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+    return [{ field, message: `must match ${schema.pattern}` }];
+  }
+  if (schema.format === 'date-time' && Number.isNaN(Date.parse(value))) {
+    return [{ field, message: 'must be an ISO 8601 date' }];
+  }
+  return [];
+}
+
+function validateNumber(schema: JsonSchema, value: number, field: string): FieldError[] {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    return [{ field, message: `must be at least ${schema.minimum}` }];
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    return [{ field, message: `must be at most ${schema.maximum}` }];
+  }
+  return [];
+}
+
+function validateArray(schema: JsonSchema, value: unknown[], field: string): FieldError[] {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    return [{ field, message: `must have at least ${schema.minItems} item(s)` }];
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    return [{ field, message: `must have at most ${schema.maxItems} items` }];
+  }
+  const itemSchema = schema.items;
+  return itemSchema ? value.flatMap((item, index) => validateSchema(itemSchema, item, `${field}[${index}]`)) : [];
+}
+
+function validateObject(schema: JsonSchema, value: Record<string, unknown>, field: string): FieldError[] {
+  if (schema.oneOf && schema.discriminator) {
+    return validateBranch(schema, value, field);
+  }
+
+  const errors: FieldError[] = [];
+  for (const name of schema.required ?? []) {
+    if (value[name] === undefined) {
+      errors.push({ field: `${field}.${name}`, message: 'is required' });
+    }
+  }
+  for (const [name, property] of Object.entries(value)) {
+    const propertySchema = schema.properties?.[name];
+    if (propertySchema) {
+      errors.push(...validateSchema(propertySchema, property, `${field}.${name}`));
+    } else if (schema.additionalProperties === false) {
+      errors.push({ field: `${field}.${name}`, message: 'is not allowed' });
+    }
+  }
+  return errors;
+}
+
+function validateBranch(schema: JsonSchema, value: Record<string, unknown>, field: string): FieldError[] {
+  const { propertyName } = schema.discriminator!;
+  const branches = schema.oneOf!;
+  const names = branches.flatMap(branch => branch.properties?.[propertyName]?.enum ?? []);
+  const branch = branches.find(branch => branch.properties?.[propertyName]?.enum?.includes(value[propertyName]));
+  if (!branch) {
+    return [{ field: `${field}.${propertyName}`, message: `must be one of ${names.join(', ')}` }];
+  }
+  return validateSchema(branch, value, field);
+}
@@ -0,0 +1,36 @@
+import { TodoRecord } from '../../application/ports/ImportTodosUseCase';
+import { TodoFormat } from './TodoFormat';
+import { ValidationException } from '../../domain/exceptions/DomainException';
+
+/**
+ * A JSON array of todo records
+ */
+export class JsonTodoFormat implements TodoFormat {
+  readonly contentType = 'application/json';
+  readonly extension = 'json';
+
+  begin(): string {
+    return '[';
+  }
+
+  write(record: TodoRecord, index: number): string {
+    return `${index > 0 ? ',' : ''}\n  ${JSON.stringify(record)}`;
+  }
+
+  end(): string {
+    return '\n]\n';
+  }
+
+  parse(text: string): TodoRecord[] {
+    let records: unknown;
+    try {
+      records = JSON.parse(text);
+    } catch {
+      throw new ValidationException('Import is not valid JSON');
+    }
+    if (!Array.isArray(records)) {
+      throw new ValidationException('JSON import must be an array of todos');
+    }
+    return records;
+  }
+}
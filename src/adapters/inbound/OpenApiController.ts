@@ -0,0 +1,46 @@
+import { Request, Response } from 'express';
+import { dirname, join } from 'path';
+import { NotFoundException } from '../../domain/exceptions/DomainException';
+
+// Swagger UI is served from the installed swagger-ui-dist package, not from a CDN
+const SWAGGER_UI_DIRECTORY = dirname(require.resolve('swagger-ui-dist/package.json'));
+const SWAGGER_UI_ASSETS = ['swagger-ui.css', 'swagger-ui-bundle.js'];
+
+/**
+ * Inbound Adapter - Serves the OpenAPI document and a page to try it out
+ */
+export class OpenApiController {
+  constructor(private readonly document: object) {}
+
+  getDocument(req: Request, res: Response): void {
+    res.status(200).json(this.document);
+  }
+
+  getDocs(req: Request, res: Response): void {
+    // Relative to /api/docs, so that the page also works behind a path prefix
+    res.status(200).type('html').send(`<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Todo API</title>
+  <link rel="stylesheet" href="docs/swagger-ui.css">
+</head>
+<body>
+  <div id="docs"></div>
+  <script src="docs/swagger-ui-bundle.js"></script>
+  <script>
+    SwaggerUIBundle({ url: 'openapi.json', dom_id: '#docs', persistAuthorization: true });
+  </script>
+</body>
+</html>
+`);
+  }
+
+  getDocsAsset(req: Request, res: Response): void {
+    const asset = String(req.params.asset);
+    if (!SWAGGER_UI_ASSETS.includes(asset)) {
+      throw new NotFoundException(`Route ${req.method} ${req.path} not found`, 'ROUTE_NOT_FOUND');
+    }
+    res.sendFile(join(SWAGGER_UI_DIRECTORY, asset), { maxAge: '1d' });
+  }
+}
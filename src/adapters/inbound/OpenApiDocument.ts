@@ -0,0 +1,127 @@
+import { JsonSchema } from './JsonSchema';
+import { RouteSchema } from './RequestValidation';
+import { TODO_COMPONENT_SCHEMAS, TODO_ROUTE_SCHEMAS } from './TodoSchemas';
+
+export interface OpenApiInfo {
+  title: string;
+  version: string;
+  // Base path of the routes, e.g. /api
+  serverUrl: string;
+}
+
+const PROBLEM_SCHEMA: JsonSchema = {
+  type: 'object',
+  description: 'RFC 7807 problem details',
+  properties: {
+    type: { type: 'string' },
+    title: { type: 'string' },
+    status: { type: 'integer' },
+    detail: { type: 'string' },
+    code: { type: 'string', description: 'Stable error code', example: 'INVALID_REQUEST' },
+    instance: { type: 'string' },
+    errors: {
+      type: 'array',
+      description: 'Offending fields of an INVALID_REQUEST',
+      items: {
+        type: 'object',
+        properties: { field: { type: 'string', example: 'body.title' }, message: { type: 'string', example: 'must be a string' } }
+      }
+    }
+  }
+};
+
+// Honoured on every mutating route by the idempotency middleware
+const IDEMPOTENCY_KEY_PARAMETER = {
+  name: 'Idempotency-Key',
+  in: 'header',
+  required: false,
+  description: 'Retries with the same key get the first response again, with Idempotent-Replayed: true',
+  schema: { type: 'string', minLength: 1, maxLength: 255 }
+};
+
+/**
+ * OpenAPI 3.1 document generated from the route schemas
+ * Request schemas are copied in as they are, since OpenAPI 3.1 schemas are JSON Schema.
+ */
+export function createOpenApiDocument(info: OpenApiInfo, routes: RouteSchema[], schemas: Record<string, JsonSchema>): object {
+  const paths: Record<string, Record<string, object>> = {};
+  for (const route of routes) {
+    const path = route.path.replace(/:(\w+)/g, '{$1}');
+    paths[path] = { ...paths[path], [route.method]: toOperation(route) };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: { title: info.title, version: info.version },
+    servers: [{ url: info.serverUrl }],
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'Token from POST /api/auth/login' }
+      },
+      schemas: { ...schemas, Problem: PROBLEM_SCHEMA }
+    }
+  };
+}
+
+/**
+ * The document served at /api/openapi.json
+ */
+export function createApiDocument(): object {
+  return createOpenApiDocument(
+    { title: 'Todo API', version: '1.0.0', serverUrl: '/api' },
+    Object.values(TODO_ROUTE_SCHEMAS),
+    TODO_COMPONENT_SCHEMAS
+  );
+}
+
+function toOperation(route: RouteSchema): object {
+  const parameters = [
+    ...toParameters(route.params, 'path'),
+    ...toParameters(route.query, 'query'),
+    ...toParameters(route.headers, 'header'),
+    ...(route.method === 'get' ? [] : [IDEMPOTENCY_KEY_PARAMETER])
+  ];
+  const responses = Object.fromEntries(Object.entries(route.responses).map(([status, response]) => {
+    const schema = response.schema ?? (Number(status) >= 400 ? { $ref: '#/components/schemas/Problem' } : undefined);
+    const contentType = response.contentType ?? (Number(status) >= 400 ? 'application/problem+json' : 'application/json');
+    return [status, {
+      description: response.description,
+      ...(response.headers && {
+        headers: Object.fromEntries(response.headers.map(name => [name, { schema: { type: 'string' } }]))
+      }),
+      ...(schema && { content: { [contentType]: { schema } } })
+    }];
+  }));
+
+  const problem = { 'application/problem+json': { schema: { $ref: '#/components/schemas/Problem' } } };
+  return {
+    operationId: route.operationId,
+    summary: route.summary,
+    ...(route.description && { description: route.description }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(route.body && { requestBody: { required: true, content: { 'application/json': { schema: route.body } } } }),
+    responses: {
+      ...responses,
+      401: { description: 'Missing or invalid bearer token', content: problem },
+      ...(route.method !== 'get' && {
+        409: (responses[409] as object | undefined) ?? { description: 'A request with the same Idempotency-Key is in progress', content: problem },
+        422: { description: 'The Idempotency-Key was used for a different request', content: problem }
+      })
+    }
+  };
+}
+
+function toParameters(schema: JsonSchema | undefined, location: 'path' | 'query' | 'header'): object[] {
+  return Object.entries(schema?.properties ?? {}).map(([name, property]) => {
+    const { description, ...propertySchema } = property;
+    return {
+      name,
+      in: location,
+      required: location === 'path' || (schema?.required?.includes(name) ?? false),
+      ...(description && { description }),
+      schema: propertySchema
+    };
+  });
+}
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { OpenApiController } from './OpenApiController';
+
+export function createOpenApiRoutes(openApiController: OpenApiController): Router {
+  const router = Router();
+
+  // OpenAPI 3.1 document of the todo routes
+  router.get('/openapi.json', (req, res) => openApiController.getDocument(req, res));
+
+  // Interactive documentation
+  router.get('/docs', (req, res) => openApiController.getDocs(req, res));
+  router.get('/docs/:asset', (req, res) => openApiController.getDocsAsset(req, res));
+
+  return router;
+}
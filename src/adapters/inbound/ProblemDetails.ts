@@ -0,0 +1,112 @@
+import { STATUS_CODES } from 'http';
+import { ErrorRequestHandler } from 'express';
+import {
+  AuthenticationException,
+  ConflictException,
+  DomainException,
+  FieldError,
+  IdempotencyKeyReusedException,
+  InfrastructureException,
+  InvalidRequestException,
+  InvalidStateTransitionException,
+  NotFoundException,
+  ValidationException,
+  VersionMismatchException
+} from '../../domain/exceptions/DomainException';
+import { Logger } from '../../application/ports/Logger';
+
+/**
+ * RFC 7807 problem details, with the stable error code as an extension member
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  code: string;
+  instance?: string;
+  // Every offending field of a request that does not match its schema
+  errors?: FieldError[];
+}
+
+// Errors raised by Express body parsers carry their own status
+interface HttpError {
+  status: number;
+  expose?: boolean;
+  message: string;
+}
+
+const HTTP_ERROR_CODES: Record<number, string> = {
+  400: 'MALFORMED_REQUEST',
+  413: 'PAYLOAD_TOO_LARGE',
+  415: 'UNSUPPORTED_MEDIA_TYPE'
+};
+
+/**
+ * Status and code of an error, shared by every inbound adapter
+ * Unexpected errors become a 500 without their message, which may reveal internals.
+ */
+export function toProblem(error: unknown): ProblemDetails {
+  const [status, code, detail] = classify(error);
+  return {
+    type: 'about:blank',
+    title: STATUS_CODES[status] ?? 'Error',
+    status,
+    detail,
+    code,
+    ...(error instanceof InvalidRequestException && { errors: error.errors })
+  };
+}
+
+function classify(error: unknown): [number, string, string] {
+  if (error instanceof VersionMismatchException) {
+    return [412, error.code, error.message];
+  } else if (error instanceof ConflictException || error instanceof InvalidStateTransitionException) {
+    return [409, error.code, error.message];
+  } else if (error instanceof IdempotencyKeyReusedException) {
+    return [422, error.code, error.message];
+  } else if (error instanceof NotFoundException) {
+    return [404, error.code, error.message];
+  } else if (error instanceof ValidationException || error instanceof DomainException) {
+    return [400, error.code, error.message];
+  } else if (error instanceof AuthenticationException) {
+    return [401, error.code, error.message];
+  } else if (error instanceof InfrastructureException) {
+    return [503, error.code, error.message];
+  } else if (isHttpError(error)) {
+    return [error.status, HTTP_ERROR_CODES[error.status] ?? 'BAD_REQUEST', error.message];
+  }
+  return [500, 'INTERNAL_ERROR', 'Internal server error'];
+}
+
+function isHttpError(error: unknown): error is HttpError {
+  const status = (error as HttpError | null)?.status;
+  return typeof status === 'number' && status >= 400 && status < 500 && (error as HttpError).expose === true;
+}
+
+/**
+ * Inbound Adapter - Turns errors thrown by routes into application/problem+json
+ * Must be registered after every route.
+ */
+export function createErrorMiddleware(logger: Logger): ErrorRequestHandler {
+  return (error, req, res, next) => {
+    // Too late for an error status, e.g. once an export has started; Express closes the connection
+    if (res.headersSent) {
+      next(error);
+      return;
+    }
+
+    const problem = toProblem(error);
+    if (problem.status >= 500) {
+      logger.error('Request failed', {
+        method: req.method,
+        path: req.originalUrl,
+        error: error instanceof InfrastructureException ? error.cause ?? error : error
+      });
+    }
+    if (error instanceof AuthenticationException) {
+      res.set('WWW-Authenticate', 'Bearer');
+    }
+    res.status(problem.status).type('application/problem+json').json({ ...problem, instance: req.originalUrl });
+  };
+}
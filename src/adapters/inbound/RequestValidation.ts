@@ -0,0 +1,84 @@
+import { RequestHandler } from 'express';
+import { FieldError, InvalidRequestException } from '../../domain/exceptions/DomainException';
+import { JsonSchema, validateSchema } from './JsonSchema';
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+export interface ResponseSchema {
+  description: string;
+  schema?: JsonSchema;
+  // Names of the headers set on the response, e.g. ETag
+  headers?: string[];
+  // application/json, or application/problem+json from 400 on, when omitted
+  contentType?: string;
+}
+
+/**
+ * Declarative description of a route, used both to check requests and to
+ * document the route in the OpenAPI document
+ * `params`, `query` and `headers` are object schemas with one property per
+ * parameter; header names are matched case-insensitively.
+ */
+export interface RouteSchema {
+  method: HttpMethod;
+  // Express path, e.g. /todos/:id
+  path: string;
+  operationId: string;
+  summary: string;
+  description?: string;
+  params?: JsonSchema;
+  query?: JsonSchema;
+  headers?: JsonSchema;
+  body?: JsonSchema;
+  responses: Record<number, ResponseSchema>;
+}
+
+/**
+ * Middleware rejecting requests that do not match the route schema with
+ * 400 INVALID_REQUEST, listing every offending field
+ */
+export function validateRequest(route: RouteSchema): RequestHandler {
+  return (req, res, next) => {
+    const errors: FieldError[] = [];
+    if (route.params) {
+      errors.push(...validateSchema(route.params, req.params, 'path'));
+    }
+    if (route.query) {
+      errors.push(...validateSchema(route.query, coerceParameters(route.query, req.query), 'query'));
+    }
+    if (route.headers) {
+      const headers = Object.fromEntries(
+        Object.keys(route.headers.properties ?? {})
+          .filter(name => req.get(name) !== undefined)
+          .map(name => [name, req.get(name)])
+      );
+      errors.push(...validateSchema(route.headers, headers, 'header'));
+    }
+    if (route.body) {
+      errors.push(...validateSchema(route.body, req.body, 'body'));
+    }
+
+    if (errors.length > 0) {
+      throw new InvalidRequestException(errors);
+    }
+    next();
+  };
+}
+
+/**
+ * Query parameters arrive as strings; numbers and booleans are converted
+ * before checking them, as the controllers do before using them
+ */
+export function coerceParameters(schema: JsonSchema, values: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(values).map(([name, value]) => {
+    const type = schema.properties?.[name]?.type;
+    if (typeof value !== 'string') {
+      return [name, value];
+    } else if ((type === 'integer' || type === 'number') && value.trim() !== '' && !Number.isNaN(Number(value))) {
+      return [name, Number(value)];
+    } else if (type === 'boolean' && (value === 'true' || value === 'false')) {
+      return [name, value === 'true'];
+    }
+    return [name, value];
+  }));
+}
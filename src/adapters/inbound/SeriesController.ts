@@ -0,0 +1,37 @@
+import { Request, Response } from 'express';
+import { GetSeriesUseCase } from '../../application/ports/GetSeriesUseCase';
+import { UpdateSeriesUseCase } from '../../application/ports/UpdateSeriesUseCase';
+import { EndSeriesUseCase } from '../../application/ports/EndSeriesUseCase';
+import { currentUserId } from './AuthMiddleware';
+
+/**
+ * Inbound Adapter - REST API Controller for recurring todo series
+ */
+export class SeriesController {
+  constructor(
+    private readonly getSeriesUseCase: GetSeriesUseCase,
+    private readonly updateSeriesUseCase: UpdateSeriesUseCase,
+    private readonly endSeriesUseCase: EndSeriesUseCase
+  ) {}
+
+  async getSeries(req: Request, res: Response): Promise<void> {
+    const { seriesId } = req.params;
+    const todos = await this.getSeriesUseCase.execute(seriesId, currentUserId(req));
+    res.status(200).json(todos.map(todo => todo.toObject()));
+  }
+
+  async updateSeries(req: Request, res: Response): Promise<void> {
+    const { seriesId } = req.params;
+    const { title, description, priority, tags, recurrence } = req.body;
+    const todos = await this.updateSeriesUseCase.execute({
+      seriesId, ownerId: currentUserId(req), title, description, priority, tags, recurrence
+    });
+    res.status(200).json(todos.map(todo => todo.toObject()));
+  }
+
+  async endSeries(req: Request, res: Response): Promise<void> {
+    const { seriesId } = req.params;
+    const todos = await this.endSeriesUseCase.execute(seriesId, currentUserId(req));
+    res.status(200).json(todos.map(todo => todo.toObject()));
+  }
+}
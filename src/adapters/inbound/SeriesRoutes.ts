@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { SeriesController } from './SeriesController';
+
+export function createSeriesRoutes(seriesController: SeriesController): Router {
+  const router = Router();
+
+  // Get every occurrence of a recurring todo
+  router.get('/series/:seriesId', (req, res) => seriesController.getSeries(req, res));
+
+  // Edit the pending occurrences of a series
+  router.patch('/series/:seriesId', (req, res) => seriesController.updateSeries(req, res));
+
+  // Stop a series from recurring
+  router.post('/series/:seriesId/end', (req, res) => seriesController.endSeries(req, res));
+
+  return router;
+}
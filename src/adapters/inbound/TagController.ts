@@ -0,0 +1,34 @@
+import { Request, Response } from 'express';
+import { ListTagsUseCase } from '../../application/ports/ListTagsUseCase';
+import { RenameTagUseCase } from '../../application/ports/RenameTagUseCase';
+import { DeleteTagUseCase } from '../../application/ports/DeleteTagUseCase';
+import { currentUserId } from './AuthMiddleware';
+
+/**
+ * Inbound Adapter - REST API Controller for tag management
+ */
+export class TagController {
+  constructor(
+    private readonly listTagsUseCase: ListTagsUseCase,
+    private readonly renameTagUseCase: RenameTagUseCase,
+    private readonly deleteTagUseCase: DeleteTagUseCase
+  ) {}
+
+  async listTags(req: Request, res: Response): Promise<void> {
+    const tags = await this.listTagsUseCase.execute(currentUserId(req));
+    res.status(200).json(tags);
+  }
+
+  async renameTag(req: Request, res: Response): Promise<void> {
+    const { tag } = req.params;
+    const { name } = req.body;
+    const updated = await this.renameTagUseCase.execute({ ownerId: currentUserId(req), from: tag, to: name });
+    res.status(200).json({ updated });
+  }
+
+  async deleteTag(req: Request, res: Response): Promise<void> {
+    const { tag } = req.params;
+    await this.deleteTagUseCase.execute(tag, currentUserId(req));
+    res.status(204).send();
+  }
+}
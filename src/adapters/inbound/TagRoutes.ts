@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { TagController } from './TagController';
+
+export function createTagRoutes(tagController: TagController): Router {
+  const router = Router();
+
+  // Get all tags with usage counts
+  router.get('/tags', (req, res) => tagController.listTags(req, res));
+
+  // Rename a tag on every todo
+  router.patch('/tags/:tag', (req, res) => tagController.renameTag(req, res));
+
+  // Remove a tag from every todo
+  router.delete('/tags/:tag', (req, res) => tagController.deleteTag(req, res));
+
+  return router;
+}
@@ -0,0 +1,446 @@
+import { parseArgs, ParseArgsConfig } from 'util';
+import { CreateTodoUseCase } from '../../application/ports/CreateTodoUseCase';
+import { GetTodoUseCase } from '../../application/ports/GetTodoUseCase';
+import { ListTodosUseCase } from '../../application/ports/ListTodosUseCase';
+import { UpdateTodoUseCase } from '../../application/ports/UpdateTodoUseCase';
+import { CompleteTodoUseCase } from '../../application/ports/CompleteTodoUseCase';
+import { ReopenTodoUseCase } from '../../application/ports/ReopenTodoUseCase';
+import { DeleteTodoUseCase } from '../../application/ports/DeleteTodoUseCase';
+import { LoginUseCase } from '../../application/ports/LoginUseCase';
+import { AuthenticateUseCase } from '../../application/ports/AuthenticateUseCase';
+import { SortDirection, TagMatch, TodoSortField } from '../../application/ports/TodoRepository';
+import { Todo, TodoProps } from '../../domain/entities/Todo';
+import { DueDateProps } from '../../domain/value-objects/TodoDueDate';
+import { TodoStatusEnum } from '../../domain/value-objects/TodoStatus';
+import { TodoPriorityEnum } from '../../domain/value-objects/TodoPriority';
+import {
+  AuthenticationException,
+  ConflictException,
+  DomainException,
+  InvalidStateTransitionException,
+  NotFoundException,
+  ValidationException
+} from '../../domain/exceptions/DomainException';
+
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;
+// Bad arguments, or a value the domain rejected
+export const EXIT_USAGE = 2;
+export const EXIT_NOT_FOUND = 3;
+// Stale --if-version or a concurrent write
+export const EXIT_CONFLICT = 4;
+export const EXIT_AUTH = 5;
+
+const MAX_TITLE_WIDTH = 50;
+
+export const USAGE = `Usage: todo <command> [options]
+
+Commands:
+  add <title>        Create a todo
+  list               List todos
+  show <id>          Show a todo
+  edit <id>          Change fields of a todo
+  done <id>          Complete a todo
+  reopen <id>        Reopen a completed todo
+  rm <id>            Move a todo to the trash
+
+Options for add and edit:
+  -d, --description <text>
+  -p, --priority <NONE|LOW|MEDIUM|HIGH|URGENT>
+  -t, --tags <a,b>          Replaces the tags; "" removes them
+  --due <YYYY-MM-DD[THH:MM]>
+  --tz <zone>               IANA timezone of a due time
+  --repeat <rrule>          e.g. FREQ=WEEKLY;BYDAY=MO
+  --list <id>
+  --title <text>            edit only
+  --no-due, --no-repeat, --no-list
+                            edit only: clear the field
+
+Options for list:
+  --status <PENDING|COMPLETED>   --priority <a,b>   --tags <a,b>
+  --match <any|all>              --list <id>        --title <text>
+  --sort <field>                 --order <asc|desc>
+  --limit <n>                    --offset <n>
+  --cursor <c>                   nextCursor of the previous page (--json)
+
+Options for edit, done, reopen and rm:
+  --if-version <n>          Fail unless the todo is still at this version
+
+Global options:
+  --json                    Print JSON instead of tables
+  -h, --help
+
+Identify yourself with TODO_TOKEN, a bearer token from POST /api/auth/login,
+or with TODO_EMAIL and TODO_PASSWORD.
+
+Exit codes: 0 success, 1 failure, 2 invalid arguments or values,
+3 not found, 4 version conflict, 5 authentication failed.
+`;
+
+export interface CliIO {
+  env: Record<string, string | undefined>;
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+type Options = NonNullable<ParseArgsConfig['options']>;
+type Value = string | boolean | (string | boolean)[] | undefined;
+type Values = Record<string, Value>;
+
+const FIELD_OPTIONS: Options = {
+  description: { type: 'string', short: 'd' },
+  priority: { type: 'string', short: 'p' },
+  tags: { type: 'string', short: 't' },
+  due: { type: 'string' },
+  tz: { type: 'string' },
+  repeat: { type: 'string' },
+  list: { type: 'string' }
+};
+
+const IF_VERSION_OPTION: Options = {
+  'if-version': { type: 'string' }
+};
+
+const COMMAND_OPTIONS: Record<string, Options> = {
+  add: FIELD_OPTIONS,
+  list: {
+    status: { type: 'string' },
+    priority: { type: 'string' },
+    tags: { type: 'string' },
+    match: { type: 'string' },
+    list: { type: 'string' },
+    title: { type: 'string' },
+    sort: { type: 'string' },
+    order: { type: 'string' },
+    limit: { type: 'string' },
+    offset: { type: 'string' },
+    cursor: { type: 'string' }
+  },
+  show: {},
+  edit: {
+    ...FIELD_OPTIONS,
+    ...IF_VERSION_OPTION,
+    title: { type: 'string' },
+    'no-due': { type: 'boolean' },
+    'no-repeat': { type: 'boolean' },
+    'no-list': { type: 'boolean' }
+  },
+  done: IF_VERSION_OPTION,
+  reopen: IF_VERSION_OPTION,
+  rm: IF_VERSION_OPTION
+};
+
+const GLOBAL_OPTIONS: Options = {
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' }
+};
+
+/**
+ * Whether the arguments only ask for the usage, which needs no database
+ */
+export function helpRequested(args: string[]): boolean {
+  return args.length === 0 || args[0] === 'help' || args.includes('--help') || args.includes('-h');
+}
+
+/**
+ * Inbound Adapter - Command-line interface
+ * Drives the same use cases as the REST API, as the user identified by the
+ * environment. Errors are reported on stderr with an exit code per kind.
+ */
+export class TodoCli {
+  constructor(
+    private readonly createTodoUseCase: CreateTodoUseCase,
+    private readonly getTodoUseCase: GetTodoUseCase,
+    private readonly listTodosUseCase: ListTodosUseCase,
+    private readonly updateTodoUseCase: UpdateTodoUseCase,
+    private readonly completeTodoUseCase: CompleteTodoUseCase,
+    private readonly reopenTodoUseCase: ReopenTodoUseCase,
+    private readonly deleteTodoUseCase: DeleteTodoUseCase,
+    private readonly loginUseCase: LoginUseCase,
+    private readonly authenticateUseCase: AuthenticateUseCase
+  ) {}
+
+  /**
+   * Runs one command and returns the exit code
+   */
+  async run(args: string[], io: CliIO): Promise<number> {
+    const [command, ...rest] = args;
+    if (helpRequested(args)) {
+      (args.length === 0 ? io.stderr : io.stdout)(USAGE);
+      return args.length === 0 ? EXIT_USAGE : EXIT_OK;
+    }
+
+    try {
+      const options = COMMAND_OPTIONS[command];
+      if (!options) {
+        throw new ValidationException(`Unknown command: ${command}. Run todo --help for usage`);
+      }
+      const { values, positionals } = parseArgs({
+        args: rest,
+        options: { ...options, ...GLOBAL_OPTIONS },
+        allowPositionals: true,
+        strict: true
+      });
+      const json = values.json === true;
+      const ownerId = await this.identify(io.env);
+
+      switch (command) {
+        case 'add':
+          return await this.add(ownerId, positionals, values, json, io);
+        case 'list':
+          return await this.list(ownerId, positionals, values, json, io);
+        case 'show':
+          return await this.show(ownerId, positionals, json, io);
+        case 'edit':
+          return await this.edit(ownerId, positionals, values, json, io);
+        case 'done':
+          return this.print(
+            await this.completeTodoUseCase.execute(this.id(positionals), ownerId, this.ifVersion(values)), json, io
+          );
+        case 'reopen':
+          return this.print(
+            await this.reopenTodoUseCase.execute(this.id(positionals), ownerId, this.ifVersion(values)), json, io
+          );
+        default:
+          return await this.remove(ownerId, positionals, values, json, io);
+      }
+    } catch (error) {
+      io.stderr(`todo: ${error instanceof Error ? error.message : 'Unexpected error'}\n`);
+      return this.exitCode(error);
+    }
+  }
+
+  private async add(ownerId: string, positionals: string[], values: Values, json: boolean, io: CliIO): Promise<number> {
+    const todo = await this.createTodoUseCase.execute({
+      ownerId,
+      title: positionals.join(' '),
+      description: this.string(values.description),
+      priority: this.string(values.priority) as TodoPriorityEnum | undefined,
+      tags: this.csv(values.tags),
+      dueDate: this.dueDate(values),
+      recurrence: this.string(values.repeat),
+      listId: this.string(values.list)
+    });
+    return this.print(todo, json, io);
+  }
+
+  private async list(ownerId: string, positionals: string[], values: Values, json: boolean, io: CliIO): Promise<number> {
+    this.noPositionals(positionals);
+    const result = await this.listTodosUseCase.execute(ownerId, {
+      status: this.string(values.status) as TodoStatusEnum | undefined,
+      priorities: this.csv(values.priority) as TodoPriorityEnum[] | undefined,
+      tags: this.csv(values.tags),
+      tagMatch: this.string(values.match) as TagMatch | undefined,
+      listId: this.string(values.list),
+      titleContains: this.string(values.title),
+      sortBy: this.string(values.sort) as TodoSortField | undefined,
+      sortDirection: this.string(values.order) as SortDirection | undefined,
+      limit: this.number(values.limit, '--limit'),
+      offset: this.number(values.offset, '--offset'),
+      cursor: this.string(values.cursor)
+    });
+
+    if (json) {
+      const page = { items: result.items.map(todo => todo.toObject()), total: result.total, nextCursor: result.nextCursor };
+      io.stdout(`${JSON.stringify(page, null, 2)}\n`);
+      return EXIT_OK;
+    }
+    const rows = result.items.map(todo => todo.toObject()).map(todo => [
+      todo.id!,
+      todo.status!,
+      todo.priority!,
+      formatDue(todo.dueDate),
+      truncate(todo.title, MAX_TITLE_WIDTH),
+      (todo.tags ?? []).join(', ')
+    ]);
+    io.stdout(formatTable(['ID', 'STATUS', 'PRIORITY', 'DUE', 'TITLE', 'TAGS'], rows));
+    io.stdout(`${result.items.length} of ${result.total} todo(s)\n`);
+    return EXIT_OK;
+  }
+
+  private async show(ownerId: string, positionals: string[], json: boolean, io: CliIO): Promise<number> {
+    return this.print(await this.getTodoUseCase.execute(this.id(positionals), ownerId), json, io);
+  }
+
+  private async edit(ownerId: string, positionals: string[], values: Values, json: boolean, io: CliIO): Promise<number> {
+    const todo = await this.updateTodoUseCase.execute({
+      id: this.id(positionals),
+      ownerId,
+      expectedVersion: this.ifVersion(values),
+      title: this.string(values.title),
+      description: this.string(values.description),
+      priority: this.string(values.priority) as TodoPriorityEnum | undefined,
+      tags: this.csv(values.tags),
+      dueDate: this.cleared(values, 'due', this.dueDate(values)),
+      recurrence: this.cleared(values, 'repeat', this.string(values.repeat)),
+      listId: this.cleared(values, 'list', this.string(values.list))
+    });
+    return this.print(todo, json, io);
+  }
+
+  private async remove(ownerId: string, positionals: string[], values: Values, json: boolean, io: CliIO): Promise<number> {
+    const id = this.id(positionals);
+    await this.deleteTodoUseCase.execute(id, ownerId, this.ifVersion(values));
+    if (json) {
+      io.stdout(`${JSON.stringify({ id, trashed: true }, null, 2)}\n`);
+    } else {
+      io.stdout(`Moved ${id} to the trash\n`);
+    }
+    return EXIT_OK;
+  }
+
+  /**
+   * A bearer token wins over an email and password
+   */
+  private async identify(env: CliIO['env']): Promise<string> {
+    if (env.TODO_TOKEN) {
+      const user = await this.authenticateUseCase.execute(env.TODO_TOKEN);
+      return user.getId();
+    }
+    if (env.TODO_EMAIL && env.TODO_PASSWORD) {
+      const { user } = await this.loginUseCase.execute({ email: env.TODO_EMAIL, password: env.TODO_PASSWORD });
+      return user.getId();
+    }
+    throw new AuthenticationException('Set TODO_TOKEN, or TODO_EMAIL and TODO_PASSWORD');
+  }
+
+  private print(todo: Todo, json: boolean, io: CliIO): number {
+    const props = todo.toObject();
+    if (json) {
+      io.stdout(`${JSON.stringify(props, null, 2)}\n`);
+      return EXIT_OK;
+    }
+
+    const fields: [string, string | undefined][] = [
+      ['id', props.id],
+      ['title', props.title],
+      ['description', props.description || undefined],
+      ['status', props.status],
+      ['priority', props.priority],
+      ['tags', props.tags?.length ? props.tags.join(', ') : undefined],
+      ['due', props.dueDate && formatDue(props.dueDate)],
+      ['repeat', props.recurrence],
+      ['list', props.listId],
+      ['checklist', props.checklist?.length ? `${Math.round(props.checklistProgress! * 100)}% of ${props.checklist.length} item(s) done` : undefined],
+      ['version', String(props.version)],
+      ['created', props.createdAt?.toISOString()],
+      ['updated', props.updatedAt?.toISOString()]
+    ];
+    io.stdout(formatTable(null, fields.filter(([, value]) => value !== undefined) as string[][]));
+    return EXIT_OK;
+  }
+
+  private id(positionals: string[]): string {
+    if (positionals.length !== 1) {
+      throw new ValidationException('Expected exactly one todo id');
+    }
+    return positionals[0];
+  }
+
+  private noPositionals(positionals: string[]): void {
+    if (positionals.length > 0) {
+      throw new ValidationException(`Unexpected argument: ${positionals[0]}`);
+    }
+  }
+
+  private string(value: Value): string | undefined {
+    return typeof value === 'string' ? value : undefined;
+  }
+
+  /**
+   * Comma-separated values; an empty string is an empty list
+   */
+  private csv(value: Value): string[] | undefined {
+    const raw = this.string(value);
+    return raw === undefined ? undefined : raw.split(',').map(item => item.trim()).filter(Boolean);
+  }
+
+  private number(value: Value, option: string): number | undefined {
+    const raw = this.string(value);
+    if (raw === undefined) {
+      return undefined;
+    }
+    if (!/^\d+$/.test(raw)) {
+      throw new ValidationException(`${option} must be a non-negative integer`);
+    }
+    return Number(raw);
+  }
+
+  private ifVersion(values: Values): number | undefined {
+    return this.number(values['if-version'], '--if-version');
+  }
+
+  /**
+   * The date and time are checked by the domain, like those sent to the API
+   */
+  private dueDate(values: Values): DueDateProps | undefined {
+    const due = this.string(values.due);
+    const timeZone = this.string(values.tz);
+    if (due === undefined) {
+      if (timeZone !== undefined) {
+        throw new ValidationException('--tz needs --due');
+      }
+      return undefined;
+    }
+    const [date, time] = due.split('T');
+    return { date, time, timeZone };
+  }
+
+  /**
+   * null when --no-<name> is given, which cannot be combined with --<name>
+   */
+  private cleared<T>(values: Values, name: string, value: T | undefined): T | null | undefined {
+    if (values[`no-${name}`] !== true) {
+      return value;
+    }
+    if (value !== undefined) {
+      throw new ValidationException(`--${name} and --no-${name} cannot be combined`);
+    }
+    return null;
+  }
+
+  private exitCode(error: unknown): number {
+    if (error instanceof ConflictException || error instanceof InvalidStateTransitionException) {
+      return EXIT_CONFLICT;
+    } else if (error instanceof NotFoundException) {
+      return EXIT_NOT_FOUND;
+    } else if (error instanceof AuthenticationException) {
+      return EXIT_AUTH;
+    } else if (error instanceof DomainException || isParseArgsError(error)) {
+      return EXIT_USAGE;
+    }
+    return EXIT_FAILURE;
+  }
+}
+
+// util.parseArgs rejects unknown options and missing values with ERR_PARSE_ARGS_* codes
+function isParseArgsError(error: unknown): boolean {
+  const code = (error as NodeJS.ErrnoException | null)?.code;
+  return typeof code === 'string' && code.startsWith('ERR_PARSE_ARGS');
+}
+
+function formatDue(dueDate: TodoProps['dueDate']): string {
+  if (!dueDate) {
+    return '';
+  }
+  return [dueDate.date, dueDate.time, dueDate.time && dueDate.timeZone].filter(Boolean).join(' ');
+}
+
+function truncate(text: string, width: number): string {
+  return text.length > width ? `${text.slice(0, width - 1)}…` : text;
+}
+
+/**
+ * Columns padded to their widest cell; without headers, a key/value listing
+ */
+function formatTable(headers: string[] | null, rows: string[][]): string {
+  const all = headers ? [headers, ...rows] : rows;
+  const widths = all.reduce<number[]>(
+    (max, row) => row.map((cell, index) => Math.max(max[index] ?? 0, cell.length)),
+    []
+  );
+  return all
+    .map(row => row.map((cell, index) => (index === row.length - 1 ? cell : cell.padEnd(widths[index]))).join('  ').trimEnd())
+    .map(line => `${line}\n`)
+    .join('');
+}
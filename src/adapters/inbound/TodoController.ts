@@ -1,14 +1,34 @@
 import { Request, Response } from 'express';
 import { CreateTodoUseCase } from '../../application/ports/CreateTodoUseCase';
 import { GetTodoUseCase } from '../../application/ports/GetTodoUseCase';
-import { ListTodosUseCase } from '../../application/ports/ListTodosUseCase';
+import { ListTodosUseCase, TodoFilterQuery } from '../../application/ports/ListTodosUseCase';
 import { UpdateTodoUseCase } from '../../application/ports/UpdateTodoUseCase';
 import { CompleteTodoUseCase } from '../../application/ports/CompleteTodoUseCase';
+import { ReopenTodoUseCase } from '../../application/ports/ReopenTodoUseCase';
 import { DeleteTodoUseCase } from '../../application/ports/DeleteTodoUseCase';
-import { DomainException } from '../../domain/exceptions/DomainException';
+import { GetAgendaUseCase } from '../../application/ports/GetAgendaUseCase';
+import { GetTodoHistoryUseCase } from '../../application/ports/GetTodoHistoryUseCase';
+import { BatchItemResult, BatchTodosUseCase } from '../../application/ports/BatchTodosUseCase';
+import { SearchTodosUseCase } from '../../application/ports/SearchTodosUseCase';
+import { WatchTodosUseCase } from '../../application/ports/WatchTodosUseCase';
+import { SortDirection, TagMatch, TodoSortField } from '../../application/ports/TodoRepository';
+import { Todo } from '../../domain/entities/Todo';
+import { TodoEvent } from '../../domain/events/TodoEvent';
+import { ValidationException } from '../../domain/exceptions/DomainException';
+import { TodoStatusEnum } from '../../domain/value-objects/TodoStatus';
+import { TodoPriorityEnum } from '../../domain/value-objects/TodoPriority';
+import { currentUserId } from './AuthMiddleware';
+import { toProblem } from './ProblemDetails';
 
 /**
  * Inbound Adapter - REST API Controller
+ * Single-todo responses carry the todo version as a strong ETag; mutations
+ * honour If-Match with 412 on a stale version and 409 on a concurrent write.
+ * Requests reach it once they match their schema in TodoSchemas.
+ *
+ * The change stream is sent as Server-Sent Events: each event carries its id,
+ * so that EventSource resumes after it with Last-Event-ID, and a comment line
+ * every heartbeat interval keeps proxies from closing an idle connection.
  */
 export class TodoController {
   constructor(
@@ -17,77 +37,249 @@ export class TodoController {
     private readonly listTodosUseCase: ListTodosUseCase,
     private readonly updateTodoUseCase: UpdateTodoUseCase,
     private readonly completeTodoUseCase: CompleteTodoUseCase,
-    private readonly deleteTodoUseCase: DeleteTodoUseCase
+    private readonly deleteTodoUseCase: DeleteTodoUseCase,
+    private readonly getAgendaUseCase: GetAgendaUseCase,
+    private readonly getTodoHistoryUseCase: GetTodoHistoryUseCase,
+    private readonly reopenTodoUseCase: ReopenTodoUseCase,
+    private readonly batchTodosUseCase: BatchTodosUseCase,
+    private readonly searchTodosUseCase: SearchTodosUseCase,
+    private readonly watchTodosUseCase: WatchTodosUseCase,
+    private readonly streamHeartbeatIntervalMs: number
   ) {}
 
   async createTodo(req: Request, res: Response): Promise<void> {
-    try {
-      const { title, description } = req.body;
-      const todo = await this.createTodoUseCase.execute({ title, description });
-      res.status(201).json(todo.toObject());
-    } catch (error) {
-      this.handleError(error, res);
-    }
+    const { title, description, priority, tags, requireChecklistCompletion, dueDate, recurrence, listId } = req.body;
+    const todo = await this.createTodoUseCase.execute({
+      ownerId: currentUserId(req), title, description, priority, tags, requireChecklistCompletion, dueDate, recurrence, listId
+    });
+    this.setETag(res, todo);
+    res.status(201).json(todo.toObject());
   }
 
   async getTodo(req: Request, res: Response): Promise<void> {
-    try {
-      const { id } = req.params;
-      const todo = await this.getTodoUseCase.execute(id);
-      res.status(200).json(todo.toObject());
-    } catch (error) {
-      this.handleError(error, res);
-    }
+    const { id } = req.params;
+    const todo = await this.getTodoUseCase.execute(id, currentUserId(req));
+    this.setETag(res, todo);
+    res.status(200).json(todo.toObject());
   }
 
   async listTodos(req: Request, res: Response): Promise<void> {
-    try {
-      const todos = await this.listTodosUseCase.execute();
-      res.status(200).json(todos.map(todo => todo.toObject()));
-    } catch (error) {
-      this.handleError(error, res);
+    const query = req.query;
+    const result = await this.listTodosUseCase.execute(currentUserId(req), {
+      ...this.filterQuery(req),
+      sortBy: this.queryString(query.sortBy) as TodoSortField | undefined,
+      sortDirection: this.queryString(query.order) as SortDirection | undefined,
+      limit: this.queryNumber(query.limit),
+      offset: this.queryNumber(query.offset),
+      cursor: this.queryString(query.cursor)
+    });
+    res.status(200).json({
+      items: result.items.map(todo => todo.toObject()),
+      total: result.total,
+      nextCursor: result.nextCursor
+    });
+  }
+
+  async streamTodos(req: Request, res: Response): Promise<void> {
+    // Events arriving before the response starts are held back until then
+    const held: TodoEvent[] = [];
+    let started = false;
+    const watch = await this.watchTodosUseCase.execute(
+      currentUserId(req),
+      this.filterQuery(req),
+      event => {
+        if (started) {
+          this.sendEvent(res, event);
+        } else {
+          held.push(event);
+        }
+      },
+      req.get('Last-Event-ID')
+    );
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      // Stops nginx from buffering the stream
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+    if (!watch.resumed) {
+      res.write(`event: reset\ndata: ${JSON.stringify({ message: 'Some events were missed; reload the todos' })}\n\n`);
     }
+    held.forEach(event => this.sendEvent(res, event));
+    started = true;
+
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), this.streamHeartbeatIntervalMs);
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      watch.stop();
+    });
+  }
+
+  async searchTodos(req: Request, res: Response): Promise<void> {
+    const result = await this.searchTodosUseCase.execute(currentUserId(req), {
+      q: this.queryString(req.query.q) ?? '',
+      limit: this.queryNumber(req.query.limit)
+    });
+    res.status(200).json({
+      items: result.hits.map(hit => ({ todo: hit.todo.toObject(), score: hit.score, highlights: hit.highlights })),
+      total: result.total
+    });
+  }
+
+  async getAgenda(req: Request, res: Response): Promise<void> {
+    const agenda = await this.getAgendaUseCase.execute(currentUserId(req), {
+      timeZone: this.queryString(req.query.timeZone)
+    });
+    res.status(200).json({
+      timeZone: agenda.timeZone,
+      date: agenda.date,
+      overdue: agenda.overdue.map(todo => todo.toObject()),
+      today: agenda.today.map(todo => todo.toObject()),
+      thisWeek: agenda.thisWeek.map(todo => todo.toObject()),
+      later: agenda.later.map(todo => todo.toObject())
+    });
   }
 
   async updateTodo(req: Request, res: Response): Promise<void> {
-    try {
-      const { id } = req.params;
-      const { title, description } = req.body;
-      const todo = await this.updateTodoUseCase.execute({ id, title, description });
-      res.status(200).json(todo.toObject());
-    } catch (error) {
-      this.handleError(error, res);
-    }
+    const { id } = req.params;
+    const { title, description, priority, tags, requireChecklistCompletion, dueDate, recurrence, listId } = req.body;
+    const todo = await this.updateTodoUseCase.execute({
+      id, title, description, priority, tags, requireChecklistCompletion, dueDate, recurrence, listId,
+      ownerId: currentUserId(req),
+      expectedVersion: this.ifMatchVersion(req)
+    });
+    this.setETag(res, todo);
+    res.status(200).json(todo.toObject());
   }
 
   async completeTodo(req: Request, res: Response): Promise<void> {
-    try {
-      const { id } = req.params;
-      const todo = await this.completeTodoUseCase.execute(id);
-      res.status(200).json(todo.toObject());
-    } catch (error) {
-      this.handleError(error, res);
-    }
+    const { id } = req.params;
+    const todo = await this.completeTodoUseCase.execute(id, currentUserId(req), this.ifMatchVersion(req));
+    this.setETag(res, todo);
+    res.status(200).json(todo.toObject());
+  }
+
+  async reopenTodo(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const todo = await this.reopenTodoUseCase.execute(id, currentUserId(req), this.ifMatchVersion(req));
+    this.setETag(res, todo);
+    res.status(200).json(todo.toObject());
   }
 
   async deleteTodo(req: Request, res: Response): Promise<void> {
-    try {
-      const { id } = req.params;
-      await this.deleteTodoUseCase.execute(id);
-      res.status(204).send();
-    } catch (error) {
-      this.handleError(error, res);
+    const { id } = req.params;
+    await this.deleteTodoUseCase.execute(id, currentUserId(req), this.ifMatchVersion(req));
+    res.status(204).send();
+  }
+
+  async getTodoHistory(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const entries = await this.getTodoHistoryUseCase.execute(id, currentUserId(req));
+    res.status(200).json(entries.map(entry => entry.toObject()));
+  }
+
+  /**
+   * Always 200 once the batch was accepted; each result carries the status
+   * the operation would have had on its own endpoint
+   */
+  async batchTodos(req: Request, res: Response): Promise<void> {
+    const { operations, atomic } = req.body;
+    const result = await this.batchTodosUseCase.execute({ ownerId: currentUserId(req), operations, atomic });
+    res.status(200).json({
+      atomic: result.atomic,
+      rolledBack: result.rolledBack,
+      results: result.results.map(item => this.toBatchItemResponse(item))
+    });
+  }
+
+  private toBatchItemResponse(item: BatchItemResult): object {
+    const { index, op } = item;
+    switch (item.outcome) {
+      case 'succeeded':
+        return {
+          index, op,
+          status: op === 'create' ? 201 : op === 'delete' ? 204 : 200,
+          ...(item.todo && { todo: item.todo.toObject() })
+        };
+      case 'failed': {
+        const problem = toProblem(item.error);
+        return { index, op, status: problem.status, code: problem.code, error: problem.detail };
+      }
+      default:
+        // Failed dependency: the operation was undone or never ran because another one failed
+        return { index, op, status: 424, code: 'FAILED_DEPENDENCY', error: (item.error as Error).message };
+    }
+  }
+
+  private sendEvent(res: Response, event: TodoEvent): void {
+    res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  }
+
+  /**
+   * Filters of the list endpoint, which the change stream accepts too
+   */
+  private filterQuery(req: Request): TodoFilterQuery {
+    const query = req.query;
+    return {
+      // Also reached as /lists/:listId/todos
+      listId: req.params.listId ?? this.queryString(query.listId),
+      status: this.queryString(query.status) as TodoStatusEnum | undefined,
+      priorities: this.queryList(query.priority) as TodoPriorityEnum[] | undefined,
+      tags: this.queryList(query.tags),
+      tagMatch: this.queryString(query.tagMatch) as TagMatch | undefined,
+      createdFrom: this.queryDate(query.createdFrom),
+      createdTo: this.queryDate(query.createdTo),
+      updatedFrom: this.queryDate(query.updatedFrom),
+      updatedTo: this.queryDate(query.updatedTo),
+      titleContains: this.queryString(query.title)
+    };
+  }
+
+  private setETag(res: Response, todo: Todo): void {
+    res.set('ETag', `"${todo.getVersion()}"`);
+  }
+
+  /**
+   * Version expected by the If-Match header; `*` or no header means any version
+   */
+  private ifMatchVersion(req: Request): number | undefined {
+    const header = req.get('If-Match');
+    if (header === undefined || header.trim() === '*') {
+      return undefined;
+    }
+    const match = /^(?:W\/)?"(\d+)"$/.exec(header.trim());
+    if (!match) {
+      throw new ValidationException('If-Match must be a single ETag returned by this API');
     }
+    return Number(match[1]);
   }
 
-  private handleError(error: unknown, res: Response): void {
-    if (error instanceof DomainException) {
-      res.status(404).json({ error: error.message });
-    } else if (error instanceof Error) {
-      res.status(400).json({ error: error.message });
-    } else {
-      res.status(500).json({ error: 'Internal server error' });
+  private queryString(value: unknown): string | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (typeof value !== 'string') {
+      throw new ValidationException('Query parameters must not be repeated');
     }
+    return value;
+  }
+
+  private queryList(value: unknown): string[] | undefined {
+    const raw = this.queryString(value);
+    return raw === undefined ? undefined : raw.split(',').map(item => item.trim()).filter(Boolean);
+  }
+
+  private queryNumber(value: unknown): number | undefined {
+    const raw = this.queryString(value);
+    return raw === undefined ? undefined : Number(raw);
+  }
+
+  private queryDate(value: unknown): Date | undefined {
+    const raw = this.queryString(value);
+    return raw === undefined ? undefined : new Date(raw);
   }
 }
 
@@ -0,0 +1,64 @@
+import { EventSubscriber } from '../../application/ports/EventSubscriber';
+import { TodoEvent, TodoEventType } from '../../domain/events/TodoEvent';
+
+// Events kept for a consumer that reads slower than they are published
+const MAX_BUFFERED_EVENTS = 1000;
+
+/**
+ * Events about one owner's todos as an async iterator, optionally limited to
+ * some event types. The subscription starts right away and ends when the
+ * iterator is returned; when the buffer is full the oldest events are dropped.
+ */
+export function todoEventStream(
+  subscriber: EventSubscriber,
+  ownerId: string,
+  types?: TodoEventType[]
+): AsyncIterableIterator<TodoEvent> {
+  const buffer: TodoEvent[] = [];
+  let waiting: ((result: IteratorResult<TodoEvent>) => void) | null = null;
+  let closed = false;
+
+  const unsubscribe = subscriber.subscribe('*', event => {
+    if (event.todo.ownerId !== ownerId || (types && !types.includes(event.type))) {
+      return;
+    }
+    if (waiting) {
+      waiting({ value: event, done: false });
+      waiting = null;
+      return;
+    }
+    buffer.push(event);
+    if (buffer.length > MAX_BUFFERED_EVENTS) {
+      buffer.shift();
+    }
+  });
+
+  return {
+    next(): Promise<IteratorResult<TodoEvent>> {
+      if (buffer.length > 0) {
+        return Promise.resolve({ value: buffer.shift()!, done: false });
+      }
+      if (closed) {
+        return Promise.resolve({ value: undefined, done: true });
+      }
+      return new Promise(resolve => {
+        waiting = resolve;
+      });
+    },
+
+    return(): Promise<IteratorResult<TodoEvent>> {
+      if (!closed) {
+        closed = true;
+        unsubscribe();
+        buffer.length = 0;
+        waiting?.({ value: undefined, done: true });
+        waiting = null;
+      }
+      return Promise.resolve({ value: undefined, done: true });
+    },
+
+    [Symbol.asyncIterator]() {
+      return this;
+    }
+  };
+}
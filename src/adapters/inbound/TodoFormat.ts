@@ -0,0 +1,38 @@
+import { TodoProps } from '../../domain/entities/Todo';
+import { TodoRecord } from '../../application/ports/ImportTodosUseCase';
+
+/**
+ * File format for exporting and importing todos
+ * Exports are written piece by piece, so that they can be streamed
+ */
+export interface TodoFormat {
+  readonly contentType: string;
+  readonly extension: string;
+  begin(): string;
+  write(record: TodoRecord, index: number): string;
+  end(): string;
+  // One record per todo; throws when the file itself is malformed
+  parse(text: string): TodoRecord[];
+}
+
+/**
+ * Exported fields of a todo; owner, version and trash state are left out
+ */
+export function toRecord(todo: TodoProps): TodoRecord {
+  return {
+    id: todo.id,
+    title: todo.title,
+    description: todo.description,
+    status: todo.status,
+    priority: todo.priority,
+    tags: todo.tags,
+    checklist: todo.checklist,
+    requireChecklistCompletion: todo.requireChecklistCompletion,
+    dueDate: todo.dueDate,
+    recurrence: todo.recurrence,
+    seriesId: todo.seriesId,
+    listId: todo.listId,
+    createdAt: todo.createdAt?.toISOString(),
+    updatedAt: todo.updatedAt?.toISOString()
+  };
+}
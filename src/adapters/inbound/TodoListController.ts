@@ -0,0 +1,65 @@
+import { Request, Response } from 'express';
+import { CreateTodoListUseCase } from '../../application/ports/CreateTodoListUseCase';
+import { ListTodoListsUseCase, TodoListSummary } from '../../application/ports/ListTodoListsUseCase';
+import { GetTodoListUseCase } from '../../application/ports/GetTodoListUseCase';
+import { RenameTodoListUseCase } from '../../application/ports/RenameTodoListUseCase';
+import { DeleteTodoListUseCase } from '../../application/ports/DeleteTodoListUseCase';
+import { currentUserId } from './AuthMiddleware';
+
+/**
+ * Inbound Adapter - REST API Controller for todo lists
+ * The todos of a list are served by TodoController
+ */
+export class TodoListController {
+  constructor(
+    private readonly createTodoListUseCase: CreateTodoListUseCase,
+    private readonly listTodoListsUseCase: ListTodoListsUseCase,
+    private readonly getTodoListUseCase: GetTodoListUseCase,
+    private readonly renameTodoListUseCase: RenameTodoListUseCase,
+    private readonly deleteTodoListUseCase: DeleteTodoListUseCase
+  ) {}
+
+  async createList(req: Request, res: Response): Promise<void> {
+    const { name } = req.body;
+    const list = await this.createTodoListUseCase.execute({ ownerId: currentUserId(req), name });
+    res.status(201).json(this.toResponse({ list, open: 0, completed: 0 }));
+  }
+
+  async listLists(req: Request, res: Response): Promise<void> {
+    const summaries = await this.listTodoListsUseCase.execute(currentUserId(req));
+    res.status(200).json(summaries.map(summary => this.toResponse(summary)));
+  }
+
+  async getList(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const summary = await this.getTodoListUseCase.execute(id, currentUserId(req));
+    res.status(200).json(this.toResponse(summary));
+  }
+
+  async renameList(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const { name } = req.body;
+    const ownerId = currentUserId(req);
+    await this.renameTodoListUseCase.execute({ id, ownerId, name });
+    const summary = await this.getTodoListUseCase.execute(id, ownerId);
+    res.status(200).json(this.toResponse(summary));
+  }
+
+  async deleteList(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const trashed = await this.deleteTodoListUseCase.execute({
+      id,
+      ownerId: currentUserId(req),
+      cascade: req.query.cascade === 'true'
+    });
+    res.status(200).json({ trashed });
+  }
+
+  private toResponse(summary: TodoListSummary) {
+    return {
+      ...summary.list.toObject(),
+      openCount: summary.open,
+      completedCount: summary.completed
+    };
+  }
+}
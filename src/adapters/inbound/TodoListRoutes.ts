@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { TodoListController } from './TodoListController';
+
+export function createTodoListRoutes(todoListController: TodoListController): Router {
+  const router = Router();
+
+  // Create a list
+  router.post('/lists', (req, res) => todoListController.createList(req, res));
+
+  // Get all lists with their open and completed counts
+  router.get('/lists', (req, res) => todoListController.listLists(req, res));
+
+  // Get a specific list
+  router.get('/lists/:id', (req, res) => todoListController.getList(req, res));
+
+  // Rename a list
+  router.patch('/lists/:id', (req, res) => todoListController.renameList(req, res));
+
+  // Delete a list; refused while it has todos unless ?cascade=true
+  router.delete('/lists/:id', (req, res) => todoListController.deleteList(req, res));
+
+  return router;
+}
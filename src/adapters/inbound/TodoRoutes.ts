@@ -1,26 +1,50 @@
 import { Router } from 'express';
 import { TodoController } from './TodoController';
+import { validateRequest } from './RequestValidation';
+import { TODO_ROUTE_SCHEMAS } from './TodoSchemas';
 
 export function createTodoRoutes(todoController: TodoController): Router {
   const router = Router();
+  const schemas = TODO_ROUTE_SCHEMAS;
 
   // Create a new todo
-  router.post('/todos', (req, res) => todoController.createTodo(req, res));
+  router.post('/todos', validateRequest(schemas.createTodo), (req, res) => todoController.createTodo(req, res));
+
+  // Apply several create, update, complete, reopen and delete operations
+  router.post('/todos/batch', validateRequest(schemas.batchTodos), (req, res) => todoController.batchTodos(req, res));
 
   // Get all todos
-  router.get('/todos', (req, res) => todoController.listTodos(req, res));
+  router.get('/todos', validateRequest(schemas.listTodos), (req, res) => todoController.listTodos(req, res));
+
+  // Get the todos of a list, with the same filters
+  router.get('/lists/:listId/todos', validateRequest(schemas.listListTodos), (req, res) => todoController.listTodos(req, res));
+
+  // Full-text search over titles and descriptions, best matches first
+  router.get('/todos/search', validateRequest(schemas.searchTodos), (req, res) => todoController.searchTodos(req, res));
+
+  // Server-Sent Events for changes to the todos matching the list filters
+  router.get('/todos/stream', validateRequest(schemas.streamTodos), (req, res) => todoController.streamTodos(req, res));
+
+  // Get pending todos grouped by due date
+  router.get('/todos/agenda', validateRequest(schemas.getAgenda), (req, res) => todoController.getAgenda(req, res));
 
   // Get a specific todo
-  router.get('/todos/:id', (req, res) => todoController.getTodo(req, res));
+  router.get('/todos/:id', validateRequest(schemas.getTodo), (req, res) => todoController.getTodo(req, res));
+
+  // Change history of a todo, also after it was deleted
+  router.get('/todos/:id/history', validateRequest(schemas.getTodoHistory), (req, res) => todoController.getTodoHistory(req, res));
 
   // Update a todo
-  router.put('/todos/:id', (req, res) => todoController.updateTodo(req, res));
+  router.put('/todos/:id', validateRequest(schemas.updateTodo), (req, res) => todoController.updateTodo(req, res));
 
   // Complete a todo
-  router.patch('/todos/:id/complete', (req, res) => todoController.completeTodo(req, res));
+  router.patch('/todos/:id/complete', validateRequest(schemas.completeTodo), (req, res) => todoController.completeTodo(req, res));
+
+  // Reopen a completed todo
+  router.patch('/todos/:id/reopen', validateRequest(schemas.reopenTodo), (req, res) => todoController.reopenTodo(req, res));
 
   // Delete a todo
-  router.delete('/todos/:id', (req, res) => todoController.deleteTodo(req, res));
+  router.delete('/todos/:id', validateRequest(schemas.deleteTodo), (req, res) => todoController.deleteTodo(req, res));
 
   return router;
 }
@@ -0,0 +1,382 @@
+import { TODO_SORT_FIELDS } from '../../application/ports/TodoRepository';
+import { TodoEventType } from '../../domain/events/TodoEvent';
+import { TodoPriorityEnum } from '../../domain/value-objects/TodoPriority';
+import { TodoStatusEnum } from '../../domain/value-objects/TodoStatus';
+import { JsonSchema } from './JsonSchema';
+import { ResponseSchema, RouteSchema } from './RequestValidation';
+
+/**
+ * Request schemas of the todo routes, and the schemas of their responses
+ * The schemas check the shape of requests; rules such as the length of a
+ * title stay with the domain.
+ */
+
+const PRIORITIES = Object.values(TodoPriorityEnum);
+const PRIORITY_LIST = `^\\s*(${PRIORITIES.join('|')})\\s*(,\\s*(${PRIORITIES.join('|')})\\s*)*$`;
+
+const DUE_DATE: JsonSchema = {
+  type: 'object',
+  description: 'A time requires a timezone',
+  properties: {
+    date: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', example: '2025-12-31' },
+    time: { type: 'string', pattern: '^\\d{2}:\\d{2}$', example: '18:00' },
+    timeZone: { type: 'string', description: 'IANA timezone', example: 'Europe/Madrid' }
+  },
+  required: ['date'],
+  additionalProperties: false
+};
+
+const TODO_FIELDS: Record<string, JsonSchema> = {
+  title: { type: 'string', example: 'Buy milk' },
+  description: { type: 'string' },
+  priority: { type: 'string', enum: PRIORITIES },
+  tags: { type: 'array', items: { type: 'string' }, example: ['home'] },
+  requireChecklistCompletion: { type: 'boolean' },
+  dueDate: DUE_DATE,
+  recurrence: { type: 'string', description: 'RRULE subset; requires a due date', example: 'FREQ=WEEKLY;BYDAY=MO' },
+  listId: { type: 'string', description: "One of the caller's lists" }
+};
+
+// null clears the due date, the recurrence and the list
+const TODO_UPDATE_FIELDS: Record<string, JsonSchema> = {
+  ...TODO_FIELDS,
+  dueDate: { ...DUE_DATE, type: ['object', 'null'] },
+  recurrence: { ...TODO_FIELDS.recurrence, type: ['string', 'null'] },
+  listId: { ...TODO_FIELDS.listId, type: ['string', 'null'] }
+};
+
+const ID: JsonSchema = { type: 'string', example: '1700000000000-abc123def' };
+const EXPECTED_VERSION: JsonSchema = { type: 'integer', minimum: 1, description: 'Plays the part of If-Match' };
+
+const ID_PARAMS: JsonSchema = { type: 'object', properties: { id: ID }, required: ['id'] };
+
+const IF_MATCH: JsonSchema = {
+  type: 'object',
+  properties: {
+    'If-Match': {
+      type: 'string',
+      pattern: '^\\s*(\\*|(W/)?"\\d+")\\s*$',
+      description: 'ETag of the version the change applies to; 412 when the todo has moved on',
+      example: '"3"'
+    }
+  }
+};
+
+// Filters of the list endpoint, also accepted by the change stream
+const FILTERS: Record<string, JsonSchema> = {
+  listId: { type: 'string' },
+  status: { type: 'string', enum: Object.values(TodoStatusEnum) },
+  priority: { type: 'string', pattern: PRIORITY_LIST, description: 'Comma-separated priorities', example: 'HIGH,URGENT' },
+  tags: { type: 'string', description: 'Comma-separated tags', example: 'work,home' },
+  tagMatch: { type: 'string', enum: ['any', 'all'] },
+  createdFrom: { type: 'string', format: 'date-time' },
+  createdTo: { type: 'string', format: 'date-time' },
+  updatedFrom: { type: 'string', format: 'date-time' },
+  updatedTo: { type: 'string', format: 'date-time' },
+  title: { type: 'string', description: 'Case-insensitive substring of the title' }
+};
+
+const LIST_QUERY: JsonSchema = {
+  type: 'object',
+  properties: {
+    ...FILTERS,
+    sortBy: { type: 'string', enum: TODO_SORT_FIELDS },
+    order: { type: 'string', enum: ['asc', 'desc'] },
+    limit: { type: 'integer', minimum: 1, description: 'At most 500; 50 by default' },
+    offset: { type: 'integer', minimum: 0 },
+    cursor: { type: 'string', description: 'nextCursor of the previous page; cannot be combined with offset' }
+  },
+  additionalProperties: false
+};
+
+const BATCH_OPERATION: JsonSchema = {
+  type: 'object',
+  oneOf: [
+    {
+      type: 'object',
+      properties: { op: { type: 'string', enum: ['create'] }, ...TODO_FIELDS },
+      required: ['op', 'title'],
+      additionalProperties: false
+    },
+    {
+      type: 'object',
+      properties: { op: { type: 'string', enum: ['update'] }, id: ID, expectedVersion: EXPECTED_VERSION, ...TODO_UPDATE_FIELDS },
+      required: ['op', 'id'],
+      additionalProperties: false
+    },
+    {
+      type: 'object',
+      properties: { op: { type: 'string', enum: ['complete', 'reopen', 'delete'] }, id: ID, expectedVersion: EXPECTED_VERSION },
+      required: ['op', 'id'],
+      additionalProperties: false
+    }
+  ],
+  discriminator: { propertyName: 'op' }
+};
+
+/**
+ * Schemas of the responses, referenced as #/components/schemas/{name}
+ */
+export const TODO_COMPONENT_SCHEMAS: Record<string, JsonSchema> = {
+  Todo: {
+    type: 'object',
+    properties: {
+      id: ID,
+      ownerId: { type: 'string' },
+      title: { type: 'string' },
+      description: { type: 'string' },
+      status: { type: 'string', enum: Object.values(TodoStatusEnum) },
+      priority: { type: 'string', enum: PRIORITIES },
+      tags: { type: 'array', items: { type: 'string' } },
+      checklist: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { id: { type: 'string' }, text: { type: 'string' }, done: { type: 'boolean' } }
+        }
+      },
+      requireChecklistCompletion: { type: 'boolean' },
+      checklistProgress: { type: 'number', description: 'Share of checklist items done, from 0 to 1' },
+      dueDate: DUE_DATE,
+      recurrence: { type: 'string' },
+      seriesId: { type: 'string' },
+      listId: { type: 'string' },
+      version: { type: 'integer' },
+      createdAt: { type: 'string', format: 'date-time' },
+      updatedAt: { type: 'string', format: 'date-time' }
+    }
+  },
+  TodoPage: {
+    type: 'object',
+    properties: {
+      items: { type: 'array', items: { $ref: '#/components/schemas/Todo' } },
+      total: { type: 'integer' },
+      nextCursor: { type: 'string' }
+    }
+  },
+  SearchResult: {
+    type: 'object',
+    properties: {
+      items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            todo: { $ref: '#/components/schemas/Todo' },
+            score: { type: 'number' },
+            highlights: { type: 'array', items: { type: 'object' } }
+          }
+        }
+      },
+      total: { type: 'integer' }
+    }
+  },
+  Agenda: {
+    type: 'object',
+    properties: {
+      timeZone: { type: 'string' },
+      date: { type: 'string' },
+      overdue: { type: 'array', items: { $ref: '#/components/schemas/Todo' } },
+      today: { type: 'array', items: { $ref: '#/components/schemas/Todo' } },
+      thisWeek: { type: 'array', items: { $ref: '#/components/schemas/Todo' } },
+      later: { type: 'array', items: { $ref: '#/components/schemas/Todo' } }
+    }
+  },
+  HistoryEntry: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      todoId: { type: 'string' },
+      ownerId: { type: 'string' },
+      action: { type: 'string', enum: Object.values(TodoEventType) },
+      changes: { type: 'object', description: 'Previous and new value of each changed field, as { from, to }' },
+      actor: { type: ['string', 'null'] },
+      occurredAt: { type: 'string', format: 'date-time' }
+    }
+  },
+  BatchResult: {
+    type: 'object',
+    properties: {
+      atomic: { type: 'boolean' },
+      rolledBack: { type: 'boolean' },
+      results: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            index: { type: 'integer' },
+            op: { type: ['string', 'null'] },
+            status: { type: 'integer', description: 'Status the operation would have had on its own endpoint' },
+            todo: { $ref: '#/components/schemas/Todo' },
+            code: { type: 'string' },
+            error: { type: 'string' }
+          }
+        }
+      }
+    }
+  }
+};
+
+const TODO: ResponseSchema = { description: 'The todo', schema: { $ref: '#/components/schemas/Todo' }, headers: ['ETag'] };
+const BAD_REQUEST: ResponseSchema = { description: 'The request does not match its schema or breaks a rule' };
+const NOT_FOUND: ResponseSchema = { description: 'No todo of yours has this id' };
+const CONFLICT: ResponseSchema = { description: 'The todo does not allow this change, or was changed concurrently' };
+const PRECONDITION_FAILED: ResponseSchema = { description: 'If-Match does not name the current version' };
+
+export const TODO_ROUTE_SCHEMAS: Record<string, RouteSchema> = {
+  createTodo: {
+    method: 'post',
+    path: '/todos',
+    operationId: 'createTodo',
+    summary: 'Create a todo',
+    body: { type: 'object', properties: TODO_FIELDS, required: ['title'], additionalProperties: false },
+    responses: { 201: { ...TODO, description: 'The new todo' }, 400: BAD_REQUEST }
+  },
+  batchTodos: {
+    method: 'post',
+    path: '/todos/batch',
+    operationId: 'batchTodos',
+    summary: 'Apply up to 100 operations in order',
+    description: 'With atomic, the first failure undoes the earlier operations and skips the later ones.',
+    body: {
+      type: 'object',
+      properties: {
+        operations: { type: 'array', items: BATCH_OPERATION },
+        atomic: { type: 'boolean' }
+      },
+      required: ['operations'],
+      additionalProperties: false
+    },
+    responses: {
+      200: { description: 'One result per operation', schema: { $ref: '#/components/schemas/BatchResult' } },
+      400: BAD_REQUEST
+    }
+  },
+  listTodos: {
+    method: 'get',
+    path: '/todos',
+    operationId: 'listTodos',
+    summary: 'List todos, filtered, sorted and paginated',
+    query: LIST_QUERY,
+    responses: { 200: { description: 'A page of todos', schema: { $ref: '#/components/schemas/TodoPage' } }, 400: BAD_REQUEST }
+  },
+  listListTodos: {
+    method: 'get',
+    path: '/lists/:listId/todos',
+    operationId: 'listListTodos',
+    summary: 'List the todos of a list, with the same filters',
+    params: { type: 'object', properties: { listId: { type: 'string' } }, required: ['listId'] },
+    query: LIST_QUERY,
+    responses: {
+      200: { description: 'A page of todos', schema: { $ref: '#/components/schemas/TodoPage' } },
+      400: BAD_REQUEST,
+      404: { description: 'No list of yours has this id' }
+    }
+  },
+  searchTodos: {
+    method: 'get',
+    path: '/todos/search',
+    operationId: 'searchTodos',
+    summary: 'Full-text search over titles and descriptions, best matches first',
+    query: {
+      type: 'object',
+      properties: {
+        q: { type: 'string', description: 'Words, "quoted phrases" and prefix* terms', example: '"oat milk" sho*' },
+        limit: { type: 'integer', minimum: 1, description: 'At most 100; 20 by default' }
+      },
+      required: ['q'],
+      additionalProperties: false
+    },
+    responses: { 200: { description: 'Matching todos', schema: { $ref: '#/components/schemas/SearchResult' } }, 400: BAD_REQUEST }
+  },
+  streamTodos: {
+    method: 'get',
+    path: '/todos/stream',
+    operationId: 'streamTodos',
+    summary: 'Server-Sent Events for changes to the todos matching the list filters',
+    description: 'Each event is named after its type, e.g. todo.completed, and carries the change with the todo as ' +
+      'it now is. A todo that stops matching the filters is reported once more. A `reset` event tells that events ' +
+      'after Last-Event-ID were missed. Comment lines are sent as heartbeats.',
+    query: { type: 'object', properties: FILTERS, additionalProperties: false },
+    headers: {
+      type: 'object',
+      properties: {
+        'Last-Event-ID': { type: 'string', description: 'Id of the last event received; later events are sent first' }
+      }
+    },
+    responses: {
+      200: { description: 'A stream of todo events', contentType: 'text/event-stream', schema: { type: 'string' } },
+      400: BAD_REQUEST,
+      404: { description: 'No list of yours has this id' }
+    }
+  },
+  getAgenda: {
+    method: 'get',
+    path: '/todos/agenda',
+    operationId: 'getAgenda',
+    summary: 'Pending todos grouped by due date',
+    query: {
+      type: 'object',
+      properties: { timeZone: { type: 'string', description: 'IANA timezone; UTC by default', example: 'Europe/Madrid' } },
+      additionalProperties: false
+    },
+    responses: { 200: { description: 'The agenda', schema: { $ref: '#/components/schemas/Agenda' } }, 400: BAD_REQUEST }
+  },
+  getTodo: {
+    method: 'get',
+    path: '/todos/:id',
+    operationId: 'getTodo',
+    summary: 'Get a todo',
+    params: ID_PARAMS,
+    responses: { 200: TODO, 404: NOT_FOUND }
+  },
+  getTodoHistory: {
+    method: 'get',
+    path: '/todos/:id/history',
+    operationId: 'getTodoHistory',
+    summary: 'Change history of a todo, also after it was deleted',
+    params: ID_PARAMS,
+    responses: {
+      200: { description: 'Changes, oldest first', schema: { type: 'array', items: { $ref: '#/components/schemas/HistoryEntry' } } },
+      404: NOT_FOUND
+    }
+  },
+  updateTodo: {
+    method: 'put',
+    path: '/todos/:id',
+    operationId: 'updateTodo',
+    summary: 'Update a todo',
+    description: 'Omitted fields are left as they are; null clears dueDate, recurrence and listId.',
+    params: ID_PARAMS,
+    headers: IF_MATCH,
+    body: { type: 'object', properties: TODO_UPDATE_FIELDS, additionalProperties: false },
+    responses: { 200: TODO, 400: BAD_REQUEST, 404: NOT_FOUND, 409: CONFLICT, 412: PRECONDITION_FAILED }
+  },
+  completeTodo: {
+    method: 'patch',
+    path: '/todos/:id/complete',
+    operationId: 'completeTodo',
+    summary: 'Complete a todo',
+    params: ID_PARAMS,
+    headers: IF_MATCH,
+    responses: { 200: TODO, 404: NOT_FOUND, 409: CONFLICT, 412: PRECONDITION_FAILED }
+  },
+  reopenTodo: {
+    method: 'patch',
+    path: '/todos/:id/reopen',
+    operationId: 'reopenTodo',
+    summary: 'Reopen a completed todo',
+    params: ID_PARAMS,
+    headers: IF_MATCH,
+    responses: { 200: TODO, 404: NOT_FOUND, 409: CONFLICT, 412: PRECONDITION_FAILED }
+  },
+  deleteTodo: {
+    method: 'delete',
+    path: '/todos/:id',
+    operationId: 'deleteTodo',
+    summary: 'Move a todo to the trash',
+    params: ID_PARAMS,
+    headers: IF_MATCH,
+    responses: { 204: { description: 'The todo is in the trash' }, 404: NOT_FOUND, 409: CONFLICT, 412: PRECONDITION_FAILED }
+  }
+};
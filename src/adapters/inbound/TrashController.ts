@@ -0,0 +1,41 @@
+import { Request, Response } from 'express';
+import { ListTrashUseCase } from '../../application/ports/ListTrashUseCase';
+import { RestoreTodoUseCase } from '../../application/ports/RestoreTodoUseCase';
+import { PurgeTodoUseCase } from '../../application/ports/PurgeTodoUseCase';
+import { EmptyTrashUseCase } from '../../application/ports/EmptyTrashUseCase';
+import { currentUserId } from './AuthMiddleware';
+
+/**
+ * Inbound Adapter - REST API Controller for deleted todos
+ */
+export class TrashController {
+  constructor(
+    private readonly listTrashUseCase: ListTrashUseCase,
+    private readonly restoreTodoUseCase: RestoreTodoUseCase,
+    private readonly purgeTodoUseCase: PurgeTodoUseCase,
+    private readonly emptyTrashUseCase: EmptyTrashUseCase
+  ) {}
+
+  async listTrash(req: Request, res: Response): Promise<void> {
+    const todos = await this.listTrashUseCase.execute(currentUserId(req));
+    res.status(200).json(todos.map(todo => todo.toObject()));
+  }
+
+  async restoreTodo(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const todo = await this.restoreTodoUseCase.execute(id, currentUserId(req));
+    res.set('ETag', `"${todo.getVersion()}"`);
+    res.status(200).json(todo.toObject());
+  }
+
+  async purgeTodo(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    await this.purgeTodoUseCase.execute(id, currentUserId(req));
+    res.status(204).send();
+  }
+
+  async emptyTrash(req: Request, res: Response): Promise<void> {
+    const purged = await this.emptyTrashUseCase.execute({ ownerId: currentUserId(req) });
+    res.status(200).json({ purged });
+  }
+}
@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { TrashController } from './TrashController';
+
+export function createTrashRoutes(trashController: TrashController): Router {
+  const router = Router();
+
+  // List deleted todos, most recently deleted first
+  router.get('/trash', (req, res) => trashController.listTrash(req, res));
+
+  // Permanently delete every todo in the trash
+  router.delete('/trash', (req, res) => trashController.emptyTrash(req, res));
+
+  // Permanently delete a todo in the trash
+  router.delete('/trash/:id', (req, res) => trashController.purgeTodo(req, res));
+
+  // Take a todo out of the trash
+  router.post('/todos/:id/restore', (req, res) => trashController.restoreTodo(req, res));
+
+  return router;
+}
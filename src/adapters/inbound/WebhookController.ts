@@ -0,0 +1,66 @@
+import { Request, Response } from 'express';
+import { RegisterWebhookUseCase } from '../../application/ports/RegisterWebhookUseCase';
+import { ListWebhooksUseCase } from '../../application/ports/ListWebhooksUseCase';
+import { GetWebhookUseCase } from '../../application/ports/GetWebhookUseCase';
+import { DeleteWebhookUseCase } from '../../application/ports/DeleteWebhookUseCase';
+import { ListWebhookDeliveriesUseCase } from '../../application/ports/ListWebhookDeliveriesUseCase';
+import { ReplayWebhookDeliveryUseCase } from '../../application/ports/ReplayWebhookDeliveryUseCase';
+import { WebhookSubscription } from '../../domain/entities/WebhookSubscription';
+import { currentUserId } from './AuthMiddleware';
+
+/**
+ * Inbound Adapter - REST API Controller for webhook subscriptions
+ */
+export class WebhookController {
+  constructor(
+    private readonly registerWebhookUseCase: RegisterWebhookUseCase,
+    private readonly listWebhooksUseCase: ListWebhooksUseCase,
+    private readonly getWebhookUseCase: GetWebhookUseCase,
+    private readonly deleteWebhookUseCase: DeleteWebhookUseCase,
+    private readonly listWebhookDeliveriesUseCase: ListWebhookDeliveriesUseCase,
+    private readonly replayWebhookDeliveryUseCase: ReplayWebhookDeliveryUseCase
+  ) {}
+
+  async registerWebhook(req: Request, res: Response): Promise<void> {
+    const { url, events, secret } = req.body;
+    const webhook = await this.registerWebhookUseCase.execute({ ownerId: currentUserId(req), url, events, secret });
+    res.status(201).json(this.toResponse(webhook));
+  }
+
+  async listWebhooks(req: Request, res: Response): Promise<void> {
+    const webhooks = await this.listWebhooksUseCase.execute(currentUserId(req));
+    res.status(200).json(webhooks.map(webhook => this.toResponse(webhook)));
+  }
+
+  async getWebhook(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const webhook = await this.getWebhookUseCase.execute(id, currentUserId(req));
+    res.status(200).json(this.toResponse(webhook));
+  }
+
+  async deleteWebhook(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    await this.deleteWebhookUseCase.execute(id, currentUserId(req));
+    res.status(204).send();
+  }
+
+  async listDeliveries(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const deliveries = await this.listWebhookDeliveriesUseCase.execute(id, currentUserId(req));
+    res.status(200).json(deliveries.map(delivery => delivery.toObject()));
+  }
+
+  async replayDelivery(req: Request, res: Response): Promise<void> {
+    const { id, deliveryId } = req.params;
+    const delivery = await this.replayWebhookDeliveryUseCase.execute({ webhookId: id, ownerId: currentUserId(req), deliveryId });
+    res.status(200).json(delivery.toObject());
+  }
+
+  /**
+   * The secret is write-only
+   */
+  private toResponse(webhook: WebhookSubscription) {
+    const { secret, ...rest } = webhook.toObject();
+    return rest;
+  }
+}
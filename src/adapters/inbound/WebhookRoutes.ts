@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { WebhookController } from './WebhookController';
+
+export function createWebhookRoutes(webhookController: WebhookController): Router {
+  const router = Router();
+
+  // Register a webhook
+  router.post('/webhooks', (req, res) => webhookController.registerWebhook(req, res));
+
+  // List webhooks
+  router.get('/webhooks', (req, res) => webhookController.listWebhooks(req, res));
+
+  // Get a webhook
+  router.get('/webhooks/:id', (req, res) => webhookController.getWebhook(req, res));
+
+  // Delete a webhook and its delivery log
+  router.delete('/webhooks/:id', (req, res) => webhookController.deleteWebhook(req, res));
+
+  // Delivery log of a webhook, most recent first
+  router.get('/webhooks/:id/deliveries', (req, res) => webhookController.listDeliveries(req, res));
+
+  // Send a failed delivery again
+  router.post('/webhooks/:id/deliveries/:deliveryId/replay', (req, res) => webhookController.replayDelivery(req, res));
+
+  return router;
+}
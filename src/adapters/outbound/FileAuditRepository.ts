@@ -0,0 +1,45 @@
+import { AuditEntry, AuditEntryProps } from '../../domain/entities/AuditEntry';
+import { InMemoryAuditRepository } from './InMemoryAuditRepository';
+import { JsonFileStore, StoreOperation } from './JsonFileStore';
+import { fromStoredRecord, StoredRecord, toStoredRecord } from './FileRecords';
+import { currentTransaction } from './TransactionContext';
+
+const DATE_FIELDS = ['occurredAt'] as const;
+
+type AuditRecord = StoredRecord<AuditEntryProps, typeof DATE_FIELDS[number]>;
+
+/**
+ * Outbound Adapter - AuditRepository persisted to JSON files
+ * Entries are logged before they are kept in memory. Inside a transaction
+ * they are logged when it commits, after the todos FileTodoRepository logs
+ * for it, so that a crash in between can lose history but never a change.
+ */
+export class FileAuditRepository extends InMemoryAuditRepository {
+  constructor(private readonly store: JsonFileStore<AuditRecord>) {
+    super();
+  }
+
+  async init(): Promise<void> {
+    const records = await this.store.open();
+    await super.append(Array.from(records.values(), record => new AuditEntry(fromStoredRecord<AuditEntryProps>(record, DATE_FIELDS))));
+  }
+
+  async append(entries: AuditEntry[]): Promise<void> {
+    const operations: Array<StoreOperation<AuditRecord>> = entries.map(entry => {
+      const entryData = entry.toObject();
+      return { type: 'put', id: entryData.id!, record: toStoredRecord(entryData, DATE_FIELDS) };
+    });
+    const transaction = currentTransaction();
+    if (transaction) {
+      await super.append(entries);
+      transaction.beforeCommit.push(() => this.store.write(operations));
+      return;
+    }
+    await this.store.write(operations);
+    await super.append(entries);
+  }
+
+  async close(): Promise<void> {
+    await this.store.close();
+  }
+}
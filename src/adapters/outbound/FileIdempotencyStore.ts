@@ -0,0 +1,79 @@
+import { IdempotencyRecord, StoredResponse } from '../../application/ports/IdempotencyStore';
+import { InMemoryIdempotencyStore } from './InMemoryIdempotencyStore';
+import { JsonFileStore } from './JsonFileStore';
+import { fromStoredRecord, StoredRecord, toStoredRecord } from './FileRecords';
+
+const DATE_FIELDS = ['expiresAt'] as const;
+
+type IdempotencyFileRecord = StoredRecord<IdempotencyRecord, typeof DATE_FIELDS[number]>;
+
+/**
+ * Outbound Adapter - IdempotencyStore persisted to JSON files
+ * Only completed records are logged: a key held by a request that was still
+ * running when the process stopped is free again after a restart. Expired
+ * records are dropped from the files when they are opened.
+ */
+export class FileIdempotencyStore extends InMemoryIdempotencyStore {
+  // Records reserved by requests still in progress, which are not logged yet
+  private readonly reserved = new Map<string, IdempotencyRecord>();
+
+  constructor(private readonly store: JsonFileStore<IdempotencyFileRecord>) {
+    super();
+  }
+
+  async init(): Promise<void> {
+    const records = await this.store.open();
+    const now = new Date();
+    const live: IdempotencyRecord[] = [];
+    const expired: string[] = [];
+    for (const [id, record] of records) {
+      const idempotencyRecord = fromStoredRecord<IdempotencyRecord>(record, DATE_FIELDS);
+      if (idempotencyRecord.expiresAt > now) {
+        live.push(idempotencyRecord);
+      } else {
+        expired.push(id);
+      }
+    }
+    await this.store.write(expired.map(id => ({ type: 'delete', id })));
+
+    // The in-memory store expects records in the order they expire
+    live.sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime());
+    for (const record of live) {
+      await super.reserve(record);
+    }
+  }
+
+  async reserve(record: IdempotencyRecord): Promise<IdempotencyRecord | null> {
+    const existing = await super.reserve(record);
+    if (!existing) {
+      this.reserved.set(this.recordId(record.ownerId, record.key), { ...record });
+    }
+    return existing;
+  }
+
+  async complete(ownerId: string, key: string, response: StoredResponse): Promise<void> {
+    const id = this.recordId(ownerId, key);
+    const record = this.reserved.get(id);
+    if (record) {
+      await this.store.write([{ type: 'put', id, record: toStoredRecord({ ...record, response }, DATE_FIELDS) }]);
+      this.reserved.delete(id);
+    }
+    await super.complete(ownerId, key, response);
+  }
+
+  async release(ownerId: string, key: string): Promise<void> {
+    const id = this.recordId(ownerId, key);
+    if (!this.reserved.delete(id)) {
+      await this.store.write([{ type: 'delete', id }]);
+    }
+    await super.release(ownerId, key);
+  }
+
+  async close(): Promise<void> {
+    await this.store.close();
+  }
+
+  private recordId(ownerId: string, key: string): string {
+    return JSON.stringify([ownerId, key]);
+  }
+}
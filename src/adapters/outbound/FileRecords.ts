@@ -0,0 +1,23 @@
+/**
+ * Entity props as kept by a JsonFileStore, with the given date fields as
+ * ISO 8601 strings
+ */
+export type StoredRecord<T, K extends keyof T> = Omit<T, K> & { [P in K]?: string | null };
+
+export function toStoredRecord<T extends object, K extends keyof T>(props: T, dateFields: readonly K[]): StoredRecord<T, K> {
+  const record = { ...props } as Record<string, unknown>;
+  for (const field of dateFields) {
+    const date = props[field] as unknown as Date | null | undefined;
+    record[field as string] = date ? date.toISOString() : date;
+  }
+  return record as StoredRecord<T, K>;
+}
+
+export function fromStoredRecord<T>(record: object, dateFields: readonly string[]): T {
+  const props: Record<string, unknown> = { ...record };
+  for (const field of dateFields) {
+    const text = props[field];
+    props[field] = typeof text === 'string' ? new Date(text) : text;
+  }
+  return props as T;
+}
@@ -0,0 +1,77 @@
+import { TodoList, TodoListProps } from '../../domain/entities/TodoList';
+import { TodoListNotFoundException } from '../../domain/exceptions/DomainException';
+import { InMemoryTodoListRepository } from './InMemoryTodoListRepository';
+import { JsonFileStore } from './JsonFileStore';
+import { fromStoredRecord, StoredRecord, toStoredRecord } from './FileRecords';
+import { currentTransaction } from './TransactionContext';
+
+const DATE_FIELDS = ['createdAt', 'updatedAt'] as const;
+
+type TodoListRecord = StoredRecord<TodoListProps, typeof DATE_FIELDS[number]>;
+
+/**
+ * Outbound Adapter - TodoListRepository persisted to JSON files
+ * Writes are logged before they are applied in memory, one at a time, so
+ * that a list is never logged after it was deleted. Inside a transaction a
+ * deletion is logged when it commits, after the todos taken out of the list.
+ */
+export class FileTodoListRepository extends InMemoryTodoListRepository {
+  private writing: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly store: JsonFileStore<TodoListRecord>) {
+    super();
+  }
+
+  async init(): Promise<void> {
+    const records = await this.store.open();
+    for (const record of records.values()) {
+      await super.save(new TodoList(fromStoredRecord<TodoListProps>(record, DATE_FIELDS)));
+    }
+  }
+
+  async save(list: TodoList): Promise<TodoList> {
+    return this.exclusive(async () => {
+      await this.store.write([{ type: 'put', id: list.getId(), record: toStoredRecord(list.toObject(), DATE_FIELDS) }]);
+      return super.save(list);
+    });
+  }
+
+  async update(list: TodoList): Promise<TodoList> {
+    return this.exclusive(async () => {
+      if (!(await this.findById(list.getId(), list.getOwnerId()))) {
+        throw new TodoListNotFoundException(list.getId());
+      }
+      await this.store.write([{ type: 'put', id: list.getId(), record: toStoredRecord(list.toObject(), DATE_FIELDS) }]);
+      return super.update(list);
+    });
+  }
+
+  async delete(id: string, ownerId: string): Promise<boolean> {
+    const transaction = currentTransaction();
+    if (transaction) {
+      if (!(await super.delete(id, ownerId))) {
+        return false;
+      }
+      transaction.beforeCommit.push(() => this.exclusive(() => this.store.write([{ type: 'delete', id }])));
+      return true;
+    }
+
+    return this.exclusive(async () => {
+      if (!(await this.findById(id, ownerId))) {
+        return false;
+      }
+      await this.store.write([{ type: 'delete', id }]);
+      return super.delete(id, ownerId);
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.store.close();
+  }
+
+  private exclusive<R>(work: () => Promise<R>): Promise<R> {
+    const result = this.writing.then(work);
+    this.writing = result.catch(() => undefined);
+    return result;
+  }
+}
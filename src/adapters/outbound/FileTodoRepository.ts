@@ -0,0 +1,124 @@
+import { Todo, TodoProps } from '../../domain/entities/Todo';
+import { InMemoryTodoRepository } from './InMemoryTodoRepository';
+import { JsonFileStore, StoreOperation } from './JsonFileStore';
+import { currentTransaction, runInTransaction, TransactionState } from './TransactionContext';
+import { fromStoredRecord, StoredRecord, toStoredRecord } from './FileRecords';
+
+const DATE_FIELDS = ['createdAt', 'updatedAt', 'deletedAt'] as const;
+
+type TodoRecord = StoredRecord<TodoProps, typeof DATE_FIELDS[number]>;
+
+/**
+ * Outbound Adapter - TodoRepository persisted to JSON files
+ * Queries are answered from memory, as by InMemoryTodoRepository; every
+ * write is also logged to a JsonFileStore before it returns. A write that
+ * cannot be logged is undone and fails with InfrastructureException. Inside
+ * a transaction, the todos written are logged together when it commits, so
+ * that a crash never leaves half of a transaction on disk.
+ */
+export class FileTodoRepository extends InMemoryTodoRepository {
+  // Todos written by each running transaction, with their owner
+  private readonly pending = new WeakMap<TransactionState, Map<string, string>>();
+  // Writes outside transactions are applied and logged one at a time
+  private writing: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly store: JsonFileStore<TodoRecord>) {
+    super();
+  }
+
+  async init(): Promise<void> {
+    const records = await this.store.open();
+    for (const record of records.values()) {
+      await super.save(new Todo(fromStoredRecord<TodoProps>(record, DATE_FIELDS)));
+    }
+  }
+
+  async save(todo: Todo): Promise<Todo> {
+    return this.write(todo.getOwnerId(), () => [todo.getId().getValue()], () => super.save(todo));
+  }
+
+  async update(todo: Todo): Promise<Todo> {
+    return this.write(todo.getOwnerId(), () => [todo.getId().getValue()], () => super.update(todo));
+  }
+
+  async delete(id: string, ownerId: string, expectedVersion?: number): Promise<boolean> {
+    return this.write(ownerId, () => [id], () => super.delete(id, ownerId, expectedVersion));
+  }
+
+  async renameTag(from: string, to: string, ownerId: string): Promise<number> {
+    return this.write(ownerId, () => this.taggedWith(from, ownerId), () => super.renameTag(from, to, ownerId));
+  }
+
+  async removeTag(tag: string, ownerId: string): Promise<number> {
+    return this.write(ownerId, () => this.taggedWith(tag, ownerId), () => super.removeTag(tag, ownerId));
+  }
+
+  async close(): Promise<void> {
+    await this.store.close();
+  }
+
+  /**
+   * Applies a change in memory, then logs the todos it touched as they now are
+   */
+  private async write<T>(ownerId: string, touched: () => Promise<string[]> | string[], change: () => Promise<T>): Promise<T> {
+    const transaction = currentTransaction();
+    if (transaction) {
+      const ids = await touched();
+      const result = await change();
+      ids.forEach(id => this.pendingOf(transaction).set(id, ownerId));
+      return result;
+    }
+
+    return this.exclusive(async () => {
+      const ids = await touched();
+      // A transaction of its own, so that the in-memory change can be undone
+      const state: TransactionState = { rollbacks: [], beforeCommit: [], afterCommit: [] };
+      try {
+        const result = await runInTransaction(state, change);
+        await this.store.write(await this.operations(new Map(ids.map(id => [id, ownerId]))));
+        return result;
+      } catch (error) {
+        state.rollbacks.reverse().forEach(rollback => rollback());
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * The todos written by a transaction, logged in one entry before it commits
+   */
+  private pendingOf(transaction: TransactionState): Map<string, string> {
+    let pending = this.pending.get(transaction);
+    if (!pending) {
+      const todos = new Map<string, string>();
+      transaction.beforeCommit.push(() => this.exclusive(async () => {
+        await this.store.write(await this.operations(todos));
+      }));
+      this.pending.set(transaction, todos);
+      pending = todos;
+    }
+    return pending;
+  }
+
+  private async operations(todos: Map<string, string>): Promise<Array<StoreOperation<TodoRecord>>> {
+    const operations: Array<StoreOperation<TodoRecord>> = [];
+    for (const [id, ownerId] of todos) {
+      const todo = await this.findById(id, ownerId, { includeTrashed: true });
+      operations.push(todo ? { type: 'put', id, record: toStoredRecord(todo.toObject(), DATE_FIELDS) } : { type: 'delete', id });
+    }
+    return operations;
+  }
+
+  private async taggedWith(tag: string, ownerId: string): Promise<string[]> {
+    const todos = await this.findAll(ownerId, { includeTrashed: true });
+    return todos
+      .filter(todo => todo.getTags().some(existing => existing.getValue() === tag))
+      .map(todo => todo.getId().getValue());
+  }
+
+  private exclusive<R>(work: () => Promise<R>): Promise<R> {
+    const result = this.writing.then(work);
+    this.writing = result.catch(() => undefined);
+    return result;
+  }
+}
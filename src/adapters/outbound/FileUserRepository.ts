@@ -0,0 +1,48 @@
+import { User, UserProps } from '../../domain/entities/User';
+import { EmailAlreadyRegisteredException } from '../../domain/exceptions/DomainException';
+import { InMemoryUserRepository } from './InMemoryUserRepository';
+import { JsonFileStore } from './JsonFileStore';
+
+type UserRecord = Omit<UserProps, 'createdAt'> & { createdAt?: string };
+
+/**
+ * Outbound Adapter - UserRepository persisted to JSON files
+ * Accounts are kept alongside FileTodoRepository, so that todos stay
+ * reachable after a restart. Registrations are logged before they are kept
+ * in memory, one at a time so that an email cannot be registered twice.
+ */
+export class FileUserRepository extends InMemoryUserRepository {
+  private registering: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly store: JsonFileStore<UserRecord>) {
+    super();
+  }
+
+  async init(): Promise<void> {
+    const records = await this.store.open();
+    for (const record of records.values()) {
+      await super.save(new User({ ...record, createdAt: record.createdAt ? new Date(record.createdAt) : undefined }));
+    }
+  }
+
+  async save(user: User): Promise<User> {
+    const result = this.registering.then(async () => {
+      const userData = user.toObject();
+      if (await this.findByEmail(userData.email)) {
+        throw new EmailAlreadyRegisteredException();
+      }
+      await this.store.write([{
+        type: 'put',
+        id: userData.id!,
+        record: { ...userData, createdAt: userData.createdAt?.toISOString() }
+      }]);
+      return await super.save(user);
+    });
+    this.registering = result.catch(() => undefined);
+    return result;
+  }
+
+  async close(): Promise<void> {
+    await this.store.close();
+  }
+}
@@ -0,0 +1,69 @@
+import { WebhookDelivery, WebhookDeliveryProps } from '../../domain/entities/WebhookDelivery';
+import { WebhookDeliveryNotFoundException } from '../../domain/exceptions/DomainException';
+import { InMemoryWebhookDeliveryRepository } from './InMemoryWebhookDeliveryRepository';
+import { JsonFileStore } from './JsonFileStore';
+import { fromStoredRecord, StoredRecord, toStoredRecord } from './FileRecords';
+
+const DATE_FIELDS = ['nextAttemptAt', 'lastAttemptAt', 'createdAt', 'updatedAt'] as const;
+
+type WebhookDeliveryRecord = StoredRecord<WebhookDeliveryProps, typeof DATE_FIELDS[number]>;
+
+/**
+ * Outbound Adapter - WebhookDeliveryRepository persisted to JSON files
+ * Deliveries are logged before they are applied in memory, one at a time,
+ * so that pending deliveries are retried after a restart.
+ */
+export class FileWebhookDeliveryRepository extends InMemoryWebhookDeliveryRepository {
+  private writing: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly store: JsonFileStore<WebhookDeliveryRecord>) {
+    super();
+  }
+
+  async init(): Promise<void> {
+    const records = await this.store.open();
+    for (const record of records.values()) {
+      await super.save(new WebhookDelivery(fromStoredRecord<WebhookDeliveryProps>(record, DATE_FIELDS)));
+    }
+  }
+
+  async save(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    return this.exclusive(async () => {
+      await this.store.write([this.put(delivery)]);
+      return super.save(delivery);
+    });
+  }
+
+  async update(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    return this.exclusive(async () => {
+      const deliveryData = delivery.toObject();
+      if (!(await this.findById(deliveryData.id!))) {
+        throw new WebhookDeliveryNotFoundException(deliveryData.webhookId, deliveryData.id!);
+      }
+      await this.store.write([this.put(delivery)]);
+      return super.update(delivery);
+    });
+  }
+
+  async deleteByWebhookId(webhookId: string): Promise<number> {
+    return this.exclusive(async () => {
+      const deliveries = await this.findByWebhookId(webhookId, Infinity);
+      await this.store.write(deliveries.map(delivery => ({ type: 'delete', id: delivery.getId() })));
+      return super.deleteByWebhookId(webhookId);
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.store.close();
+  }
+
+  private put(delivery: WebhookDelivery): { type: 'put'; id: string; record: WebhookDeliveryRecord } {
+    return { type: 'put', id: delivery.getId(), record: toStoredRecord(delivery.toObject(), DATE_FIELDS) };
+  }
+
+  private exclusive<R>(work: () => Promise<R>): Promise<R> {
+    const result = this.writing.then(work);
+    this.writing = result.catch(() => undefined);
+    return result;
+  }
+}
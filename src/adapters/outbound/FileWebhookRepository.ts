@@ -0,0 +1,42 @@
+import { WebhookSubscription, WebhookSubscriptionProps } from '../../domain/entities/WebhookSubscription';
+import { InMemoryWebhookRepository } from './InMemoryWebhookRepository';
+import { JsonFileStore } from './JsonFileStore';
+import { fromStoredRecord, StoredRecord, toStoredRecord } from './FileRecords';
+
+const DATE_FIELDS = ['createdAt'] as const;
+
+type WebhookRecord = StoredRecord<WebhookSubscriptionProps, typeof DATE_FIELDS[number]>;
+
+/**
+ * Outbound Adapter - WebhookRepository persisted to JSON files
+ * Subscriptions are logged before they are applied in memory.
+ */
+export class FileWebhookRepository extends InMemoryWebhookRepository {
+  constructor(private readonly store: JsonFileStore<WebhookRecord>) {
+    super();
+  }
+
+  async init(): Promise<void> {
+    const records = await this.store.open();
+    for (const record of records.values()) {
+      await super.save(new WebhookSubscription(fromStoredRecord<WebhookSubscriptionProps>(record, DATE_FIELDS)));
+    }
+  }
+
+  async save(webhook: WebhookSubscription): Promise<WebhookSubscription> {
+    await this.store.write([{ type: 'put', id: webhook.getId(), record: toStoredRecord(webhook.toObject(), DATE_FIELDS) }]);
+    return super.save(webhook);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!(await this.findById(id))) {
+      return false;
+    }
+    await this.store.write([{ type: 'delete', id }]);
+    return super.delete(id);
+  }
+
+  async close(): Promise<void> {
+    await this.store.close();
+  }
+}
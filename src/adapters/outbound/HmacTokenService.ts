@@ -0,0 +1,72 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { IssuedToken, TokenService } from '../../application/ports/TokenService';
+import { AuthenticationException } from '../../domain/exceptions/DomainException';
+
+const HEADER = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+
+/**
+ * Outbound Adapter - HS256 JSON Web Tokens carrying the user id as `sub`
+ */
+export class HmacTokenService implements TokenService {
+  constructor(
+    private readonly secret: string,
+    private readonly ttlSeconds: number
+  ) {}
+
+  issue(userId: string): IssuedToken {
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const expiresAt = issuedAt + this.ttlSeconds;
+    const payload = Buffer.from(JSON.stringify({ sub: userId, iat: issuedAt, exp: expiresAt })).toString('base64url');
+
+    return {
+      token: `${HEADER}.${payload}.${this.sign(`${HEADER}.${payload}`)}`,
+      expiresAt: new Date(expiresAt * 1000)
+    };
+  }
+
+  verify(token: string): string {
+    const [header, payload, signature, ...rest] = token.split('.');
+    if (!header || !payload || !signature || rest.length > 0) {
+      throw new AuthenticationException('Invalid token');
+    }
+
+    const expected = Buffer.from(this.sign(`${header}.${payload}`));
+    const actual = Buffer.from(signature);
+    if (header !== HEADER || actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new AuthenticationException('Invalid token');
+    }
+
+    let claims: unknown;
+    try {
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+      throw new AuthenticationException('Invalid token');
+    }
+
+    if (!isClaims(claims)) {
+      throw new AuthenticationException('Invalid token');
+    }
+    if (claims.exp * 1000 <= Date.now()) {
+      throw new AuthenticationException('Token has expired');
+    }
+
+    return claims.sub;
+  }
+
+  private sign(input: string): string {
+    return createHmac('sha256', this.secret).update(input).digest('base64url');
+  }
+}
+
+interface Claims {
+  sub: string;
+  exp: number;
+}
+
+function isClaims(value: unknown): value is Claims {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const claims = value as Record<string, unknown>;
+  return typeof claims.sub === 'string' && typeof claims.exp === 'number';
+}
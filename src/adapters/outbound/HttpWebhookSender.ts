@@ -0,0 +1,40 @@
+import { createHmac } from 'crypto';
+import { WebhookRequest, WebhookResponse, WebhookSender } from '../../application/ports/WebhookSender';
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+/**
+ * Hex HMAC-SHA256 of the raw request body, sent as `sha256=<digest>`
+ * Receivers recompute it with the shared secret to authenticate the request
+ */
+export function signPayload(secret: string, payload: string): string {
+  return `sha256=${createHmac('sha256', secret).update(payload).digest('hex')}`;
+}
+
+/**
+ * Outbound Adapter - Sends webhooks as JSON POST requests
+ */
+export class HttpWebhookSender implements WebhookSender {
+  constructor(private readonly timeoutMs: number) {}
+
+  async send(request: WebhookRequest): Promise<WebhookResponse> {
+    const response = await fetch(request.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'todo-hex-webhooks',
+        'X-Webhook-Event': request.eventType,
+        'X-Webhook-Delivery': request.deliveryId,
+        [SIGNATURE_HEADER]: signPayload(request.secret, request.payload)
+      },
+      body: request.payload,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(this.timeoutMs)
+    });
+
+    // The body is not used; drain it so the connection can be reused
+    await response.arrayBuffer().catch(() => undefined);
+
+    return { status: response.status };
+  }
+}
@@ -0,0 +1,28 @@
+import { AuditEntry, AuditEntryProps } from '../../domain/entities/AuditEntry';
+import { AuditRepository } from '../../application/ports/AuditRepository';
+import { currentTransaction } from './TransactionContext';
+
+/**
+ * Outbound Adapter - In-Memory implementation of AuditRepository
+ */
+export class InMemoryAuditRepository implements AuditRepository {
+  private entries: AuditEntryProps[] = [];
+
+  async init(): Promise<void> {
+    // No initialization needed for in-memory repository
+  }
+
+  async append(entries: AuditEntry[]): Promise<void> {
+    const appended = entries.map(entry => entry.toObject());
+    this.entries.push(...appended);
+    currentTransaction()?.rollbacks.push(() => {
+      this.entries = this.entries.filter(entryData => !appended.includes(entryData));
+    });
+  }
+
+  async findByTodoId(todoId: string, ownerId: string): Promise<AuditEntry[]> {
+    return this.entries
+      .filter(entryData => entryData.todoId === todoId && entryData.ownerId === ownerId)
+      .map(entryData => new AuditEntry(entryData));
+  }
+}
@@ -0,0 +1,49 @@
+import { TodoEvent, TodoEventType } from '../../domain/events/TodoEvent';
+import { EventPublisher } from '../../application/ports/EventPublisher';
+import { EventSubscriber, TodoEventHandler } from '../../application/ports/EventSubscriber';
+import { Logger } from '../../application/ports/Logger';
+import { currentTransaction } from './TransactionContext';
+
+/**
+ * In-process event bus
+ * Handlers run synchronously in subscription order, so `publish` resolves once
+ * every handler has seen the events. A failing handler is logged and does not
+ * affect the other handlers or the use case that published the event.
+ * Events published inside a transaction are delivered once it commits.
+ */
+export class InMemoryEventBus implements EventPublisher, EventSubscriber {
+  private handlers = new Map<TodoEventType | '*', TodoEventHandler[]>();
+
+  constructor(private readonly logger: Logger) {}
+
+  subscribe(type: TodoEventType | '*', handler: TodoEventHandler): () => void {
+    this.handlers.set(type, [...(this.handlers.get(type) || []), handler]);
+
+    return () => {
+      this.handlers.set(type, (this.handlers.get(type) || []).filter(existing => existing !== handler));
+    };
+  }
+
+  async publish(events: TodoEvent[]): Promise<void> {
+    const transaction = currentTransaction();
+    if (transaction) {
+      transaction.afterCommit.push(() => this.deliver(events));
+      return;
+    }
+    await this.deliver(events);
+  }
+
+  private async deliver(events: TodoEvent[]): Promise<void> {
+    for (const event of events) {
+      const handlers = [...(this.handlers.get(event.type) || []), ...(this.handlers.get('*') || [])];
+
+      for (const handler of handlers) {
+        try {
+          await handler(event);
+        } catch (error) {
+          this.logger.error('Event handler failed', { eventType: event.type, eventId: event.id, error });
+        }
+      }
+    }
+  }
+}
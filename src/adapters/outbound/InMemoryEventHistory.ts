@@ -0,0 +1,26 @@
+import { TodoEvent } from '../../domain/events/TodoEvent';
+import { EventHistory } from '../../application/ports/EventHistory';
+import { EventSubscriber } from '../../application/ports/EventSubscriber';
+
+/**
+ * Outbound Adapter - Keeps the last `capacity` events published on the bus
+ * Create it before anything else subscribes, so that it has recorded an event
+ * by the time other handlers see it.
+ */
+export class InMemoryEventHistory implements EventHistory {
+  private readonly events: TodoEvent[] = [];
+
+  constructor(subscriber: EventSubscriber, private readonly capacity: number) {
+    subscriber.subscribe('*', event => {
+      this.events.push(event);
+      if (this.events.length > this.capacity) {
+        this.events.shift();
+      }
+    });
+  }
+
+  since(eventId: string): TodoEvent[] | null {
+    const index = this.events.findIndex(event => event.id === eventId);
+    return index === -1 ? null : this.events.slice(index + 1);
+  }
+}
@@ -0,0 +1,48 @@
+import { IdempotencyRecord, IdempotencyStore, StoredResponse } from '../../application/ports/IdempotencyStore';
+
+/**
+ * Outbound Adapter - In-Memory implementation of IdempotencyStore
+ * Records are kept in the order they expire, as they all live equally long,
+ * so expired ones are dropped from the front whenever a key is reserved.
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private records: Map<string, IdempotencyRecord> = new Map();
+
+  async init(): Promise<void> {
+    // No initialization needed for in-memory store
+  }
+
+  async reserve(record: IdempotencyRecord): Promise<IdempotencyRecord | null> {
+    this.dropExpired(new Date());
+    const existing = this.records.get(this.id(record.ownerId, record.key));
+    if (existing) {
+      return { ...existing };
+    }
+    this.records.set(this.id(record.ownerId, record.key), { ...record });
+    return null;
+  }
+
+  async complete(ownerId: string, key: string, response: StoredResponse): Promise<void> {
+    const record = this.records.get(this.id(ownerId, key));
+    if (record) {
+      record.response = response;
+    }
+  }
+
+  async release(ownerId: string, key: string): Promise<void> {
+    this.records.delete(this.id(ownerId, key));
+  }
+
+  private dropExpired(now: Date): void {
+    for (const [id, record] of this.records) {
+      if (record.expiresAt > now) {
+        break;
+      }
+      this.records.delete(id);
+    }
+  }
+
+  private id(ownerId: string, key: string): string {
+    return JSON.stringify([ownerId, key]);
+  }
+}
@@ -0,0 +1,74 @@
+import { TodoList, TodoListProps } from '../../domain/entities/TodoList';
+import { TodoListRepository } from '../../application/ports/TodoListRepository';
+import { TodoListNotFoundException } from '../../domain/exceptions/DomainException';
+import { currentTransaction } from './TransactionContext';
+
+/**
+ * Outbound Adapter - In-Memory implementation of TodoListRepository
+ * Writes made inside a transaction are undone when it rolls back
+ */
+export class InMemoryTodoListRepository implements TodoListRepository {
+  private lists: Map<string, TodoListProps> = new Map();
+
+  async init(): Promise<void> {
+    // No initialization needed for in-memory repository
+  }
+
+  async save(list: TodoList): Promise<TodoList> {
+    const listData = list.toObject();
+    this.recordUndo(listData.id!);
+    this.lists.set(listData.id!, listData);
+    return new TodoList(listData);
+  }
+
+  async update(list: TodoList): Promise<TodoList> {
+    const listData = list.toObject();
+    const id = listData.id!;
+
+    if (this.lists.get(id)?.ownerId !== listData.ownerId) {
+      throw new TodoListNotFoundException(id);
+    }
+
+    this.recordUndo(id);
+    this.lists.set(id, listData);
+    return new TodoList(listData);
+  }
+
+  async findById(id: string, ownerId: string): Promise<TodoList | null> {
+    const listData = this.lists.get(id);
+    if (!listData || listData.ownerId !== ownerId) {
+      return null;
+    }
+    return new TodoList(listData);
+  }
+
+  async findAll(ownerId: string): Promise<TodoList[]> {
+    return Array.from(this.lists.values())
+      .filter(listData => listData.ownerId === ownerId)
+      .sort((a, b) => a.createdAt!.getTime() - b.createdAt!.getTime())
+      .map(listData => new TodoList(listData));
+  }
+
+  async delete(id: string, ownerId: string): Promise<boolean> {
+    if (this.lists.get(id)?.ownerId !== ownerId) {
+      return false;
+    }
+    this.recordUndo(id);
+    return this.lists.delete(id);
+  }
+
+  private recordUndo(id: string): void {
+    const transaction = currentTransaction();
+    if (!transaction) {
+      return;
+    }
+    const previous = this.lists.get(id);
+    transaction.rollbacks.push(() => {
+      if (previous) {
+        this.lists.set(id, previous);
+      } else {
+        this.lists.delete(id);
+      }
+    });
+  }
+}
@@ -1,11 +1,20 @@
 import { Todo, TodoProps } from '../../domain/entities/Todo';
-import { TodoRepository } from '../../application/ports/TodoRepository';
+import { TodoStatusEnum } from '../../domain/value-objects/TodoStatus';
+import { ConcurrencyConflictException, TodoAlreadyExistsException, TodoNotFoundException } from '../../domain/exceptions/DomainException';
+import { FindOptions, ListCounts, matchesFilter, SearchResult, TagUsage, TrashFilter, TodoCriteria, TodoPage, TodoRepository } from '../../application/ports/TodoRepository';
+import { SearchQuery, tokenize } from '../../domain/value-objects/SearchQuery';
+import { decodeCursor, encodeCursor, SortValue, sortValue } from './TodoCursor';
+import { compareHits, matchTodo } from './TodoSearch';
+import { currentTransaction } from './TransactionContext';
 
 /**
  * Outbound Adapter - In-Memory implementation of TodoRepository
+ * Keeps an inverted index from the words of titles and descriptions to todo ids
  */
 export class InMemoryTodoRepository implements TodoRepository {
   private todos: Map<string, TodoProps> = new Map();
+  private wordIndex: Map<string, Set<string>> = new Map();
+  private indexedWords: Map<string, Set<string>> = new Map();
 
   async init(): Promise<void> {
     // No initialization needed for in-memory repository
@@ -13,42 +22,292 @@ export class InMemoryTodoRepository implements TodoRepository {
 
   async save(todo: Todo): Promise<Todo> {
     const todoData = todo.toObject();
-    this.todos.set(todoData.id!, todoData);
+    if (this.todos.has(todoData.id!)) {
+      throw new TodoAlreadyExistsException(todoData.id!);
+    }
+    this.recordUndo(todoData.id!);
+    this.put(todoData);
     return new Todo(todoData);
   }
 
-  async findById(id: string): Promise<Todo | null> {
+  async findById(id: string, ownerId: string, options: FindOptions = {}): Promise<Todo | null> {
     const todoData = this.todos.get(id);
-    if (!todoData) {
+    if (!todoData || todoData.ownerId !== ownerId || (todoData.deletedAt && !options.includeTrashed)) {
       return null;
     }
     return new Todo(todoData);
   }
 
-  async findAll(): Promise<Todo[]> {
-    const allTodos = Array.from(this.todos.values());
+  async exists(id: string): Promise<boolean> {
+    return this.todos.has(id);
+  }
+
+  async findAll(ownerId: string, options: FindOptions = {}): Promise<Todo[]> {
+    const allTodos = options.includeTrashed ? this.ownedBy(ownerId) : this.active(ownerId);
     return allTodos.map(todoData => new Todo(todoData));
   }
 
+  /**
+   * Mirrors the semantics of MongoTodoRepository.findByCriteria:
+   * nulls sort first, ties are broken by id in the same direction
+   */
+  async findByCriteria(criteria: TodoCriteria): Promise<TodoPage> {
+    const direction = criteria.sortDirection === 'asc' ? 1 : -1;
+    const compare = (a: TodoProps, b: TodoProps): number =>
+      direction * (
+        compareValues(sortValue(a, criteria.sortBy), sortValue(b, criteria.sortBy)) ||
+        compareValues(a.id!, b.id!)
+      );
+
+    const matching = this.active(criteria.ownerId)
+      .filter(todoData => matchesFilter(todoData, criteria))
+      .sort(compare);
+
+    let remaining = matching;
+    if (criteria.cursor) {
+      const cursor = decodeCursor(criteria.cursor);
+      remaining = matching.filter(todoData =>
+        direction * (
+          compareValues(sortValue(todoData, criteria.sortBy), cursor.value) ||
+          compareValues(todoData.id!, cursor.id)
+        ) > 0
+      );
+    } else if (criteria.offset) {
+      remaining = matching.slice(criteria.offset);
+    }
+
+    const page = remaining.slice(0, criteria.limit);
+    const hasMore = remaining.length > criteria.limit;
+
+    return {
+      items: page.map(todoData => new Todo(todoData)),
+      total: matching.length,
+      nextCursor: hasMore ? encodeCursor(page[page.length - 1], criteria.sortBy) : null
+    };
+  }
+
+  async findPendingWithDueDate(ownerId: string): Promise<Todo[]> {
+    return this.active(ownerId)
+      .filter(todoData => todoData.status === TodoStatusEnum.PENDING && todoData.dueDate)
+      .map(todoData => new Todo(todoData));
+  }
+
+  async findBySeriesId(seriesId: string, ownerId: string): Promise<Todo[]> {
+    return this.active(ownerId)
+      .filter(todoData => todoData.seriesId === seriesId)
+      .sort((a, b) => compareValues(a.dueDate?.date ?? null, b.dueDate?.date ?? null) || compareValues(a.id!, b.id!))
+      .map(todoData => new Todo(todoData));
+  }
+
+  async findByListId(listId: string, ownerId: string, options: FindOptions = {}): Promise<Todo[]> {
+    const candidates = options.includeTrashed ? this.ownedBy(ownerId) : this.active(ownerId);
+    return candidates
+      .filter(todoData => todoData.listId === listId)
+      .map(todoData => new Todo(todoData));
+  }
+
+  async *stream(ownerId: string): AsyncIterable<Todo> {
+    const todos = this.active(ownerId)
+      .sort((a, b) => a.createdAt!.getTime() - b.createdAt!.getTime() || compareValues(a.id!, b.id!));
+    for (const todoData of todos) {
+      yield new Todo(todoData);
+    }
+  }
+
+  /**
+   * Candidates come from the word index: todos holding every required word
+   * and, for each prefix, a word starting with it
+   */
+  async search(ownerId: string, query: SearchQuery, limit: number): Promise<SearchResult> {
+    const candidates = [
+      ...query.getWords().map(word => this.wordIndex.get(word) ?? new Set<string>()),
+      ...query.getPrefixes().map(prefix => this.idsWithPrefix(prefix))
+    ].reduce((result, ids) => new Set(Array.from(result).filter(id => ids.has(id))));
+
+    const hits = Array.from(candidates)
+      .map(id => this.todos.get(id)!)
+      .filter(todoData => todoData.ownerId === ownerId && !todoData.deletedAt)
+      .map(todoData => matchTodo(todoData, query))
+      .filter(hit => hit !== null)
+      .sort(compareHits);
+
+    return { hits: hits.slice(0, limit), total: hits.length };
+  }
+
+  async countByList(ownerId: string): Promise<ListCounts[]> {
+    const counts = new Map<string, ListCounts>();
+    for (const todoData of this.active(ownerId)) {
+      if (!todoData.listId) {
+        continue;
+      }
+      const entry = counts.get(todoData.listId) ?? { listId: todoData.listId, open: 0, completed: 0 };
+      if (todoData.status === TodoStatusEnum.COMPLETED) {
+        entry.completed++;
+      } else {
+        entry.open++;
+      }
+      counts.set(todoData.listId, entry);
+    }
+    return Array.from(counts.values());
+  }
+
   async update(todo: Todo): Promise<Todo> {
     const todoData = todo.toObject();
     const id = todoData.id!;
+    const stored = this.todos.get(id);
     
-    if (!this.todos.has(id)) {
-      throw new Error(`Todo with id ${id} not found`);
+    if (!stored || stored.ownerId !== todoData.ownerId) {
+      throw new TodoNotFoundException(id);
+    }
+
+    if (stored.version !== todoData.version) {
+      throw new ConcurrencyConflictException(id, todoData.version!);
     }
     
-    this.todos.set(id, todoData);
-    return new Todo(todoData);
+    const updated = { ...todoData, version: todoData.version! + 1 };
+    this.recordUndo(id);
+    this.put(updated);
+    return new Todo(updated);
   }
 
-  async delete(id: string): Promise<boolean> {
-    return this.todos.delete(id);
+  async findTrashed(filter: TrashFilter): Promise<Todo[]> {
+    const candidates = filter.ownerId ? this.ownedBy(filter.ownerId) : Array.from(this.todos.values());
+    return candidates
+      .filter(todoData => todoData.deletedAt && (!filter.trashedBefore || todoData.deletedAt < filter.trashedBefore))
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime())
+      .map(todoData => new Todo(todoData));
+  }
+
+  async delete(id: string, ownerId: string, expectedVersion?: number): Promise<boolean> {
+    const stored = this.todos.get(id);
+    if (stored?.ownerId !== ownerId) {
+      return false;
+    }
+    if (expectedVersion !== undefined && stored.version !== expectedVersion) {
+      throw new ConcurrencyConflictException(id, expectedVersion);
+    }
+    this.recordUndo(id);
+    this.remove(id);
+    return true;
+  }
+
+  async countTags(ownerId: string): Promise<TagUsage[]> {
+    const counts = new Map<string, number>();
+    for (const todoData of this.active(ownerId)) {
+      for (const tag of todoData.tags || []) {
+        counts.set(tag, (counts.get(tag) || 0) + 1);
+      }
+    }
+    return Array.from(counts, ([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || compareValues(a.tag, b.tag));
+  }
+
+  async renameTag(from: string, to: string, ownerId: string): Promise<number> {
+    return this.retag(ownerId, from, tags => tags.map(tag => (tag === from ? to : tag)));
+  }
+
+  async removeTag(tag: string, ownerId: string): Promise<number> {
+    return this.retag(ownerId, tag, tags => tags.filter(existing => existing !== tag));
   }
 
   // Helper method for testing/debugging
   clear(): void {
     this.todos.clear();
+    this.wordIndex.clear();
+    this.indexedWords.clear();
+  }
+
+  /**
+   * Store a todo and re-index its words
+   */
+  private put(todoData: TodoProps): void {
+    const id = todoData.id!;
+    this.remove(id);
+    this.todos.set(id, todoData);
+
+    const words = new Set(tokenize(`${todoData.title} ${todoData.description ?? ''}`).map(word => word.value));
+    for (const word of words) {
+      const ids = this.wordIndex.get(word) ?? new Set<string>();
+      ids.add(id);
+      this.wordIndex.set(word, ids);
+    }
+    this.indexedWords.set(id, words);
+  }
+
+  private remove(id: string): void {
+    this.todos.delete(id);
+    for (const word of this.indexedWords.get(id) ?? []) {
+      const ids = this.wordIndex.get(word)!;
+      ids.delete(id);
+      if (ids.size === 0) {
+        this.wordIndex.delete(word);
+      }
+    }
+    this.indexedWords.delete(id);
+  }
+
+  private idsWithPrefix(prefix: string): Set<string> {
+    const ids = new Set<string>();
+    for (const [word, wordIds] of this.wordIndex) {
+      if (word.startsWith(prefix)) {
+        wordIds.forEach(id => ids.add(id));
+      }
+    }
+    return ids;
+  }
+
+  /**
+   * Inside a transaction, remember the current state of a todo about to be
+   * written so that a rollback can put it back
+   */
+  private recordUndo(id: string): void {
+    const transaction = currentTransaction();
+    if (!transaction) {
+      return;
+    }
+    const previous = this.todos.get(id);
+    transaction.rollbacks.push(() => {
+      if (previous) {
+        this.put(previous);
+      } else {
+        this.remove(id);
+      }
+    });
+  }
+
+  private ownedBy(ownerId: string): TodoProps[] {
+    return Array.from(this.todos.values()).filter(todoData => todoData.ownerId === ownerId);
+  }
+
+  private active(ownerId: string): TodoProps[] {
+    return this.ownedBy(ownerId).filter(todoData => !todoData.deletedAt);
+  }
+
+  private retag(ownerId: string, tag: string, change: (tags: string[]) => string[]): number {
+    let affected = 0;
+    for (const todoData of this.ownedBy(ownerId)) {
+      if (!todoData.tags?.includes(tag)) {
+        continue;
+      }
+      const todo = new Todo(todoData);
+      todo.updateTags(change(todoData.tags));
+      this.recordUndo(todoData.id!);
+      this.put({ ...todo.toObject(), version: todoData.version! + 1 });
+      affected++;
+    }
+    return affected;
   }
 }
 
+function compareValues(a: SortValue, b: SortValue): number {
+  if (a === b) {
+    return 0;
+  }
+  if (a === null) {
+    return -1;
+  }
+  if (b === null) {
+    return 1;
+  }
+  return a < b ? -1 : 1;
+}
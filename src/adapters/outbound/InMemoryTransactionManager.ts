@@ -0,0 +1,36 @@
+import { TransactionManager } from '../../application/ports/TransactionManager';
+import { currentTransaction, runInTransaction, TransactionState } from './TransactionContext';
+
+/**
+ * Outbound Adapter - Transactions over the in-memory repositories
+ * Repositories register how to undo each write; a failed transaction runs
+ * those steps in reverse. There is no isolation: other requests see the
+ * writes before the transaction commits.
+ */
+export class InMemoryTransactionManager implements TransactionManager {
+  async run<T>(work: () => Promise<T>): Promise<T> {
+    // Nested transactions join the outer one
+    if (currentTransaction()) {
+      return await work();
+    }
+
+    const state: TransactionState = { rollbacks: [], beforeCommit: [], afterCommit: [] };
+    let result: T;
+    try {
+      result = await runInTransaction(state, work);
+      for (const callback of state.beforeCommit) {
+        await callback();
+      }
+    } catch (error) {
+      for (const rollback of state.rollbacks.reverse()) {
+        rollback();
+      }
+      throw error;
+    }
+
+    for (const callback of state.afterCommit) {
+      await callback();
+    }
+    return result;
+  }
+}
@@ -0,0 +1,39 @@
+import { User, UserProps } from '../../domain/entities/User';
+import { UserRepository } from '../../application/ports/UserRepository';
+import { EmailAlreadyRegisteredException } from '../../domain/exceptions/DomainException';
+
+/**
+ * Outbound Adapter - In-Memory implementation of UserRepository
+ */
+export class InMemoryUserRepository implements UserRepository {
+  private users: Map<string, UserProps> = new Map();
+
+  async init(): Promise<void> {
+    // No initialization needed for in-memory repository
+  }
+
+  async save(user: User): Promise<User> {
+    const userData = user.toObject();
+    if (await this.findByEmail(userData.email)) {
+      throw new EmailAlreadyRegisteredException();
+    }
+    this.users.set(userData.id!, userData);
+    return new User(userData);
+  }
+
+  async findById(id: string): Promise<User | null> {
+    const userData = this.users.get(id);
+    if (!userData) {
+      return null;
+    }
+    return new User(userData);
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    const userData = Array.from(this.users.values()).find(existing => existing.email === email);
+    if (!userData) {
+      return null;
+    }
+    return new User(userData);
+  }
+}
@@ -0,0 +1,67 @@
+import { WebhookDelivery, WebhookDeliveryProps, WebhookDeliveryStatus } from '../../domain/entities/WebhookDelivery';
+import { WebhookDeliveryRepository } from '../../application/ports/WebhookDeliveryRepository';
+import { WebhookDeliveryNotFoundException } from '../../domain/exceptions/DomainException';
+
+/**
+ * Outbound Adapter - In-Memory implementation of WebhookDeliveryRepository
+ */
+export class InMemoryWebhookDeliveryRepository implements WebhookDeliveryRepository {
+  private deliveries: Map<string, WebhookDeliveryProps> = new Map();
+
+  async init(): Promise<void> {
+    // No initialization needed for in-memory repository
+  }
+
+  async save(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const deliveryData = delivery.toObject();
+    this.deliveries.set(deliveryData.id!, deliveryData);
+    return new WebhookDelivery(deliveryData);
+  }
+
+  async update(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const deliveryData = delivery.toObject();
+    if (!this.deliveries.has(deliveryData.id!)) {
+      throw new WebhookDeliveryNotFoundException(deliveryData.webhookId, deliveryData.id!);
+    }
+    this.deliveries.set(deliveryData.id!, deliveryData);
+    return new WebhookDelivery(deliveryData);
+  }
+
+  async findById(id: string): Promise<WebhookDelivery | null> {
+    const deliveryData = this.deliveries.get(id);
+    if (!deliveryData) {
+      return null;
+    }
+    return new WebhookDelivery(deliveryData);
+  }
+
+  async findByWebhookId(webhookId: string, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.deliveries.values())
+      .filter(deliveryData => deliveryData.webhookId === webhookId)
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime())
+      .slice(0, limit)
+      .map(deliveryData => new WebhookDelivery(deliveryData));
+  }
+
+  async findDue(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.deliveries.values())
+      .filter(deliveryData =>
+        deliveryData.status === WebhookDeliveryStatus.PENDING &&
+        deliveryData.nextAttemptAt! <= now
+      )
+      .sort((a, b) => a.nextAttemptAt!.getTime() - b.nextAttemptAt!.getTime())
+      .slice(0, limit)
+      .map(deliveryData => new WebhookDelivery(deliveryData));
+  }
+
+  async deleteByWebhookId(webhookId: string): Promise<number> {
+    let deleted = 0;
+    for (const [id, deliveryData] of this.deliveries) {
+      if (deliveryData.webhookId === webhookId) {
+        this.deliveries.delete(id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+}
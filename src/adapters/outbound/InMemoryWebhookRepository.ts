@@ -0,0 +1,45 @@
+import { WebhookSubscription, WebhookSubscriptionProps } from '../../domain/entities/WebhookSubscription';
+import { TodoEventType } from '../../domain/events/TodoEvent';
+import { WebhookRepository } from '../../application/ports/WebhookRepository';
+
+/**
+ * Outbound Adapter - In-Memory implementation of WebhookRepository
+ */
+export class InMemoryWebhookRepository implements WebhookRepository {
+  private webhooks: Map<string, WebhookSubscriptionProps> = new Map();
+
+  async init(): Promise<void> {
+    // No initialization needed for in-memory repository
+  }
+
+  async save(webhook: WebhookSubscription): Promise<WebhookSubscription> {
+    const webhookData = webhook.toObject();
+    this.webhooks.set(webhookData.id!, webhookData);
+    return new WebhookSubscription(webhookData);
+  }
+
+  async findById(id: string): Promise<WebhookSubscription | null> {
+    const webhookData = this.webhooks.get(id);
+    if (!webhookData) {
+      return null;
+    }
+    return new WebhookSubscription(webhookData);
+  }
+
+  async findAll(ownerId: string): Promise<WebhookSubscription[]> {
+    return Array.from(this.webhooks.values())
+      .filter(webhookData => webhookData.ownerId === ownerId)
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime())
+      .map(webhookData => new WebhookSubscription(webhookData));
+  }
+
+  async findByEventType(type: TodoEventType, ownerId: string): Promise<WebhookSubscription[]> {
+    return Array.from(this.webhooks.values())
+      .filter(webhookData => webhookData.ownerId === ownerId && webhookData.events.includes(type))
+      .map(webhookData => new WebhookSubscription(webhookData));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.webhooks.delete(id);
+  }
+}
@@ -0,0 +1,304 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { InfrastructureException } from '../../domain/exceptions/DomainException';
+import { Logger } from '../../application/ports/Logger';
+
+export type StoreOperation<T> =
+  | { type: 'put'; id: string; record: T }
+  | { type: 'delete'; id: string };
+
+export interface JsonFileStoreOptions {
+  // Directory holding the snapshot and log files; created when missing
+  directory: string;
+  // Prefix of the file names, e.g. todos for todos.wal and todos.snapshot.json
+  name: string;
+  // The log is compacted into the snapshot once it holds this many entries
+  compactEvery: number;
+}
+
+interface Snapshot<T> {
+  // Sequence number of the last log entry included
+  seq: number;
+  records: Array<[string, T]>;
+}
+
+interface LogEntry<T> {
+  seq: number;
+  operations: Array<StoreOperation<T>>;
+}
+
+/**
+ * Durable map of JSON records kept in a directory
+ * Every write is appended to a write-ahead log and fsynced before it is
+ * acknowledged; the operations of one write are applied all together or not
+ * at all. The log is regularly compacted into a snapshot, written to a
+ * temporary file and renamed over the previous one. Writes are serialized,
+ * and a lock file keeps other processes out of the directory.
+ *
+ * Log lines are `<checksum> <entry>`. On startup, a last line that is
+ * incomplete or does not match its checksum, left by a crash during a write,
+ * is cut off; a damaged line followed by intact ones stops the startup.
+ */
+export class JsonFileStore<T> {
+  private readonly records = new Map<string, T>();
+  private readonly logPath: string;
+  private readonly snapshotPath: string;
+  private readonly lockPath: string;
+  private log?: fs.FileHandle;
+  // Length of the intact part of the log, to cut off a failed append
+  private logSize = 0;
+  // Set when a failed append could not be undone; the log then takes no more writes
+  private broken = false;
+  private seq = 0;
+  private entriesSinceSnapshot = 0;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly options: JsonFileStoreOptions, private readonly logger: Logger) {
+    this.logPath = join(options.directory, `${options.name}.wal`);
+    this.snapshotPath = join(options.directory, `${options.name}.snapshot.json`);
+    this.lockPath = join(options.directory, `${options.name}.lock`);
+  }
+
+  /**
+   * Lock the files, then recover the records from the snapshot and the log
+   */
+  async open(): Promise<Map<string, T>> {
+    await fs.mkdir(this.options.directory, { recursive: true });
+    await this.lock();
+
+    const snapshot = await this.readSnapshot();
+    this.seq = snapshot.seq;
+    snapshot.records.forEach(([id, record]) => this.records.set(id, record));
+
+    const entries = await this.readLog();
+    for (const entry of entries.filter(entry => entry.seq > snapshot.seq)) {
+      this.apply(entry);
+    }
+
+    this.log = await fs.open(this.logPath, 'a');
+    this.logSize = (await this.log.stat()).size;
+    if (entries.length > 0) {
+      await this.compact();
+    }
+    return new Map(this.records);
+  }
+
+  async write(operations: Array<StoreOperation<T>>): Promise<void> {
+    if (operations.length === 0) {
+      return;
+    }
+    await this.exclusive(async () => {
+      const entry: LogEntry<T> = { seq: this.seq + 1, operations };
+      const json = JSON.stringify(entry);
+      const line = Buffer.from(`${checksum(json)} ${json}\n`);
+      await this.append(line);
+      this.apply(entry);
+
+      this.entriesSinceSnapshot++;
+      if (this.entriesSinceSnapshot >= this.options.compactEvery) {
+        // The entry is already durable; a failed compaction is retried after the next write
+        await this.compact().catch(error => this.logger.error('Compacting the store failed', { store: this.options.name, error }));
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.exclusive(async () => {
+      await this.log?.close();
+      this.log = undefined;
+      await fs.rm(this.lockPath, { force: true });
+    });
+  }
+
+  /**
+   * Runs after every write queued before it, so that log entries are
+   * appended one at a time and in order
+   */
+  private exclusive<R>(work: () => Promise<R>): Promise<R> {
+    const result = this.queue.then(work);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * A failed append is cut off again, as later entries would otherwise
+   * follow a damaged line
+   */
+  private async append(line: Buffer): Promise<void> {
+    const log = this.openLog();
+    if (this.broken) {
+      throw new InfrastructureException(`The ${this.options.name} store needs a restart after a failed write`);
+    }
+    try {
+      await log.appendFile(line);
+      await log.sync();
+      this.logSize += line.length;
+    } catch (error) {
+      await log.truncate(this.logSize).catch(() => {
+        this.broken = true;
+      });
+      throw new InfrastructureException('Storage is unavailable', error);
+    }
+  }
+
+  private openLog(): fs.FileHandle {
+    if (!this.log) {
+      throw new InfrastructureException(`Store ${this.options.name} is not open`);
+    }
+    return this.log;
+  }
+
+  private apply(entry: LogEntry<T>): void {
+    for (const operation of entry.operations) {
+      if (operation.type === 'put') {
+        this.records.set(operation.id, operation.record);
+      } else {
+        this.records.delete(operation.id);
+      }
+    }
+    this.seq = entry.seq;
+  }
+
+  /**
+   * The snapshot only replaces the previous one once it is complete on disk;
+   * entries it includes are skipped if the log could not be emptied
+   */
+  private async compact(): Promise<void> {
+    const snapshot: Snapshot<T> = { seq: this.seq, records: Array.from(this.records) };
+    const temporaryPath = `${this.snapshotPath}.tmp`;
+    const file = await fs.open(temporaryPath, 'w');
+    try {
+      await file.writeFile(JSON.stringify(snapshot));
+      await file.sync();
+    } finally {
+      await file.close();
+    }
+    await fs.rename(temporaryPath, this.snapshotPath);
+    await syncDirectory(this.options.directory);
+
+    await this.openLog().truncate(0);
+    await this.openLog().sync();
+    this.logSize = 0;
+    this.entriesSinceSnapshot = 0;
+  }
+
+  private async readSnapshot(): Promise<Snapshot<T>> {
+    let text: string;
+    try {
+      text = await fs.readFile(this.snapshotPath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { seq: 0, records: [] };
+      }
+      throw error;
+    }
+    try {
+      return JSON.parse(text) as Snapshot<T>;
+    } catch {
+      // Snapshots are renamed into place once complete, so this is not a crash
+      throw new InfrastructureException(`Snapshot ${this.snapshotPath} is corrupted`);
+    }
+  }
+
+  private async readLog(): Promise<Array<LogEntry<T>>> {
+    let content: Buffer;
+    try {
+      content = await fs.readFile(this.logPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: Array<LogEntry<T>> = [];
+    let offset = 0;
+    while (offset < content.length) {
+      const end = content.indexOf(0x0a, offset);
+      const entry = end === -1 ? null : parseLine<T>(content.toString('utf8', offset, end));
+      if (entry && (entries.length === 0 || entry.seq === entries[entries.length - 1].seq + 1)) {
+        entries.push(entry);
+        offset = end + 1;
+        continue;
+      }
+
+      const rest = end === -1 ? -1 : content.indexOf(0x0a, end + 1);
+      if (rest !== -1) {
+        throw new InfrastructureException(
+          `Write-ahead log ${this.logPath} is corrupted after entry ${entries.length}; restore it from a backup`
+        );
+      }
+      this.logger.warn('Write-ahead log ends with an incomplete entry, left by a crash; discarding it', { path: this.logPath });
+      await fs.truncate(this.logPath, offset);
+      break;
+    }
+    return entries;
+  }
+
+  /**
+   * Only one process may use the files; a lock left by a process that is no
+   * longer running is taken over
+   */
+  private async lock(): Promise<void> {
+    try {
+      await fs.writeFile(this.lockPath, String(process.pid), { flag: 'wx' });
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    const owner = Number(await fs.readFile(this.lockPath, 'utf8'));
+    if (owner !== process.pid && isRunning(owner)) {
+      throw new InfrastructureException(`${this.options.directory} is in use by process ${owner}`);
+    }
+    await fs.writeFile(this.lockPath, String(process.pid));
+  }
+}
+
+function checksum(json: string): string {
+  return createHash('sha256').update(json).digest('hex').slice(0, 16);
+}
+
+function parseLine<T>(line: string): LogEntry<T> | null {
+  const separator = line.indexOf(' ');
+  const json = line.slice(separator + 1);
+  if (separator === -1 || line.slice(0, separator) !== checksum(json)) {
+    return null;
+  }
+  try {
+    return JSON.parse(json) as LogEntry<T>;
+  } catch {
+    return null;
+  }
+}
+
+function isRunning(pid: number): boolean {
+  if (!Number.isInteger(pid) || pid <= 0) {
+    return false;
+  }
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Makes a rename durable; not supported on every platform
+ */
+async function syncDirectory(directory: string): Promise<void> {
+  let handle: fs.FileHandle | undefined;
+  try {
+    handle = await fs.open(directory, 'r');
+    await handle.sync();
+  } catch {
+    // Windows cannot open directories
+  } finally {
+    await handle?.close();
+  }
+}
@@ -0,0 +1,72 @@
+import { LOG_LEVELS, LogFields, Logger, LogLevel } from '../../application/ports/Logger';
+import { currentRequest } from '../../infrastructure/RequestContext';
+
+/**
+ * Outbound Adapter - Logger writing one JSON object per line
+ * Entries have `time`, `level` and `msg`, the id of the request being served
+ * as `requestId`, then the fields. Warnings and errors go to stderr, the rest
+ * to stdout.
+ */
+export class JsonLogger implements Logger {
+  constructor(
+    private readonly level: LogLevel = 'info',
+    private readonly fields: LogFields = {}
+  ) {}
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  child(fields: LogFields): Logger {
+    return new JsonLogger(this.level, { ...this.fields, ...fields });
+  }
+
+  private write(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.level)) {
+      return;
+    }
+    const requestId = currentRequest()?.requestId;
+    const entry = {
+      time: new Date().toISOString(),
+      level,
+      msg: message,
+      ...(requestId && { requestId }),
+      ...this.fields,
+      ...fields
+    };
+    const stream = level === 'warn' || level === 'error' ? process.stderr : process.stdout;
+    stream.write(`${stringify(entry)}\n`);
+  }
+}
+
+function stringify(entry: object): string {
+  try {
+    return JSON.stringify(entry, (key, value) => value instanceof Error ? serializeError(value) : value);
+  } catch {
+    // Circular fields, for instance
+    return JSON.stringify({ ...entry, fields: 'not serializable' }, ['time', 'level', 'msg', 'requestId', 'fields']);
+  }
+}
+
+function serializeError(error: Error): object {
+  const { code, cause } = error as Error & { code?: unknown; cause?: unknown };
+  return {
+    name: error.name,
+    message: error.message,
+    ...(code !== undefined && { code }),
+    stack: error.stack,
+    ...(cause !== undefined && { cause })
+  };
+}
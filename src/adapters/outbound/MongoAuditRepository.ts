@@ -0,0 +1,96 @@
+import { Collection, ObjectId } from 'mongodb';
+import { AuditEntry } from '../../domain/entities/AuditEntry';
+import { FieldChange, TodoEventType } from '../../domain/events/TodoEvent';
+import { AuditRepository } from '../../application/ports/AuditRepository';
+import { Logger } from '../../application/ports/Logger';
+import { MongoDBClient } from '../../infrastructure/MongoDBClient';
+import { backfillOwner } from './MongoOwnerBackfill';
+import { sessionOptions } from './TransactionContext';
+
+/**
+ * MongoDB document interface
+ * Represents how audit entries are stored in MongoDB
+ */
+interface AuditDocument {
+  _id?: ObjectId;
+  id: string;
+  todoId: string;
+  ownerId: string;
+  action: string;
+  changes: Record<string, FieldChange>;
+  actor: string | null;
+  occurredAt: Date;
+}
+
+/**
+ * Outbound Adapter - MongoDB implementation of AuditRepository
+ */
+export class MongoAuditRepository implements AuditRepository {
+  private collection: Collection<AuditDocument>;
+  private readonly collectionName = 'todo_history';
+
+  constructor(
+    mongoClient: MongoDBClient,
+    private readonly logger: Logger,
+    // Owner of the history entries written before user accounts existed
+    private readonly legacyOwnerId?: string
+  ) {
+    const db = mongoClient.getDatabase();
+    this.collection = db.collection<AuditDocument>(this.collectionName);
+  }
+
+  /**
+   * Initialize indexes (call after construction)
+   */
+  public async init(): Promise<void> {
+    try {
+      await this.collection.createIndex({ id: 1 }, { unique: true });
+      await this.collection.createIndex({ todoId: 1, ownerId: 1, occurredAt: 1 });
+    } catch (error) {
+      this.logger.error('Error creating indexes', { collection: this.collectionName, error });
+      throw error;
+    }
+    await backfillOwner(this.collection, this.legacyOwnerId, this.logger);
+  }
+
+  private toDocument(entry: AuditEntry): AuditDocument {
+    const entryData = entry.toObject();
+    return {
+      id: entryData.id!,
+      todoId: entryData.todoId,
+      ownerId: entryData.ownerId,
+      action: entryData.action,
+      changes: entryData.changes,
+      actor: entryData.actor ?? null,
+      occurredAt: entryData.occurredAt
+    };
+  }
+
+  private toDomain(document: AuditDocument): AuditEntry {
+    return new AuditEntry({
+      id: document.id,
+      todoId: document.todoId,
+      ownerId: document.ownerId,
+      action: document.action as TodoEventType,
+      changes: document.changes,
+      actor: document.actor,
+      occurredAt: document.occurredAt
+    });
+  }
+
+  async append(entries: AuditEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+    await this.collection.insertMany(entries.map(entry => this.toDocument(entry)), sessionOptions());
+  }
+
+  async findByTodoId(todoId: string, ownerId: string): Promise<AuditEntry[]> {
+    const documents = await this.collection
+      .find({ todoId, ownerId })
+      .sort({ occurredAt: 1, _id: 1 })
+      .toArray();
+
+    return documents.map(doc => this.toDomain(doc));
+  }
+}
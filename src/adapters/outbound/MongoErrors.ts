@@ -0,0 +1,50 @@
+import { MongoError } from 'mongodb';
+import { InfrastructureException } from '../../domain/exceptions/DomainException';
+import { currentTransaction } from './TransactionContext';
+
+/**
+ * Wraps a MongoDB adapter so that driver errors surface as InfrastructureException
+ * Errors inside a transaction are left as they are until the transaction
+ * manager sees them, as the driver retries transactions on transient errors.
+ */
+export function translateMongoErrors<T extends object>(adapter: T): T {
+  return new Proxy(adapter, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof value !== 'function') {
+        return value;
+      }
+      return (...args: unknown[]) => {
+        const result = value.apply(target, args);
+        if (result instanceof Promise) {
+          return result.catch(error => {
+            throw translate(error);
+          });
+        }
+        if (isAsyncIterable(result)) {
+          return translateIterable(result);
+        }
+        return result;
+      };
+    }
+  });
+}
+
+function translate(error: unknown): unknown {
+  if (error instanceof MongoError && !currentTransaction()) {
+    return new InfrastructureException('Storage is unavailable', error);
+  }
+  return error;
+}
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return typeof value === 'object' && value !== null && Symbol.asyncIterator in value;
+}
+
+async function* translateIterable<T>(iterable: AsyncIterable<T>): AsyncIterable<T> {
+  try {
+    yield* iterable;
+  } catch (error) {
+    throw translate(error);
+  }
+}
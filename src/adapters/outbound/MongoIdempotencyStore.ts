@@ -0,0 +1,101 @@
+import { Collection, MongoServerError, ObjectId } from 'mongodb';
+import { IdempotencyRecord, IdempotencyStore, StoredResponse } from '../../application/ports/IdempotencyStore';
+import { Logger } from '../../application/ports/Logger';
+import { MongoDBClient } from '../../infrastructure/MongoDBClient';
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * MongoDB document interface
+ * Represents how idempotency keys are stored in MongoDB
+ */
+interface IdempotencyDocument {
+  _id?: ObjectId;
+  ownerId: string;
+  key: string;
+  fingerprint: string;
+  response: StoredResponse | null;
+  expiresAt: Date;
+}
+
+/**
+ * Outbound Adapter - MongoDB implementation of IdempotencyStore
+ * A TTL index removes expired records; until the server gets to them,
+ * reserve treats them as free.
+ */
+export class MongoIdempotencyStore implements IdempotencyStore {
+  private collection: Collection<IdempotencyDocument>;
+  private readonly collectionName = 'idempotency_keys';
+
+  constructor(mongoClient: MongoDBClient, private readonly logger: Logger) {
+    const db = mongoClient.getDatabase();
+    this.collection = db.collection<IdempotencyDocument>(this.collectionName);
+  }
+
+  /**
+   * Initialize indexes (call after construction)
+   */
+  public async init(): Promise<void> {
+    try {
+      await this.collection.createIndex({ ownerId: 1, key: 1 }, { unique: true });
+      await this.collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+    } catch (error) {
+      this.logger.error('Error creating indexes', { collection: this.collectionName, error });
+      throw error;
+    }
+  }
+
+  async reserve(record: IdempotencyRecord): Promise<IdempotencyRecord | null> {
+    const document: IdempotencyDocument = {
+      ownerId: record.ownerId,
+      key: record.key,
+      fingerprint: record.fingerprint,
+      response: record.response ?? null,
+      expiresAt: record.expiresAt
+    };
+
+    // The unique index settles concurrent requests with the same key; a key
+    // released between the steps below is tried again
+    for (;;) {
+      try {
+        await this.collection.insertOne({ ...document });
+        return null;
+      } catch (error) {
+        if (!(error instanceof MongoServerError && error.code === DUPLICATE_KEY_ERROR)) {
+          throw error;
+        }
+      }
+
+      const expired = await this.collection.findOneAndUpdate(
+        { ownerId: record.ownerId, key: record.key, expiresAt: { $lte: new Date() } },
+        { $set: { fingerprint: document.fingerprint, response: null, expiresAt: document.expiresAt } }
+      );
+      if (expired) {
+        return null;
+      }
+
+      const existing = await this.collection.findOne({ ownerId: record.ownerId, key: record.key });
+      if (existing) {
+        return this.toRecord(existing);
+      }
+    }
+  }
+
+  async complete(ownerId: string, key: string, response: StoredResponse): Promise<void> {
+    await this.collection.updateOne({ ownerId, key }, { $set: { response } });
+  }
+
+  async release(ownerId: string, key: string): Promise<void> {
+    await this.collection.deleteOne({ ownerId, key });
+  }
+
+  private toRecord(document: IdempotencyDocument): IdempotencyRecord {
+    return {
+      ownerId: document.ownerId,
+      key: document.key,
+      fingerprint: document.fingerprint,
+      ...(document.response && { response: document.response }),
+      expiresAt: document.expiresAt
+    };
+  }
+}
@@ -0,0 +1,33 @@
+import { Collection, Document, Filter, UpdateFilter } from 'mongodb';
+import { Logger } from '../../application/ports/Logger';
+
+/**
+ * Gives documents written before user accounts existed to the configured
+ * owner. Every query is scoped to an owner, so such documents are otherwise
+ * out of reach; without an owner they are left alone and reported.
+ */
+export async function backfillOwner<T extends Document & { ownerId: string }>(
+  collection: Collection<T>,
+  legacyOwnerId: string | undefined,
+  logger: Logger
+): Promise<void> {
+  const unowned = { ownerId: { $exists: false } } as Filter<T>;
+  if (legacyOwnerId) {
+    const result = await collection.updateMany(unowned, { $set: { ownerId: legacyOwnerId } } as UpdateFilter<T>);
+    if (result.modifiedCount > 0) {
+      logger.info('Gave documents without an owner to LEGACY_OWNER_ID', {
+        collection: collection.collectionName,
+        count: result.modifiedCount
+      });
+    }
+    return;
+  }
+
+  const count = await collection.countDocuments(unowned);
+  if (count > 0) {
+    logger.warn('Documents written before user accounts have no owner; set LEGACY_OWNER_ID to give them to a user', {
+      collection: collection.collectionName,
+      count
+    });
+  }
+}
@@ -0,0 +1,117 @@
+import { Collection, ObjectId } from 'mongodb';
+import { TodoList } from '../../domain/entities/TodoList';
+import { TodoListRepository } from '../../application/ports/TodoListRepository';
+import { Logger } from '../../application/ports/Logger';
+import { MongoDBClient } from '../../infrastructure/MongoDBClient';
+import { TodoListNotFoundException } from '../../domain/exceptions/DomainException';
+import { sessionOptions } from './TransactionContext';
+
+/**
+ * MongoDB document interface
+ * Represents how todo lists are stored in MongoDB
+ */
+interface TodoListDocument {
+  _id?: ObjectId;
+  id: string;
+  ownerId: string;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Outbound Adapter - MongoDB implementation of TodoListRepository
+ * Single-list reads and writes join the current transaction, if any
+ */
+export class MongoTodoListRepository implements TodoListRepository {
+  private collection: Collection<TodoListDocument>;
+  private readonly collectionName = 'todo_lists';
+
+  constructor(mongoClient: MongoDBClient, private readonly logger: Logger) {
+    const db = mongoClient.getDatabase();
+    this.collection = db.collection<TodoListDocument>(this.collectionName);
+  }
+
+  /**
+   * Initialize indexes (call after construction)
+   */
+  public async init(): Promise<void> {
+    try {
+      await this.collection.createIndex({ id: 1 }, { unique: true });
+      await this.collection.createIndex({ ownerId: 1, createdAt: 1 });
+    } catch (error) {
+      this.logger.error('Error creating indexes', { collection: this.collectionName, error });
+      throw error;
+    }
+  }
+
+  private toDocument(list: TodoList): TodoListDocument {
+    const listData = list.toObject();
+    return {
+      id: listData.id!,
+      ownerId: listData.ownerId,
+      name: listData.name,
+      createdAt: listData.createdAt!,
+      updatedAt: listData.updatedAt!
+    };
+  }
+
+  private toDomain(document: TodoListDocument): TodoList {
+    return new TodoList({
+      id: document.id,
+      ownerId: document.ownerId,
+      name: document.name,
+      createdAt: document.createdAt,
+      updatedAt: document.updatedAt
+    });
+  }
+
+  async save(list: TodoList): Promise<TodoList> {
+    const document = this.toDocument(list);
+
+    await this.collection.insertOne(document, sessionOptions());
+
+    return this.toDomain(document);
+  }
+
+  async update(list: TodoList): Promise<TodoList> {
+    const document = this.toDocument(list);
+    const { id, ownerId } = document;
+
+    const result = await this.collection.updateOne(
+      { id, ownerId },
+      { $set: { name: document.name, updatedAt: document.updatedAt } },
+      sessionOptions()
+    );
+
+    if (result.matchedCount === 0) {
+      throw new TodoListNotFoundException(id);
+    }
+
+    return this.toDomain(document);
+  }
+
+  async findById(id: string, ownerId: string): Promise<TodoList | null> {
+    const document = await this.collection.findOne({ id, ownerId }, sessionOptions());
+
+    if (!document) {
+      return null;
+    }
+
+    return this.toDomain(document);
+  }
+
+  async findAll(ownerId: string): Promise<TodoList[]> {
+    const documents = await this.collection
+      .find({ ownerId })
+      .sort({ createdAt: 1, id: 1 })
+      .toArray();
+
+    return documents.map(doc => this.toDomain(doc));
+  }
+
+  async delete(id: string, ownerId: string): Promise<boolean> {
+    const result = await this.collection.deleteOne({ id, ownerId }, sessionOptions());
+    return result.deletedCount > 0;
+  }
+}
@@ -1,7 +1,18 @@
-import { Collection, ObjectId } from 'mongodb';
+import { Collection, Filter, MongoServerError, ObjectId, Sort } from 'mongodb';
 import { Todo, TodoProps } from '../../domain/entities/Todo';
-import { TodoRepository } from '../../application/ports/TodoRepository';
+import { TodoStatusEnum } from '../../domain/value-objects/TodoStatus';
+import { DueDateProps } from '../../domain/value-objects/TodoDueDate';
+import { ChecklistItemProps } from '../../domain/entities/ChecklistItem';
+import { TodoPriority, TodoPriorityEnum } from '../../domain/value-objects/TodoPriority';
+import { ConcurrencyConflictException, TodoAlreadyExistsException, TodoNotFoundException } from '../../domain/exceptions/DomainException';
+import { DateRange, FindOptions, ListCounts, SearchResult, TagUsage, TrashFilter, TodoCriteria, TodoPage, TodoRepository, TodoSortField } from '../../application/ports/TodoRepository';
+import { SearchClause, SearchQuery } from '../../domain/value-objects/SearchQuery';
+import { Logger } from '../../application/ports/Logger';
 import { MongoDBClient } from '../../infrastructure/MongoDBClient';
+import { decodeCursor, encodeCursor, SortValue } from './TodoCursor';
+import { compareHits, matchTodo } from './TodoSearch';
+import { sessionOptions } from './TransactionContext';
+import { backfillOwner } from './MongoOwnerBackfill';
 
 /**
  * MongoDB document interface
@@ -10,22 +21,66 @@ import { MongoDBClient } from '../../infrastructure/MongoDBClient';
 interface TodoDocument {
   _id?: ObjectId;
   id: string;
+  ownerId: string;
   title: string;
   description: string;
   status: string;
+  priority: string;
+  // Stored alongside the priority so that sorting follows its rank
+  priorityRank: number;
+  tags: string[];
+  checklist: ChecklistItemProps[];
+  requireChecklistCompletion: boolean;
+  dueDate?: DueDateProps | null;
+  recurrence?: string | null;
+  seriesId?: string | null;
+  listId?: string | null;
+  version: number;
+  deletedAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const DUPLICATE_KEY_ERROR = 11000;
+// Word boundaries as tokenize() finds them: runs of letters and digits
+const WORD_START = '(?<![\\p{L}\\p{N}])';
+const WORD_END = '(?![\\p{L}\\p{N}])';
+const BETWEEN_WORDS = '[^\\p{L}\\p{N}]+';
+
+// Replaced by the same indexes led by ownerId
+const SUPERSEDED_INDEXES = [
+  'status_1',
+  'createdAt_-1',
+  'createdAt_-1_id_-1',
+  'updatedAt_-1_id_-1',
+  'title_1_id_1',
+  'status_1_createdAt_-1_id_-1',
+  'status_1_updatedAt_-1_id_-1',
+  'status_1_dueDate.date_1',
+  'priority_1',
+  'priorityRank_-1_id_-1',
+  'tags_1',
+  'seriesId_1_dueDate.date_1'
+];
+
+// Also matches documents written before the trash existed
+const NOT_TRASHED: Filter<TodoDocument> = { deletedAt: null };
+
 /**
  * Outbound Adapter - MongoDB implementation of TodoRepository
  * Implements the repository port using MongoDB for persistence
+ * Single-todo reads and writes join the current transaction, if any
  */
 export class MongoTodoRepository implements TodoRepository {
   private collection: Collection<TodoDocument>;
   private readonly collectionName = 'todos';
 
-  constructor(mongoClient: MongoDBClient) {
+  constructor(
+    mongoClient: MongoDBClient,
+    private readonly logger: Logger,
+    // Owner of the todos written before user accounts existed
+    private readonly legacyOwnerId?: string
+  ) {
     const db = mongoClient.getDatabase();
     this.collection = db.collection<TodoDocument>(this.collectionName);
   }
@@ -35,6 +90,29 @@ export class MongoTodoRepository implements TodoRepository {
    */
   public async init(): Promise<void> {
     await this.ensureIndexes();
+    await this.backfillPriority();
+    await this.backfillVersion();
+    await backfillOwner(this.collection, this.legacyOwnerId, this.logger);
+  }
+
+  /**
+   * Documents written before priorities existed default to NONE
+   */
+  private async backfillPriority(): Promise<void> {
+    await this.collection.updateMany(
+      { priority: { $exists: false } },
+      { $set: { priority: TodoPriorityEnum.NONE, priorityRank: new TodoPriority().rank() } }
+    );
+  }
+
+  /**
+   * Documents written before versioning existed start at version 1
+   */
+  private async backfillVersion(): Promise<void> {
+    await this.collection.updateMany(
+      { version: { $exists: false } },
+      { $set: { version: 1 } }
+    );
   }
 
   /**
@@ -43,10 +121,41 @@ export class MongoTodoRepository implements TodoRepository {
   private async ensureIndexes(): Promise<void> {
     try {
       await this.collection.createIndex({ id: 1 }, { unique: true });
-      await this.collection.createIndex({ status: 1 });
-      await this.collection.createIndex({ createdAt: -1 });
+      // Every query is scoped to an owner, so indexes lead with it; sort
+      // indexes end with id, the tie-breaker used for cursor pagination
+      await this.collection.createIndex({ ownerId: 1, createdAt: -1, id: -1 });
+      await this.collection.createIndex({ ownerId: 1, updatedAt: -1, id: -1 });
+      await this.collection.createIndex({ ownerId: 1, title: 1, id: 1 });
+      await this.collection.createIndex({ ownerId: 1, priorityRank: -1, id: -1 });
+      await this.collection.createIndex({ ownerId: 1, status: 1, createdAt: -1, id: -1 });
+      await this.collection.createIndex({ ownerId: 1, status: 1, updatedAt: -1, id: -1 });
+      await this.collection.createIndex({ ownerId: 1, status: 1, 'dueDate.date': 1 });
+      await this.collection.createIndex({ ownerId: 1, tags: 1 });
+      await this.collection.createIndex({ ownerId: 1, seriesId: 1, 'dueDate.date': 1 });
+      await this.collection.createIndex({ ownerId: 1, listId: 1, status: 1 });
+      await this.collection.createIndex({ ownerId: 1, deletedAt: -1 });
+      // Except for the retention job, which purges the trash of every owner
+      await this.collection.createIndex({ deletedAt: -1 });
+      // Full-text search; no language, so that words are neither stemmed nor dropped as stop words
+      await this.collection.createIndex(
+        { ownerId: 1, title: 'text', description: 'text' },
+        { name: 'todo_text', default_language: 'none' }
+      );
+      await this.dropSupersededIndexes();
     } catch (error) {
-      console.error('Error creating indexes:', error);
+      this.logger.error('Error creating indexes', { collection: this.collectionName, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Indexes created before they were scoped to an owner
+   */
+  private async dropSupersededIndexes(): Promise<void> {
+    const existing = new Set((await this.collection.indexes()).map(index => index.name));
+    for (const name of SUPERSEDED_INDEXES.filter(name => existing.has(name))) {
+      await this.collection.dropIndex(name);
+      this.logger.info('Dropped superseded index', { collection: this.collectionName, index: name });
     }
   }
 
@@ -57,9 +166,21 @@ export class MongoTodoRepository implements TodoRepository {
     const todoData = todo.toObject();
     return {
       id: todoData.id!,
+      ownerId: todoData.ownerId,
       title: todoData.title,
       description: todoData.description || '',
       status: todoData.status!,
+      priority: todoData.priority!,
+      priorityRank: todo.getPriority().rank(),
+      tags: todoData.tags || [],
+      checklist: todoData.checklist || [],
+      requireChecklistCompletion: todoData.requireChecklistCompletion === true,
+      dueDate: todoData.dueDate ?? null,
+      recurrence: todoData.recurrence ?? null,
+      seriesId: todoData.seriesId ?? null,
+      listId: todoData.listId ?? null,
+      version: todoData.version!,
+      deletedAt: todoData.deletedAt ?? null,
       createdAt: todoData.createdAt!,
       updatedAt: todoData.updatedAt!
     };
@@ -71,9 +192,20 @@ export class MongoTodoRepository implements TodoRepository {
   private toDomain(document: TodoDocument): Todo {
     const props: TodoProps = {
       id: document.id,
+      ownerId: document.ownerId,
       title: document.title,
       description: document.description,
       status: document.status as any,
+      priority: document.priority as TodoPriorityEnum,
+      tags: document.tags || [],
+      checklist: document.checklist || [],
+      requireChecklistCompletion: document.requireChecklistCompletion === true,
+      dueDate: document.dueDate ?? undefined,
+      recurrence: document.recurrence ?? undefined,
+      seriesId: document.seriesId ?? undefined,
+      listId: document.listId ?? undefined,
+      version: document.version,
+      deletedAt: document.deletedAt ?? undefined,
       createdAt: document.createdAt,
       updatedAt: document.updatedAt
     };
@@ -83,13 +215,24 @@ export class MongoTodoRepository implements TodoRepository {
   async save(todo: Todo): Promise<Todo> {
     const document = this.toDocument(todo);
     
-    await this.collection.insertOne(document);
-    
+    try {
+      await this.collection.insertOne(document, sessionOptions());
+    } catch (error) {
+      if (error instanceof MongoServerError && error.code === DUPLICATE_KEY_ERROR) {
+        throw new TodoAlreadyExistsException(document.id);
+      }
+      throw error;
+    }
+
     return this.toDomain(document);
   }
 
-  async findById(id: string): Promise<Todo | null> {
-    const document = await this.collection.findOne({ id });
+  async findById(id: string, ownerId: string, options: FindOptions = {}): Promise<Todo | null> {
+    const filter: Filter<TodoDocument> = { id, ownerId };
+    const document = await this.collection.findOne(
+      options.includeTrashed ? filter : { ...filter, ...NOT_TRASHED },
+      sessionOptions()
+    );
     
     if (!document) {
       return null;
@@ -98,41 +241,332 @@ export class MongoTodoRepository implements TodoRepository {
     return this.toDomain(document);
   }
 
-  async findAll(): Promise<Todo[]> {
+  async exists(id: string): Promise<boolean> {
+    return await this.collection.countDocuments({ id }, { limit: 1, ...sessionOptions() }) > 0;
+  }
+
+  async findAll(ownerId: string, options: FindOptions = {}): Promise<Todo[]> {
     const documents = await this.collection
-      .find({})
+      .find(options.includeTrashed ? { ownerId } : { ownerId, ...NOT_TRASHED })
       .sort({ createdAt: -1 })
       .toArray();
     
     return documents.map(doc => this.toDomain(doc));
   }
 
+  async findByCriteria(criteria: TodoCriteria): Promise<TodoPage> {
+    const filter = this.toFilter(criteria);
+    const direction = criteria.sortDirection === 'asc' ? 1 : -1;
+    const sort: Sort = { [sortKey(criteria.sortBy)]: direction, id: direction };
+
+    const pageFilter = criteria.cursor
+      ? { $and: [filter, this.toCursorFilter(criteria)] }
+      : filter;
+
+    let query = this.collection.find(pageFilter).sort(sort);
+    if (!criteria.cursor && criteria.offset) {
+      query = query.skip(criteria.offset);
+    }
+
+    const [documents, total] = await Promise.all([
+      query.limit(criteria.limit + 1).toArray(),
+      this.collection.countDocuments(filter)
+    ]);
+
+    const hasMore = documents.length > criteria.limit;
+    const items = documents.slice(0, criteria.limit).map(doc => this.toDomain(doc));
+    const last = items[items.length - 1];
+
+    return {
+      items,
+      total,
+      nextCursor: hasMore ? encodeCursor(last.toObject(), criteria.sortBy) : null
+    };
+  }
+
+  async findPendingWithDueDate(ownerId: string): Promise<Todo[]> {
+    const documents = await this.collection
+      .find({ ownerId, status: TodoStatusEnum.PENDING, dueDate: { $ne: null }, ...NOT_TRASHED })
+      .sort({ 'dueDate.date': 1 })
+      .toArray();
+
+    return documents.map(doc => this.toDomain(doc));
+  }
+
+  async findBySeriesId(seriesId: string, ownerId: string): Promise<Todo[]> {
+    const documents = await this.collection
+      .find({ seriesId, ownerId, ...NOT_TRASHED })
+      .sort({ 'dueDate.date': 1, id: 1 })
+      .toArray();
+
+    return documents.map(doc => this.toDomain(doc));
+  }
+
+  async findByListId(listId: string, ownerId: string, options: FindOptions = {}): Promise<Todo[]> {
+    const filter: Filter<TodoDocument> = { listId, ownerId };
+    const documents = await this.collection
+      .find(options.includeTrashed ? filter : { ...filter, ...NOT_TRASHED })
+      .sort({ createdAt: -1 })
+      .toArray();
+
+    return documents.map(doc => this.toDomain(doc));
+  }
+
+  async *stream(ownerId: string): AsyncIterable<Todo> {
+    const cursor = this.collection
+      .find({ ownerId, ...NOT_TRASHED })
+      .sort({ createdAt: 1, id: 1 });
+
+    for await (const document of cursor) {
+      yield this.toDomain(document);
+    }
+  }
+
+  /**
+   * The text index finds the todos with any of the query's whole words and a
+   * regex per clause keeps those that satisfy every clause, so that every
+   * match is ranked by the shared matcher and counted
+   */
+  async search(ownerId: string, query: SearchQuery, limit: number): Promise<SearchResult> {
+    const filter: Filter<TodoDocument> = {
+      ownerId,
+      ...NOT_TRASHED,
+      $and: query.getClauses().map(clause => {
+        const pattern = { $regex: clausePattern(clause), $options: 'i' };
+        return { $or: [{ title: pattern }, { description: pattern }] };
+      })
+    };
+    const words = query.getWords();
+    if (words.length > 0) {
+      filter.$text = { $search: words.join(' ') };
+    }
+
+    const documents = await this.collection.find(filter).toArray();
+    const hits = documents
+      .map(document => matchTodo(this.toDomain(document).toObject(), query))
+      .filter(hit => hit !== null)
+      .sort(compareHits);
+
+    return { hits: hits.slice(0, limit), total: hits.length };
+  }
+
+  async countByList(ownerId: string): Promise<ListCounts[]> {
+    const counts = await this.collection.aggregate<{ _id: string; open: number; completed: number }>([
+      { $match: { ownerId, listId: { $ne: null }, ...NOT_TRASHED } },
+      {
+        $group: {
+          _id: '$listId',
+          open: { $sum: { $cond: [{ $eq: ['$status', TodoStatusEnum.COMPLETED] }, 0, 1] } },
+          completed: { $sum: { $cond: [{ $eq: ['$status', TodoStatusEnum.COMPLETED] }, 1, 0] } }
+        }
+      }
+    ]).toArray();
+
+    return counts.map(entry => ({ listId: entry._id, open: entry.open, completed: entry.completed }));
+  }
+
   async update(todo: Todo): Promise<Todo> {
     const document = this.toDocument(todo);
-    const id = document.id;
+    const { id, ownerId } = document;
     
     const result = await this.collection.updateOne(
-      { id },
+      { id, ownerId, version: document.version },
       { 
         $set: {
           title: document.title,
           description: document.description,
           status: document.status,
+          priority: document.priority,
+          priorityRank: document.priorityRank,
+          tags: document.tags,
+          checklist: document.checklist,
+          requireChecklistCompletion: document.requireChecklistCompletion,
+          dueDate: document.dueDate,
+          recurrence: document.recurrence,
+          seriesId: document.seriesId,
+          listId: document.listId,
+          deletedAt: document.deletedAt,
           updatedAt: document.updatedAt
-        }
-      }
+        },
+        $inc: { version: 1 }
+      },
+      sessionOptions()
     );
     
     if (result.matchedCount === 0) {
-      throw new Error(`Todo with id ${id} not found`);
+      const exists = await this.collection.countDocuments({ id, ownerId }, { limit: 1, ...sessionOptions() });
+      if (exists) {
+        throw new ConcurrencyConflictException(id, document.version);
+      }
+      throw new TodoNotFoundException(id);
     }
     
-    return this.toDomain(document);
+    return this.toDomain({ ...document, version: document.version + 1 });
+  }
+
+  async findTrashed(filter: TrashFilter): Promise<Todo[]> {
+    const documents = await this.collection
+      .find({
+        ...(filter.ownerId ? { ownerId: filter.ownerId } : {}),
+        deletedAt: filter.trashedBefore ? { $ne: null, $lt: filter.trashedBefore } : { $ne: null }
+      })
+      .sort({ deletedAt: -1 })
+      .toArray();
+
+    return documents.map(doc => this.toDomain(doc));
+  }
+
+  async delete(id: string, ownerId: string, expectedVersion?: number): Promise<boolean> {
+    const result = await this.collection.deleteOne(
+      { id, ownerId, ...(expectedVersion !== undefined ? { version: expectedVersion } : {}) },
+      sessionOptions()
+    );
+    if (result.deletedCount > 0) {
+      return true;
+    }
+    if (expectedVersion !== undefined) {
+      const exists = await this.collection.countDocuments({ id, ownerId }, { limit: 1, ...sessionOptions() });
+      if (exists) {
+        throw new ConcurrencyConflictException(id, expectedVersion);
+      }
+    }
+    return false;
+  }
+
+  async countTags(ownerId: string): Promise<TagUsage[]> {
+    const usage = await this.collection.aggregate<{ _id: string; count: number }>([
+      { $match: { ownerId, ...NOT_TRASHED } },
+      { $unwind: '$tags' },
+      { $group: { _id: '$tags', count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } }
+    ]).toArray();
+
+    return usage.map(entry => ({ tag: entry._id, count: entry.count }));
+  }
+
+  /**
+   * Rename in place where the target tag is absent, otherwise just drop the
+   * old tag, so that the tag order is kept and no duplicates are created
+   */
+  async renameTag(from: string, to: string, ownerId: string): Promise<number> {
+    const updatedAt = new Date();
+    const result = await this.collection.bulkWrite([
+      {
+        updateMany: {
+          filter: { $and: [{ ownerId }, { tags: from }, { tags: { $ne: to } }] },
+          update: { $set: { 'tags.$[tag]': to, updatedAt }, $inc: { version: 1 } },
+          arrayFilters: [{ tag: from }]
+        }
+      },
+      {
+        updateMany: {
+          filter: { ownerId, tags: from },
+          update: { $pull: { tags: from }, $set: { updatedAt }, $inc: { version: 1 } }
+        }
+      }
+    ], { ordered: true });
+
+    return result.modifiedCount;
+  }
+
+  async removeTag(tag: string, ownerId: string): Promise<number> {
+    const result = await this.collection.updateMany(
+      { ownerId, tags: tag },
+      { $pull: { tags: tag }, $set: { updatedAt: new Date() }, $inc: { version: 1 } }
+    );
+    return result.modifiedCount;
   }
 
-  async delete(id: string): Promise<boolean> {
-    const result = await this.collection.deleteOne({ id });
-    return result.deletedCount > 0;
+  /**
+   * Translate criteria filters into a MongoDB query
+   */
+  private toFilter(criteria: TodoCriteria): Filter<TodoDocument> {
+    const filter: Filter<TodoDocument> = { ownerId: criteria.ownerId, ...NOT_TRASHED };
+
+    if (criteria.listId) {
+      filter.listId = criteria.listId;
+    }
+
+    if (criteria.status) {
+      filter.status = criteria.status;
+    }
+    if (criteria.priorities) {
+      filter.priority = { $in: criteria.priorities };
+    }
+    if (criteria.tags) {
+      filter.tags = criteria.tags.match === 'all'
+        ? { $all: criteria.tags.tags }
+        : { $in: criteria.tags.tags };
+    }
+    if (criteria.createdAt) {
+      filter.createdAt = this.toRangeFilter(criteria.createdAt);
+    }
+    if (criteria.updatedAt) {
+      filter.updatedAt = this.toRangeFilter(criteria.updatedAt);
+    }
+    if (criteria.titleContains) {
+      filter.title = { $regex: escapeRegex(criteria.titleContains), $options: 'i' };
+    }
+
+    return filter;
+  }
+
+  private toRangeFilter(range: DateRange): { $gte?: Date; $lte?: Date } {
+    return {
+      ...(range.from && { $gte: range.from }),
+      ...(range.to && { $lte: range.to })
+    };
+  }
+
+  /**
+   * Match documents positioned after the cursor in the requested sort order
+   * Comparison operators never match null, so nulls (sorted first) are handled explicitly
+   */
+  private toCursorFilter(criteria: TodoCriteria): Filter<TodoDocument> {
+    const cursor = decodeCursor(criteria.cursor!);
+    const field = sortKey(criteria.sortBy);
+    const value = toMongoValue(criteria.sortBy, cursor.value);
+    const after = criteria.sortDirection === 'asc' ? '$gt' : '$lt';
+    const sameValueAfterId = { [field]: value, id: { [after]: cursor.id } };
+
+    if (value === null) {
+      return criteria.sortDirection === 'asc'
+        ? { $or: [{ [field]: { $ne: null } }, sameValueAfterId] } as Filter<TodoDocument>
+        : sameValueAfterId as Filter<TodoDocument>;
+    }
+
+    const branches: object[] = [{ [field]: { [after]: value } }, sameValueAfterId];
+    if (criteria.sortDirection === 'desc') {
+      branches.push({ [field]: null });
+    }
+    return { $or: branches } as Filter<TodoDocument>;
   }
 }
 
+const DATE_FIELDS: ReadonlySet<TodoSortField> = new Set<TodoSortField>(['createdAt', 'updatedAt']);
+
+function sortKey(field: TodoSortField): string {
+  return field === 'priority' ? 'priorityRank' : field;
+}
+
+function toMongoValue(field: TodoSortField, value: SortValue): SortValue | Date {
+  if (value !== null && DATE_FIELDS.has(field)) {
+    return new Date(value);
+  }
+  return value;
+}
+
+function clausePattern(clause: SearchClause): string {
+  switch (clause.kind) {
+    case 'term':
+      return `${WORD_START}${escapeRegex(clause.word)}${WORD_END}`;
+    case 'prefix':
+      return `${WORD_START}${escapeRegex(clause.word)}`;
+    case 'phrase':
+      return `${WORD_START}${clause.words.map(escapeRegex).join(BETWEEN_WORDS)}${WORD_END}`;
+  }
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
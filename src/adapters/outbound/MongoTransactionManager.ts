@@ -0,0 +1,40 @@
+import { TransactionManager } from '../../application/ports/TransactionManager';
+import { MongoDBClient } from '../../infrastructure/MongoDBClient';
+import { currentTransaction, runInTransaction, TransactionState } from './TransactionContext';
+
+/**
+ * Outbound Adapter - MongoDB multi-document transactions
+ * Requires a replica set or a sharded cluster; a standalone server rejects them
+ */
+export class MongoTransactionManager implements TransactionManager {
+  constructor(private readonly mongoClient: MongoDBClient) {}
+
+  async run<T>(work: () => Promise<T>): Promise<T> {
+    // Nested transactions join the outer one
+    if (currentTransaction()) {
+      return await work();
+    }
+
+    const session = this.mongoClient.startSession();
+    let state: TransactionState = { session, rollbacks: [], beforeCommit: [], afterCommit: [] };
+    let result: T;
+    try {
+      result = await session.withTransaction(async () => {
+        // The driver retries the whole callback on transient errors
+        state = { session, rollbacks: [], beforeCommit: [], afterCommit: [] };
+        const value = await runInTransaction(state, work);
+        for (const callback of state.beforeCommit) {
+          await callback();
+        }
+        return value;
+      });
+    } finally {
+      await session.endSession();
+    }
+
+    for (const callback of state.afterCommit) {
+      await callback();
+    }
+    return result;
+  }
+}
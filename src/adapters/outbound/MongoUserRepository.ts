@@ -0,0 +1,101 @@
+import { Collection, MongoServerError, ObjectId } from 'mongodb';
+import { User } from '../../domain/entities/User';
+import { UserRepository } from '../../application/ports/UserRepository';
+import { Logger } from '../../application/ports/Logger';
+import { MongoDBClient } from '../../infrastructure/MongoDBClient';
+import { EmailAlreadyRegisteredException } from '../../domain/exceptions/DomainException';
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * MongoDB document interface
+ * Represents how users are stored in MongoDB
+ */
+interface UserDocument {
+  _id?: ObjectId;
+  id: string;
+  email: string;
+  passwordHash: string;
+  createdAt: Date;
+}
+
+/**
+ * Outbound Adapter - MongoDB implementation of UserRepository
+ */
+export class MongoUserRepository implements UserRepository {
+  private collection: Collection<UserDocument>;
+  private readonly collectionName = 'users';
+
+  constructor(mongoClient: MongoDBClient, private readonly logger: Logger) {
+    const db = mongoClient.getDatabase();
+    this.collection = db.collection<UserDocument>(this.collectionName);
+  }
+
+  /**
+   * Initialize indexes (call after construction)
+   */
+  public async init(): Promise<void> {
+    try {
+      await this.collection.createIndex({ id: 1 }, { unique: true });
+      await this.collection.createIndex({ email: 1 }, { unique: true });
+    } catch (error) {
+      this.logger.error('Error creating indexes', { collection: this.collectionName, error });
+      throw error;
+    }
+  }
+
+  private toDocument(user: User): UserDocument {
+    const userData = user.toObject();
+    return {
+      id: userData.id!,
+      email: userData.email,
+      passwordHash: userData.passwordHash,
+      createdAt: userData.createdAt!
+    };
+  }
+
+  private toDomain(document: UserDocument): User {
+    return new User({
+      id: document.id,
+      email: document.email,
+      passwordHash: document.passwordHash,
+      createdAt: document.createdAt
+    });
+  }
+
+  async save(user: User): Promise<User> {
+    const document = this.toDocument(user);
+
+    try {
+      await this.collection.insertOne(document);
+    } catch (error) {
+      // The unique index settles concurrent registrations of the same email
+      if (error instanceof MongoServerError && error.code === DUPLICATE_KEY_ERROR) {
+        throw new EmailAlreadyRegisteredException();
+      }
+      throw error;
+    }
+
+    return this.toDomain(document);
+  }
+
+  async findById(id: string): Promise<User | null> {
+    const document = await this.collection.findOne({ id });
+
+    if (!document) {
+      return null;
+    }
+
+    return this.toDomain(document);
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    const document = await this.collection.findOne({ email });
+
+    if (!document) {
+      return null;
+    }
+
+    return this.toDomain(document);
+  }
+}
@@ -0,0 +1,147 @@
+import { Collection, ObjectId } from 'mongodb';
+import { WebhookDelivery, WebhookDeliveryStatus } from '../../domain/entities/WebhookDelivery';
+import { TodoEventType } from '../../domain/events/TodoEvent';
+import { WebhookDeliveryRepository } from '../../application/ports/WebhookDeliveryRepository';
+import { Logger } from '../../application/ports/Logger';
+import { MongoDBClient } from '../../infrastructure/MongoDBClient';
+import { WebhookDeliveryNotFoundException } from '../../domain/exceptions/DomainException';
+
+/**
+ * MongoDB document interface
+ * Represents how webhook deliveries are stored in MongoDB
+ */
+interface WebhookDeliveryDocument {
+  _id?: ObjectId;
+  id: string;
+  webhookId: string;
+  eventId: string;
+  eventType: string;
+  payload: string;
+  status: string;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lastAttemptAt: Date | null;
+  lastResponseStatus: number | null;
+  lastError: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Outbound Adapter - MongoDB implementation of WebhookDeliveryRepository
+ */
+export class MongoWebhookDeliveryRepository implements WebhookDeliveryRepository {
+  private collection: Collection<WebhookDeliveryDocument>;
+  private readonly collectionName = 'webhook_deliveries';
+
+  constructor(mongoClient: MongoDBClient, private readonly logger: Logger) {
+    const db = mongoClient.getDatabase();
+    this.collection = db.collection<WebhookDeliveryDocument>(this.collectionName);
+  }
+
+  /**
+   * Initialize indexes (call after construction)
+   */
+  public async init(): Promise<void> {
+    try {
+      await this.collection.createIndex({ id: 1 }, { unique: true });
+      await this.collection.createIndex({ webhookId: 1, createdAt: -1 });
+      await this.collection.createIndex({ status: 1, nextAttemptAt: 1 });
+    } catch (error) {
+      this.logger.error('Error creating indexes', { collection: this.collectionName, error });
+      throw error;
+    }
+  }
+
+  private toDocument(delivery: WebhookDelivery): WebhookDeliveryDocument {
+    const deliveryData = delivery.toObject();
+    return {
+      id: deliveryData.id!,
+      webhookId: deliveryData.webhookId,
+      eventId: deliveryData.eventId,
+      eventType: deliveryData.eventType,
+      payload: deliveryData.payload,
+      status: deliveryData.status!,
+      attempts: deliveryData.attempts!,
+      nextAttemptAt: deliveryData.nextAttemptAt ?? null,
+      lastAttemptAt: deliveryData.lastAttemptAt ?? null,
+      lastResponseStatus: deliveryData.lastResponseStatus ?? null,
+      lastError: deliveryData.lastError ?? null,
+      createdAt: deliveryData.createdAt!,
+      updatedAt: deliveryData.updatedAt!
+    };
+  }
+
+  private toDomain(document: WebhookDeliveryDocument): WebhookDelivery {
+    return new WebhookDelivery({
+      id: document.id,
+      webhookId: document.webhookId,
+      eventId: document.eventId,
+      eventType: document.eventType as TodoEventType,
+      payload: document.payload,
+      status: document.status as WebhookDeliveryStatus,
+      attempts: document.attempts,
+      nextAttemptAt: document.nextAttemptAt,
+      lastAttemptAt: document.lastAttemptAt,
+      lastResponseStatus: document.lastResponseStatus,
+      lastError: document.lastError,
+      createdAt: document.createdAt,
+      updatedAt: document.updatedAt
+    });
+  }
+
+  async save(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const document = this.toDocument(delivery);
+
+    await this.collection.insertOne(document);
+
+    return this.toDomain(document);
+  }
+
+  async update(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const { id, ...fields } = this.toDocument(delivery);
+
+    const result = await this.collection.updateOne({ id }, { $set: fields });
+
+    if (result.matchedCount === 0) {
+      throw new WebhookDeliveryNotFoundException(fields.webhookId, id);
+    }
+
+    return this.toDomain({ id, ...fields });
+  }
+
+  async findById(id: string): Promise<WebhookDelivery | null> {
+    const document = await this.collection.findOne({ id });
+
+    if (!document) {
+      return null;
+    }
+
+    return this.toDomain(document);
+  }
+
+  async findByWebhookId(webhookId: string, limit: number): Promise<WebhookDelivery[]> {
+    const documents = await this.collection
+      .find({ webhookId })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .toArray();
+
+    return documents.map(doc => this.toDomain(doc));
+  }
+
+  async findDue(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    const documents = await this.collection
+      .find({ status: WebhookDeliveryStatus.PENDING, nextAttemptAt: { $lte: now } })
+      .sort({ nextAttemptAt: 1 })
+      .limit(limit)
+      .toArray();
+
+    return documents.map(doc => this.toDomain(doc));
+  }
+
+  async deleteByWebhookId(webhookId: string): Promise<number> {
+    const result = await this.collection.deleteMany({ webhookId });
+    return result.deletedCount;
+  }
+}
@@ -0,0 +1,113 @@
+import { Collection, ObjectId } from 'mongodb';
+import { WebhookSubscription } from '../../domain/entities/WebhookSubscription';
+import { TodoEventType } from '../../domain/events/TodoEvent';
+import { WebhookRepository } from '../../application/ports/WebhookRepository';
+import { Logger } from '../../application/ports/Logger';
+import { MongoDBClient } from '../../infrastructure/MongoDBClient';
+import { backfillOwner } from './MongoOwnerBackfill';
+
+/**
+ * MongoDB document interface
+ * Represents how webhook subscriptions are stored in MongoDB
+ */
+interface WebhookDocument {
+  _id?: ObjectId;
+  id: string;
+  ownerId: string;
+  url: string;
+  events: string[];
+  secret: string;
+  createdAt: Date;
+}
+
+/**
+ * Outbound Adapter - MongoDB implementation of WebhookRepository
+ */
+export class MongoWebhookRepository implements WebhookRepository {
+  private collection: Collection<WebhookDocument>;
+  private readonly collectionName = 'webhooks';
+
+  constructor(
+    mongoClient: MongoDBClient,
+    private readonly logger: Logger,
+    // Owner of the webhooks written before user accounts existed
+    private readonly legacyOwnerId?: string
+  ) {
+    const db = mongoClient.getDatabase();
+    this.collection = db.collection<WebhookDocument>(this.collectionName);
+  }
+
+  /**
+   * Initialize indexes (call after construction)
+   */
+  public async init(): Promise<void> {
+    try {
+      await this.collection.createIndex({ id: 1 }, { unique: true });
+      await this.collection.createIndex({ ownerId: 1, events: 1 });
+    } catch (error) {
+      this.logger.error('Error creating indexes', { collection: this.collectionName, error });
+      throw error;
+    }
+    await backfillOwner(this.collection, this.legacyOwnerId, this.logger);
+  }
+
+  private toDocument(webhook: WebhookSubscription): WebhookDocument {
+    const webhookData = webhook.toObject();
+    return {
+      id: webhookData.id!,
+      ownerId: webhookData.ownerId,
+      url: webhookData.url,
+      events: webhookData.events,
+      secret: webhookData.secret,
+      createdAt: webhookData.createdAt!
+    };
+  }
+
+  private toDomain(document: WebhookDocument): WebhookSubscription {
+    return new WebhookSubscription({
+      id: document.id,
+      ownerId: document.ownerId,
+      url: document.url,
+      events: document.events as TodoEventType[],
+      secret: document.secret,
+      createdAt: document.createdAt
+    });
+  }
+
+  async save(webhook: WebhookSubscription): Promise<WebhookSubscription> {
+    const document = this.toDocument(webhook);
+
+    await this.collection.insertOne(document);
+
+    return this.toDomain(document);
+  }
+
+  async findById(id: string): Promise<WebhookSubscription | null> {
+    const document = await this.collection.findOne({ id });
+
+    if (!document) {
+      return null;
+    }
+
+    return this.toDomain(document);
+  }
+
+  async findAll(ownerId: string): Promise<WebhookSubscription[]> {
+    const documents = await this.collection
+      .find({ ownerId })
+      .sort({ createdAt: -1 })
+      .toArray();
+
+    return documents.map(doc => this.toDomain(doc));
+  }
+
+  async findByEventType(type: TodoEventType, ownerId: string): Promise<WebhookSubscription[]> {
+    const documents = await this.collection.find({ ownerId, events: type }).toArray();
+    return documents.map(doc => this.toDomain(doc));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.collection.deleteOne({ id });
+    return result.deletedCount > 0;
+  }
+}
@@ -0,0 +1,32 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { PasswordHasher } from '../../application/ports/PasswordHasher';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const SALT_LENGTH = 16;
+const KEY_LENGTH = 64;
+
+/**
+ * Outbound Adapter - Salted scrypt hashes, stored as `scrypt$<salt>$<key>` in hex
+ */
+export class ScryptPasswordHasher implements PasswordHasher {
+  async hash(password: string): Promise<string> {
+    const salt = randomBytes(SALT_LENGTH);
+    const key = await scryptAsync(password, salt, KEY_LENGTH);
+    return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+  }
+
+  async verify(password: string, hash: string): Promise<boolean> {
+    const [scheme, salt, key] = hash.split('$');
+    if (scheme !== 'scrypt' || !salt || !key) {
+      return false;
+    }
+    const expected = Buffer.from(key, 'hex');
+    if (expected.length === 0) {
+      return false;
+    }
+    const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+    return timingSafeEqual(actual, expected);
+  }
+}
@@ -0,0 +1,58 @@
+import { TodoProps } from '../../domain/entities/Todo';
+import { TodoSortField } from '../../application/ports/TodoRepository';
+import { TodoPriority } from '../../domain/value-objects/TodoPriority';
+import { ValidationException } from '../../domain/exceptions/DomainException';
+
+export type SortValue = string | number | null;
+
+/**
+ * Position of the last item of a page in a given sort order
+ * The todo id breaks ties between items with equal sort values
+ */
+export interface TodoCursor {
+  value: SortValue;
+  id: string;
+}
+
+/**
+ * Comparable value of a todo for the given sort field
+ * Dates are compared by their timestamp and priorities by their rank
+ */
+export function sortValue(props: TodoProps, field: TodoSortField): SortValue {
+  if (field === 'priority') {
+    return new TodoPriority(props.priority).rank();
+  }
+  const value = props[field];
+  if (value === undefined || value === null) {
+    return null;
+  }
+  return value instanceof Date ? value.getTime() : value;
+}
+
+/**
+ * Cursors are opaque to clients; both repository adapters share this encoding
+ */
+export function encodeCursor(props: TodoProps, field: TodoSortField): string {
+  const cursor: TodoCursor = { value: sortValue(props, field), id: props.id! };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): TodoCursor {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new ValidationException('Invalid cursor');
+  }
+  if (typeof decoded !== 'object' || decoded === null) {
+    throw new ValidationException('Invalid cursor');
+  }
+
+  const { id, value } = decoded as Record<string, unknown>;
+  const validValue = value === null || typeof value === 'string' || typeof value === 'number';
+  if (typeof id !== 'string' || !validValue) {
+    throw new ValidationException('Invalid cursor');
+  }
+
+  return { value, id };
+}
@@ -0,0 +1,140 @@
+import { Todo, TodoProps } from '../../domain/entities/Todo';
+import { SearchClause, SearchQuery, tokenize, Word } from '../../domain/value-objects/SearchQuery';
+import { SearchHighlight, SearchHit, TextRange } from '../../application/ports/TodoRepository';
+
+// A word in the title counts as much as this many in the description
+const TITLE_WEIGHT = 3;
+const FRAGMENT_LENGTH = 160;
+// Text kept before the first match of a description fragment
+const FRAGMENT_LEAD = 40;
+
+/**
+ * Scores and highlights a todo, or returns null unless it satisfies every
+ * clause of the query. Both repository adapters rank with this, so that they
+ * return the same results; their indexes only narrow down the candidates.
+ */
+export function matchTodo(props: TodoProps, query: SearchQuery): SearchHit | null {
+  const description = props.description ?? '';
+  const titleWords = tokenize(props.title);
+  const descriptionWords = tokenize(description);
+  const titleMatches: TextRange[] = [];
+  const descriptionMatches: TextRange[] = [];
+  let score = 0;
+
+  for (const clause of query.getClauses()) {
+    const inTitle = findClause(titleWords, clause);
+    const inDescription = findClause(descriptionWords, clause);
+    if (inTitle.length === 0 && inDescription.length === 0) {
+      return null;
+    }
+    score += clauseWeight(clause) * (TITLE_WEIGHT * inTitle.length + inDescription.length);
+    titleMatches.push(...inTitle);
+    descriptionMatches.push(...inDescription);
+  }
+
+  const highlights: SearchHighlight[] = [];
+  if (titleMatches.length > 0) {
+    highlights.push({ field: 'title', fragment: props.title, matches: mergeRanges(titleMatches) });
+  }
+  if (descriptionMatches.length > 0) {
+    highlights.push({ field: 'description', ...fragmentOf(description, mergeRanges(descriptionMatches)) });
+  }
+
+  return { todo: new Todo(props), score, highlights };
+}
+
+/**
+ * Best score first, then the most recently updated, then by id
+ */
+export function compareHits(a: SearchHit, b: SearchHit): number {
+  const aId = a.todo.getId().getValue();
+  const bId = b.todo.getId().getValue();
+  return b.score - a.score ||
+    b.todo.getUpdatedAt().getTime() - a.todo.getUpdatedAt().getTime() ||
+    (aId < bId ? -1 : aId > bId ? 1 : 0);
+}
+
+function findClause(words: Word[], clause: SearchClause): TextRange[] {
+  switch (clause.kind) {
+    case 'term':
+      return words.filter(word => word.value === clause.word).map(toRange);
+    case 'prefix':
+      return words.filter(word => word.value.startsWith(clause.word)).map(toRange);
+    case 'phrase': {
+      const ranges: TextRange[] = [];
+      for (let i = 0; i + clause.words.length <= words.length; i++) {
+        if (clause.words.every((value, offset) => words[i + offset].value === value)) {
+          ranges.push({ start: words[i].start, end: words[i + clause.words.length - 1].end });
+        }
+      }
+      return ranges;
+    }
+  }
+}
+
+/**
+ * Phrases weigh by their length; prefixes, being looser, weigh less than a word
+ */
+function clauseWeight(clause: SearchClause): number {
+  switch (clause.kind) {
+    case 'term':
+      return 1;
+    case 'prefix':
+      return 0.5;
+    case 'phrase':
+      return clause.words.length;
+  }
+}
+
+function toRange(word: Word): TextRange {
+  return { start: word.start, end: word.end };
+}
+
+function mergeRanges(ranges: TextRange[]): TextRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start || b.end - a.end);
+  const merged: TextRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Part of a long text around its first match, cut at spaces and marked
+ * with an ellipsis where it was cut; match offsets follow the fragment
+ */
+function fragmentOf(text: string, matches: TextRange[]): Pick<SearchHighlight, 'fragment' | 'matches'> {
+  if (text.length <= FRAGMENT_LENGTH) {
+    return { fragment: text, matches };
+  }
+
+  const first = matches[0];
+  let start = Math.max(0, first.start - FRAGMENT_LEAD);
+  let end = Math.min(text.length, start + FRAGMENT_LENGTH);
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < first.start) {
+      start = space + 1;
+    }
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > first.end) {
+      end = space;
+    }
+  }
+
+  const lead = start > 0 ? '…' : '';
+  const tail = end < text.length ? '…' : '';
+  return {
+    fragment: `${lead}${text.slice(start, end)}${tail}`,
+    matches: matches
+      .filter(range => range.start >= start && range.end <= end)
+      .map(range => ({ start: range.start - start + lead.length, end: range.end - start + lead.length }))
+  };
+}
@@ -0,0 +1,36 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { ClientSession } from 'mongodb';
+
+/**
+ * State of the transaction the current async call chain runs in
+ * Shared by the outbound adapters that take part in transactions
+ */
+export interface TransactionState {
+  // Set by MongoTransactionManager; passed to every MongoDB call
+  session?: ClientSession;
+  // Undo steps registered by in-memory repositories, run newest first on rollback
+  rollbacks: Array<() => void>;
+  // Run once the work is done; a failure rolls the transaction back, e.g. when
+  // a file repository cannot log the writes of the transaction
+  beforeCommit: Array<() => Promise<void>>;
+  // Run once the transaction has committed, e.g. delivering held-back events
+  afterCommit: Array<() => Promise<void>>;
+}
+
+const storage = new AsyncLocalStorage<TransactionState>();
+
+export function currentTransaction(): TransactionState | undefined {
+  return storage.getStore();
+}
+
+export function runInTransaction<T>(state: TransactionState, work: () => Promise<T>): Promise<T> {
+  return storage.run(state, work);
+}
+
+/**
+ * Options for MongoDB calls, binding them to the current transaction if any
+ */
+export function sessionOptions(): { session?: ClientSession } {
+  const session = currentTransaction()?.session;
+  return session ? { session } : {};
+}
@@ -0,0 +1,14 @@
+import { Todo } from '../../domain/entities/Todo';
+
+export interface AddChecklistItemCommand {
+  todoId: string;
+  ownerId: string;
+  text: string;
+}
+
+/**
+ * Input Port - Use case interface for adding an item to a todo's checklist
+ */
+export interface AddChecklistItemUseCase {
+  execute(command: AddChecklistItemCommand): Promise<Todo>;
+}
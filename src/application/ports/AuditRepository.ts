@@ -0,0 +1,11 @@
+import { AuditEntry } from '../../domain/entities/AuditEntry';
+
+/**
+ * Output Port - Append-only storage of todo change history
+ */
+export interface AuditRepository {
+  init(): Promise<void>;
+  append(entries: AuditEntry[]): Promise<void>;
+  // Oldest first
+  findByTodoId(todoId: string, ownerId: string): Promise<AuditEntry[]>;
+}
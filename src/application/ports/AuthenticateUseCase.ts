@@ -0,0 +1,8 @@
+import { User } from '../../domain/entities/User';
+
+/**
+ * Input Port - Use case interface for identifying the user behind a bearer token
+ */
+export interface AuthenticateUseCase {
+  execute(token: string): Promise<User>;
+}
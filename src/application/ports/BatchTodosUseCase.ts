@@ -0,0 +1,41 @@
+import { Todo } from '../../domain/entities/Todo';
+import { CreateTodoCommand } from './CreateTodoUseCase';
+import { UpdateTodoCommand } from './UpdateTodoUseCase';
+
+export type BatchOperation =
+  | ({ op: 'create' } & Omit<CreateTodoCommand, 'ownerId'>)
+  | ({ op: 'update' } & Omit<UpdateTodoCommand, 'ownerId'>)
+  | { op: 'complete' | 'reopen' | 'delete'; id: string; expectedVersion?: number };
+
+export interface BatchTodosCommand {
+  ownerId: string;
+  operations: BatchOperation[];
+  // Apply every operation or none of them
+  atomic?: boolean;
+}
+
+// rolledBack and skipped only occur in atomic batches, before and after the failed operation
+export type BatchOutcome = 'succeeded' | 'failed' | 'rolledBack' | 'skipped';
+
+export interface BatchItemResult {
+  index: number;
+  // null when the operation had no op name
+  op: string | null;
+  outcome: BatchOutcome;
+  // The todo after the operation; absent for deletions and unsuccessful operations
+  todo?: Todo;
+  error?: unknown;
+}
+
+export interface BatchTodosResult {
+  atomic: boolean;
+  rolledBack: boolean;
+  results: BatchItemResult[];
+}
+
+/**
+ * Input Port - Use case interface for applying several todo operations at once
+ */
+export interface BatchTodosUseCase {
+  execute(command: BatchTodosCommand): Promise<BatchTodosResult>;
+}
@@ -4,6 +4,6 @@ import { Todo } from '../../domain/entities/Todo';
  * Input Port - Use case interface for completing a todo
  */
 export interface CompleteTodoUseCase {
-  execute(id: string): Promise<Todo>;
+  execute(id: string, ownerId: string, expectedVersion?: number): Promise<Todo>;
 }
 
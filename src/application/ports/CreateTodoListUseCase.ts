@@ -0,0 +1,13 @@
+import { TodoList } from '../../domain/entities/TodoList';
+
+export interface CreateTodoListCommand {
+  ownerId: string;
+  name: string;
+}
+
+/**
+ * Input Port - Use case interface for creating a todo list
+ */
+export interface CreateTodoListUseCase {
+  execute(command: CreateTodoListCommand): Promise<TodoList>;
+}
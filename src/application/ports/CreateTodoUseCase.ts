@@ -1,8 +1,19 @@
 import { Todo } from '../../domain/entities/Todo';
+import { DueDateProps } from '../../domain/value-objects/TodoDueDate';
+import { TodoPriorityEnum } from '../../domain/value-objects/TodoPriority';
 
 export interface CreateTodoCommand {
+  ownerId: string;
   title: string;
   description?: string;
+  priority?: TodoPriorityEnum;
+  tags?: string[];
+  requireChecklistCompletion?: boolean;
+  dueDate?: DueDateProps;
+  // RRULE subset, e.g. FREQ=WEEKLY;BYDAY=MO,TH; requires a due date
+  recurrence?: string;
+  // Must be one of the owner's lists
+  listId?: string;
 }
 
 /**
@@ -0,0 +1,7 @@
+/**
+ * Input Port - Use case interface for removing a tag from all of the owner's todos
+ * Resolves to the number of todos that were changed
+ */
+export interface DeleteTagUseCase {
+  execute(tag: string, ownerId: string): Promise<number>;
+}
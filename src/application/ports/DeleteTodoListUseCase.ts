@@ -0,0 +1,14 @@
+export interface DeleteTodoListCommand {
+  id: string;
+  ownerId: string;
+  // Move the todos of the list to the trash instead of refusing to delete it
+  cascade?: boolean;
+}
+
+/**
+ * Input Port - Use case interface for deleting a todo list
+ * Resolves to the number of todos moved to the trash
+ */
+export interface DeleteTodoListUseCase {
+  execute(command: DeleteTodoListCommand): Promise<number>;
+}
@@ -1,7 +1,8 @@
 /**
  * Input Port - Use case interface for deleting a todo
+ * The todo is moved to the trash, from where it can be restored
  */
 export interface DeleteTodoUseCase {
-  execute(id: string): Promise<void>;
+  execute(id: string, ownerId: string, expectedVersion?: number): Promise<void>;
 }
 
@@ -0,0 +1,6 @@
+/**
+ * Input Port - Use case interface for deleting a webhook and its delivery log
+ */
+export interface DeleteWebhookUseCase {
+  execute(id: string, ownerId: string): Promise<void>;
+}
@@ -0,0 +1,14 @@
+export interface EmptyTrashCommand {
+  // Limits the purge to one owner's trash; the retention job omits it
+  ownerId?: string;
+  trashedBefore?: Date;
+}
+
+/**
+ * Input Port - Use case interface for permanently deleting the todos in the trash
+ * Only todos trashed before the given date are purged when one is given;
+ * returns the number of todos purged
+ */
+export interface EmptyTrashUseCase {
+  execute(command?: EmptyTrashCommand): Promise<number>;
+}
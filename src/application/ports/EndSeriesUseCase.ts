@@ -0,0 +1,8 @@
+import { Todo } from '../../domain/entities/Todo';
+
+/**
+ * Input Port - Use case interface for stopping a series from recurring
+ */
+export interface EndSeriesUseCase {
+  execute(seriesId: string, ownerId: string): Promise<Todo[]>;
+}
@@ -0,0 +1,9 @@
+import { WebhookDelivery } from '../../domain/entities/WebhookDelivery';
+import { TodoEvent } from '../../domain/events/TodoEvent';
+
+/**
+ * Input Port - Use case interface for queueing an event for every subscribed webhook
+ */
+export interface EnqueueWebhookDeliveriesUseCase {
+  execute(event: TodoEvent): Promise<WebhookDelivery[]>;
+}
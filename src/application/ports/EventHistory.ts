@@ -0,0 +1,13 @@
+import { TodoEvent } from '../../domain/events/TodoEvent';
+
+/**
+ * Output Port - The most recently published domain events, for clients
+ * catching up after a disconnect
+ */
+export interface EventHistory {
+  /**
+   * Events published after the given one, oldest first; null when that event
+   * is unknown or no longer kept
+   */
+  since(eventId: string): TodoEvent[] | null;
+}
@@ -0,0 +1,8 @@
+import { TodoEvent } from '../../domain/events/TodoEvent';
+
+/**
+ * Output Port - Publishes domain events once the change they describe is saved
+ */
+export interface EventPublisher {
+  publish(events: TodoEvent[]): Promise<void>;
+}
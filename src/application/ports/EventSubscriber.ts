@@ -0,0 +1,14 @@
+import { TodoEvent, TodoEventType } from '../../domain/events/TodoEvent';
+
+export type TodoEventHandler = (event: TodoEvent) => void | Promise<void>;
+
+/**
+ * Output Port - Lets adapters follow domain events as they are published
+ */
+export interface EventSubscriber {
+  /**
+   * Subscribe to one event type, or to every event with '*'
+   * Returns a function that removes the subscription
+   */
+  subscribe(type: TodoEventType | '*', handler: TodoEventHandler): () => void;
+}
@@ -0,0 +1,9 @@
+import { Todo } from '../../domain/entities/Todo';
+
+/**
+ * Input Port - Use case interface for exporting every todo of an owner
+ */
+export interface ExportTodosUseCase {
+  // Todos in the trash are left out
+  execute(ownerId: string): AsyncIterable<Todo>;
+}
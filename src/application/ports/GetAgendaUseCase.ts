@@ -0,0 +1,22 @@
+import { Todo } from '../../domain/entities/Todo';
+
+export interface AgendaQuery {
+  timeZone?: string;
+  now?: Date;
+}
+
+export interface Agenda {
+  timeZone: string;
+  date: string;
+  overdue: Todo[];
+  today: Todo[];
+  thisWeek: Todo[];
+  later: Todo[];
+}
+
+/**
+ * Input Port - Use case interface for the agenda of pending todos with a due date
+ */
+export interface GetAgendaUseCase {
+  execute(ownerId: string, query?: AgendaQuery): Promise<Agenda>;
+}
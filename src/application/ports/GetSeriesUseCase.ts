@@ -0,0 +1,8 @@
+import { Todo } from '../../domain/entities/Todo';
+
+/**
+ * Input Port - Use case interface for listing the occurrences of a recurring todo
+ */
+export interface GetSeriesUseCase {
+  execute(seriesId: string, ownerId: string): Promise<Todo[]>;
+}
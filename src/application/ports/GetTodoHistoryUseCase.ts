@@ -0,0 +1,8 @@
+import { AuditEntry } from '../../domain/entities/AuditEntry';
+
+/**
+ * Input Port - Use case interface for reading the change history of a todo
+ */
+export interface GetTodoHistoryUseCase {
+  execute(todoId: string, ownerId: string): Promise<AuditEntry[]>;
+}
@@ -0,0 +1,8 @@
+import { TodoListSummary } from './ListTodoListsUseCase';
+
+/**
+ * Input Port - Use case interface for getting a todo list with its counts
+ */
+export interface GetTodoListUseCase {
+  execute(id: string, ownerId: string): Promise<TodoListSummary>;
+}
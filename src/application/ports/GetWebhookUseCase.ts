@@ -0,0 +1,8 @@
+import { WebhookSubscription } from '../../domain/entities/WebhookSubscription';
+
+/**
+ * Input Port - Use case interface for getting a webhook
+ */
+export interface GetWebhookUseCase {
+  execute(id: string, ownerId: string): Promise<WebhookSubscription>;
+}
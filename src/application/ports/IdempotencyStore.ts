@@ -0,0 +1,34 @@
+/**
+ * The response first given to a request with an idempotency key
+ */
+export interface StoredResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface IdempotencyRecord {
+  ownerId: string;
+  key: string;
+  // Identifies the request, so that the key cannot be reused for another one
+  fingerprint: string;
+  // Missing while the first request is in progress
+  response?: StoredResponse;
+  expiresAt: Date;
+}
+
+/**
+ * Output Port - Storage of idempotency keys and the responses given to them
+ * Keys are scoped to their owner; expired records behave as if they did not exist.
+ */
+export interface IdempotencyStore {
+  init(): Promise<void>;
+  /**
+   * Stores the record unless its key is taken, atomically
+   * Returns the record holding the key, or null once the new one is stored
+   */
+  reserve(record: IdempotencyRecord): Promise<IdempotencyRecord | null>;
+  complete(ownerId: string, key: string, response: StoredResponse): Promise<void>;
+  // Frees a key whose request failed, so that it can be retried
+  release(ownerId: string, key: string): Promise<void>;
+}
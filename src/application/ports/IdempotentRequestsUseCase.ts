@@ -0,0 +1,15 @@
+import { StoredResponse } from './IdempotencyStore';
+
+/**
+ * Input Port - Use case interface for answering retried requests with their first response
+ */
+export interface IdempotentRequestsUseCase {
+  /**
+   * Claims the key for a request; returns the stored response when the
+   * request was already answered, null when it should run now
+   * Throws when the key is in use by a running request or by a different one.
+   */
+  start(ownerId: string, key: string, fingerprint: string): Promise<StoredResponse | null>;
+  finish(ownerId: string, key: string, response: StoredResponse): Promise<void>;
+  abandon(ownerId: string, key: string): Promise<void>;
+}
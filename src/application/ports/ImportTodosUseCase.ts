@@ -0,0 +1,38 @@
+/**
+ * A todo in the shape it is exported in, not validated yet
+ * Dates may be ISO 8601 strings; owner, version and trash state are not part of it
+ */
+export type TodoRecord = Record<string, unknown>;
+
+// What to do with a record whose id matches an existing todo
+export type DuplicateStrategy = 'fail' | 'skip' | 'overwrite';
+
+export interface ImportTodosCommand {
+  ownerId: string;
+  records: TodoRecord[];
+  onDuplicate?: DuplicateStrategy;
+  // Validate and report without saving anything
+  dryRun?: boolean;
+}
+
+export interface ImportFailure {
+  // 1-based position of the record in the import
+  row: number;
+  id?: string;
+  error: string;
+}
+
+export interface ImportTodosResult {
+  dryRun: boolean;
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: ImportFailure[];
+}
+
+/**
+ * Input Port - Use case interface for importing todos
+ */
+export interface ImportTodosUseCase {
+  execute(command: ImportTodosCommand): Promise<ImportTodosResult>;
+}
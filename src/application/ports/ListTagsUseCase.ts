@@ -0,0 +1,8 @@
+import { TagUsage } from './TodoRepository';
+
+/**
+ * Input Port - Use case interface for listing tags with their usage counts
+ */
+export interface ListTagsUseCase {
+  execute(ownerId: string): Promise<TagUsage[]>;
+}
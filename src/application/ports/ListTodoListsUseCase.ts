@@ -0,0 +1,15 @@
+import { TodoList } from '../../domain/entities/TodoList';
+
+export interface TodoListSummary {
+  list: TodoList;
+  // Todos in the trash are not counted
+  open: number;
+  completed: number;
+}
+
+/**
+ * Input Port - Use case interface for listing todo lists with their counts
+ */
+export interface ListTodoListsUseCase {
+  execute(ownerId: string): Promise<TodoListSummary[]>;
+}
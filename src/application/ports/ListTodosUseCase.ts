@@ -1,9 +1,41 @@
 import { Todo } from '../../domain/entities/Todo';
+import { TodoStatusEnum } from '../../domain/value-objects/TodoStatus';
+import { TodoPriorityEnum } from '../../domain/value-objects/TodoPriority';
+import { SortDirection, TagMatch, TodoSortField } from './TodoRepository';
 
 /**
- * Input Port - Use case interface for listing all todos
+ * Filters shared by listing and watching todos
  */
-export interface ListTodosUseCase {
-  execute(): Promise<Todo[]>;
+export interface TodoFilterQuery {
+  listId?: string;
+  status?: TodoStatusEnum;
+  priorities?: TodoPriorityEnum[];
+  tags?: string[];
+  tagMatch?: TagMatch;
+  createdFrom?: Date;
+  createdTo?: Date;
+  updatedFrom?: Date;
+  updatedTo?: Date;
+  titleContains?: string;
+}
+
+export interface ListTodosQuery extends TodoFilterQuery {
+  sortBy?: TodoSortField;
+  sortDirection?: SortDirection;
+  limit?: number;
+  offset?: number;
+  cursor?: string;
+}
+
+export interface ListTodosResult {
+  items: Todo[];
+  total: number;
+  nextCursor: string | null;
 }
 
+/**
+ * Input Port - Use case interface for listing todos
+ */
+export interface ListTodosUseCase {
+  execute(ownerId: string, query?: ListTodosQuery): Promise<ListTodosResult>;
+}
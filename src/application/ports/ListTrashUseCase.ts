@@ -0,0 +1,8 @@
+import { Todo } from '../../domain/entities/Todo';
+
+/**
+ * Input Port - Use case interface for listing the todos in the trash
+ */
+export interface ListTrashUseCase {
+  execute(ownerId: string): Promise<Todo[]>;
+}
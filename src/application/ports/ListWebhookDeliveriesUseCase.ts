@@ -0,0 +1,8 @@
+import { WebhookDelivery } from '../../domain/entities/WebhookDelivery';
+
+/**
+ * Input Port - Use case interface for reading the delivery log of a webhook
+ */
+export interface ListWebhookDeliveriesUseCase {
+  execute(webhookId: string, ownerId: string): Promise<WebhookDelivery[]>;
+}
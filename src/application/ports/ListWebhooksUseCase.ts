@@ -0,0 +1,8 @@
+import { WebhookSubscription } from '../../domain/entities/WebhookSubscription';
+
+/**
+ * Input Port - Use case interface for listing webhooks
+ */
+export interface ListWebhooksUseCase {
+  execute(ownerId: string): Promise<WebhookSubscription[]>;
+}
@@ -0,0 +1,19 @@
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Output Port - Structured logging
+ * Messages are fixed text and the variable parts go into fields, so that
+ * entries can be searched by them. Errors may be passed as field values.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  // A logger that adds the given fields to every entry
+  child(fields: LogFields): Logger;
+}
@@ -0,0 +1,18 @@
+import { User } from '../../domain/entities/User';
+import { IssuedToken } from './TokenService';
+
+export interface LoginCommand {
+  email: string;
+  password: string;
+}
+
+export interface LoginResult extends IssuedToken {
+  user: User;
+}
+
+/**
+ * Input Port - Use case interface for exchanging credentials for a bearer token
+ */
+export interface LoginUseCase {
+  execute(command: LoginCommand): Promise<LoginResult>;
+}
@@ -0,0 +1,7 @@
+/**
+ * Output Port - One-way password hashing
+ */
+export interface PasswordHasher {
+  hash(password: string): Promise<string>;
+  verify(password: string, hash: string): Promise<boolean>;
+}
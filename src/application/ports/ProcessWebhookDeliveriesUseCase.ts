@@ -0,0 +1,7 @@
+/**
+ * Input Port - Use case interface for attempting the deliveries that are due
+ * Returns the number of attempts made
+ */
+export interface ProcessWebhookDeliveriesUseCase {
+  execute(now?: Date): Promise<number>;
+}
@@ -0,0 +1,6 @@
+/**
+ * Input Port - Use case interface for permanently deleting a todo in the trash
+ */
+export interface PurgeTodoUseCase {
+  execute(id: string, ownerId: string): Promise<void>;
+}
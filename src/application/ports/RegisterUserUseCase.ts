@@ -0,0 +1,13 @@
+import { User } from '../../domain/entities/User';
+
+export interface RegisterUserCommand {
+  email: string;
+  password: string;
+}
+
+/**
+ * Input Port - Use case interface for creating a user account
+ */
+export interface RegisterUserUseCase {
+  execute(command: RegisterUserCommand): Promise<User>;
+}
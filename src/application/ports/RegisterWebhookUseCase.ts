@@ -0,0 +1,16 @@
+import { WebhookSubscription } from '../../domain/entities/WebhookSubscription';
+import { TodoEventType } from '../../domain/events/TodoEvent';
+
+export interface RegisterWebhookCommand {
+  ownerId: string;
+  url: string;
+  events: TodoEventType[];
+  secret: string;
+}
+
+/**
+ * Input Port - Use case interface for registering a webhook
+ */
+export interface RegisterWebhookUseCase {
+  execute(command: RegisterWebhookCommand): Promise<WebhookSubscription>;
+}
@@ -0,0 +1,14 @@
+import { Todo } from '../../domain/entities/Todo';
+
+export interface RemoveChecklistItemCommand {
+  todoId: string;
+  ownerId: string;
+  itemId: string;
+}
+
+/**
+ * Input Port - Use case interface for removing an item from a todo's checklist
+ */
+export interface RemoveChecklistItemUseCase {
+  execute(command: RemoveChecklistItemCommand): Promise<Todo>;
+}
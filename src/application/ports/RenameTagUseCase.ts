@@ -0,0 +1,13 @@
+export interface RenameTagCommand {
+  ownerId: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * Input Port - Use case interface for renaming a tag across all of the owner's todos
+ * Resolves to the number of todos that were changed
+ */
+export interface RenameTagUseCase {
+  execute(command: RenameTagCommand): Promise<number>;
+}
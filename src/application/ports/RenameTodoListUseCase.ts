@@ -0,0 +1,14 @@
+import { TodoList } from '../../domain/entities/TodoList';
+
+export interface RenameTodoListCommand {
+  id: string;
+  ownerId: string;
+  name: string;
+}
+
+/**
+ * Input Port - Use case interface for renaming a todo list
+ */
+export interface RenameTodoListUseCase {
+  execute(command: RenameTodoListCommand): Promise<TodoList>;
+}
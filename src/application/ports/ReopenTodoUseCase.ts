@@ -0,0 +1,8 @@
+import { Todo } from '../../domain/entities/Todo';
+
+/**
+ * Input Port - Use case interface for reopening a completed todo
+ */
+export interface ReopenTodoUseCase {
+  execute(id: string, ownerId: string, expectedVersion?: number): Promise<Todo>;
+}
@@ -0,0 +1,14 @@
+import { Todo } from '../../domain/entities/Todo';
+
+export interface ReorderChecklistCommand {
+  todoId: string;
+  ownerId: string;
+  itemIds: string[];
+}
+
+/**
+ * Input Port - Use case interface for reordering a todo's checklist
+ */
+export interface ReorderChecklistUseCase {
+  execute(command: ReorderChecklistCommand): Promise<Todo>;
+}
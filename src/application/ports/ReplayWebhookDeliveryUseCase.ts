@@ -0,0 +1,14 @@
+import { WebhookDelivery } from '../../domain/entities/WebhookDelivery';
+
+export interface ReplayWebhookDeliveryCommand {
+  webhookId: string;
+  ownerId: string;
+  deliveryId: string;
+}
+
+/**
+ * Input Port - Use case interface for sending a failed delivery again
+ */
+export interface ReplayWebhookDeliveryUseCase {
+  execute(command: ReplayWebhookDeliveryCommand): Promise<WebhookDelivery>;
+}
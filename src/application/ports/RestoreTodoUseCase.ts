@@ -0,0 +1,8 @@
+import { Todo } from '../../domain/entities/Todo';
+
+/**
+ * Input Port - Use case interface for taking a todo out of the trash
+ */
+export interface RestoreTodoUseCase {
+  execute(id: string, ownerId: string): Promise<Todo>;
+}
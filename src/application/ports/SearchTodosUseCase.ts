@@ -0,0 +1,14 @@
+import { SearchResult } from './TodoRepository';
+
+export interface SearchTodosQuery {
+  // Words, prefixes ending in * and "quoted phrases"
+  q: string;
+  limit?: number;
+}
+
+/**
+ * Input Port - Use case interface for full-text search over titles and descriptions
+ */
+export interface SearchTodosUseCase {
+  execute(ownerId: string, query: SearchTodosQuery): Promise<SearchResult>;
+}
@@ -0,0 +1,16 @@
+import { TodoList } from '../../domain/entities/TodoList';
+
+/**
+ * Output Port - Storage of todo lists
+ * Reads and writes are limited to the lists of the given owner
+ */
+export interface TodoListRepository {
+  init(): Promise<void>;
+  save(list: TodoList): Promise<TodoList>;
+  // Scoped to list.getOwnerId()
+  update(list: TodoList): Promise<TodoList>;
+  findById(id: string, ownerId: string): Promise<TodoList | null>;
+  // Oldest first
+  findAll(ownerId: string): Promise<TodoList[]>;
+  delete(id: string, ownerId: string): Promise<boolean>;
+}
@@ -1,15 +1,185 @@
-import { Todo } from '../../domain/entities/Todo';
+import { Todo, TodoProps } from '../../domain/entities/Todo';
+import { TodoStatusEnum } from '../../domain/value-objects/TodoStatus';
+import { TodoPriorityEnum } from '../../domain/value-objects/TodoPriority';
+import { SearchQuery } from '../../domain/value-objects/SearchQuery';
+
+export const TODO_SORT_FIELDS = ['id', 'title', 'description', 'status', 'priority', 'createdAt', 'updatedAt'] as const;
+
+export type TodoSortField = typeof TODO_SORT_FIELDS[number];
+
+export type SortDirection = 'asc' | 'desc';
+
+export type TagMatch = 'any' | 'all';
+
+export interface TagFilter {
+  tags: string[];
+  match: TagMatch;
+}
+
+export interface DateRange {
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Filters on todos, combined with AND
+ */
+export interface TodoFilter {
+  ownerId: string;
+  listId?: string;
+  status?: TodoStatusEnum;
+  priorities?: TodoPriorityEnum[];
+  tags?: TagFilter;
+  createdAt?: DateRange;
+  updatedAt?: DateRange;
+  titleContains?: string;
+}
+
+/**
+ * Criteria for querying todos
+ * `cursor` and `offset` are mutually exclusive
+ */
+export interface TodoCriteria extends TodoFilter {
+  sortBy: TodoSortField;
+  sortDirection: SortDirection;
+  limit: number;
+  offset?: number;
+  cursor?: string;
+}
+
+export interface TodoPage {
+  items: Todo[];
+  total: number;
+  nextCursor: string | null;
+}
+
+export interface TagUsage {
+  tag: string;
+  count: number;
+}
+
+export interface ListCounts {
+  listId: string;
+  open: number;
+  completed: number;
+}
+
+export interface TextRange {
+  start: number;
+  // Exclusive
+  end: number;
+}
+
+export interface SearchHighlight {
+  field: 'title' | 'description';
+  // The whole title, or the part of the description around the first match
+  fragment: string;
+  // Matched words within the fragment
+  matches: TextRange[];
+}
+
+export interface SearchHit {
+  todo: Todo;
+  score: number;
+  highlights: SearchHighlight[];
+}
+
+export interface SearchResult {
+  hits: SearchHit[];
+  total: number;
+}
+
+export interface FindOptions {
+  // Todos in the trash are left out unless requested
+  includeTrashed?: boolean;
+}
+
+export interface TrashFilter {
+  // Every owner's trash when omitted
+  ownerId?: string;
+  trashedBefore?: Date;
+}
 
 /**
  * Output Port - Repository interface
  * This defines what the application needs from the persistence layer
+ * Reads and writes are limited to the todos of the given owner; todos of
+ * other owners behave as if they did not exist
  */
 export interface TodoRepository {
   init(): Promise<void>;
+  // Throws when a todo with the same id already exists, whatever its owner
   save(todo: Todo): Promise<Todo>;
-  findById(id: string): Promise<Todo | null>;
-  findAll(): Promise<Todo[]>;
+  findById(id: string, ownerId: string, options?: FindOptions): Promise<Todo | null>;
+  // Whether the id is taken, by a todo of any owner, in the trash or not
+  exists(id: string): Promise<boolean>;
+  findAll(ownerId: string, options?: FindOptions): Promise<Todo[]>;
+  // These queries leave out todos in the trash
+  findByCriteria(criteria: TodoCriteria): Promise<TodoPage>;
+  findPendingWithDueDate(ownerId: string): Promise<Todo[]>;
+  findBySeriesId(seriesId: string, ownerId: string): Promise<Todo[]>;
+  findByListId(listId: string, ownerId: string, options?: FindOptions): Promise<Todo[]>;
+  // Oldest first, one todo at a time, so that large exports need not fit in memory
+  stream(ownerId: string): AsyncIterable<Todo>;
+  // Best matches first, up to limit; total counts every match
+  search(ownerId: string, query: SearchQuery, limit: number): Promise<SearchResult>;
+  // Lists without active todos are left out
+  countByList(ownerId: string): Promise<ListCounts[]>;
+  // Scoped to todo.getOwnerId() and conditional on the stored version matching
+  // todo.getVersion(); throws ConcurrencyConflictException otherwise and bumps the version on success
   update(todo: Todo): Promise<Todo>;
-  delete(id: string): Promise<boolean>;
+  // Most recently trashed first
+  findTrashed(filter: TrashFilter): Promise<Todo[]>;
+  // Removes the todo for good; moving it to the trash is an update. With an
+  // expectedVersion it throws ConcurrencyConflictException unless the stored version matches
+  delete(id: string, ownerId: string, expectedVersion?: number): Promise<boolean>;
+  // Tags are expected to be normalized by the caller; counts leave out the
+  // trash while renames and removals also apply to trashed todos
+  countTags(ownerId: string): Promise<TagUsage[]>;
+  renameTag(from: string, to: string, ownerId: string): Promise<number>;
+  removeTag(tag: string, ownerId: string): Promise<number>;
 }
 
+/**
+ * Whether a todo passes a filter, with the semantics every repository's
+ * findByCriteria implements; for checking todos already at hand
+ */
+export function matchesFilter(todoData: TodoProps, filter: TodoFilter): boolean {
+  if (todoData.ownerId !== filter.ownerId) {
+    return false;
+  }
+  if (filter.listId && todoData.listId !== filter.listId) {
+    return false;
+  }
+  if (filter.status && todoData.status !== filter.status) {
+    return false;
+  }
+  if (filter.priorities && !filter.priorities.includes(todoData.priority!)) {
+    return false;
+  }
+  if (filter.tags) {
+    const tags = todoData.tags || [];
+    const hasTag = (tag: string) => tags.includes(tag);
+    const matchesTags = filter.tags.match === 'all'
+      ? filter.tags.tags.every(hasTag)
+      : filter.tags.tags.some(hasTag);
+    if (!matchesTags) {
+      return false;
+    }
+  }
+  if (!inRange(todoData.createdAt!, filter.createdAt) || !inRange(todoData.updatedAt!, filter.updatedAt)) {
+    return false;
+  }
+  if (filter.titleContains &&
+      !todoData.title.toLowerCase().includes(filter.titleContains.toLowerCase())) {
+    return false;
+  }
+  return true;
+}
+
+function inRange(date: Date, range?: DateRange): boolean {
+  if (!range) {
+    return true;
+  }
+  return (!range.from || date >= range.from) && (!range.to || date <= range.to);
+}
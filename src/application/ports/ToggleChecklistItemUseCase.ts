@@ -0,0 +1,16 @@
+import { Todo } from '../../domain/entities/Todo';
+
+export interface ToggleChecklistItemCommand {
+  todoId: string;
+  ownerId: string;
+  itemId: string;
+  // Flips the item when omitted
+  done?: boolean;
+}
+
+/**
+ * Input Port - Use case interface for marking a checklist item as done or open
+ */
+export interface ToggleChecklistItemUseCase {
+  execute(command: ToggleChecklistItemCommand): Promise<Todo>;
+}
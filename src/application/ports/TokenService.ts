@@ -0,0 +1,13 @@
+export interface IssuedToken {
+  token: string;
+  expiresAt: Date;
+}
+
+/**
+ * Output Port - Signed bearer tokens identifying a user
+ */
+export interface TokenService {
+  issue(userId: string): IssuedToken;
+  // Returns the user id; throws AuthenticationException for invalid or expired tokens
+  verify(token: string): string;
+}
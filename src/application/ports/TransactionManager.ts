@@ -0,0 +1,8 @@
+/**
+ * Output Port - Runs work as one transaction
+ * Repository writes made by the work are either all kept or, when it throws,
+ * all undone; events published by the work are held back until it commits
+ */
+export interface TransactionManager {
+  run<T>(work: () => Promise<T>): Promise<T>;
+}
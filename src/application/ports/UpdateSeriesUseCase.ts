@@ -0,0 +1,19 @@
+import { Todo } from '../../domain/entities/Todo';
+import { TodoPriorityEnum } from '../../domain/value-objects/TodoPriority';
+
+export interface UpdateSeriesCommand {
+  seriesId: string;
+  ownerId: string;
+  title?: string;
+  description?: string;
+  priority?: TodoPriorityEnum;
+  tags?: string[];
+  recurrence?: string;
+}
+
+/**
+ * Input Port - Use case interface for editing the pending occurrences of a series
+ */
+export interface UpdateSeriesUseCase {
+  execute(command: UpdateSeriesCommand): Promise<Todo[]>;
+}
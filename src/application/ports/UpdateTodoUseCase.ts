@@ -1,9 +1,23 @@
 import { Todo } from '../../domain/entities/Todo';
+import { DueDateProps } from '../../domain/value-objects/TodoDueDate';
+import { TodoPriorityEnum } from '../../domain/value-objects/TodoPriority';
 
 export interface UpdateTodoCommand {
   id: string;
+  ownerId: string;
+  // Rejects the update unless the todo is still at this version
+  expectedVersion?: number;
   title?: string;
   description?: string;
+  priority?: TodoPriorityEnum;
+  tags?: string[];
+  requireChecklistCompletion?: boolean;
+  // null clears the due date
+  dueDate?: DueDateProps | null;
+  // null stops the todo from recurring
+  recurrence?: string | null;
+  // Moves the todo to another of the owner's lists; null takes it out of its list
+  listId?: string | null;
 }
 
 /**
@@ -0,0 +1,13 @@
+import { User } from '../../domain/entities/User';
+
+/**
+ * Output Port - Storage of user accounts
+ */
+export interface UserRepository {
+  init(): Promise<void>;
+  // Throws when the email is already registered
+  save(user: User): Promise<User>;
+  findById(id: string): Promise<User | null>;
+  // Expects a normalized email
+  findByEmail(email: string): Promise<User | null>;
+}
@@ -0,0 +1,20 @@
+import { TodoEventHandler } from './EventSubscriber';
+import { TodoFilterQuery } from './ListTodosUseCase';
+
+export interface TodoWatch {
+  // False when the events after lastEventId are no longer known, so some were missed
+  resumed: boolean;
+  stop(): void;
+}
+
+/**
+ * Input Port - Use case interface for following changes to todos as they happen
+ */
+export interface WatchTodosUseCase {
+  /**
+   * Passes every event about a todo matching the filters, before or after the
+   * change, to the handler until the watch is stopped; with lastEventId, the
+   * later events already published come first
+   */
+  execute(ownerId: string, query: TodoFilterQuery, handler: TodoEventHandler, lastEventId?: string): Promise<TodoWatch>;
+}
@@ -0,0 +1,16 @@
+import { WebhookDelivery } from '../../domain/entities/WebhookDelivery';
+
+/**
+ * Output Port - Delivery log of webhooks, also used as the retry queue
+ */
+export interface WebhookDeliveryRepository {
+  init(): Promise<void>;
+  save(delivery: WebhookDelivery): Promise<WebhookDelivery>;
+  update(delivery: WebhookDelivery): Promise<WebhookDelivery>;
+  findById(id: string): Promise<WebhookDelivery | null>;
+  // Most recent first
+  findByWebhookId(webhookId: string, limit: number): Promise<WebhookDelivery[]>;
+  // Pending deliveries whose next attempt is due, oldest first
+  findDue(now: Date, limit: number): Promise<WebhookDelivery[]>;
+  deleteByWebhookId(webhookId: string): Promise<number>;
+}
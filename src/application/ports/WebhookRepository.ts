@@ -0,0 +1,15 @@
+import { WebhookSubscription } from '../../domain/entities/WebhookSubscription';
+import { TodoEventType } from '../../domain/events/TodoEvent';
+
+/**
+ * Output Port - Storage of webhook subscriptions
+ */
+export interface WebhookRepository {
+  init(): Promise<void>;
+  save(webhook: WebhookSubscription): Promise<WebhookSubscription>;
+  findById(id: string): Promise<WebhookSubscription | null>;
+  findAll(ownerId: string): Promise<WebhookSubscription[]>;
+  // Webhooks of the owner of the todo the event is about
+  findByEventType(type: TodoEventType, ownerId: string): Promise<WebhookSubscription[]>;
+  delete(id: string): Promise<boolean>;
+}
@@ -0,0 +1,21 @@
+import { TodoEventType } from '../../domain/events/TodoEvent';
+
+export interface WebhookRequest {
+  url: string;
+  secret: string;
+  deliveryId: string;
+  eventType: TodoEventType;
+  payload: string;
+}
+
+export interface WebhookResponse {
+  status: number;
+}
+
+/**
+ * Output Port - Sends a signed webhook request
+ * Rejects when no response was received (network error, timeout)
+ */
+export interface WebhookSender {
+  send(request: WebhookRequest): Promise<WebhookResponse>;
+}
@@ -0,0 +1,27 @@
+import { Todo } from '../../domain/entities/Todo';
+import { TodoNotFoundException } from '../../domain/exceptions/DomainException';
+import { AddChecklistItemCommand, AddChecklistItemUseCase } from '../ports/AddChecklistItemUseCase';
+import { TodoRepository } from '../ports/TodoRepository';
+import { EventPublisher } from '../ports/EventPublisher';
+
+export class AddChecklistItem implements AddChecklistItemUseCase {
+  constructor(
+    private readonly todoRepository: TodoRepository,
+    private readonly eventPublisher: EventPublisher
+  ) {}
+
+  async execute(command: AddChecklistItemCommand): Promise<Todo> {
+    const todo = await this.todoRepository.findById(command.todoId, command.ownerId);
+    
+    if (!todo) {
+      throw new TodoNotFoundException(command.todoId);
+    }
+
+    todo.addChecklistItem(command.text);
+
+    const saved = await this.todoRepository.update(todo);
+    await this.eventPublisher.publish(todo.pullEvents(saved));
+
+    return saved;
+  }
+}
@@ -0,0 +1,24 @@
+import { User } from '../../domain/entities/User';
+import { AuthenticationException } from '../../domain/exceptions/DomainException';
+import { AuthenticateUseCase } from '../ports/AuthenticateUseCase';
+import { UserRepository } from '../ports/UserRepository';
+import { TokenService } from '../ports/TokenService';
+
+export class Authenticate implements AuthenticateUseCase {
+  constructor(
+    private readonly userRepository: UserRepository,
+    private readonly tokenService: TokenService
+  ) {}
+
+  async execute(token: string): Promise<User> {
+    const userId = this.tokenService.verify(token);
+    const user = await this.userRepository.findById(userId);
+
+    // The account may have been removed since the token was issued
+    if (!user) {
+      throw new AuthenticationException('Invalid token');
+    }
+
+    return user;
+  }
+}
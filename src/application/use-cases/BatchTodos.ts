@@ -0,0 +1,147 @@
+import { Todo } from '../../domain/entities/Todo';
+import {
+  BatchItemResult,
+  BatchOperation,
+  BatchTodosCommand,
+  BatchTodosResult,
+  BatchTodosUseCase
+} from '../ports/BatchTodosUseCase';
+import { CreateTodoUseCase } from '../ports/CreateTodoUseCase';
+import { UpdateTodoUseCase } from '../ports/UpdateTodoUseCase';
+import { CompleteTodoUseCase } from '../ports/CompleteTodoUseCase';
+import { ReopenTodoUseCase } from '../ports/ReopenTodoUseCase';
+import { DeleteTodoUseCase } from '../ports/DeleteTodoUseCase';
+import { TransactionManager } from '../ports/TransactionManager';
+import { ValidationException } from '../../domain/exceptions/DomainException';
+
+const MAX_OPERATIONS = 100;
+
+/**
+ * Runs each operation through its own use case, in order
+ * A failed operation does not stop the others, unless the batch is atomic:
+ * then the operations run in one transaction that the first failure rolls back
+ */
+export class BatchTodos implements BatchTodosUseCase {
+  constructor(
+    private readonly createTodoUseCase: CreateTodoUseCase,
+    private readonly updateTodoUseCase: UpdateTodoUseCase,
+    private readonly completeTodoUseCase: CompleteTodoUseCase,
+    private readonly reopenTodoUseCase: ReopenTodoUseCase,
+    private readonly deleteTodoUseCase: DeleteTodoUseCase,
+    private readonly transactionManager: TransactionManager
+  ) {}
+
+  async execute(command: BatchTodosCommand): Promise<BatchTodosResult> {
+    if (!Array.isArray(command.operations) || command.operations.length === 0) {
+      throw new ValidationException('Batch must contain at least one operation');
+    }
+    if (command.operations.length > MAX_OPERATIONS) {
+      throw new ValidationException(`Batch cannot contain more than ${MAX_OPERATIONS} operations`);
+    }
+
+    if (!command.atomic) {
+      const results: BatchItemResult[] = [];
+      for (const [index, operation] of command.operations.entries()) {
+        results.push(await this.run(index, operation, command.ownerId));
+      }
+      return { atomic: false, rolledBack: false, results };
+    }
+
+    let results: BatchItemResult[] = [];
+    try {
+      await this.transactionManager.run(async () => {
+        results = [];
+        for (const [index, operation] of command.operations.entries()) {
+          const result = await this.run(index, operation, command.ownerId);
+          results.push(result);
+          if (result.outcome === 'failed') {
+            throw result.error;
+          }
+        }
+      });
+    } catch (error) {
+      const failed = results.find(result => result.outcome === 'failed');
+      // Not caused by an operation, e.g. the commit itself failed
+      if (!failed) {
+        throw error;
+      }
+      return { atomic: true, rolledBack: true, results: this.abandon(command.operations, failed) };
+    }
+
+    return { atomic: true, rolledBack: false, results };
+  }
+
+  private async run(index: number, operation: BatchOperation, ownerId: string): Promise<BatchItemResult> {
+    const op = opName(operation);
+    try {
+      const todo = await this.apply(operation, ownerId);
+      return { index, op, outcome: 'succeeded', todo };
+    } catch (error) {
+      return { index, op, outcome: 'failed', error };
+    }
+  }
+
+  private async apply(operation: BatchOperation, ownerId: string): Promise<Todo | undefined> {
+    if (typeof operation !== 'object' || operation === null) {
+      throw new ValidationException('Batch operation must be an object');
+    }
+
+    switch (operation.op) {
+      case 'create':
+        return await this.createTodoUseCase.execute({
+          ownerId,
+          title: operation.title,
+          description: operation.description,
+          priority: operation.priority,
+          tags: operation.tags,
+          requireChecklistCompletion: operation.requireChecklistCompletion,
+          dueDate: operation.dueDate,
+          recurrence: operation.recurrence,
+          listId: operation.listId
+        });
+      case 'update':
+        return await this.updateTodoUseCase.execute({
+          id: operation.id,
+          ownerId,
+          expectedVersion: operation.expectedVersion,
+          title: operation.title,
+          description: operation.description,
+          priority: operation.priority,
+          tags: operation.tags,
+          requireChecklistCompletion: operation.requireChecklistCompletion,
+          dueDate: operation.dueDate,
+          recurrence: operation.recurrence,
+          listId: operation.listId
+        });
+      case 'complete':
+        return await this.completeTodoUseCase.execute(operation.id, ownerId, operation.expectedVersion);
+      case 'reopen':
+        return await this.reopenTodoUseCase.execute(operation.id, ownerId, operation.expectedVersion);
+      case 'delete':
+        await this.deleteTodoUseCase.execute(operation.id, ownerId, operation.expectedVersion);
+        return undefined;
+      default:
+        throw new ValidationException(`Unknown batch operation: ${String((operation as { op?: unknown }).op)}`);
+    }
+  }
+
+  /**
+   * Results of an atomic batch that was rolled back by the given failure
+   */
+  private abandon(operations: BatchOperation[], failed: BatchItemResult): BatchItemResult[] {
+    return operations.map((operation, index): BatchItemResult => {
+      const op = opName(operation);
+      if (index < failed.index) {
+        return { index, op, outcome: 'rolledBack', error: new Error(`Rolled back because operation ${failed.index} failed`) };
+      }
+      if (index > failed.index) {
+        return { index, op, outcome: 'skipped', error: new Error(`Not run because operation ${failed.index} failed`) };
+      }
+      return failed;
+    });
+  }
+}
+
+function opName(operation: BatchOperation): string | null {
+  return typeof operation?.op === 'string' ? operation.op : null;
+}
@@ -2,20 +2,54 @@ import { Todo } from '../../domain/entities/Todo';
 import { TodoNotFoundException } from '../../domain/exceptions/DomainException';
 import { CompleteTodoUseCase } from '../ports/CompleteTodoUseCase';
 import { TodoRepository } from '../ports/TodoRepository';
+import { EventPublisher } from '../ports/EventPublisher';
+import { AuditRepository } from '../ports/AuditRepository';
+import { TransactionManager } from '../ports/TransactionManager';
+import { AuditEntry } from '../../domain/entities/AuditEntry';
 
+/**
+ * Completing a recurring todo saves its next occurrence in the same
+ * transaction, so that the series never ends because the save failed
+ */
 export class CompleteTodo implements CompleteTodoUseCase {
-  constructor(private readonly todoRepository: TodoRepository) {}
+  constructor(
+    private readonly todoRepository: TodoRepository,
+    private readonly eventPublisher: EventPublisher,
+    private readonly auditRepository: AuditRepository,
+    private readonly transactionManager: TransactionManager
+  ) {}
 
-  async execute(id: string): Promise<Todo> {
-    const todo = await this.todoRepository.findById(id);
+  async execute(id: string, ownerId: string, expectedVersion?: number): Promise<Todo> {
+    const todo = await this.todoRepository.findById(id, ownerId);
     
     if (!todo) {
       throw new TodoNotFoundException(id);
     }
 
+    todo.ensureVersion(expectedVersion);
+
     todo.complete();
+    const nextOccurrence = todo.spawnNextOccurrence();
+
+    if (!nextOccurrence) {
+      return this.save(todo, ownerId);
+    }
+
+    return this.transactionManager.run(() => this.save(todo, ownerId, nextOccurrence));
+  }
+
+  private async save(todo: Todo, ownerId: string, nextOccurrence?: Todo): Promise<Todo> {
+    const completed = await this.todoRepository.update(todo);
+    const events = todo.pullEvents(completed);
+
+    if (nextOccurrence) {
+      const saved = await this.todoRepository.save(nextOccurrence);
+      events.push(...nextOccurrence.pullEvents(saved));
+    }
 
-    return await this.todoRepository.update(todo);
+    await this.auditRepository.append(events.map(event => AuditEntry.fromEvent(event, ownerId)));
+    await this.eventPublisher.publish(events);
+    return completed;
   }
 }
 
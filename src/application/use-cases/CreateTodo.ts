@@ -1,17 +1,38 @@
 import { Todo } from '../../domain/entities/Todo';
+import { TodoListNotFoundException } from '../../domain/exceptions/DomainException';
 import { CreateTodoCommand, CreateTodoUseCase } from '../ports/CreateTodoUseCase';
 import { TodoRepository } from '../ports/TodoRepository';
+import { EventPublisher } from '../ports/EventPublisher';
+import { TodoListRepository } from '../ports/TodoListRepository';
 
 export class CreateTodo implements CreateTodoUseCase {
-  constructor(private readonly todoRepository: TodoRepository) {}
+  constructor(
+    private readonly todoRepository: TodoRepository,
+    private readonly eventPublisher: EventPublisher,
+    private readonly todoListRepository: TodoListRepository
+  ) {}
 
   async execute(command: CreateTodoCommand): Promise<Todo> {
-    const todo = new Todo({
+    if (command.listId && !(await this.todoListRepository.findById(command.listId, command.ownerId))) {
+      throw new TodoListNotFoundException(command.listId);
+    }
+
+    const todo = Todo.create({
+      ownerId: command.ownerId,
       title: command.title,
-      description: command.description
+      description: command.description,
+      priority: command.priority,
+      tags: command.tags,
+      requireChecklistCompletion: command.requireChecklistCompletion,
+      dueDate: command.dueDate,
+      recurrence: command.recurrence,
+      listId: command.listId
     });
 
-    return await this.todoRepository.save(todo);
+    const saved = await this.todoRepository.save(todo);
+    await this.eventPublisher.publish(todo.pullEvents(saved));
+
+    return saved;
   }
 }
 
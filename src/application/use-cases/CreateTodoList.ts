@@ -0,0 +1,16 @@
+import { TodoList } from '../../domain/entities/TodoList';
+import { CreateTodoListCommand, CreateTodoListUseCase } from '../ports/CreateTodoListUseCase';
+import { TodoListRepository } from '../ports/TodoListRepository';
+
+export class CreateTodoList implements CreateTodoListUseCase {
+  constructor(private readonly todoListRepository: TodoListRepository) {}
+
+  async execute(command: CreateTodoListCommand): Promise<TodoList> {
+    const list = new TodoList({
+      ownerId: command.ownerId,
+      name: command.name
+    });
+
+    return await this.todoListRepository.save(list);
+  }
+}
@@ -0,0 +1,19 @@
+import { TagNotFoundException } from '../../domain/exceptions/DomainException';
+import { TodoTag } from '../../domain/value-objects/TodoTag';
+import { DeleteTagUseCase } from '../ports/DeleteTagUseCase';
+import { TodoRepository } from '../ports/TodoRepository';
+
+export class DeleteTag implements DeleteTagUseCase {
+  constructor(private readonly todoRepository: TodoRepository) {}
+
+  async execute(tag: string, ownerId: string): Promise<number> {
+    const normalized = new TodoTag(tag).getValue();
+    const removed = await this.todoRepository.removeTag(normalized, ownerId);
+
+    if (removed === 0) {
+      throw new TagNotFoundException(normalized);
+    }
+
+    return removed;
+  }
+}
@@ -1,18 +1,31 @@
 import { TodoNotFoundException } from '../../domain/exceptions/DomainException';
 import { DeleteTodoUseCase } from '../ports/DeleteTodoUseCase';
 import { TodoRepository } from '../ports/TodoRepository';
+import { EventPublisher } from '../ports/EventPublisher';
+import { AuditRepository } from '../ports/AuditRepository';
+import { AuditEntry } from '../../domain/entities/AuditEntry';
 
 export class DeleteTodo implements DeleteTodoUseCase {
-  constructor(private readonly todoRepository: TodoRepository) {}
+  constructor(
+    private readonly todoRepository: TodoRepository,
+    private readonly eventPublisher: EventPublisher,
+    private readonly auditRepository: AuditRepository
+  ) {}
 
-  async execute(id: string): Promise<void> {
-    const todo = await this.todoRepository.findById(id);
+  async execute(id: string, ownerId: string, expectedVersion?: number): Promise<void> {
+    const todo = await this.todoRepository.findById(id, ownerId);
     
     if (!todo) {
       throw new TodoNotFoundException(id);
     }
 
-    await this.todoRepository.delete(id);
+    todo.ensureVersion(expectedVersion);
+
+    todo.moveToTrash();
+    const saved = await this.todoRepository.update(todo);
+    const events = todo.pullEvents(saved);
+    await this.auditRepository.append(events.map(event => AuditEntry.fromEvent(event, ownerId)));
+    await this.eventPublisher.publish(events);
   }
 }
 
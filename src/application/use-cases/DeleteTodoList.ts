@@ -0,0 +1,55 @@
+import { AuditEntry } from '../../domain/entities/AuditEntry';
+import { TodoListNotEmptyException, TodoListNotFoundException } from '../../domain/exceptions/DomainException';
+import { DeleteTodoListCommand, DeleteTodoListUseCase } from '../ports/DeleteTodoListUseCase';
+import { TodoListRepository } from '../ports/TodoListRepository';
+import { TodoRepository } from '../ports/TodoRepository';
+import { EventPublisher } from '../ports/EventPublisher';
+import { AuditRepository } from '../ports/AuditRepository';
+import { TransactionManager } from '../ports/TransactionManager';
+
+/**
+ * Todos already in the trash are taken out of the list, so that restoring
+ * them does not point at a list that no longer exists. The todos and the
+ * list are changed in one transaction.
+ */
+export class DeleteTodoList implements DeleteTodoListUseCase {
+  constructor(
+    private readonly todoListRepository: TodoListRepository,
+    private readonly todoRepository: TodoRepository,
+    private readonly eventPublisher: EventPublisher,
+    private readonly auditRepository: AuditRepository,
+    private readonly transactionManager: TransactionManager
+  ) {}
+
+  async execute(command: DeleteTodoListCommand): Promise<number> {
+    const list = await this.todoListRepository.findById(command.id, command.ownerId);
+
+    if (!list) {
+      throw new TodoListNotFoundException(command.id);
+    }
+
+    const todos = await this.todoRepository.findByListId(command.id, command.ownerId, { includeTrashed: true });
+    const active = todos.filter(todo => !todo.isTrashed());
+
+    if (active.length > 0 && !command.cascade) {
+      throw new TodoListNotEmptyException(command.id, active.length);
+    }
+
+    await this.transactionManager.run(async () => {
+      for (const todo of todos) {
+        todo.moveToList(null);
+        if (!todo.isTrashed()) {
+          todo.moveToTrash();
+        }
+        const saved = await this.todoRepository.update(todo);
+        const events = todo.pullEvents(saved);
+        await this.auditRepository.append(events.map(event => AuditEntry.fromEvent(event, command.ownerId)));
+        await this.eventPublisher.publish(events);
+      }
+
+      await this.todoListRepository.delete(command.id, command.ownerId);
+    });
+
+    return active.length;
+  }
+}
@@ -0,0 +1,23 @@
+import { WebhookNotFoundException } from '../../domain/exceptions/DomainException';
+import { DeleteWebhookUseCase } from '../ports/DeleteWebhookUseCase';
+import { WebhookRepository } from '../ports/WebhookRepository';
+import { WebhookDeliveryRepository } from '../ports/WebhookDeliveryRepository';
+
+export class DeleteWebhook implements DeleteWebhookUseCase {
+  constructor(
+    private readonly webhookRepository: WebhookRepository,
+    private readonly deliveryRepository: WebhookDeliveryRepository
+  ) {}
+
+  async execute(id: string, ownerId: string): Promise<void> {
+    const webhook = await this.webhookRepository.findById(id);
+
+    if (!webhook || webhook.getOwnerId() !== ownerId) {
+      throw new WebhookNotFoundException(id);
+    }
+
+    await this.webhookRepository.delete(id);
+
+    await this.deliveryRepository.deleteByWebhookId(id);
+  }
+}
@@ -0,0 +1,40 @@
+import { AuditEntry } from '../../domain/entities/AuditEntry';
+import { ConcurrencyConflictException } from '../../domain/exceptions/DomainException';
+import { EmptyTrashCommand, EmptyTrashUseCase } from '../ports/EmptyTrashUseCase';
+import { TodoRepository } from '../ports/TodoRepository';
+import { EventPublisher } from '../ports/EventPublisher';
+import { AuditRepository } from '../ports/AuditRepository';
+
+export class EmptyTrash implements EmptyTrashUseCase {
+  constructor(
+    private readonly todoRepository: TodoRepository,
+    private readonly eventPublisher: EventPublisher,
+    private readonly auditRepository: AuditRepository
+  ) {}
+
+  async execute(command: EmptyTrashCommand = {}): Promise<number> {
+    const trashed = await this.todoRepository.findTrashed(command);
+
+    let purged = 0;
+    for (const todo of trashed) {
+      todo.markPurged();
+      try {
+        if (!(await this.todoRepository.delete(todo.getId().getValue(), todo.getOwnerId(), todo.getVersion()))) {
+          continue;
+        }
+      } catch (error) {
+        // Restored or edited since it was listed; it is no longer the trash we read
+        if (error instanceof ConcurrencyConflictException) {
+          continue;
+        }
+        throw error;
+      }
+      const events = todo.pullEvents();
+      await this.auditRepository.append(events.map(event => AuditEntry.fromEvent(event, command.ownerId)));
+      await this.eventPublisher.publish(events);
+      purged++;
+    }
+
+    return purged;
+  }
+}
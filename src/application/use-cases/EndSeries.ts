@@ -0,0 +1,47 @@
+import { Todo } from '../../domain/entities/Todo';
+import { SeriesNotFoundException } from '../../domain/exceptions/DomainException';
+import { EndSeriesUseCase } from '../ports/EndSeriesUseCase';
+import { TodoRepository } from '../ports/TodoRepository';
+import { EventPublisher } from '../ports/EventPublisher';
+import { AuditRepository } from '../ports/AuditRepository';
+import { TransactionManager } from '../ports/TransactionManager';
+import { AuditEntry } from '../../domain/entities/AuditEntry';
+
+/**
+ * Existing occurrences are kept; completing them no longer spawns a new one.
+ * The recurring occurrences are updated in one transaction
+ */
+export class EndSeries implements EndSeriesUseCase {
+  constructor(
+    private readonly todoRepository: TodoRepository,
+    private readonly eventPublisher: EventPublisher,
+    private readonly auditRepository: AuditRepository,
+    private readonly transactionManager: TransactionManager
+  ) {}
+
+  async execute(seriesId: string, ownerId: string): Promise<Todo[]> {
+    const todos = await this.todoRepository.findBySeriesId(seriesId, ownerId);
+
+    if (todos.length === 0) {
+      throw new SeriesNotFoundException(seriesId);
+    }
+
+    return this.transactionManager.run(async () => {
+      const ended: Todo[] = [];
+      for (const todo of todos) {
+        if (!todo.isRecurring()) {
+          ended.push(todo);
+          continue;
+        }
+        todo.updateRecurrence(null);
+        const saved = await this.todoRepository.update(todo);
+        const events = todo.pullEvents(saved);
+        await this.auditRepository.append(events.map(event => AuditEntry.fromEvent(event, ownerId)));
+        await this.eventPublisher.publish(events);
+        ended.push(saved);
+      }
+
+      return ended;
+    });
+  }
+}
@@ -0,0 +1,33 @@
+import { WebhookDelivery } from '../../domain/entities/WebhookDelivery';
+import { TodoEvent } from '../../domain/events/TodoEvent';
+import { EnqueueWebhookDeliveriesUseCase } from '../ports/EnqueueWebhookDeliveriesUseCase';
+import { WebhookRepository } from '../ports/WebhookRepository';
+import { WebhookDeliveryRepository } from '../ports/WebhookDeliveryRepository';
+
+/**
+ * Deliveries are due immediately; ProcessWebhookDeliveries sends them
+ */
+export class EnqueueWebhookDeliveries implements EnqueueWebhookDeliveriesUseCase {
+  constructor(
+    private readonly webhookRepository: WebhookRepository,
+    private readonly deliveryRepository: WebhookDeliveryRepository
+  ) {}
+
+  async execute(event: TodoEvent): Promise<WebhookDelivery[]> {
+    const webhooks = await this.webhookRepository.findByEventType(event.type, event.todo.ownerId);
+    const payload = JSON.stringify(event);
+
+    const deliveries: WebhookDelivery[] = [];
+    for (const webhook of webhooks) {
+      const delivery = new WebhookDelivery({
+        webhookId: webhook.getId(),
+        eventId: event.id,
+        eventType: event.type,
+        payload
+      });
+      deliveries.push(await this.deliveryRepository.save(delivery));
+    }
+
+    return deliveries;
+  }
+}
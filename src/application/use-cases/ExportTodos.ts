@@ -0,0 +1,11 @@
+import { Todo } from '../../domain/entities/Todo';
+import { ExportTodosUseCase } from '../ports/ExportTodosUseCase';
+import { TodoRepository } from '../ports/TodoRepository';
+
+export class ExportTodos implements ExportTodosUseCase {
+  constructor(private readonly todoRepository: TodoRepository) {}
+
+  execute(ownerId: string): AsyncIterable<Todo> {
+    return this.todoRepository.stream(ownerId);
+  }
+}
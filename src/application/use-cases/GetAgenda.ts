@@ -0,0 +1,44 @@
+import { Todo } from '../../domain/entities/Todo';
+import { addDays, calendarDate, isoWeekday, isValidTimeZone } from '../../domain/value-objects/TodoDueDate';
+import { Agenda, AgendaQuery, GetAgendaUseCase } from '../ports/GetAgendaUseCase';
+import { TodoRepository } from '../ports/TodoRepository';
+import { ValidationException } from '../../domain/exceptions/DomainException';
+
+/**
+ * Groups pending todos by due date as seen from a timezone
+ * Weeks run from Monday to Sunday
+ */
+export class GetAgenda implements GetAgendaUseCase {
+  constructor(private readonly todoRepository: TodoRepository) {}
+
+  async execute(ownerId: string, query: AgendaQuery = {}): Promise<Agenda> {
+    const timeZone = query.timeZone ?? 'UTC';
+    if (!isValidTimeZone(timeZone)) {
+      throw new ValidationException(`Invalid timezone: ${timeZone}`);
+    }
+
+    const now = query.now ?? new Date();
+    const today = calendarDate(now, timeZone);
+    const endOfWeek = addDays(today, 7 - isoWeekday(today));
+
+    const todos = await this.todoRepository.findPendingWithDueDate(ownerId);
+    const deadline = (todo: Todo) => todo.getDueDate()!.deadline(timeZone).getTime();
+    todos.sort((a, b) => deadline(a) - deadline(b));
+
+    const agenda: Agenda = { timeZone, date: today, overdue: [], today: [], thisWeek: [], later: [] };
+    for (const todo of todos) {
+      const dueOn = todo.getDueDate()!.localDate(timeZone);
+      if (todo.isOverdue(now, timeZone)) {
+        agenda.overdue.push(todo);
+      } else if (dueOn <= today) {
+        agenda.today.push(todo);
+      } else if (dueOn <= endOfWeek) {
+        agenda.thisWeek.push(todo);
+      } else {
+        agenda.later.push(todo);
+      }
+    }
+
+    return agenda;
+  }
+}
@@ -0,0 +1,18 @@
+import { Todo } from '../../domain/entities/Todo';
+import { SeriesNotFoundException } from '../../domain/exceptions/DomainException';
+import { GetSeriesUseCase } from '../ports/GetSeriesUseCase';
+import { TodoRepository } from '../ports/TodoRepository';
+
+export class GetSeries implements GetSeriesUseCase {
+  constructor(private readonly todoRepository: TodoRepository) {}
+
+  async execute(seriesId: string, ownerId: string): Promise<Todo[]> {
+    const todos = await this.todoRepository.findBySeriesId(seriesId, ownerId);
+
+    if (todos.length === 0) {
+      throw new SeriesNotFoundException(seriesId);
+    }
+
+    return todos;
+  }
+}
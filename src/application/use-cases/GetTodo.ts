@@ -6,8 +6,8 @@ import { TodoRepository } from '../ports/TodoRepository';
 export class GetTodo implements GetTodoUseCase {
   constructor(private readonly todoRepository: TodoRepository) {}
 
-  async execute(id: string): Promise<Todo> {
-    const todo = await this.todoRepository.findById(id);
+  async execute(id: string, ownerId: string): Promise<Todo> {
+    const todo = await this.todoRepository.findById(id, ownerId);
     
     if (!todo) {
       throw new TodoNotFoundException(id);
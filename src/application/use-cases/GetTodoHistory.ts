@@ -0,0 +1,25 @@
+import { AuditEntry } from '../../domain/entities/AuditEntry';
+import { TodoNotFoundException } from '../../domain/exceptions/DomainException';
+import { GetTodoHistoryUseCase } from '../ports/GetTodoHistoryUseCase';
+import { AuditRepository } from '../ports/AuditRepository';
+import { TodoRepository } from '../ports/TodoRepository';
+
+/**
+ * The history of a deleted todo remains available
+ */
+export class GetTodoHistory implements GetTodoHistoryUseCase {
+  constructor(
+    private readonly todoRepository: TodoRepository,
+    private readonly auditRepository: AuditRepository
+  ) {}
+
+  async execute(todoId: string, ownerId: string): Promise<AuditEntry[]> {
+    const entries = await this.auditRepository.findByTodoId(todoId, ownerId);
+
+    if (entries.length === 0 && !(await this.todoRepository.findById(todoId, ownerId))) {
+      throw new TodoNotFoundException(todoId);
+    }
+
+    return entries;
+  }
+}
@@ -0,0 +1,25 @@
+import { TodoListNotFoundException } from '../../domain/exceptions/DomainException';
+import { GetTodoListUseCase } from '../ports/GetTodoListUseCase';
+import { TodoListSummary } from '../ports/ListTodoListsUseCase';
+import { TodoListRepository } from '../ports/TodoListRepository';
+import { TodoRepository } from '../ports/TodoRepository';
+
+export class GetTodoList implements GetTodoListUseCase {
+  constructor(
+    private readonly todoListRepository: TodoListRepository,
+    private readonly todoRepository: TodoRepository
+  ) {}
+
+  async execute(id: string, ownerId: string): Promise<TodoListSummary> {
+    const list = await this.todoListRepository.findById(id, ownerId);
+
+    if (!list) {
+      throw new TodoListNotFoundException(id);
+    }
+
+    const counts = await this.todoRepository.countByList(ownerId);
+    const count = counts.find(entry => entry.listId === id);
+
+    return { list, open: count?.open ?? 0, completed: count?.completed ?? 0 };
+  }
+}
@@ -0,0 +1,18 @@
+import { WebhookSubscription } from '../../domain/entities/WebhookSubscription';
+import { WebhookNotFoundException } from '../../domain/exceptions/DomainException';
+import { GetWebhookUseCase } from '../ports/GetWebhookUseCase';
+import { WebhookRepository } from '../ports/WebhookRepository';
+
+export class GetWebhook implements GetWebhookUseCase {
+  constructor(private readonly webhookRepository: WebhookRepository) {}
+
+  async execute(id: string, ownerId: string): Promise<WebhookSubscription> {
+    const webhook = await this.webhookRepository.findById(id);
+
+    if (!webhook || webhook.getOwnerId() !== ownerId) {
+      throw new WebhookNotFoundException(id);
+    }
+
+    return webhook;
+  }
+}
@@ -0,0 +1,37 @@
+import { IdempotencyKeyInUseException, IdempotencyKeyReusedException } from '../../domain/exceptions/DomainException';
+import { IdempotencyStore, StoredResponse } from '../ports/IdempotencyStore';
+import { IdempotentRequestsUseCase } from '../ports/IdempotentRequestsUseCase';
+
+export class IdempotentRequests implements IdempotentRequestsUseCase {
+  constructor(
+    private readonly idempotencyStore: IdempotencyStore,
+    private readonly ttlSeconds: number
+  ) {}
+
+  async start(ownerId: string, key: string, fingerprint: string): Promise<StoredResponse | null> {
+    const existing = await this.idempotencyStore.reserve({
+      ownerId,
+      key,
+      fingerprint,
+      expiresAt: new Date(Date.now() + this.ttlSeconds * 1000)
+    });
+    if (!existing) {
+      return null;
+    }
+    if (existing.fingerprint !== fingerprint) {
+      throw new IdempotencyKeyReusedException(key);
+    }
+    if (!existing.response) {
+      throw new IdempotencyKeyInUseException(key);
+    }
+    return existing.response;
+  }
+
+  async finish(ownerId: string, key: string, response: StoredResponse): Promise<void> {
+    await this.idempotencyStore.complete(ownerId, key, response);
+  }
+
+  async abandon(ownerId: string, key: string): Promise<void> {
+    await this.idempotencyStore.release(ownerId, key);
+  }
+}
@@ -0,0 +1,197 @@
+import { Todo, TodoProps } from '../../domain/entities/Todo';
+import { ChecklistItemProps } from '../../domain/entities/ChecklistItem';
+import { TodoStatusEnum } from '../../domain/value-objects/TodoStatus';
+import { TodoPriorityEnum } from '../../domain/value-objects/TodoPriority';
+import { DueDateProps } from '../../domain/value-objects/TodoDueDate';
+import { TodoAlreadyExistsException, TodoListNotFoundException, ValidationException } from '../../domain/exceptions/DomainException';
+import {
+  DuplicateStrategy,
+  ImportTodosCommand,
+  ImportTodosResult,
+  ImportTodosUseCase,
+  TodoRecord
+} from '../ports/ImportTodosUseCase';
+import { TodoRepository } from '../ports/TodoRepository';
+import { TodoListRepository } from '../ports/TodoListRepository';
+
+const MAX_RECORDS = 10000;
+const MAX_ID_LENGTH = 255;
+const DUPLICATE_STRATEGIES: DuplicateStrategy[] = ['fail', 'skip', 'overwrite'];
+
+type Outcome = 'created' | 'updated' | 'skipped';
+
+/**
+ * Every record is validated through the Todo entity and imported on its own,
+ * so that a bad record only fails its row. Like tag renames, imports are bulk
+ * operations: they raise no events and leave no history.
+ */
+export class ImportTodos implements ImportTodosUseCase {
+  constructor(
+    private readonly todoRepository: TodoRepository,
+    private readonly todoListRepository: TodoListRepository
+  ) {}
+
+  async execute(command: ImportTodosCommand): Promise<ImportTodosResult> {
+    const onDuplicate = command.onDuplicate ?? 'fail';
+    if (!DUPLICATE_STRATEGIES.includes(onDuplicate)) {
+      throw new ValidationException(`onDuplicate must be one of ${DUPLICATE_STRATEGIES.join(', ')}`);
+    }
+    if (!Array.isArray(command.records)) {
+      throw new ValidationException('Records must be an array');
+    }
+    if (command.records.length > MAX_RECORDS) {
+      throw new ValidationException(`Cannot import more than ${MAX_RECORDS} todos at once`);
+    }
+
+    const dryRun = command.dryRun === true;
+    const result: ImportTodosResult = { dryRun, created: 0, updated: 0, skipped: 0, failed: [] };
+    const rowsById = new Map<string, number>();
+    const knownLists = new Map<string, boolean>();
+
+    for (const [index, record] of command.records.entries()) {
+      const row = index + 1;
+      const id = typeof record?.id === 'string' ? record.id : undefined;
+      try {
+        if (id !== undefined && rowsById.has(id)) {
+          throw new ValidationException(`Duplicate of row ${rowsById.get(id)}`);
+        }
+        if (id !== undefined) {
+          rowsById.set(id, row);
+        }
+        const outcome = await this.importRecord(record, command.ownerId, onDuplicate, dryRun, knownLists);
+        result[outcome]++;
+      } catch (error) {
+        result.failed.push({ row, id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return result;
+  }
+
+  private async importRecord(
+    record: TodoRecord,
+    ownerId: string,
+    onDuplicate: DuplicateStrategy,
+    dryRun: boolean,
+    knownLists: Map<string, boolean>
+  ): Promise<Outcome> {
+    const todo = new Todo(this.toProps(record, ownerId));
+    const id = todo.getId().getValue();
+
+    const listId = todo.getListId();
+    if (listId) {
+      if (!knownLists.has(listId)) {
+        knownLists.set(listId, (await this.todoListRepository.findById(listId, ownerId)) !== null);
+      }
+      if (!knownLists.get(listId)) {
+        throw new TodoListNotFoundException(listId);
+      }
+    }
+
+    const existing = record.id === undefined
+      ? null
+      : await this.todoRepository.findById(id, ownerId, { includeTrashed: true });
+
+    if (!existing) {
+      if (!dryRun) {
+        await this.todoRepository.save(todo);
+      } else if (record.id !== undefined && await this.todoRepository.exists(id)) {
+        // Taken by another owner: saving would fail
+        throw new TodoAlreadyExistsException(id);
+      }
+      return 'created';
+    }
+
+    if (onDuplicate === 'skip') {
+      return 'skipped';
+    }
+    if (onDuplicate === 'fail') {
+      throw new TodoAlreadyExistsException(id);
+    }
+
+    // The record replaces every field; a todo in the trash is restored
+    const replacement = new Todo({ ...todo.toObject(), version: existing.getVersion() });
+    if (!dryRun) {
+      await this.todoRepository.update(replacement);
+    }
+    return 'updated';
+  }
+
+  private toProps(record: TodoRecord, ownerId: string): TodoProps {
+    if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+      throw new ValidationException('Record must be an object');
+    }
+
+    const id = field<string>(record, 'id', 'string');
+    if (id !== undefined && (id.trim().length === 0 || id.length > MAX_ID_LENGTH)) {
+      throw new ValidationException(`id must be between 1 and ${MAX_ID_LENGTH} characters`);
+    }
+
+    const status = field<string>(record, 'status', 'string');
+    if (status !== undefined && !Object.values(TodoStatusEnum).includes(status as TodoStatusEnum)) {
+      throw new ValidationException(`Invalid status: ${status}`);
+    }
+
+    const checklist = listField(record, 'checklist')?.map(item => {
+      if (typeof item !== 'object' || item === null) {
+        throw new ValidationException('Checklist items must be objects');
+      }
+      return item as ChecklistItemProps;
+    });
+
+    return {
+      id,
+      ownerId,
+      title: field<string>(record, 'title', 'string') ?? '',
+      description: field<string>(record, 'description', 'string'),
+      status: status as TodoStatusEnum | undefined,
+      priority: field<TodoPriorityEnum>(record, 'priority', 'string'),
+      tags: listField(record, 'tags') as string[] | undefined,
+      checklist,
+      requireChecklistCompletion: field<boolean>(record, 'requireChecklistCompletion', 'boolean'),
+      dueDate: field<DueDateProps>(record, 'dueDate', 'object'),
+      recurrence: field<string>(record, 'recurrence', 'string'),
+      seriesId: field<string>(record, 'seriesId', 'string'),
+      listId: field<string>(record, 'listId', 'string'),
+      createdAt: dateField(record, 'createdAt'),
+      updatedAt: dateField(record, 'updatedAt')
+    };
+  }
+}
+
+/**
+ * Value of an optional field of the given type; null counts as absent
+ */
+function field<T>(record: TodoRecord, name: string, type: 'string' | 'boolean' | 'object'): T | undefined {
+  const value = record[name];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== type || Array.isArray(value)) {
+    throw new ValidationException(`${name} must be ${type === 'object' ? 'an object' : `a ${type}`}`);
+  }
+  return value as T;
+}
+
+function listField(record: TodoRecord, name: string): unknown[] | undefined {
+  const value = record[name];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!Array.isArray(value)) {
+    throw new ValidationException(`${name} must be an array`);
+  }
+  return value;
+}
+
+function dateField(record: TodoRecord, name: string): Date | undefined {
+  const value = field<string>(record, name, 'string');
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ValidationException(`${name} must be an ISO 8601 date`);
+  }
+  return date;
+}
@@ -0,0 +1,10 @@
+import { ListTagsUseCase } from '../ports/ListTagsUseCase';
+import { TagUsage, TodoRepository } from '../ports/TodoRepository';
+
+export class ListTags implements ListTagsUseCase {
+  constructor(private readonly todoRepository: TodoRepository) {}
+
+  async execute(ownerId: string): Promise<TagUsage[]> {
+    return await this.todoRepository.countTags(ownerId);
+  }
+}
@@ -0,0 +1,22 @@
+import { ListTodoListsUseCase, TodoListSummary } from '../ports/ListTodoListsUseCase';
+import { TodoListRepository } from '../ports/TodoListRepository';
+import { TodoRepository } from '../ports/TodoRepository';
+
+export class ListTodoLists implements ListTodoListsUseCase {
+  constructor(
+    private readonly todoListRepository: TodoListRepository,
+    private readonly todoRepository: TodoRepository
+  ) {}
+
+  async execute(ownerId: string): Promise<TodoListSummary[]> {
+    const [lists, counts] = await Promise.all([
+      this.todoListRepository.findAll(ownerId),
+      this.todoRepository.countByList(ownerId)
+    ]);
+
+    return lists.map(list => {
+      const count = counts.find(entry => entry.listId === list.getId());
+      return { list, open: count?.open ?? 0, completed: count?.completed ?? 0 };
+    });
+  }
+}
@@ -1,12 +1,115 @@
-import { Todo } from '../../domain/entities/Todo';
-import { ListTodosUseCase } from '../ports/ListTodosUseCase';
-import { TodoRepository } from '../ports/TodoRepository';
+import { TodoStatusEnum } from '../../domain/value-objects/TodoStatus';
+import { TodoPriority } from '../../domain/value-objects/TodoPriority';
+import { TodoTag } from '../../domain/value-objects/TodoTag';
+import { TodoListNotFoundException, ValidationException } from '../../domain/exceptions/DomainException';
+import { ListTodosQuery, ListTodosResult, ListTodosUseCase, TodoFilterQuery } from '../ports/ListTodosUseCase';
+import { DateRange, TagFilter, TODO_SORT_FIELDS, TodoCriteria, TodoFilter, TodoRepository } from '../ports/TodoRepository';
+import { TodoListRepository } from '../ports/TodoListRepository';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
 
 export class ListTodos implements ListTodosUseCase {
-  constructor(private readonly todoRepository: TodoRepository) {}
+  constructor(
+    private readonly todoRepository: TodoRepository,
+    private readonly todoListRepository: TodoListRepository
+  ) {}
+
+  async execute(ownerId: string, query: ListTodosQuery = {}): Promise<ListTodosResult> {
+    if (query.listId !== undefined && !(await this.todoListRepository.findById(query.listId, ownerId))) {
+      throw new TodoListNotFoundException(query.listId);
+    }
+
+    const criteria = this.toCriteria(ownerId, query);
+    return await this.todoRepository.findByCriteria(criteria);
+  }
+
+  private toCriteria(ownerId: string, query: ListTodosQuery): TodoCriteria {
+    const filter = toTodoFilter(ownerId, query);
+
+    const sortBy = query.sortBy ?? 'createdAt';
+    if (!TODO_SORT_FIELDS.includes(sortBy)) {
+      throw new ValidationException(`Cannot sort by ${sortBy}`);
+    }
+
+    const sortDirection = query.sortDirection ?? 'desc';
+    if (sortDirection !== 'asc' && sortDirection !== 'desc') {
+      throw new ValidationException(`Invalid sort direction: ${sortDirection}`);
+    }
+
+    const limit = query.limit ?? DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      throw new ValidationException(`Limit must be an integer between 1 and ${MAX_LIMIT}`);
+    }
+
+    if (query.offset !== undefined && (!Number.isInteger(query.offset) || query.offset < 0)) {
+      throw new ValidationException('Offset must be a non-negative integer');
+    }
+
+    if (query.offset !== undefined && query.cursor !== undefined) {
+      throw new ValidationException('Cannot combine cursor and offset pagination');
+    }
+
+    return {
+      ...filter,
+      sortBy,
+      sortDirection,
+      limit,
+      offset: query.offset,
+      cursor: query.cursor
+    };
+  }
+}
 
-  async execute(): Promise<Todo[]> {
-    return await this.todoRepository.findAll();
+/**
+ * Validates the filters of a query; also used by WatchTodos, so that both
+ * accept the same filters
+ */
+export function toTodoFilter(ownerId: string, query: TodoFilterQuery): TodoFilter {
+  if (query.status !== undefined && !Object.values(TodoStatusEnum).includes(query.status)) {
+    throw new ValidationException(`Invalid status: ${query.status}`);
   }
+
+  const invalidPriority = query.priorities?.find(priority => !TodoPriority.isValid(priority));
+  if (invalidPriority !== undefined) {
+    throw new ValidationException(`Invalid priority: ${invalidPriority}`);
+  }
+
+  const titleContains = query.titleContains?.trim();
+
+  return {
+    ownerId,
+    listId: query.listId,
+    status: query.status,
+    priorities: query.priorities?.length ? query.priorities : undefined,
+    tags: toTagFilter(query),
+    createdAt: toDateRange('created', query.createdFrom, query.createdTo),
+    updatedAt: toDateRange('updated', query.updatedFrom, query.updatedTo),
+    titleContains: titleContains ? titleContains : undefined
+  };
 }
 
+function toTagFilter(query: TodoFilterQuery): TagFilter | undefined {
+  const match = query.tagMatch ?? 'any';
+  if (match !== 'any' && match !== 'all') {
+    throw new ValidationException(`Invalid tag match: ${match}`);
+  }
+  if (!query.tags?.length) {
+    return undefined;
+  }
+  return { tags: query.tags.map(tag => new TodoTag(tag).getValue()), match };
+}
+
+function toDateRange(name: string, from?: Date, to?: Date): DateRange | undefined {
+  for (const date of [from, to]) {
+    if (date !== undefined && isNaN(date.getTime())) {
+      throw new ValidationException(`Invalid ${name} date`);
+    }
+  }
+
+  if (from && to && from > to) {
+    throw new ValidationException(`Invalid ${name} date range: start is after end`);
+  }
+
+  return from || to ? { from, to } : undefined;
+}
@@ -0,0 +1,11 @@
+import { Todo } from '../../domain/entities/Todo';
+import { ListTrashUseCase } from '../ports/ListTrashUseCase';
+import { TodoRepository } from '../ports/TodoRepository';
+
+export class ListTrash implements ListTrashUseCase {
+  constructor(private readonly todoRepository: TodoRepository) {}
+
+  async execute(ownerId: string): Promise<Todo[]> {
+    return await this.todoRepository.findTrashed({ ownerId });
+  }
+}
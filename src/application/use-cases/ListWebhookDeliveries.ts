@@ -0,0 +1,24 @@
+import { WebhookDelivery } from '../../domain/entities/WebhookDelivery';
+import { WebhookNotFoundException } from '../../domain/exceptions/DomainException';
+import { ListWebhookDeliveriesUseCase } from '../ports/ListWebhookDeliveriesUseCase';
+import { WebhookRepository } from '../ports/WebhookRepository';
+import { WebhookDeliveryRepository } from '../ports/WebhookDeliveryRepository';
+
+const DELIVERY_LOG_LIMIT = 100;
+
+export class ListWebhookDeliveries implements ListWebhookDeliveriesUseCase {
+  constructor(
+    private readonly webhookRepository: WebhookRepository,
+    private readonly deliveryRepository: WebhookDeliveryRepository
+  ) {}
+
+  async execute(webhookId: string, ownerId: string): Promise<WebhookDelivery[]> {
+    const webhook = await this.webhookRepository.findById(webhookId);
+
+    if (!webhook || webhook.getOwnerId() !== ownerId) {
+      throw new WebhookNotFoundException(webhookId);
+    }
+
+    return await this.deliveryRepository.findByWebhookId(webhookId, DELIVERY_LOG_LIMIT);
+  }
+}
@@ -0,0 +1,11 @@
+import { WebhookSubscription } from '../../domain/entities/WebhookSubscription';
+import { ListWebhooksUseCase } from '../ports/ListWebhooksUseCase';
+import { WebhookRepository } from '../ports/WebhookRepository';
+
+export class ListWebhooks implements ListWebhooksUseCase {
+  constructor(private readonly webhookRepository: WebhookRepository) {}
+
+  async execute(ownerId: string): Promise<WebhookSubscription[]> {
+    return await this.webhookRepository.findAll(ownerId);
+  }
+}
@@ -0,0 +1,38 @@
+import { AuthenticationException, ValidationException } from '../../domain/exceptions/DomainException';
+import { LoginCommand, LoginResult, LoginUseCase } from '../ports/LoginUseCase';
+import { UserRepository } from '../ports/UserRepository';
+import { PasswordHasher } from '../ports/PasswordHasher';
+import { TokenService } from '../ports/TokenService';
+
+/**
+ * Unknown emails and wrong passwords fail alike, so that
+ * login cannot be used to find out which emails are registered
+ */
+export class Login implements LoginUseCase {
+  // Checked for unknown emails, so that they take as long as wrong passwords
+  private readonly unknownUserHash: Promise<string>;
+
+  constructor(
+    private readonly userRepository: UserRepository,
+    private readonly passwordHasher: PasswordHasher,
+    private readonly tokenService: TokenService
+  ) {
+    this.unknownUserHash = passwordHasher.hash('not the password of any user');
+  }
+
+  async execute(command: LoginCommand): Promise<LoginResult> {
+    if (typeof command.email !== 'string' || typeof command.password !== 'string') {
+      throw new ValidationException('Email and password are required');
+    }
+
+    const user = await this.userRepository.findByEmail(command.email.trim().toLowerCase());
+    const hash = user ? user.getPasswordHash() : await this.unknownUserHash;
+    const valid = await this.passwordHasher.verify(command.password, hash);
+
+    if (!user || !valid) {
+      throw new AuthenticationException('Invalid email or password');
+    }
+
+    return { ...this.tokenService.issue(user.getId()), user };
+  }
+}
@@ -0,0 +1,63 @@
+import { WebhookDelivery, WebhookRetryPolicy } from '../../domain/entities/WebhookDelivery';
+import { WebhookSubscription } from '../../domain/entities/WebhookSubscription';
+import { ProcessWebhookDeliveriesUseCase } from '../ports/ProcessWebhookDeliveriesUseCase';
+import { WebhookRepository } from '../ports/WebhookRepository';
+import { WebhookDeliveryRepository } from '../ports/WebhookDeliveryRepository';
+import { WebhookSender } from '../ports/WebhookSender';
+
+const BATCH_SIZE = 50;
+
+export class ProcessWebhookDeliveries implements ProcessWebhookDeliveriesUseCase {
+  constructor(
+    private readonly webhookRepository: WebhookRepository,
+    private readonly deliveryRepository: WebhookDeliveryRepository,
+    private readonly webhookSender: WebhookSender,
+    private readonly retryPolicy: WebhookRetryPolicy
+  ) {}
+
+  async execute(now: Date = new Date()): Promise<number> {
+    const due = await this.deliveryRepository.findDue(now, BATCH_SIZE);
+
+    for (const delivery of due) {
+      const webhook = await this.webhookRepository.findById(delivery.getWebhookId());
+      if (!webhook) {
+        delivery.recordFailure('Webhook no longer exists', null, { ...this.retryPolicy, maxAttempts: 0 });
+        await this.deliveryRepository.update(delivery);
+        continue;
+      }
+      await attemptDelivery(delivery, webhook, this.webhookSender, this.retryPolicy);
+      await this.deliveryRepository.update(delivery);
+    }
+
+    return due.length;
+  }
+}
+
+/**
+ * Send a delivery once and record the outcome on it
+ * Any 2xx response counts as delivered
+ */
+export async function attemptDelivery(
+  delivery: WebhookDelivery,
+  webhook: WebhookSubscription,
+  sender: WebhookSender,
+  policy: WebhookRetryPolicy
+): Promise<void> {
+  try {
+    const response = await sender.send({
+      url: webhook.getUrl(),
+      secret: webhook.getSecret(),
+      deliveryId: delivery.getId(),
+      eventType: delivery.getEventType(),
+      payload: delivery.getPayload()
+    });
+
+    if (response.status >= 200 && response.status < 300) {
+      delivery.recordSuccess(response.status);
+    } else {
+      delivery.recordFailure(`Receiver responded with status ${response.status}`, response.status, policy);
+    }
+  } catch (error) {
+    delivery.recordFailure(error instanceof Error ? error.message : String(error), null, policy);
+  }
+}
@@ -0,0 +1,31 @@
+import { AuditEntry } from '../../domain/entities/AuditEntry';
+import { TodoNotFoundException } from '../../domain/exceptions/DomainException';
+import { PurgeTodoUseCase } from '../ports/PurgeTodoUseCase';
+import { TodoRepository } from '../ports/TodoRepository';
+import { EventPublisher } from '../ports/EventPublisher';
+import { AuditRepository } from '../ports/AuditRepository';
+
+export class PurgeTodo implements PurgeTodoUseCase {
+  constructor(
+    private readonly todoRepository: TodoRepository,
+    private readonly eventPublisher: EventPublisher,
+    private readonly auditRepository: AuditRepository
+  ) {}
+
+  async execute(id: string, ownerId: string): Promise<void> {
+    const todo = await this.todoRepository.findById(id, ownerId, { includeTrashed: true });
+
+    if (!todo) {
+      throw new TodoNotFoundException(id);
+    }
+
+    todo.markPurged();
+
+    if (!(await this.todoRepository.delete(id, ownerId, todo.getVersion()))) {
+      throw new TodoNotFoundException(id);
+    }
+    const events = todo.pullEvents();
+    await this.auditRepository.append(events.map(event => AuditEntry.fromEvent(event, ownerId)));
+    await this.eventPublisher.publish(events);
+  }
+}
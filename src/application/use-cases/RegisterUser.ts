@@ -0,0 +1,35 @@
+import { User } from '../../domain/entities/User';
+import { RegisterUserCommand, RegisterUserUseCase } from '../ports/RegisterUserUseCase';
+import { UserRepository } from '../ports/UserRepository';
+import { PasswordHasher } from '../ports/PasswordHasher';
+import { EmailAlreadyRegisteredException, ValidationException } from '../../domain/exceptions/DomainException';
+
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_PASSWORD_LENGTH = 128;
+
+export class RegisterUser implements RegisterUserUseCase {
+  constructor(
+    private readonly userRepository: UserRepository,
+    private readonly passwordHasher: PasswordHasher
+  ) {}
+
+  async execute(command: RegisterUserCommand): Promise<User> {
+    const email = User.normalizeEmail(command.email);
+
+    const { password } = command;
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH || password.length > MAX_PASSWORD_LENGTH) {
+      throw new ValidationException(`Password must be between ${MIN_PASSWORD_LENGTH} and ${MAX_PASSWORD_LENGTH} characters`);
+    }
+
+    if (await this.userRepository.findByEmail(email)) {
+      throw new EmailAlreadyRegisteredException();
+    }
+
+    const user = new User({
+      email,
+      passwordHash: await this.passwordHasher.hash(password)
+    });
+
+    return await this.userRepository.save(user);
+  }
+}
@@ -0,0 +1,18 @@
+import { WebhookSubscription } from '../../domain/entities/WebhookSubscription';
+import { RegisterWebhookCommand, RegisterWebhookUseCase } from '../ports/RegisterWebhookUseCase';
+import { WebhookRepository } from '../ports/WebhookRepository';
+
+export class RegisterWebhook implements RegisterWebhookUseCase {
+  constructor(private readonly webhookRepository: WebhookRepository) {}
+
+  async execute(command: RegisterWebhookCommand): Promise<WebhookSubscription> {
+    const webhook = new WebhookSubscription({
+      ownerId: command.ownerId,
+      url: command.url,
+      events: command.events,
+      secret: command.secret
+    });
+
+    return await this.webhookRepository.save(webhook);
+  }
+}
@@ -0,0 +1,27 @@
+import { Todo } from '../../domain/entities/Todo';
+import { TodoNotFoundException } from '../../domain/exceptions/DomainException';
+import { RemoveChecklistItemCommand, RemoveChecklistItemUseCase } from '../ports/RemoveChecklistItemUseCase';
+import { TodoRepository } from '../ports/TodoRepository';
+import { EventPublisher } from '../ports/EventPublisher';
+
+export class RemoveChecklistItem implements RemoveChecklistItemUseCase {
+  constructor(
+    private readonly todoRepository: TodoRepository,
+    private readonly eventPublisher: EventPublisher
+  ) {}
+
+  async execute(command: RemoveChecklistItemCommand): Promise<Todo> {
+    const todo = await this.todoRepository.findById(command.todoId, command.ownerId);
+    
+    if (!todo) {
+      throw new TodoNotFoundException(command.todoId);
+    }
+
+    todo.removeChecklistItem(command.itemId);
+
+    const saved = await this.todoRepository.update(todo);
+    await this.eventPublisher.publish(todo.pullEvents(saved));
+
+    return saved;
+  }
+}
@@ -0,0 +1,25 @@
+import { TagNotFoundException, ValidationException } from '../../domain/exceptions/DomainException';
+import { TodoTag } from '../../domain/value-objects/TodoTag';
+import { RenameTagCommand, RenameTagUseCase } from '../ports/RenameTagUseCase';
+import { TodoRepository } from '../ports/TodoRepository';
+
+export class RenameTag implements RenameTagUseCase {
+  constructor(private readonly todoRepository: TodoRepository) {}
+
+  async execute(command: RenameTagCommand): Promise<number> {
+    const from = new TodoTag(command.from);
+    const to = new TodoTag(command.to);
+
+    if (from.equals(to)) {
+      throw new ValidationException('New tag name must differ from the current one');
+    }
+
+    const renamed = await this.todoRepository.renameTag(from.getValue(), to.getValue(), command.ownerId);
+
+    if (renamed === 0) {
+      throw new TagNotFoundException(from.getValue());
+    }
+
+    return renamed;
+  }
+}
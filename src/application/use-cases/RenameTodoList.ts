@@ -0,0 +1,20 @@
+import { TodoList } from '../../domain/entities/TodoList';
+import { TodoListNotFoundException } from '../../domain/exceptions/DomainException';
+import { RenameTodoListCommand, RenameTodoListUseCase } from '../ports/RenameTodoListUseCase';
+import { TodoListRepository } from '../ports/TodoListRepository';
+
+export class RenameTodoList implements RenameTodoListUseCase {
+  constructor(private readonly todoListRepository: TodoListRepository) {}
+
+  async execute(command: RenameTodoListCommand): Promise<TodoList> {
+    const list = await this.todoListRepository.findById(command.id, command.ownerId);
+
+    if (!list) {
+      throw new TodoListNotFoundException(command.id);
+    }
+
+    list.rename(command.name);
+
+    return await this.todoListRepository.update(list);
+  }
+}
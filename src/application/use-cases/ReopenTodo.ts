@@ -0,0 +1,38 @@
+import { Todo } from '../../domain/entities/Todo';
+import { TodoNotFoundException } from '../../domain/exceptions/DomainException';
+import { ReopenTodoUseCase } from '../ports/ReopenTodoUseCase';
+import { TodoRepository } from '../ports/TodoRepository';
+import { EventPublisher } from '../ports/EventPublisher';
+import { AuditRepository } from '../ports/AuditRepository';
+import { AuditEntry } from '../../domain/entities/AuditEntry';
+
+/**
+ * The next occurrence of a recurring todo, if one was created on completion,
+ * is kept; the reopened todo no longer recurs
+ */
+export class ReopenTodo implements ReopenTodoUseCase {
+  constructor(
+    private readonly todoRepository: TodoRepository,
+    private readonly eventPublisher: EventPublisher,
+    private readonly auditRepository: AuditRepository
+  ) {}
+
+  async execute(id: string, ownerId: string, expectedVersion?: number): Promise<Todo> {
+    const todo = await this.todoRepository.findById(id, ownerId);
+
+    if (!todo) {
+      throw new TodoNotFoundException(id);
+    }
+
+    todo.ensureVersion(expectedVersion);
+
+    todo.reopen();
+
+    const reopened = await this.todoRepository.update(todo);
+    const events = todo.pullEvents(reopened);
+    await this.auditRepository.append(events.map(event => AuditEntry.fromEvent(event, ownerId)));
+    await this.eventPublisher.publish(events);
+
+    return reopened;
+  }
+}
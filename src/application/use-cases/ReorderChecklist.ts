@@ -0,0 +1,27 @@
+import { Todo } from '../../domain/entities/Todo';
+import { TodoNotFoundException } from '../../domain/exceptions/DomainException';
+import { ReorderChecklistCommand, ReorderChecklistUseCase } from '../ports/ReorderChecklistUseCase';
+import { TodoRepository } from '../ports/TodoRepository';
+import { EventPublisher } from '../ports/EventPublisher';
+
+export class ReorderChecklist implements ReorderChecklistUseCase {
+  constructor(
+    private readonly todoRepository: TodoRepository,
+    private readonly eventPublisher: EventPublisher
+  ) {}
+
+  async execute(command: ReorderChecklistCommand): Promise<Todo> {
+    const todo = await this.todoRepository.findById(command.todoId, command.ownerId);
+    
+    if (!todo) {
+      throw new TodoNotFoundException(command.todoId);
+    }
+
+    todo.reorderChecklist(command.itemIds);
+
+    const saved = await this.todoRepository.update(todo);
+    await this.eventPublisher.publish(todo.pullEvents(saved));
+
+    return saved;
+  }
+}
@@ -0,0 +1,38 @@
+import { WebhookDelivery, WebhookRetryPolicy } from '../../domain/entities/WebhookDelivery';
+import { WebhookDeliveryNotFoundException, WebhookNotFoundException } from '../../domain/exceptions/DomainException';
+import { ReplayWebhookDeliveryCommand, ReplayWebhookDeliveryUseCase } from '../ports/ReplayWebhookDeliveryUseCase';
+import { WebhookRepository } from '../ports/WebhookRepository';
+import { WebhookDeliveryRepository } from '../ports/WebhookDeliveryRepository';
+import { WebhookSender } from '../ports/WebhookSender';
+import { attemptDelivery } from './ProcessWebhookDeliveries';
+
+/**
+ * The replay is attempted right away; it is not retried if it fails again
+ */
+export class ReplayWebhookDelivery implements ReplayWebhookDeliveryUseCase {
+  constructor(
+    private readonly webhookRepository: WebhookRepository,
+    private readonly deliveryRepository: WebhookDeliveryRepository,
+    private readonly webhookSender: WebhookSender,
+    private readonly retryPolicy: WebhookRetryPolicy
+  ) {}
+
+  async execute(command: ReplayWebhookDeliveryCommand): Promise<WebhookDelivery> {
+    const webhook = await this.webhookRepository.findById(command.webhookId);
+
+    if (!webhook || webhook.getOwnerId() !== command.ownerId) {
+      throw new WebhookNotFoundException(command.webhookId);
+    }
+
+    const delivery = await this.deliveryRepository.findById(command.deliveryId);
+
+    if (!delivery || delivery.getWebhookId() !== webhook.getId()) {
+      throw new WebhookDeliveryNotFoundException(command.webhookId, command.deliveryId);
+    }
+
+    delivery.replay();
+    await attemptDelivery(delivery, webhook, this.webhookSender, { ...this.retryPolicy, maxAttempts: 0 });
+
+    return await this.deliveryRepository.update(delivery);
+  }
+}
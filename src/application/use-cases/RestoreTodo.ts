@@ -0,0 +1,32 @@
+import { Todo } from '../../domain/entities/Todo';
+import { AuditEntry } from '../../domain/entities/AuditEntry';
+import { TodoNotFoundException } from '../../domain/exceptions/DomainException';
+import { RestoreTodoUseCase } from '../ports/RestoreTodoUseCase';
+import { TodoRepository } from '../ports/TodoRepository';
+import { EventPublisher } from '../ports/EventPublisher';
+import { AuditRepository } from '../ports/AuditRepository';
+
+export class RestoreTodo implements RestoreTodoUseCase {
+  constructor(
+    private readonly todoRepository: TodoRepository,
+    private readonly eventPublisher: EventPublisher,
+    private readonly auditRepository: AuditRepository
+  ) {}
+
+  async execute(id: string, ownerId: string): Promise<Todo> {
+    const todo = await this.todoRepository.findById(id, ownerId, { includeTrashed: true });
+
+    if (!todo) {
+      throw new TodoNotFoundException(id);
+    }
+
+    todo.restore();
+
+    const saved = await this.todoRepository.update(todo);
+    const events = todo.pullEvents(saved);
+    await this.auditRepository.append(events.map(event => AuditEntry.fromEvent(event, ownerId)));
+    await this.eventPublisher.publish(events);
+
+    return saved;
+  }
+}
@@ -0,0 +1,22 @@
+import { SearchQuery } from '../../domain/value-objects/SearchQuery';
+import { SearchTodosQuery, SearchTodosUseCase } from '../ports/SearchTodosUseCase';
+import { SearchResult, TodoRepository } from '../ports/TodoRepository';
+import { ValidationException } from '../../domain/exceptions/DomainException';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+export class SearchTodos implements SearchTodosUseCase {
+  constructor(private readonly todoRepository: TodoRepository) {}
+
+  async execute(ownerId: string, query: SearchTodosQuery): Promise<SearchResult> {
+    const searchQuery = new SearchQuery(query.q);
+
+    const limit = query.limit ?? DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      throw new ValidationException(`Limit must be an integer between 1 and ${MAX_LIMIT}`);
+    }
+
+    return await this.todoRepository.search(ownerId, searchQuery, limit);
+  }
+}
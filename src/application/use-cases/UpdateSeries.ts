@@ -0,0 +1,73 @@
+import { Todo } from '../../domain/entities/Todo';
+import { InvalidStateTransitionException, SeriesNotFoundException } from '../../domain/exceptions/DomainException';
+import { UpdateSeriesCommand, UpdateSeriesUseCase } from '../ports/UpdateSeriesUseCase';
+import { TodoRepository } from '../ports/TodoRepository';
+import { EventPublisher } from '../ports/EventPublisher';
+import { AuditRepository } from '../ports/AuditRepository';
+import { TransactionManager } from '../ports/TransactionManager';
+import { AuditEntry } from '../../domain/entities/AuditEntry';
+
+/**
+ * Completed occurrences are history and are left untouched; the pending ones
+ * are updated in one transaction
+ */
+export class UpdateSeries implements UpdateSeriesUseCase {
+  constructor(
+    private readonly todoRepository: TodoRepository,
+    private readonly eventPublisher: EventPublisher,
+    private readonly auditRepository: AuditRepository,
+    private readonly transactionManager: TransactionManager
+  ) {}
+
+  async execute(command: UpdateSeriesCommand): Promise<Todo[]> {
+    const todos = await this.todoRepository.findBySeriesId(command.seriesId, command.ownerId);
+
+    if (todos.length === 0) {
+      throw new SeriesNotFoundException(command.seriesId);
+    }
+
+    const pending = todos.filter(todo => todo.isPending());
+
+    if (command.recurrence !== undefined && !pending.some(todo => todo.isRecurring())) {
+      throw new InvalidStateTransitionException('Series has ended and cannot be given a new recurrence');
+    }
+
+    return this.transactionManager.run(async () => {
+      const updated: Todo[] = [];
+      for (const todo of todos) {
+        if (!todo.isPending()) {
+          updated.push(todo);
+          continue;
+        }
+
+        if (command.title) {
+          todo.updateTitle(command.title);
+        }
+
+        if (command.description !== undefined) {
+          todo.updateDescription(command.description);
+        }
+
+        if (command.priority !== undefined) {
+          todo.updatePriority(command.priority);
+        }
+
+        if (command.tags !== undefined) {
+          todo.updateTags(command.tags);
+        }
+
+        if (command.recurrence !== undefined && todo.isRecurring()) {
+          todo.updateRecurrence(command.recurrence);
+        }
+
+        const saved = await this.todoRepository.update(todo);
+        const events = todo.pullEvents(saved);
+        await this.auditRepository.append(events.map(event => AuditEntry.fromEvent(event, command.ownerId)));
+        await this.eventPublisher.publish(events);
+        updated.push(saved);
+      }
+
+      return updated;
+    });
+  }
+}
@@ -1,18 +1,29 @@
 import { Todo } from '../../domain/entities/Todo';
-import { TodoNotFoundException } from '../../domain/exceptions/DomainException';
+import { TodoListNotFoundException, TodoNotFoundException } from '../../domain/exceptions/DomainException';
 import { UpdateTodoCommand, UpdateTodoUseCase } from '../ports/UpdateTodoUseCase';
 import { TodoRepository } from '../ports/TodoRepository';
+import { EventPublisher } from '../ports/EventPublisher';
+import { AuditRepository } from '../ports/AuditRepository';
+import { TodoListRepository } from '../ports/TodoListRepository';
+import { AuditEntry } from '../../domain/entities/AuditEntry';
 
 export class UpdateTodo implements UpdateTodoUseCase {
-  constructor(private readonly todoRepository: TodoRepository) {}
+  constructor(
+    private readonly todoRepository: TodoRepository,
+    private readonly eventPublisher: EventPublisher,
+    private readonly auditRepository: AuditRepository,
+    private readonly todoListRepository: TodoListRepository
+  ) {}
 
   async execute(command: UpdateTodoCommand): Promise<Todo> {
-    const todo = await this.todoRepository.findById(command.id);
+    const todo = await this.todoRepository.findById(command.id, command.ownerId);
     
     if (!todo) {
       throw new TodoNotFoundException(command.id);
     }
 
+    todo.ensureVersion(command.expectedVersion);
+
     if (command.title) {
       todo.updateTitle(command.title);
     }
@@ -21,7 +32,39 @@ export class UpdateTodo implements UpdateTodoUseCase {
       todo.updateDescription(command.description);
     }
 
-    return await this.todoRepository.update(todo);
+    if (command.priority !== undefined) {
+      todo.updatePriority(command.priority);
+    }
+
+    if (command.tags !== undefined) {
+      todo.updateTags(command.tags);
+    }
+
+    if (command.requireChecklistCompletion !== undefined) {
+      todo.setRequireChecklistCompletion(command.requireChecklistCompletion);
+    }
+
+    if (command.dueDate !== undefined) {
+      todo.updateDueDate(command.dueDate);
+    }
+
+    if (command.recurrence !== undefined) {
+      todo.updateRecurrence(command.recurrence);
+    }
+
+    if (command.listId !== undefined) {
+      if (command.listId && !(await this.todoListRepository.findById(command.listId, command.ownerId))) {
+        throw new TodoListNotFoundException(command.listId);
+      }
+      todo.moveToList(command.listId);
+    }
+
+    const saved = await this.todoRepository.update(todo);
+    const events = todo.pullEvents(saved);
+    await this.auditRepository.append(events.map(event => AuditEntry.fromEvent(event, command.ownerId)));
+    await this.eventPublisher.publish(events);
+
+    return saved;
   }
 }
 
@@ -0,0 +1,53 @@
+import { TodoProps } from '../../domain/entities/Todo';
+import { TodoEvent } from '../../domain/events/TodoEvent';
+import { TodoListNotFoundException } from '../../domain/exceptions/DomainException';
+import { EventHistory } from '../ports/EventHistory';
+import { EventSubscriber, TodoEventHandler } from '../ports/EventSubscriber';
+import { TodoFilterQuery } from '../ports/ListTodosUseCase';
+import { matchesFilter } from '../ports/TodoRepository';
+import { TodoListRepository } from '../ports/TodoListRepository';
+import { TodoWatch, WatchTodosUseCase } from '../ports/WatchTodosUseCase';
+import { toTodoFilter } from './ListTodos';
+
+/**
+ * Events come from the mutating use cases through the event bus. A todo that
+ * stops matching the filters, e.g. once completed while watching pending
+ * todos, is still reported so that watchers can drop it.
+ */
+export class WatchTodos implements WatchTodosUseCase {
+  constructor(
+    private readonly eventSubscriber: EventSubscriber,
+    private readonly eventHistory: EventHistory,
+    private readonly todoListRepository: TodoListRepository
+  ) {}
+
+  async execute(ownerId: string, query: TodoFilterQuery, handler: TodoEventHandler, lastEventId?: string): Promise<TodoWatch> {
+    if (query.listId !== undefined && !(await this.todoListRepository.findById(query.listId, ownerId))) {
+      throw new TodoListNotFoundException(query.listId);
+    }
+
+    const filter = toTodoFilter(ownerId, query);
+    const relevant = (event: TodoEvent) =>
+      matchesFilter(event.todo, filter) || matchesFilter(previousState(event), filter);
+
+    // Replaying and subscribing in the same tick leaves no gap between them
+    const missed = lastEventId === undefined ? [] : this.eventHistory.since(lastEventId);
+    for (const event of (missed ?? []).filter(relevant)) {
+      void handler(event);
+    }
+    const unsubscribe = this.eventSubscriber.subscribe('*', event => relevant(event) ? handler(event) : undefined);
+
+    return { resumed: missed !== null, stop: unsubscribe };
+  }
+}
+
+/**
+ * The todo as it was before the event, as far as the filters are concerned
+ */
+function previousState(event: TodoEvent): TodoProps {
+  const previous: Record<string, unknown> = { ...event.todo };
+  for (const [field, change] of Object.entries(event.changes)) {
+    previous[field] = change.from ?? undefined;
+  }
+  return previous as unknown as TodoProps;
+}
@@ -0,0 +1,182 @@
+import { readFileSync } from 'fs';
+import { FieldError } from './domain/exceptions/DomainException';
+import { JsonSchema, validateSchema } from './adapters/inbound/JsonSchema';
+import { coerceParameters } from './adapters/inbound/RequestValidation';
+import { createApiDocument } from './adapters/inbound/OpenApiDocument';
+
+/**
+ * Checks the requests of a .http file against the OpenAPI document
+ * Requests to routes the document does not describe are counted but not
+ * checked. Values that are {{variables}} are only known when the requests
+ * run, so they match any path parameter and are not checked.
+ *
+ *   npm run check:http [-- file.http]
+ */
+
+interface Parameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required: boolean;
+  schema: JsonSchema;
+}
+
+interface Operation {
+  operationId: string;
+  parameters?: Parameter[];
+  requestBody?: { content: Record<string, { schema: JsonSchema }> };
+}
+
+interface Document {
+  paths: Record<string, Record<string, Operation>>;
+}
+
+interface HttpRequest {
+  line: number;
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+const VARIABLE = /^\{\{[^}]+\}\}$/;
+
+function parseHttpFile(text: string): HttpRequest[] {
+  const requests: HttpRequest[] = [];
+  const lines = text.split(/\r?\n/);
+  let start = 0;
+  for (let index = 0; index <= lines.length; index++) {
+    if (index === lines.length || lines[index].startsWith('###')) {
+      const request = parseRequest(lines.slice(start, index), start + 1);
+      if (request) {
+        requests.push(request);
+      }
+      start = index + 1;
+    }
+  }
+  return requests;
+}
+
+function parseRequest(lines: string[], firstLine: number): HttpRequest | undefined {
+  const skipped = (line: string) => line.trim() === '' || /^\s*(#|\/\/|@)/.test(line);
+  const requestLine = lines.findIndex(line => !skipped(line));
+  if (requestLine === -1) {
+    return undefined;
+  }
+
+  // The target may contain spaces, as editors send the query as written
+  const match = /^(\w+)\s+(.+?)(?:\s+HTTP\/[\d.]+)?$/.exec(lines[requestLine].trim());
+  if (!match) {
+    return undefined;
+  }
+  const [, method, target] = match;
+  const url = target.replace(/^\{\{baseUrl\}\}/, '');
+  const question = url.indexOf('?');
+  const blank = lines.findIndex((line, index) => index > requestLine && line.trim() === '');
+  const headerLines = lines.slice(requestLine + 1, blank === -1 ? undefined : blank);
+  const body = blank === -1 ? '' : lines.slice(blank + 1).join('\n').trim();
+
+  return {
+    line: firstLine + requestLine,
+    method: method.toLowerCase(),
+    path: question === -1 ? url : url.slice(0, question),
+    query: new URLSearchParams(question === -1 ? '' : url.slice(question + 1)),
+    headers: Object.fromEntries(headerLines.map(line => {
+      const colon = line.indexOf(':');
+      return [line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim()];
+    })),
+    body: body === '' ? undefined : body
+  };
+}
+
+/**
+ * Paths are relative to {{baseUrl}}, which ends with the server path, e.g. /api
+ * Path parameters only match {{variables}}, so that /todos/export does not pass for /todos/{id}
+ */
+function findOperation(document: Document, request: HttpRequest): [string, Operation] | undefined {
+  const segments = request.path.split('/');
+  for (const [template, operations] of Object.entries(document.paths)) {
+    const templateSegments = template.split('/');
+    const matches = templateSegments.length === segments.length && templateSegments.every((segment, index) =>
+      /^\{\w+\}$/.test(segment) ? VARIABLE.test(segments[index]) : segment === segments[index]
+    );
+    if (matches && operations[request.method]) {
+      return [template, operations[request.method]];
+    }
+  }
+  return undefined;
+}
+
+function checkRequest(request: HttpRequest, operation: Operation): FieldError[] {
+  const errors: FieldError[] = [];
+  const parameters = operation.parameters ?? [];
+
+  const query: Record<string, string | string[]> = {};
+  for (const [name, value] of request.query) {
+    const previous = query[name];
+    query[name] = previous === undefined ? value : ([] as string[]).concat(previous, value);
+  }
+  const querySchema = toObjectSchema(parameters.filter(parameter => parameter.in === 'query'), true);
+  errors.push(...validateSchema(querySchema, coerceParameters(querySchema, withoutVariables(query)), 'query'));
+
+  const headerParameters = parameters.filter(parameter => parameter.in === 'header');
+  const headers = Object.fromEntries(headerParameters
+    .filter(parameter => request.headers[parameter.name.toLowerCase()] !== undefined)
+    .map(parameter => [parameter.name, request.headers[parameter.name.toLowerCase()]]));
+  errors.push(...validateSchema(toObjectSchema(headerParameters, false), withoutVariables(headers), 'header'));
+
+  const bodySchema = operation.requestBody?.content['application/json']?.schema;
+  if (bodySchema && request.body === undefined) {
+    errors.push({ field: 'body', message: 'is required' });
+  } else if (bodySchema && request.body !== undefined) {
+    try {
+      errors.push(...validateSchema(bodySchema, JSON.parse(request.body), 'body'));
+    } catch {
+      errors.push({ field: 'body', message: 'is not valid JSON' });
+    }
+  }
+  return errors;
+}
+
+function toObjectSchema(parameters: Parameter[], closed: boolean): JsonSchema {
+  return {
+    type: 'object',
+    properties: Object.fromEntries(parameters.map(parameter => [parameter.name, parameter.schema])),
+    required: parameters.filter(parameter => parameter.required).map(parameter => parameter.name),
+    additionalProperties: !closed
+  };
+}
+
+function withoutVariables<T>(values: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => !(typeof value === 'string' && VARIABLE.test(value))));
+}
+
+function main(file: string): number {
+  const document = createApiDocument() as Document;
+  const requests = parseHttpFile(readFileSync(file, 'utf8'));
+  let failed = 0;
+  let unchecked = 0;
+
+  for (const request of requests) {
+    const match = findOperation(document, request);
+    if (!match) {
+      unchecked++;
+      continue;
+    }
+    const [template, operation] = match;
+    const errors = checkRequest(request, operation);
+    const label = `${request.method.toUpperCase()} ${template} (${operation.operationId}, line ${request.line})`;
+    if (errors.length === 0) {
+      console.log(`ok    ${label}`);
+    } else {
+      failed++;
+      console.log(`FAIL  ${label}`);
+      errors.forEach(error => console.log(`        ${error.field} ${error.message}`));
+    }
+  }
+
+  console.log(`\n${requests.length - unchecked} request(s) checked, ${failed} failed; ${unchecked} not described by the document`);
+  return failed === 0 ? 0 : 1;
+}
+
+process.exitCode = main(process.argv[2] ?? 'todo-hex.http');
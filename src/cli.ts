@@ -0,0 +1,49 @@
+#!/usr/bin/env node
+import { EXIT_FAILURE, EXIT_OK, EXIT_USAGE, helpRequested, TodoCli, USAGE } from './adapters/inbound/TodoCli';
+
+async function main(args: string[]): Promise<number> {
+  if (helpRequested(args)) {
+    // Answered without connecting to the database
+    (args.length === 0 ? process.stderr : process.stdout).write(USAGE);
+    return args.length === 0 ? EXIT_USAGE : EXIT_OK;
+  }
+
+  // stdout is kept for command output: only warnings and errors are logged,
+  // to stderr, unless LOG_LEVEL is set in the environment
+  process.env.LOG_LEVEL ??= 'warn';
+  const { DependencyContainer } = await import('./infrastructure/DependencyContainer');
+
+  const container = DependencyContainer.getInstance();
+  try {
+    // Webhooks are queued for the server to send; the trash is purged by the server
+    await container.initialize({ backgroundJobs: false });
+  } catch (error) {
+    console.error('todo: failed to start:', error instanceof Error ? error.message : error);
+    return EXIT_FAILURE;
+  }
+
+  try {
+    const cli = new TodoCli(
+      container.createTodoUseCase,
+      container.getTodoUseCase,
+      container.listTodosUseCase,
+      container.updateTodoUseCase,
+      container.completeTodoUseCase,
+      container.reopenTodoUseCase,
+      container.deleteTodoUseCase,
+      container.loginUseCase,
+      container.authenticateUseCase
+    );
+    return await cli.run(args, {
+      env: process.env,
+      stdout: text => process.stdout.write(text),
+      stderr: text => process.stderr.write(text)
+    });
+  } finally {
+    await container.cleanup();
+  }
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,67 @@
+import { FieldChange, TodoEvent, TodoEventType } from '../events/TodoEvent';
+
+export interface AuditEntryProps {
+  id?: string;
+  todoId: string;
+  ownerId: string;
+  action: TodoEventType;
+  changes: Record<string, FieldChange>;
+  // Who made the change, when known
+  actor?: string | null;
+  occurredAt: Date;
+}
+
+/**
+ * Entry of a todo's change history
+ * Kept independently of the todo so that the trail outlives it
+ */
+export class AuditEntry {
+  private readonly id: string;
+  private readonly todoId: string;
+  private readonly ownerId: string;
+  private readonly action: TodoEventType;
+  private readonly changes: Record<string, FieldChange>;
+  private readonly actor: string | null;
+  private readonly occurredAt: Date;
+
+  constructor(props: AuditEntryProps) {
+    this.id = props.id || this.generateId();
+    this.todoId = props.todoId;
+    this.ownerId = props.ownerId;
+    this.action = props.action;
+    this.changes = props.changes;
+    this.actor = props.actor ?? null;
+    this.occurredAt = props.occurredAt;
+  }
+
+  public static fromEvent(event: TodoEvent, actor?: string): AuditEntry {
+    return new AuditEntry({
+      todoId: event.todoId,
+      ownerId: event.todo.ownerId,
+      action: event.type,
+      changes: event.changes,
+      actor,
+      occurredAt: event.occurredAt
+    });
+  }
+
+  private generateId(): string {
+    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  public getTodoId(): string {
+    return this.todoId;
+  }
+
+  public toObject(): AuditEntryProps {
+    return {
+      id: this.id,
+      todoId: this.todoId,
+      ownerId: this.ownerId,
+      action: this.action,
+      changes: this.changes,
+      actor: this.actor,
+      occurredAt: this.occurredAt
+    };
+  }
+}
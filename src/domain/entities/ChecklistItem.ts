@@ -0,0 +1,61 @@
+import { ValidationException } from '../exceptions/DomainException';
+
+export interface ChecklistItemProps {
+  id?: string;
+  text: string;
+  done?: boolean;
+}
+
+/**
+ * Step of a todo's checklist
+ * Only reachable through the owning Todo aggregate
+ */
+export class ChecklistItem {
+  private readonly id: string;
+  private readonly text: string;
+  private done: boolean;
+
+  constructor(props: ChecklistItemProps) {
+    this.validate(props.text);
+    this.id = props.id || this.generateId();
+    this.text = props.text.trim();
+    this.done = props.done === true;
+  }
+
+  private validate(text: string): void {
+    if (typeof text !== 'string' || text.trim().length === 0) {
+      throw new ValidationException('Checklist item text cannot be empty');
+    }
+    if (text.trim().length > 200) {
+      throw new ValidationException('Checklist item text cannot exceed 200 characters');
+    }
+  }
+
+  private generateId(): string {
+    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  public getId(): string {
+    return this.id;
+  }
+
+  public getText(): string {
+    return this.text;
+  }
+
+  public isDone(): boolean {
+    return this.done;
+  }
+
+  public setDone(done: boolean): void {
+    this.done = done;
+  }
+
+  public toObject(): ChecklistItemProps {
+    return {
+      id: this.id,
+      text: this.text,
+      done: this.done
+    };
+  }
+}
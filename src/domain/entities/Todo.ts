@@ -1,38 +1,119 @@
 import { TodoId } from '../value-objects/TodoId';
 import { TodoTitle } from '../value-objects/TodoTitle';
 import { TodoStatus, TodoStatusEnum } from '../value-objects/TodoStatus';
+import { DueDateProps, TodoDueDate } from '../value-objects/TodoDueDate';
+import { TodoPriority, TodoPriorityEnum } from '../value-objects/TodoPriority';
+import { TodoTag } from '../value-objects/TodoTag';
+import { RecurrenceRule } from '../value-objects/RecurrenceRule';
+import { ChecklistItem, ChecklistItemProps } from './ChecklistItem';
+import {
+  ChecklistItemNotFoundException,
+  InvalidStateTransitionException,
+  ValidationException,
+  VersionMismatchException
+} from '../exceptions/DomainException';
+import { FieldChange, TodoEvent, TodoEventType } from '../events/TodoEvent';
+
+export const MAX_TAGS_PER_TODO = 20;
+export const MAX_CHECKLIST_ITEMS = 100;
+
+interface RecordedEvent {
+  type: TodoEventType;
+  occurredAt: Date;
+  changes: Record<string, FieldChange>;
+}
 
 export interface TodoProps {
   id?: string;
+  // Id of the user the todo belongs to
+  ownerId: string;
   title: string;
   description?: string;
   status?: TodoStatusEnum;
+  priority?: TodoPriorityEnum;
+  tags?: string[];
+  checklist?: ChecklistItemProps[];
+  // When set, the todo cannot be completed while checklist items are open
+  requireChecklistCompletion?: boolean;
+  // Derived from the checklist; ignored on construction
+  checklistProgress?: number;
+  dueDate?: DueDateProps;
+  // RRULE subset, see RecurrenceRule
+  recurrence?: string;
+  // Shared by every occurrence of a recurring todo
+  seriesId?: string;
+  // List the todo is filed under, if any
+  listId?: string;
+  // Incremented by the repository on every successful update
+  version?: number;
+  // Set while the todo is in the trash
+  deletedAt?: Date;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
 export class Todo {
   private readonly id: TodoId;
+  private readonly ownerId: string;
   private title: TodoTitle;
   private description: string;
   private status: TodoStatus;
+  private priority: TodoPriority;
+  private tags: TodoTag[];
+  private checklist: ChecklistItem[];
+  private requireChecklistCompletion: boolean;
+  private dueDate?: TodoDueDate;
+  private recurrence?: RecurrenceRule;
+  private seriesId?: string;
+  private listId?: string;
+  private readonly version: number;
+  private deletedAt?: Date;
   private readonly createdAt: Date;
   private updatedAt: Date;
+  private events: RecordedEvent[] = [];
 
   constructor(props: TodoProps) {
     this.id = new TodoId(props.id);
+    if (!props.ownerId) {
+      throw new ValidationException('Todo must have an owner');
+    }
+    this.ownerId = props.ownerId;
     this.title = new TodoTitle(props.title);
     this.description = props.description || '';
     this.status = new TodoStatus(props.status);
+    this.priority = new TodoPriority(props.priority);
+    this.tags = this.toTags(props.tags || []);
+    this.checklist = (props.checklist || []).map(item => new ChecklistItem(item));
+    this.requireChecklistCompletion = props.requireChecklistCompletion === true;
+    this.dueDate = props.dueDate ? new TodoDueDate(props.dueDate) : undefined;
+    this.recurrence = props.recurrence ? new RecurrenceRule(props.recurrence) : undefined;
+    this.seriesId = props.seriesId || (this.recurrence ? this.id.getValue() : undefined);
+    this.listId = props.listId || undefined;
+    this.ensureRecurrenceHasDueDate();
+    this.version = props.version ?? 1;
+    this.deletedAt = props.deletedAt;
     this.createdAt = props.createdAt || new Date();
     this.updatedAt = props.updatedAt || new Date();
   }
 
+  /**
+   * Create a brand new todo, as opposed to rehydrating a stored one
+   */
+  public static create(props: TodoProps): Todo {
+    const todo = new Todo(props);
+    todo.record(TodoEventType.CREATED);
+    return todo;
+  }
+
   // Getters
   public getId(): TodoId {
     return this.id;
   }
 
+  public getOwnerId(): string {
+    return this.ownerId;
+  }
+
   public getTitle(): TodoTitle {
     return this.title;
   }
@@ -45,6 +126,66 @@ export class Todo {
     return this.status;
   }
 
+  public getPriority(): TodoPriority {
+    return this.priority;
+  }
+
+  public getTags(): TodoTag[] {
+    return [...this.tags];
+  }
+
+  public hasTag(tag: string): boolean {
+    const candidate = new TodoTag(tag);
+    return this.tags.some(existing => existing.equals(candidate));
+  }
+
+  public getChecklist(): ChecklistItem[] {
+    return [...this.checklist];
+  }
+
+  /**
+   * Ratio of done checklist items, from 0 to 1; 0 when the checklist is empty
+   */
+  public getChecklistProgress(): number {
+    if (this.checklist.length === 0) {
+      return 0;
+    }
+    const done = this.checklist.filter(item => item.isDone()).length;
+    return done / this.checklist.length;
+  }
+
+  public hasOpenChecklistItems(): boolean {
+    return this.checklist.some(item => !item.isDone());
+  }
+
+  public requiresChecklistCompletion(): boolean {
+    return this.requireChecklistCompletion;
+  }
+
+  public getDueDate(): TodoDueDate | undefined {
+    return this.dueDate;
+  }
+
+  public getRecurrence(): RecurrenceRule | undefined {
+    return this.recurrence;
+  }
+
+  public getSeriesId(): string | undefined {
+    return this.seriesId;
+  }
+
+  public getListId(): string | undefined {
+    return this.listId;
+  }
+
+  public isRecurring(): boolean {
+    return this.recurrence !== undefined;
+  }
+
+  public getVersion(): number {
+    return this.version;
+  }
+
   public getCreatedAt(): Date {
     return this.createdAt;
   }
@@ -53,33 +194,252 @@ export class Todo {
     return this.updatedAt;
   }
 
+  public getDeletedAt(): Date | undefined {
+    return this.deletedAt;
+  }
+
   // Business logic
+  /**
+   * Guard against acting on a stale copy; no-op when no version is expected
+   */
+  public ensureVersion(expectedVersion?: number): void {
+    if (expectedVersion !== undefined && expectedVersion !== this.version) {
+      throw new VersionMismatchException(this.id.getValue(), expectedVersion, this.version);
+    }
+  }
+
   public updateTitle(title: string): void {
+    const previous = this.title.getValue();
     this.title = new TodoTitle(title);
+    this.recordChange('title', previous, this.title.getValue());
     this.updatedAt = new Date();
   }
 
   public updateDescription(description: string): void {
+    const previous = this.description;
     this.description = description;
+    this.recordChange('description', previous, this.description);
+    this.updatedAt = new Date();
+  }
+
+  public updatePriority(priority: TodoPriorityEnum): void {
+    const previous = this.priority.getValue();
+    this.priority = new TodoPriority(priority);
+    this.recordChange('priority', previous, this.priority.getValue());
+    this.updatedAt = new Date();
+  }
+
+  public updateTags(tags: string[]): void {
+    const previous = this.tags.map(tag => tag.getValue());
+    this.tags = this.toTags(tags);
+    this.recordChange('tags', previous, this.tags.map(tag => tag.getValue()));
+    this.updatedAt = new Date();
+  }
+
+  public addChecklistItem(text: string): ChecklistItem {
+    if (this.checklist.length >= MAX_CHECKLIST_ITEMS) {
+      throw new ValidationException(`A todo cannot have more than ${MAX_CHECKLIST_ITEMS} checklist items`);
+    }
+    const previous = this.checklistSnapshot();
+    const item = new ChecklistItem({ text });
+    this.checklist.push(item);
+    this.recordChange('checklist', previous, this.checklistSnapshot());
+    this.updatedAt = new Date();
+    return item;
+  }
+
+  /**
+   * Set an item's done flag, or flip it when no value is given
+   */
+  public toggleChecklistItem(itemId: string, done?: boolean): void {
+    if (done !== undefined && typeof done !== 'boolean') {
+      throw new ValidationException('Checklist item done flag must be a boolean');
+    }
+    const item = this.findChecklistItem(itemId);
+    const previous = this.checklistSnapshot();
+    item.setDone(done === undefined ? !item.isDone() : done);
+    this.recordChange('checklist', previous, this.checklistSnapshot());
+    this.updatedAt = new Date();
+  }
+
+  public removeChecklistItem(itemId: string): void {
+    const item = this.findChecklistItem(itemId);
+    const previous = this.checklistSnapshot();
+    this.checklist = this.checklist.filter(existing => existing !== item);
+    this.recordChange('checklist', previous, this.checklistSnapshot());
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Reorder the checklist; the given ids must list every item exactly once
+   */
+  public reorderChecklist(itemIds: string[]): void {
+    if (!Array.isArray(itemIds) || itemIds.length !== this.checklist.length ||
+        new Set(itemIds).size !== itemIds.length) {
+      throw new ValidationException('Reordering must list every checklist item exactly once');
+    }
+    const previous = this.checklistSnapshot();
+    this.checklist = itemIds.map(itemId => this.findChecklistItem(itemId));
+    this.recordChange('checklist', previous, this.checklistSnapshot());
+    this.updatedAt = new Date();
+  }
+
+  public setRequireChecklistCompletion(required: boolean): void {
+    if (typeof required !== 'boolean') {
+      throw new ValidationException('requireChecklistCompletion must be a boolean');
+    }
+    const previous = this.requireChecklistCompletion;
+    this.requireChecklistCompletion = required;
+    this.recordChange('requireChecklistCompletion', previous, required);
+    this.updatedAt = new Date();
+  }
+
+  public updateDueDate(dueDate: DueDateProps | null): void {
+    const previous = this.dueDate?.toObject() ?? null;
+    this.dueDate = dueDate ? new TodoDueDate(dueDate) : undefined;
+    this.ensureRecurrenceHasDueDate();
+    this.recordChange('dueDate', previous, this.dueDate?.toObject() ?? null);
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Set or clear the recurrence rule; the first rule set on a todo starts
+   * a series identified by the todo's own id
+   */
+  public updateRecurrence(rule: string | null): void {
+    const previous = this.recurrence?.toString() ?? null;
+    this.recurrence = rule ? new RecurrenceRule(rule) : undefined;
+    this.ensureRecurrenceHasDueDate();
+    if (this.recurrence && !this.seriesId) {
+      this.seriesId = this.id.getValue();
+    }
+    this.recordChange('recurrence', previous, this.recurrence?.toString() ?? null);
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Create the next occurrence of a completed recurring todo
+   * The recurrence moves to the new occurrence, which is due on the next date
+   * of the rule; returns null when the rule has ended
+   */
+  public spawnNextOccurrence(): Todo | null {
+    if (!this.recurrence) {
+      return null;
+    }
+    if (!this.isCompleted()) {
+      throw new InvalidStateTransitionException('Only a completed todo can spawn its next occurrence');
+    }
+
+    const due = this.dueDate!;
+    const nextDate = this.recurrence.nextAfter(due.getDate());
+    const rule = this.recurrence.toString();
+    this.recurrence = undefined;
+    this.recordChange('recurrence', rule, null);
+    this.updatedAt = new Date();
+
+    if (!nextDate) {
+      return null;
+    }
+
+    return Todo.create({
+      ownerId: this.ownerId,
+      title: this.title.getValue(),
+      description: this.description,
+      priority: this.priority.getValue(),
+      tags: this.tags.map(tag => tag.getValue()),
+      checklist: this.checklist.map(item => ({ text: item.getText() })),
+      requireChecklistCompletion: this.requireChecklistCompletion,
+      dueDate: { ...due.toObject(), date: nextDate },
+      recurrence: rule,
+      seriesId: this.seriesId,
+      listId: this.listId
+    });
+  }
+
+  /**
+   * File the todo under a list, or take it out of its list with null
+   */
+  public moveToList(listId: string | null): void {
+    const previous = this.listId ?? null;
+    this.listId = listId || undefined;
+    this.recordChange('listId', previous, this.listId ?? null);
     this.updatedAt = new Date();
   }
 
   public complete(): void {
     if (this.status.isCompleted()) {
-      throw new Error('Todo is already completed');
+      throw new InvalidStateTransitionException('Todo is already completed');
     }
+    if (this.requireChecklistCompletion && this.hasOpenChecklistItems()) {
+      throw new InvalidStateTransitionException('Todo cannot be completed while checklist items are open', 'CHECKLIST_INCOMPLETE');
+    }
+    const previous = this.status.getValue();
     this.status = this.status.complete();
+    this.record(TodoEventType.COMPLETED, { status: { from: previous, to: this.status.getValue() } });
     this.updatedAt = new Date();
   }
 
   public reopen(): void {
     if (this.status.isPending()) {
-      throw new Error('Todo is already pending');
+      throw new InvalidStateTransitionException('Todo is already pending');
     }
+    const previous = this.status.getValue();
     this.status = new TodoStatus(TodoStatusEnum.PENDING);
+    this.record(TodoEventType.REOPENED, { status: { from: previous, to: this.status.getValue() } });
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Move the todo to the trash, from where it can be restored until purged
+   */
+  public moveToTrash(now: Date = new Date()): void {
+    if (this.deletedAt) {
+      throw new InvalidStateTransitionException('Todo is already in the trash');
+    }
+    this.deletedAt = now;
+    this.record(TodoEventType.DELETED, { deletedAt: { from: null, to: now } });
+    this.updatedAt = now;
+  }
+
+  public restore(): void {
+    if (!this.deletedAt) {
+      throw new InvalidStateTransitionException('Todo is not in the trash');
+    }
+    const previous = this.deletedAt;
+    this.deletedAt = undefined;
+    this.record(TodoEventType.RESTORED, { deletedAt: { from: previous, to: null } });
     this.updatedAt = new Date();
   }
 
+  /**
+   * Record that the todo is being removed for good; the repository deletes it
+   */
+  public markPurged(): void {
+    if (!this.deletedAt) {
+      throw new InvalidStateTransitionException('Only todos in the trash can be purged');
+    }
+    this.record(TodoEventType.PURGED);
+  }
+
+  /**
+   * Hand over the events recorded since the last call, in order
+   * Events are stamped with the given state, normally the todo as returned
+   * by the repository after saving it
+   */
+  public pullEvents(saved: Todo = this): TodoEvent[] {
+    const snapshot = saved.toObject();
+    const events = this.events.map(event => ({
+      id: `${event.occurredAt.getTime()}-${Math.random().toString(36).substr(2, 9)}`,
+      type: event.type,
+      todoId: this.id.getValue(),
+      occurredAt: event.occurredAt,
+      changes: event.changes,
+      todo: snapshot
+    }));
+    this.events = [];
+    return events;
+  }
+
   public isCompleted(): boolean {
     return this.status.isCompleted();
   }
@@ -88,16 +448,102 @@ export class Todo {
     return this.status.isPending();
   }
 
+  public isTrashed(): boolean {
+    return this.deletedAt !== undefined;
+  }
+
+  /**
+   * A pending todo is overdue once its due date has passed;
+   * all-day due dates are evaluated in the given timezone
+   */
+  public isOverdue(now: Date = new Date(), timeZone: string = 'UTC'): boolean {
+    if (!this.dueDate || this.isCompleted()) {
+      return false;
+    }
+    return this.dueDate.isOverdue(now, timeZone);
+  }
+
   // Convert to plain object for persistence/serialization
   public toObject(): TodoProps {
     return {
       id: this.id.getValue(),
+      ownerId: this.ownerId,
       title: this.title.getValue(),
       description: this.description,
       status: this.status.getValue(),
+      priority: this.priority.getValue(),
+      tags: this.tags.map(tag => tag.getValue()),
+      checklist: this.checklist.map(item => item.toObject()),
+      requireChecklistCompletion: this.requireChecklistCompletion,
+      checklistProgress: this.getChecklistProgress(),
+      dueDate: this.dueDate?.toObject(),
+      recurrence: this.recurrence?.toString(),
+      seriesId: this.seriesId,
+      listId: this.listId,
+      version: this.version,
+      deletedAt: this.deletedAt,
       createdAt: this.createdAt,
       updatedAt: this.updatedAt
     };
   }
-}
 
+  private record(type: TodoEventType, changes: Record<string, FieldChange> = {}): void {
+    this.events.push({ type, occurredAt: new Date(), changes });
+  }
+
+  /**
+   * Record a field change, merged into the pending UPDATED event if any so
+   * that one use case produces a single update keeping the original values
+   */
+  private recordChange(field: string, from: unknown, to: unknown): void {
+    const pending = this.events.find(event => event.type === TodoEventType.UPDATED);
+    const original = pending?.changes[field]?.from ?? from;
+    if (JSON.stringify(original) === JSON.stringify(to)) {
+      if (pending) {
+        delete pending.changes[field];
+      }
+      return;
+    }
+    if (pending) {
+      pending.changes[field] = { from: original, to };
+    } else {
+      this.record(TodoEventType.UPDATED, { [field]: { from, to } });
+    }
+  }
+
+  private checklistSnapshot(): ChecklistItemProps[] {
+    return this.checklist.map(item => item.toObject());
+  }
+
+  private ensureRecurrenceHasDueDate(): void {
+    if (this.recurrence && !this.dueDate) {
+      throw new ValidationException('A recurring todo must have a due date');
+    }
+  }
+
+  private findChecklistItem(itemId: string): ChecklistItem {
+    const item = this.checklist.find(existing => existing.getId() === itemId);
+    if (!item) {
+      throw new ChecklistItemNotFoundException(this.id.getValue(), itemId);
+    }
+    return item;
+  }
+
+  // Normalizes and de-duplicates tags, keeping the first occurrence
+  private toTags(values: string[]): TodoTag[] {
+    if (!Array.isArray(values)) {
+      throw new ValidationException('Tags must be a list');
+    }
+    const tags: TodoTag[] = [];
+    for (const value of values) {
+      const tag = new TodoTag(value);
+      if (!tags.some(existing => existing.equals(tag))) {
+        tags.push(tag);
+      }
+    }
+    if (tags.length > MAX_TAGS_PER_TODO) {
+      throw new ValidationException(`A todo cannot have more than ${MAX_TAGS_PER_TODO} tags`);
+    }
+    return tags;
+  }
+}
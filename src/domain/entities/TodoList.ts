@@ -0,0 +1,77 @@
+import { ValidationException } from '../exceptions/DomainException';
+
+const MAX_NAME_LENGTH = 100;
+
+export interface TodoListProps {
+  id?: string;
+  // Id of the user the list belongs to
+  ownerId: string;
+  name: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Named group of todos, such as a project or an area of responsibility
+ * Todos refer to their list by id; the list does not hold them
+ */
+export class TodoList {
+  private readonly id: string;
+  private readonly ownerId: string;
+  private name: string;
+  private readonly createdAt: Date;
+  private updatedAt: Date;
+
+  constructor(props: TodoListProps) {
+    if (!props.ownerId) {
+      throw new ValidationException('List must have an owner');
+    }
+    this.id = props.id || this.generateId();
+    this.ownerId = props.ownerId;
+    this.name = this.validateName(props.name);
+    this.createdAt = props.createdAt || new Date();
+    this.updatedAt = props.updatedAt || new Date();
+  }
+
+  private validateName(name: string): string {
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      throw new ValidationException('List name cannot be empty');
+    }
+    const trimmed = name.trim();
+    if (trimmed.length > MAX_NAME_LENGTH) {
+      throw new ValidationException(`List name cannot exceed ${MAX_NAME_LENGTH} characters`);
+    }
+    return trimmed;
+  }
+
+  private generateId(): string {
+    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  public getId(): string {
+    return this.id;
+  }
+
+  public getOwnerId(): string {
+    return this.ownerId;
+  }
+
+  public getName(): string {
+    return this.name;
+  }
+
+  public rename(name: string): void {
+    this.name = this.validateName(name);
+    this.updatedAt = new Date();
+  }
+
+  public toObject(): TodoListProps {
+    return {
+      id: this.id,
+      ownerId: this.ownerId,
+      name: this.name,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt
+    };
+  }
+}
@@ -0,0 +1,68 @@
+import { ValidationException } from '../exceptions/DomainException';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_EMAIL_LENGTH = 254;
+
+export interface UserProps {
+  id?: string;
+  email: string;
+  // Never the password itself; see the PasswordHasher port
+  passwordHash: string;
+  createdAt?: Date;
+}
+
+/**
+ * Account that owns todos
+ */
+export class User {
+  private readonly id: string;
+  private readonly email: string;
+  private readonly passwordHash: string;
+  private readonly createdAt: Date;
+
+  constructor(props: UserProps) {
+    this.id = props.id || this.generateId();
+    this.email = User.normalizeEmail(props.email);
+    this.passwordHash = props.passwordHash;
+    this.createdAt = props.createdAt || new Date();
+  }
+
+  /**
+   * Emails are compared case-insensitively
+   */
+  public static normalizeEmail(email: string): string {
+    if (typeof email !== 'string') {
+      throw new ValidationException('Email is required');
+    }
+    const normalized = email.trim().toLowerCase();
+    if (normalized.length > MAX_EMAIL_LENGTH || !EMAIL_PATTERN.test(normalized)) {
+      throw new ValidationException('Email is not valid');
+    }
+    return normalized;
+  }
+
+  private generateId(): string {
+    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  public getId(): string {
+    return this.id;
+  }
+
+  public getEmail(): string {
+    return this.email;
+  }
+
+  public getPasswordHash(): string {
+    return this.passwordHash;
+  }
+
+  public toObject(): UserProps {
+    return {
+      id: this.id,
+      email: this.email,
+      passwordHash: this.passwordHash,
+      createdAt: this.createdAt
+    };
+  }
+}
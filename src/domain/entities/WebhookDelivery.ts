@@ -0,0 +1,158 @@
+import { TodoEventType } from '../events/TodoEvent';
+import { InvalidStateTransitionException } from '../exceptions/DomainException';
+
+export enum WebhookDeliveryStatus {
+  PENDING = 'PENDING',
+  SUCCEEDED = 'SUCCEEDED',
+  FAILED = 'FAILED'
+}
+
+/**
+ * Retries wait baseDelayMs, then twice as long after every failed attempt
+ */
+export interface WebhookRetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+}
+
+export interface WebhookDeliveryProps {
+  id?: string;
+  webhookId: string;
+  eventId: string;
+  eventType: TodoEventType;
+  // Serialized once so that retries and replays send the exact same signed body
+  payload: string;
+  status?: WebhookDeliveryStatus;
+  attempts?: number;
+  nextAttemptAt?: Date | null;
+  lastAttemptAt?: Date | null;
+  lastResponseStatus?: number | null;
+  lastError?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * One event sent to one webhook, with the outcome of its attempts
+ */
+export class WebhookDelivery {
+  private readonly id: string;
+  private readonly webhookId: string;
+  private readonly eventId: string;
+  private readonly eventType: TodoEventType;
+  private readonly payload: string;
+  private status: WebhookDeliveryStatus;
+  private attempts: number;
+  private nextAttemptAt: Date | null;
+  private lastAttemptAt: Date | null;
+  private lastResponseStatus: number | null;
+  private lastError: string | null;
+  private readonly createdAt: Date;
+  private updatedAt: Date;
+
+  constructor(props: WebhookDeliveryProps) {
+    this.id = props.id || this.generateId();
+    this.webhookId = props.webhookId;
+    this.eventId = props.eventId;
+    this.eventType = props.eventType;
+    this.payload = props.payload;
+    this.status = props.status || WebhookDeliveryStatus.PENDING;
+    this.attempts = props.attempts ?? 0;
+    this.createdAt = props.createdAt || new Date();
+    this.nextAttemptAt = props.nextAttemptAt !== undefined
+      ? props.nextAttemptAt
+      : this.status === WebhookDeliveryStatus.PENDING ? this.createdAt : null;
+    this.lastAttemptAt = props.lastAttemptAt ?? null;
+    this.lastResponseStatus = props.lastResponseStatus ?? null;
+    this.lastError = props.lastError ?? null;
+    this.updatedAt = props.updatedAt || new Date();
+  }
+
+  private generateId(): string {
+    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  public getId(): string {
+    return this.id;
+  }
+
+  public getWebhookId(): string {
+    return this.webhookId;
+  }
+
+  public getEventType(): TodoEventType {
+    return this.eventType;
+  }
+
+  public getPayload(): string {
+    return this.payload;
+  }
+
+  public getStatus(): WebhookDeliveryStatus {
+    return this.status;
+  }
+
+  public getAttempts(): number {
+    return this.attempts;
+  }
+
+  public recordSuccess(responseStatus: number, now: Date = new Date()): void {
+    this.attempts++;
+    this.status = WebhookDeliveryStatus.SUCCEEDED;
+    this.nextAttemptAt = null;
+    this.lastAttemptAt = now;
+    this.lastResponseStatus = responseStatus;
+    this.lastError = null;
+    this.updatedAt = now;
+  }
+
+  /**
+   * Schedule the next attempt with exponential backoff,
+   * or give up once the policy's attempts are used
+   */
+  public recordFailure(error: string, responseStatus: number | null, policy: WebhookRetryPolicy, now: Date = new Date()): void {
+    this.attempts++;
+    this.lastAttemptAt = now;
+    this.lastResponseStatus = responseStatus;
+    this.lastError = error;
+    this.updatedAt = now;
+
+    if (this.attempts >= policy.maxAttempts) {
+      this.status = WebhookDeliveryStatus.FAILED;
+      this.nextAttemptAt = null;
+    } else {
+      this.status = WebhookDeliveryStatus.PENDING;
+      this.nextAttemptAt = new Date(now.getTime() + policy.baseDelayMs * 2 ** (this.attempts - 1));
+    }
+  }
+
+  /**
+   * Queue a failed delivery for one more attempt
+   */
+  public replay(now: Date = new Date()): void {
+    if (this.status !== WebhookDeliveryStatus.FAILED) {
+      throw new InvalidStateTransitionException('Only failed deliveries can be replayed');
+    }
+    this.status = WebhookDeliveryStatus.PENDING;
+    this.nextAttemptAt = now;
+    this.updatedAt = now;
+  }
+
+  public toObject(): WebhookDeliveryProps {
+    return {
+      id: this.id,
+      webhookId: this.webhookId,
+      eventId: this.eventId,
+      eventType: this.eventType,
+      payload: this.payload,
+      status: this.status,
+      attempts: this.attempts,
+      nextAttemptAt: this.nextAttemptAt,
+      lastAttemptAt: this.lastAttemptAt,
+      lastResponseStatus: this.lastResponseStatus,
+      lastError: this.lastError,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt
+    };
+  }
+}
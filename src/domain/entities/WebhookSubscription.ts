@@ -0,0 +1,108 @@
+import { TodoEventType } from '../events/TodoEvent';
+import { ValidationException } from '../exceptions/DomainException';
+
+const MIN_SECRET_LENGTH = 16;
+
+export interface WebhookSubscriptionProps {
+  id?: string;
+  ownerId: string;
+  url: string;
+  events: TodoEventType[];
+  // Key of the HMAC signature sent with every delivery
+  secret: string;
+  createdAt?: Date;
+}
+
+/**
+ * Registration of an external endpoint that receives todo events
+ */
+export class WebhookSubscription {
+  private readonly id: string;
+  private readonly ownerId: string;
+  private readonly url: string;
+  private readonly events: TodoEventType[];
+  private readonly secret: string;
+  private readonly createdAt: Date;
+
+  constructor(props: WebhookSubscriptionProps) {
+    if (!props.ownerId) {
+      throw new ValidationException('Webhook must have an owner');
+    }
+    this.validateUrl(props.url);
+    this.validateEvents(props.events);
+    this.validateSecret(props.secret);
+    this.id = props.id || this.generateId();
+    this.ownerId = props.ownerId;
+    this.url = props.url;
+    this.events = Array.from(new Set(props.events));
+    this.secret = props.secret;
+    this.createdAt = props.createdAt || new Date();
+  }
+
+  private validateUrl(url: string): void {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new ValidationException('Webhook URL must be an absolute URL');
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new ValidationException('Webhook URL must use http or https');
+    }
+  }
+
+  private validateEvents(events: TodoEventType[]): void {
+    if (!Array.isArray(events) || events.length === 0) {
+      throw new ValidationException('Webhook must subscribe to at least one event type');
+    }
+    const invalid = events.find(event => !Object.values(TodoEventType).includes(event));
+    if (invalid !== undefined) {
+      throw new ValidationException(`Invalid event type: ${invalid}`);
+    }
+  }
+
+  private validateSecret(secret: string): void {
+    if (typeof secret !== 'string' || secret.length < MIN_SECRET_LENGTH) {
+      throw new ValidationException(`Webhook secret must be at least ${MIN_SECRET_LENGTH} characters`);
+    }
+  }
+
+  private generateId(): string {
+    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  public getId(): string {
+    return this.id;
+  }
+
+  public getOwnerId(): string {
+    return this.ownerId;
+  }
+
+  public getUrl(): string {
+    return this.url;
+  }
+
+  public getEvents(): TodoEventType[] {
+    return [...this.events];
+  }
+
+  public getSecret(): string {
+    return this.secret;
+  }
+
+  public isSubscribedTo(type: TodoEventType): boolean {
+    return this.events.includes(type);
+  }
+
+  public toObject(): WebhookSubscriptionProps {
+    return {
+      id: this.id,
+      ownerId: this.ownerId,
+      url: this.url,
+      events: [...this.events],
+      secret: this.secret,
+      createdAt: this.createdAt
+    };
+  }
+}
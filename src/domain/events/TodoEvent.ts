@@ -0,0 +1,32 @@
+import { TodoProps } from '../entities/Todo';
+
+export enum TodoEventType {
+  CREATED = 'todo.created',
+  UPDATED = 'todo.updated',
+  COMPLETED = 'todo.completed',
+  REOPENED = 'todo.reopened',
+  // Moved to the trash
+  DELETED = 'todo.deleted',
+  RESTORED = 'todo.restored',
+  // Removed from the trash for good
+  PURGED = 'todo.purged'
+}
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * Something that happened to a todo, recorded by the Todo aggregate
+ * `todo` is the state of the todo once the change was saved
+ */
+export interface TodoEvent {
+  id: string;
+  type: TodoEventType;
+  todoId: string;
+  occurredAt: Date;
+  // Changed fields with their previous and new values
+  changes: Record<string, FieldChange>;
+  todo: TodoProps;
+}
@@ -1,14 +1,207 @@
+/**
+ * Base of the errors raised on purpose by the domain and application layers
+ * `code` is stable, so that clients can tell errors apart without parsing
+ * messages. The subclasses below are the kinds adapters map to responses.
+ */
 export class DomainException extends Error {
-  constructor(message: string) {
+  constructor(message: string, public readonly code: string) {
     super(message);
     this.name = 'DomainException';
   }
 }
 
-export class TodoNotFoundException extends DomainException {
+/**
+ * Input that breaks a rule of the domain or of the API
+ */
+export class ValidationException extends DomainException {
+  constructor(message: string, code: string = 'VALIDATION_FAILED') {
+    super(message, code);
+    this.name = 'ValidationException';
+  }
+}
+
+export interface FieldError {
+  // Where the value was found, e.g. body.tags[0] or query.limit
+  field: string;
+  message: string;
+}
+
+/**
+ * A request that does not match the schema of its route, with every offending field
+ */
+export class InvalidRequestException extends ValidationException {
+  constructor(public readonly errors: FieldError[]) {
+    super(`Invalid request: ${errors.map(error => `${error.field} ${error.message}`).join('; ')}`, 'INVALID_REQUEST');
+    this.name = 'InvalidRequestException';
+  }
+}
+
+/**
+ * A resource that does not exist, or belongs to someone else
+ */
+export class NotFoundException extends DomainException {
+  constructor(message: string, code: string) {
+    super(message, code);
+    this.name = 'NotFoundException';
+  }
+}
+
+/**
+ * A valid request that the current state of a resource does not allow,
+ * such as completing a todo that is already completed
+ */
+export class InvalidStateTransitionException extends DomainException {
+  constructor(message: string, code: string = 'INVALID_STATE_TRANSITION') {
+    super(message, code);
+    this.name = 'InvalidStateTransitionException';
+  }
+}
+
+/**
+ * A request that clashes with other data or with a concurrent change
+ */
+export class ConflictException extends DomainException {
+  constructor(message: string, code: string) {
+    super(message, code);
+    this.name = 'ConflictException';
+  }
+}
+
+export class TodoNotFoundException extends NotFoundException {
   constructor(id: string) {
-    super(`Todo with id ${id} not found`);
+    super(`Todo with id ${id} not found`, 'TODO_NOT_FOUND');
     this.name = 'TodoNotFoundException';
   }
 }
 
+export class TagNotFoundException extends NotFoundException {
+  constructor(tag: string) {
+    super(`Tag ${tag} not found`, 'TAG_NOT_FOUND');
+    this.name = 'TagNotFoundException';
+  }
+}
+
+export class ChecklistItemNotFoundException extends NotFoundException {
+  constructor(todoId: string, itemId: string) {
+    super(`Checklist item with id ${itemId} not found in todo ${todoId}`, 'CHECKLIST_ITEM_NOT_FOUND');
+    this.name = 'ChecklistItemNotFoundException';
+  }
+}
+
+export class SeriesNotFoundException extends NotFoundException {
+  constructor(seriesId: string) {
+    super(`Series with id ${seriesId} not found`, 'SERIES_NOT_FOUND');
+    this.name = 'SeriesNotFoundException';
+  }
+}
+
+/**
+ * The caller expected a different version of the todo than the current one
+ */
+export class VersionMismatchException extends ConflictException {
+  constructor(id: string, expectedVersion: number, actualVersion: number) {
+    super(`Todo with id ${id} is at version ${actualVersion}, expected version ${expectedVersion}`, 'VERSION_MISMATCH');
+    this.name = 'VersionMismatchException';
+  }
+}
+
+/**
+ * The todo was changed by someone else between reading and saving it
+ */
+export class ConcurrencyConflictException extends ConflictException {
+  constructor(id: string, version: number) {
+    super(`Todo with id ${id} was modified concurrently; version ${version} is no longer current`, 'CONCURRENT_MODIFICATION');
+    this.name = 'ConcurrencyConflictException';
+  }
+}
+
+/**
+ * Ids are unique across owners, so the todo may belong to someone else
+ */
+export class TodoAlreadyExistsException extends ConflictException {
+  constructor(id: string) {
+    super(`Todo with id ${id} already exists`, 'TODO_ALREADY_EXISTS');
+    this.name = 'TodoAlreadyExistsException';
+  }
+}
+
+export class TodoListNotFoundException extends NotFoundException {
+  constructor(id: string) {
+    super(`List with id ${id} not found`, 'LIST_NOT_FOUND');
+    this.name = 'TodoListNotFoundException';
+  }
+}
+
+/**
+ * A list that still has todos was deleted without cascading
+ */
+export class TodoListNotEmptyException extends ConflictException {
+  constructor(id: string, count: number) {
+    super(`List with id ${id} still has ${count} todo(s); delete it with cascade to trash them`, 'LIST_NOT_EMPTY');
+    this.name = 'TodoListNotEmptyException';
+  }
+}
+
+export class WebhookNotFoundException extends NotFoundException {
+  constructor(id: string) {
+    super(`Webhook with id ${id} not found`, 'WEBHOOK_NOT_FOUND');
+    this.name = 'WebhookNotFoundException';
+  }
+}
+
+export class WebhookDeliveryNotFoundException extends NotFoundException {
+  constructor(webhookId: string, deliveryId: string) {
+    super(`Delivery with id ${deliveryId} not found for webhook ${webhookId}`, 'WEBHOOK_DELIVERY_NOT_FOUND');
+    this.name = 'WebhookDeliveryNotFoundException';
+  }
+}
+
+export class EmailAlreadyRegisteredException extends ConflictException {
+  constructor() {
+    super('Email is already registered', 'EMAIL_ALREADY_REGISTERED');
+    this.name = 'EmailAlreadyRegisteredException';
+  }
+}
+
+export class IdempotencyKeyInUseException extends ConflictException {
+  constructor(key: string) {
+    super(`A request with idempotency key ${key} is still in progress`, 'IDEMPOTENCY_KEY_IN_USE');
+    this.name = 'IdempotencyKeyInUseException';
+  }
+}
+
+/**
+ * An idempotency key sent again with a different request
+ */
+export class IdempotencyKeyReusedException extends DomainException {
+  constructor(key: string) {
+    super(`Idempotency key ${key} was already used for a different request`, 'IDEMPOTENCY_KEY_REUSED');
+    this.name = 'IdempotencyKeyReusedException';
+  }
+}
+
+/**
+ * The caller could not be identified: missing, invalid or expired credentials
+ * Not a DomainException, as it is about the caller rather than the request
+ */
+export class AuthenticationException extends Error {
+  public readonly code = 'AUTHENTICATION_FAILED';
+
+  constructor(message: string = 'Authentication required') {
+    super(message);
+    this.name = 'AuthenticationException';
+  }
+}
+
+/**
+ * A storage or other external system failed; the request may succeed later
+ * Raised by adapters in place of driver errors, whose details stay in the log.
+ */
+export class InfrastructureException extends Error {
+  public readonly code = 'INFRASTRUCTURE_FAILURE';
+
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'InfrastructureException';
+  }
+}
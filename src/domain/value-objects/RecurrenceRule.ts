@@ -0,0 +1,230 @@
+import { addDays, isoWeekday } from './TodoDueDate';
+import { ValidationException } from '../exceptions/DomainException';
+
+export enum RecurrenceFrequency {
+  DAILY = 'DAILY',
+  WEEKLY = 'WEEKLY',
+  MONTHLY = 'MONTHLY'
+}
+
+// Index + 1 is the ISO weekday
+const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+const MAX_INTERVAL = 999;
+const MAX_MONTHLY_ITERATIONS = 12 * 4;
+
+/**
+ * Recurrence of a todo, expressed as a subset of iCalendar RRULE (RFC 5545):
+ * - FREQ: DAILY, WEEKLY or MONTHLY (required)
+ * - INTERVAL: every N days, weeks or months (default 1)
+ * - BYDAY: weekdays for WEEKLY rules, e.g. MO,WE,FR
+ * - BYMONTHDAY: day of the month for MONTHLY rules, 1 to 31 or -1 (last) to -31
+ * - UNTIL: last date an occurrence may fall on (YYYYMMDD)
+ *
+ * Months without the requested day are skipped, as in RFC 5545.
+ */
+export class RecurrenceRule {
+  private readonly frequency: RecurrenceFrequency;
+  private readonly interval: number;
+  private readonly byDay: number[];
+  private readonly byMonthDay?: number;
+  private readonly until?: string;
+
+  constructor(rule: string) {
+    if (typeof rule !== 'string' || rule.trim().length === 0) {
+      throw new ValidationException('Recurrence rule cannot be empty');
+    }
+
+    const parts = this.parseParts(rule);
+
+    const frequency = parts.get('FREQ');
+    if (!frequency || !Object.values(RecurrenceFrequency).includes(frequency as RecurrenceFrequency)) {
+      throw new ValidationException(`Recurrence FREQ must be one of ${Object.values(RecurrenceFrequency).join(', ')}`);
+    }
+    this.frequency = frequency as RecurrenceFrequency;
+    this.interval = this.parseInterval(parts.get('INTERVAL'));
+    this.byDay = this.parseByDay(parts.get('BYDAY'));
+    this.byMonthDay = this.parseByMonthDay(parts.get('BYMONTHDAY'));
+    this.until = this.parseUntil(parts.get('UNTIL'));
+  }
+
+  private parseParts(rule: string): Map<string, string> {
+    const parts = new Map<string, string>();
+    const body = rule.trim().replace(/^RRULE:/i, '');
+
+    for (const part of body.split(';').filter(Boolean)) {
+      const [key, value, ...rest] = part.split('=');
+      const name = key.trim().toUpperCase();
+      if (!value || rest.length > 0) {
+        throw new ValidationException(`Malformed recurrence rule part: ${part}`);
+      }
+      if (!['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'UNTIL'].includes(name)) {
+        throw new ValidationException(`Unsupported recurrence rule part: ${name}`);
+      }
+      if (parts.has(name)) {
+        throw new ValidationException(`Duplicate recurrence rule part: ${name}`);
+      }
+      parts.set(name, value.trim().toUpperCase());
+    }
+
+    return parts;
+  }
+
+  private parseInterval(value?: string): number {
+    if (value === undefined) {
+      return 1;
+    }
+    const interval = Number(value);
+    if (!/^\d+$/.test(value) || interval < 1 || interval > MAX_INTERVAL) {
+      throw new ValidationException(`Recurrence INTERVAL must be an integer between 1 and ${MAX_INTERVAL}`);
+    }
+    return interval;
+  }
+
+  private parseByDay(value?: string): number[] {
+    if (value === undefined) {
+      return [];
+    }
+    if (this.frequency !== RecurrenceFrequency.WEEKLY) {
+      throw new ValidationException('Recurrence BYDAY is only supported for WEEKLY rules');
+    }
+    const days = value.split(',').map(day => {
+      const index = WEEKDAYS.indexOf(day.trim());
+      if (index === -1) {
+        throw new ValidationException(`Invalid recurrence weekday: ${day}`);
+      }
+      return index + 1;
+    });
+    return Array.from(new Set(days)).sort((a, b) => a - b);
+  }
+
+  private parseByMonthDay(value?: string): number | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (this.frequency !== RecurrenceFrequency.MONTHLY) {
+      throw new ValidationException('Recurrence BYMONTHDAY is only supported for MONTHLY rules');
+    }
+    const day = Number(value);
+    if (!/^-?\d+$/.test(value) || day === 0 || day < -31 || day > 31) {
+      throw new ValidationException('Recurrence BYMONTHDAY must be between 1 and 31 or -31 and -1');
+    }
+    return day;
+  }
+
+  private parseUntil(value?: string): string | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value);
+    if (!match) {
+      throw new ValidationException('Recurrence UNTIL must be a date in YYYYMMDD format');
+    }
+    return `${match[1]}-${match[2]}-${match[3]}`;
+  }
+
+  public getFrequency(): RecurrenceFrequency {
+    return this.frequency;
+  }
+
+  public getInterval(): number {
+    return this.interval;
+  }
+
+  /**
+   * First occurrence strictly after the given date (YYYY-MM-DD),
+   * or null once the rule has ended
+   */
+  public nextAfter(date: string): string | null {
+    let next: string | null;
+    switch (this.frequency) {
+      case RecurrenceFrequency.DAILY:
+        next = addDays(date, this.interval);
+        break;
+      case RecurrenceFrequency.WEEKLY:
+        next = this.nextWeekly(date);
+        break;
+      case RecurrenceFrequency.MONTHLY:
+        next = this.nextMonthly(date);
+        break;
+    }
+
+    if (next === null || (this.until && next > this.until)) {
+      return null;
+    }
+    return next;
+  }
+
+  private nextWeekly(date: string): string {
+    const days = this.byDay.length > 0 ? this.byDay : [isoWeekday(date)];
+    const anchorWeek = startOfWeek(date);
+
+    for (let offset = 1; ; offset++) {
+      const candidate = addDays(date, offset);
+      const weeksApart = Math.round(daysBetween(anchorWeek, startOfWeek(candidate)) / 7);
+      if (weeksApart % this.interval === 0 && days.includes(isoWeekday(candidate))) {
+        return candidate;
+      }
+    }
+  }
+
+  /**
+   * The months visited repeat within 12 steps, and leap years within 4 of
+   * those cycles, so a day that is not found by then never occurs
+   * (e.g. the 30th with a 12-month interval starting in February)
+   */
+  private nextMonthly(date: string): string | null {
+    const [year, month, day] = date.split('-').map(Number);
+    const dayOfMonth = this.byMonthDay ?? day;
+
+    for (let iteration = 0; iteration <= MAX_MONTHLY_ITERATIONS; iteration++) {
+      const monthIndex = month - 1 + iteration * this.interval;
+      const length = daysInMonth(year, monthIndex);
+      const target = dayOfMonth > 0 ? dayOfMonth : length + 1 + dayOfMonth;
+      if (target < 1 || target > length) {
+        continue;
+      }
+      const candidate = new Date(Date.UTC(year, monthIndex, target)).toISOString().slice(0, 10);
+      if (candidate > date) {
+        return candidate;
+      }
+    }
+
+    return null;
+  }
+
+  public equals(other: RecurrenceRule): boolean {
+    return this.toString() === other.toString();
+  }
+
+  /**
+   * Canonical RRULE representation
+   */
+  public toString(): string {
+    const parts = [`FREQ=${this.frequency}`];
+    if (this.interval !== 1) {
+      parts.push(`INTERVAL=${this.interval}`);
+    }
+    if (this.byDay.length > 0) {
+      parts.push(`BYDAY=${this.byDay.map(day => WEEKDAYS[day - 1]).join(',')}`);
+    }
+    if (this.byMonthDay !== undefined) {
+      parts.push(`BYMONTHDAY=${this.byMonthDay}`);
+    }
+    if (this.until) {
+      parts.push(`UNTIL=${this.until.replace(/-/g, '')}`);
+    }
+    return parts.join(';');
+  }
+}
+
+function startOfWeek(date: string): string {
+  return addDays(date, 1 - isoWeekday(date));
+}
+
+function daysBetween(from: string, to: string): number {
+  return (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000;
+}
+
+function daysInMonth(year: number, monthIndex: number): number {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
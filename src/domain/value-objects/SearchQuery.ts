@@ -0,0 +1,109 @@
+import { ValidationException } from '../exceptions/DomainException';
+
+const MAX_QUERY_LENGTH = 200;
+const MAX_CLAUSES = 20;
+
+export type SearchClause =
+  | { kind: 'term'; word: string }
+  | { kind: 'prefix'; word: string }
+  | { kind: 'phrase'; words: string[] };
+
+export interface Word {
+  value: string;
+  // Offsets in the original text, end exclusive
+  start: number;
+  end: number;
+}
+
+/**
+ * Words of a text: runs of letters and digits, lowercased
+ */
+export function tokenize(text: string): Word[] {
+  return Array.from(text.matchAll(/[\p{L}\p{N}]+/gu), match => ({
+    value: match[0].toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length
+  }));
+}
+
+/**
+ * Full-text search query; a todo matches when it satisfies every clause:
+ * - a word matches that whole word: milk
+ * - a word ending in * matches words starting with it: mil*
+ * - double quotes match consecutive words: "oat milk"
+ *
+ * Matching ignores case and punctuation, so e-mail is the phrase "e mail".
+ */
+export class SearchQuery {
+  private readonly clauses: SearchClause[];
+
+  constructor(query: string) {
+    if (typeof query !== 'string' || query.trim().length === 0) {
+      throw new ValidationException('Search query cannot be empty');
+    }
+    if (query.length > MAX_QUERY_LENGTH) {
+      throw new ValidationException(`Search query cannot exceed ${MAX_QUERY_LENGTH} characters`);
+    }
+
+    this.clauses = this.parse(query);
+    if (this.clauses.length === 0) {
+      throw new ValidationException('Search query must contain at least one word');
+    }
+    if (this.clauses.length > MAX_CLAUSES) {
+      throw new ValidationException(`Search query cannot contain more than ${MAX_CLAUSES} words or phrases`);
+    }
+  }
+
+  private parse(query: string): SearchClause[] {
+    const clauses = new Map<string, SearchClause>();
+    const add = (clause: SearchClause): void => {
+      clauses.set(JSON.stringify(clause), clause);
+    };
+
+    // An unterminated quote runs to the end of the query
+    for (const match of query.matchAll(/"([^"]*)"?|[^\s"]+/g)) {
+      const quoted = match[1] !== undefined;
+      const text = quoted ? match[1] : match[0];
+      const words = tokenize(text).map(word => word.value);
+      if (words.length === 0) {
+        continue;
+      }
+
+      if (!quoted && text.endsWith('*')) {
+        words.slice(0, -1).forEach(word => add({ kind: 'term', word }));
+        add({ kind: 'prefix', word: words[words.length - 1] });
+      } else if (words.length === 1) {
+        add({ kind: 'term', word: words[0] });
+      } else {
+        add({ kind: 'phrase', words });
+      }
+    }
+
+    return Array.from(clauses.values());
+  }
+
+  public getClauses(): SearchClause[] {
+    return this.clauses;
+  }
+
+  /**
+   * Whole words the query requires, in terms and phrases
+   */
+  public getWords(): string[] {
+    const words = this.clauses.flatMap(clause => {
+      switch (clause.kind) {
+        case 'term':
+          return [clause.word];
+        case 'phrase':
+          return clause.words;
+        case 'prefix':
+          return [];
+      }
+    });
+    return Array.from(new Set(words));
+  }
+
+  public getPrefixes(): string[] {
+    return this.clauses.flatMap(clause => (clause.kind === 'prefix' ? [clause.word] : []));
+  }
+}
@@ -0,0 +1,186 @@
+import { ValidationException } from '../exceptions/DomainException';
+
+export interface DueDateProps {
+  date: string;
+  time?: string;
+  timeZone?: string;
+}
+
+type ZonedParts = Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number>;
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Due date of a todo: a calendar date (YYYY-MM-DD), optionally with a
+ * wall-clock time (HH:mm) in an IANA timezone
+ */
+export class TodoDueDate {
+  private readonly date: string;
+  private readonly time?: string;
+  private readonly timeZone?: string;
+
+  constructor(props: DueDateProps) {
+    this.validate(props);
+    this.date = props.date;
+    this.time = props.time;
+    this.timeZone = props.time ? props.timeZone : undefined;
+  }
+
+  private validate(props: DueDateProps): void {
+    if (!props || typeof props.date !== 'string' || !isValidDate(props.date)) {
+      throw new ValidationException('Due date must be a valid date in YYYY-MM-DD format');
+    }
+    if (props.time === undefined) {
+      if (props.timeZone !== undefined) {
+        throw new ValidationException('Due date timezone requires a due time');
+      }
+      return;
+    }
+    if (typeof props.time !== 'string' || !TIME_PATTERN.test(props.time)) {
+      throw new ValidationException('Due time must be in HH:mm format');
+    }
+    if (!props.timeZone || !isValidTimeZone(props.timeZone)) {
+      throw new ValidationException('Due time requires a valid IANA timezone');
+    }
+  }
+
+  public getDate(): string {
+    return this.date;
+  }
+
+  public getTime(): string | undefined {
+    return this.time;
+  }
+
+  public getTimeZone(): string | undefined {
+    return this.timeZone;
+  }
+
+  public hasTime(): boolean {
+    return this.time !== undefined;
+  }
+
+  /**
+   * Instant after which the todo is overdue
+   * An all-day due date lasts until midnight in the given timezone
+   */
+  public deadline(timeZone: string = 'UTC'): Date {
+    if (this.time) {
+      return zonedTimeToInstant(this.date, this.time, this.timeZone!);
+    }
+    return zonedTimeToInstant(addDays(this.date, 1), '00:00', timeZone);
+  }
+
+  public isOverdue(now: Date, timeZone: string = 'UTC'): boolean {
+    const deadline = this.deadline(timeZone).getTime();
+    return this.time ? now.getTime() > deadline : now.getTime() >= deadline;
+  }
+
+  /**
+   * Calendar date the todo is due on, as seen from the given timezone
+   */
+  public localDate(timeZone: string): string {
+    return this.time ? calendarDate(this.deadline(), timeZone) : this.date;
+  }
+
+  public equals(other: TodoDueDate): boolean {
+    return this.date === other.date && this.time === other.time && this.timeZone === other.timeZone;
+  }
+
+  public toObject(): DueDateProps {
+    return this.time
+      ? { date: this.date, time: this.time, timeZone: this.timeZone }
+      : { date: this.date };
+  }
+
+  public toString(): string {
+    return this.time ? `${this.date} ${this.time} ${this.timeZone}` : this.date;
+  }
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in the given timezone
+ */
+export function calendarDate(instant: Date, timeZone: string): string {
+  const parts = zonedParts(instant, timeZone);
+  return `${pad(parts.year, 4)}-${pad(parts.month)}-${pad(parts.day)}`;
+}
+
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * ISO weekday of a calendar date: 1 (Monday) to 7 (Sunday)
+ */
+export function isoWeekday(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay() || 7;
+}
+
+function isValidDate(date: string): boolean {
+  const match = DATE_PATTERN.exec(date);
+  if (!match) {
+    return false;
+  }
+  const [, year, month, day] = match.map(Number);
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  return parsed.getUTCFullYear() === year &&
+    parsed.getUTCMonth() === month - 1 &&
+    parsed.getUTCDate() === day;
+}
+
+/**
+ * Convert a wall-clock time in a timezone to an instant
+ * The offset is re-evaluated at the result to account for DST transitions
+ */
+function zonedTimeToInstant(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  let instant = wallClock - offsetAt(wallClock, timeZone);
+  instant = wallClock - offsetAt(instant, timeZone);
+  return new Date(instant);
+}
+
+function offsetAt(instant: number, timeZone: string): number {
+  const parts = zonedParts(new Date(instant), timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+function zonedParts(instant: Date, timeZone: string): ZonedParts {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  });
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(instant)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  return parts as ZonedParts;
+}
+
+function pad(value: number, length: number = 2): string {
+  return String(value).padStart(length, '0');
+}
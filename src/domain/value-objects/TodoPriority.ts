@@ -0,0 +1,59 @@
+import { ValidationException } from '../exceptions/DomainException';
+
+export enum TodoPriorityEnum {
+  NONE = 'NONE',
+  LOW = 'LOW',
+  MEDIUM = 'MEDIUM',
+  HIGH = 'HIGH',
+  URGENT = 'URGENT'
+}
+
+const RANKS: Record<TodoPriorityEnum, number> = {
+  [TodoPriorityEnum.NONE]: 0,
+  [TodoPriorityEnum.LOW]: 1,
+  [TodoPriorityEnum.MEDIUM]: 2,
+  [TodoPriorityEnum.HIGH]: 3,
+  [TodoPriorityEnum.URGENT]: 4
+};
+
+export class TodoPriority {
+  private readonly value: TodoPriorityEnum;
+
+  constructor(value: TodoPriorityEnum = TodoPriorityEnum.NONE) {
+    this.validate(value);
+    this.value = value;
+  }
+
+  private validate(value: TodoPriorityEnum): void {
+    if (!TodoPriority.isValid(value)) {
+      throw new ValidationException(`Invalid priority: ${value}. Expected one of ${Object.values(TodoPriorityEnum).join(', ')}`);
+    }
+  }
+
+  public static isValid(value: unknown): value is TodoPriorityEnum {
+    return Object.values(TodoPriorityEnum).includes(value as TodoPriorityEnum);
+  }
+
+  public getValue(): TodoPriorityEnum {
+    return this.value;
+  }
+
+  /**
+   * Numeric rank used for ordering: NONE is 0, URGENT is the highest
+   */
+  public rank(): number {
+    return RANKS[this.value];
+  }
+
+  public isHigherThan(other: TodoPriority): boolean {
+    return this.rank() > other.rank();
+  }
+
+  public equals(other: TodoPriority): boolean {
+    return this.value === other.value;
+  }
+
+  public toString(): string {
+    return this.value;
+  }
+}
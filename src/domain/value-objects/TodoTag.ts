@@ -0,0 +1,42 @@
+import { ValidationException } from '../exceptions/DomainException';
+
+export const MAX_TAG_LENGTH = 50;
+
+/**
+ * Free-form label attached to a todo
+ * Tags are case-insensitive: they are stored lowercased, trimmed and
+ * with inner whitespace collapsed to a single space
+ */
+export class TodoTag {
+  private readonly value: string;
+
+  constructor(value: string) {
+    this.value = this.normalize(value);
+  }
+
+  private normalize(value: string): string {
+    if (typeof value !== 'string') {
+      throw new ValidationException('Tag must be a string');
+    }
+    const normalized = value.trim().replace(/\s+/g, ' ').toLowerCase();
+    if (normalized.length === 0) {
+      throw new ValidationException('Tag cannot be empty');
+    }
+    if (normalized.length > MAX_TAG_LENGTH) {
+      throw new ValidationException(`Tag cannot exceed ${MAX_TAG_LENGTH} characters`);
+    }
+    return normalized;
+  }
+
+  public getValue(): string {
+    return this.value;
+  }
+
+  public equals(other: TodoTag): boolean {
+    return this.value === other.value;
+  }
+
+  public toString(): string {
+    return this.value;
+  }
+}
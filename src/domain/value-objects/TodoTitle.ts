@@ -1,3 +1,5 @@
+import { ValidationException } from '../exceptions/DomainException';
+
 export class TodoTitle {
   private readonly value: string;
 
@@ -8,10 +10,10 @@ export class TodoTitle {
 
   private validate(value: string): void {
     if (!value || value.trim().length === 0) {
-      throw new Error('Todo title cannot be empty');
+      throw new ValidationException('Todo title cannot be empty');
     }
     if (value.trim().length > 200) {
-      throw new Error('Todo title cannot exceed 200 characters');
+      throw new ValidationException('Todo title cannot exceed 200 characters');
     }
   }
 
@@ -2,14 +2,23 @@ import { createApp } from './infrastructure/ExpressApp';
 import { DependencyContainer } from './infrastructure/DependencyContainer';
 
 async function startServer() {
+  // Configuration errors are thrown before there is a logger
+  let container: DependencyContainer;
   try {
-    // Get dependency container and configuration
-    const container = DependencyContainer.getInstance();
-    const config = container.config;
+    container = DependencyContainer.getInstance();
+  } catch (error) {
+    console.error('Failed to start server:', error);
+    process.exit(1);
+  }
+  const logger = container.logger;
 
-    // Display configuration info
-    console.log('Starting Todo Application...');
-    console.log(config.getInfo());
+  try {
+    const config = container.config;
+    logger.info('Starting Todo Application', {
+      port: config.port,
+      environment: config.nodeEnv,
+      storage: config.storage
+    });
 
     // Initialize async resources (e.g., database connection)
     await container.initialize();
@@ -18,29 +27,47 @@ async function startServer() {
     const app = createApp();
     const PORT = config.port;
 
-    app.listen(PORT, () => {
-      console.log(`\n🚀 Server is running on http://localhost:${PORT}`);
-      console.log(`📋 Todo API available at http://localhost:${PORT}/api`);
-      console.log(`❤️  Health check at http://localhost:${PORT}/health`);
-    });
-
-    // Graceful shutdown
-    process.on('SIGTERM', async () => {
-      console.log('\nSIGTERM received, shutting down gracefully...');
-      await container.cleanup();
-      process.exit(0);
+    const server = app.listen(PORT, () => {
+      logger.info('Server is running', {
+        url: `http://localhost:${PORT}`,
+        api: `http://localhost:${PORT}/api`,
+        health: `http://localhost:${PORT}/health`,
+        metrics: `http://localhost:${PORT}/metrics`
+      });
     });
 
-    process.on('SIGINT', async () => {
-      console.log('\nSIGINT received, shutting down gracefully...');
-      await container.cleanup();
+    // Graceful shutdown: stop taking requests, finish the running ones, then
+    // close the database; a second signal exits at once
+    let shuttingDown = false;
+    const shutdown = async (signal: NodeJS.Signals): Promise<void> => {
+      if (shuttingDown) {
+        logger.warn('Second signal received, exiting without draining', { signal });
+        process.exit(1);
+      }
+      shuttingDown = true;
+      logger.info('Shutting down gracefully', { signal, activeRequests: container.gracefulShutdown.activeRequests });
+      container.healthChecks.markDraining();
+      const drained = await container.gracefulShutdown.drain(server, config.shutdownTimeoutMs);
+      if (!drained) {
+        logger.warn('Requests were still running after the shutdown timeout; their connections were closed', {
+          timeoutMs: config.shutdownTimeoutMs
+        });
+      }
+      try {
+        await container.cleanup();
+      } catch (error) {
+        logger.error('Cleanup failed', { error });
+        process.exit(1);
+      }
+      logger.info('Shutdown complete');
       process.exit(0);
-    });
+    };
+    process.on('SIGTERM', shutdown);
+    process.on('SIGINT', shutdown);
   } catch (error) {
-    console.error('Failed to start server:', error);
+    logger.error('Failed to start server', { error });
     process.exit(1);
   }
 }
 
 startServer();
-
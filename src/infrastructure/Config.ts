@@ -1,7 +1,18 @@
 import dotenv from '@dotenvx/dotenvx';
+import { randomBytes } from 'crypto';
+import { LOG_LEVELS, LogLevel } from '../application/ports/Logger';
 
-// Load environment variables from .env file
-dotenv.config();
+// Load environment variables from .env file; quiet, as stdout carries the
+// JSON logs of the server and the output of the CLI
+dotenv.config({ quiet: true });
+
+const MIN_TOKEN_SECRET_LENGTH = 32;
+// Shipped in earlier versions of .env.example, so publicly known
+const EXAMPLE_TOKEN_SECRET = 'change-me-to-a-long-random-string-of-32-chars-or-more';
+
+export const STORAGE_KINDS = ['memory', 'file', 'mongodb'] as const;
+
+export type StorageKind = typeof STORAGE_KINDS[number];
 
 /**
  * Application Configuration
@@ -13,18 +24,83 @@ export class Config {
   public readonly port: number;
   public readonly mongoUri: string;
   public readonly mongoDbName: string;
+  public readonly legacyOwnerId?: string;
+  public readonly mongoConnectAttempts: number;
+  public readonly mongoConnectRetryDelayMs: number;
   public readonly nodeEnv: string;
+  public readonly logLevel: LogLevel;
+  public readonly storage: StorageKind;
   public readonly useInMemoryDb: boolean;
+  public readonly dataDir: string;
+  public readonly fileCompactEvery: number;
+  public readonly webhookMaxAttempts: number;
+  public readonly webhookRetryBaseDelayMs: number;
+  public readonly webhookTimeoutMs: number;
+  public readonly webhookPollIntervalMs: number;
+  public readonly trashRetentionDays: number;
+  public readonly trashPurgeIntervalMs: number;
+  public readonly authTokenSecret: string;
+  public readonly authTokenSecretGenerated: boolean;
+  public readonly authTokenTtlSeconds: number;
+  public readonly importMaxBytes: number;
+  public readonly eventReplayBufferSize: number;
+  public readonly streamHeartbeatIntervalMs: number;
+  public readonly idempotencyKeyTtlSeconds: number;
+  public readonly healthCheckTimeoutMs: number;
+  public readonly shutdownTimeoutMs: number;
 
   private constructor() {
     this.port = parseInt(process.env.PORT || '3000', 10);
     this.mongoUri = process.env.MONGO_URI || 'mongodb://localhost:27017';
     this.mongoDbName = process.env.MONGO_DB_NAME || 'todo-app';
+    // Todos, history and webhooks stored before user accounts existed are given to this user
+    this.legacyOwnerId = process.env.LEGACY_OWNER_ID || undefined;
+    // Connecting at startup is retried, waiting twice as long after every failure
+    this.mongoConnectAttempts = parseInt(process.env.MONGO_CONNECT_ATTEMPTS || '5', 10);
+    this.mongoConnectRetryDelayMs = parseInt(process.env.MONGO_CONNECT_RETRY_DELAY_MS || '1000', 10);
     this.nodeEnv = process.env.NODE_ENV || 'development';
+    this.logLevel = (process.env.LOG_LEVEL || 'info') as LogLevel;
     
-    // Use in-memory DB if explicitly set or if MongoDB URI is not configured
-    this.useInMemoryDb = process.env.USE_IN_MEMORY_DB === 'true' || 
-                         process.env.MONGO_URI === undefined;
+    // STORAGE picks the storage; without it, use in-memory DB if explicitly set
+    // or if MongoDB URI is not configured
+    const inMemoryByDefault = process.env.USE_IN_MEMORY_DB === 'true' || process.env.MONGO_URI === undefined;
+    this.storage = (process.env.STORAGE || (inMemoryByDefault ? 'memory' : 'mongodb')) as StorageKind;
+    this.useInMemoryDb = this.storage === 'memory';
+
+    // File storage: snapshot and write-ahead log files, compacted every so many writes
+    this.dataDir = process.env.DATA_DIR || './data';
+    this.fileCompactEvery = parseInt(process.env.FILE_COMPACT_EVERY || '1000', 10);
+
+    // Webhook delivery: attempts include the first one, retries back off exponentially
+    this.webhookMaxAttempts = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5', 10);
+    this.webhookRetryBaseDelayMs = parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY_MS || '30000', 10);
+    this.webhookTimeoutMs = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10);
+    this.webhookPollIntervalMs = parseInt(process.env.WEBHOOK_POLL_INTERVAL_MS || '1000', 10);
+
+    // Deleted todos stay in the trash this long before they are purged
+    this.trashRetentionDays = parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10);
+    this.trashPurgeIntervalMs = parseInt(process.env.TRASH_PURGE_INTERVAL_MS || '3600000', 10);
+
+    // Bearer tokens are signed with this secret; without one, a random secret
+    // is generated and tokens stop working when the server restarts
+    this.authTokenSecretGenerated = !process.env.AUTH_TOKEN_SECRET;
+    this.authTokenSecret = process.env.AUTH_TOKEN_SECRET || randomBytes(32).toString('hex');
+    this.authTokenTtlSeconds = parseInt(process.env.AUTH_TOKEN_TTL_SECONDS || '3600', 10);
+
+    // Live todo stream: recent events kept for clients resuming after a disconnect
+    this.eventReplayBufferSize = parseInt(process.env.EVENT_REPLAY_BUFFER_SIZE || '1000', 10);
+    this.streamHeartbeatIntervalMs = parseInt(process.env.STREAM_HEARTBEAT_INTERVAL_MS || '15000', 10);
+
+    // Responses to requests with an Idempotency-Key are given again to retries for this long
+    this.idempotencyKeyTtlSeconds = parseInt(process.env.IDEMPOTENCY_KEY_TTL_SECONDS || '86400', 10);
+
+    // Dependencies answering slower than this are reported down by /health/ready
+    this.healthCheckTimeoutMs = parseInt(process.env.HEALTH_CHECK_TIMEOUT_MS || '2000', 10);
+    // Requests still running this long after SIGTERM are cut off
+    this.shutdownTimeoutMs = parseInt(process.env.SHUTDOWN_TIMEOUT_MS || '10000', 10);
+
+    // Largest import file accepted, in bytes
+    this.importMaxBytes = parseInt(process.env.IMPORT_MAX_BYTES || '5242880', 10);
   }
 
   public static getInstance(): Config {
@@ -35,19 +111,53 @@ export class Config {
   }
 
   public validate(): void {
-    if (!this.useInMemoryDb && !this.mongoUri) {
+    if (!STORAGE_KINDS.includes(this.storage)) {
+      throw new Error(`STORAGE must be one of ${STORAGE_KINDS.join(', ')}`);
+    }
+
+    if (!LOG_LEVELS.includes(this.logLevel)) {
+      throw new Error(`LOG_LEVEL must be one of ${LOG_LEVELS.join(', ')}`);
+    }
+
+    if (this.storage === 'mongodb' && !this.mongoUri) {
       throw new Error('MONGO_URI is required when not using in-memory database');
     }
-  }
 
-  public getInfo(): string {
-    return `
-Configuration:
-- Port: ${this.port}
-- Node Environment: ${this.nodeEnv}
-- Database: ${this.useInMemoryDb ? 'In-Memory' : 'MongoDB'}
-${!this.useInMemoryDb ? `- MongoDB URI: ${this.mongoUri}\n- MongoDB Database: ${this.mongoDbName}` : ''}
-    `.trim();
+    if (this.authTokenSecretGenerated && this.nodeEnv === 'production') {
+      throw new Error('AUTH_TOKEN_SECRET is required in production');
+    }
+
+    if (this.authTokenSecret.length < MIN_TOKEN_SECRET_LENGTH) {
+      throw new Error(`AUTH_TOKEN_SECRET must be at least ${MIN_TOKEN_SECRET_LENGTH} characters`);
+    }
+
+    if (this.authTokenSecret === EXAMPLE_TOKEN_SECRET) {
+      throw new Error('AUTH_TOKEN_SECRET is the example value; generate a secret of your own');
+    }
+
+    const positiveSettings = {
+      WEBHOOK_MAX_ATTEMPTS: this.webhookMaxAttempts,
+      WEBHOOK_RETRY_BASE_DELAY_MS: this.webhookRetryBaseDelayMs,
+      WEBHOOK_TIMEOUT_MS: this.webhookTimeoutMs,
+      WEBHOOK_POLL_INTERVAL_MS: this.webhookPollIntervalMs,
+      TRASH_RETENTION_DAYS: this.trashRetentionDays,
+      TRASH_PURGE_INTERVAL_MS: this.trashPurgeIntervalMs,
+      AUTH_TOKEN_TTL_SECONDS: this.authTokenTtlSeconds,
+      IMPORT_MAX_BYTES: this.importMaxBytes,
+      FILE_COMPACT_EVERY: this.fileCompactEvery,
+      EVENT_REPLAY_BUFFER_SIZE: this.eventReplayBufferSize,
+      STREAM_HEARTBEAT_INTERVAL_MS: this.streamHeartbeatIntervalMs,
+      IDEMPOTENCY_KEY_TTL_SECONDS: this.idempotencyKeyTtlSeconds,
+      MONGO_CONNECT_ATTEMPTS: this.mongoConnectAttempts,
+      MONGO_CONNECT_RETRY_DELAY_MS: this.mongoConnectRetryDelayMs,
+      HEALTH_CHECK_TIMEOUT_MS: this.healthCheckTimeoutMs,
+      SHUTDOWN_TIMEOUT_MS: this.shutdownTimeoutMs
+    };
+    for (const [name, value] of Object.entries(positiveSettings)) {
+      if (!Number.isInteger(value) || value < 1) {
+        throw new Error(`${name} must be a positive integer`);
+      }
+    }
   }
 }
 
@@ -1,3 +1,4 @@
+import { access, constants } from 'fs/promises';
 import { TodoRepository } from '../application/ports/TodoRepository';
 import { CreateTodoUseCase } from '../application/ports/CreateTodoUseCase';
 import { GetTodoUseCase } from '../application/ports/GetTodoUseCase';
@@ -5,6 +6,53 @@ import { ListTodosUseCase } from '../application/ports/ListTodosUseCase';
 import { UpdateTodoUseCase } from '../application/ports/UpdateTodoUseCase';
 import { CompleteTodoUseCase } from '../application/ports/CompleteTodoUseCase';
 import { DeleteTodoUseCase } from '../application/ports/DeleteTodoUseCase';
+import { ReopenTodoUseCase } from '../application/ports/ReopenTodoUseCase';
+import { BatchTodosUseCase } from '../application/ports/BatchTodosUseCase';
+import { SearchTodosUseCase } from '../application/ports/SearchTodosUseCase';
+import { WatchTodosUseCase } from '../application/ports/WatchTodosUseCase';
+import { IdempotencyStore } from '../application/ports/IdempotencyStore';
+import { IdempotentRequestsUseCase } from '../application/ports/IdempotentRequestsUseCase';
+import { ExportTodosUseCase } from '../application/ports/ExportTodosUseCase';
+import { ImportTodosUseCase } from '../application/ports/ImportTodosUseCase';
+import { TransactionManager } from '../application/ports/TransactionManager';
+import { Logger } from '../application/ports/Logger';
+import { GetAgendaUseCase } from '../application/ports/GetAgendaUseCase';
+import { ListTagsUseCase } from '../application/ports/ListTagsUseCase';
+import { RenameTagUseCase } from '../application/ports/RenameTagUseCase';
+import { DeleteTagUseCase } from '../application/ports/DeleteTagUseCase';
+import { AddChecklistItemUseCase } from '../application/ports/AddChecklistItemUseCase';
+import { ToggleChecklistItemUseCase } from '../application/ports/ToggleChecklistItemUseCase';
+import { ReorderChecklistUseCase } from '../application/ports/ReorderChecklistUseCase';
+import { RemoveChecklistItemUseCase } from '../application/ports/RemoveChecklistItemUseCase';
+import { GetSeriesUseCase } from '../application/ports/GetSeriesUseCase';
+import { UpdateSeriesUseCase } from '../application/ports/UpdateSeriesUseCase';
+import { EndSeriesUseCase } from '../application/ports/EndSeriesUseCase';
+import { WebhookRepository } from '../application/ports/WebhookRepository';
+import { WebhookDeliveryRepository } from '../application/ports/WebhookDeliveryRepository';
+import { RegisterWebhookUseCase } from '../application/ports/RegisterWebhookUseCase';
+import { ListWebhooksUseCase } from '../application/ports/ListWebhooksUseCase';
+import { GetWebhookUseCase } from '../application/ports/GetWebhookUseCase';
+import { DeleteWebhookUseCase } from '../application/ports/DeleteWebhookUseCase';
+import { ListWebhookDeliveriesUseCase } from '../application/ports/ListWebhookDeliveriesUseCase';
+import { ReplayWebhookDeliveryUseCase } from '../application/ports/ReplayWebhookDeliveryUseCase';
+import { EnqueueWebhookDeliveriesUseCase } from '../application/ports/EnqueueWebhookDeliveriesUseCase';
+import { ProcessWebhookDeliveriesUseCase } from '../application/ports/ProcessWebhookDeliveriesUseCase';
+import { AuditRepository } from '../application/ports/AuditRepository';
+import { GetTodoHistoryUseCase } from '../application/ports/GetTodoHistoryUseCase';
+import { ListTrashUseCase } from '../application/ports/ListTrashUseCase';
+import { RestoreTodoUseCase } from '../application/ports/RestoreTodoUseCase';
+import { PurgeTodoUseCase } from '../application/ports/PurgeTodoUseCase';
+import { EmptyTrashUseCase } from '../application/ports/EmptyTrashUseCase';
+import { UserRepository } from '../application/ports/UserRepository';
+import { TodoListRepository } from '../application/ports/TodoListRepository';
+import { CreateTodoListUseCase } from '../application/ports/CreateTodoListUseCase';
+import { ListTodoListsUseCase } from '../application/ports/ListTodoListsUseCase';
+import { GetTodoListUseCase } from '../application/ports/GetTodoListUseCase';
+import { RenameTodoListUseCase } from '../application/ports/RenameTodoListUseCase';
+import { DeleteTodoListUseCase } from '../application/ports/DeleteTodoListUseCase';
+import { RegisterUserUseCase } from '../application/ports/RegisterUserUseCase';
+import { LoginUseCase } from '../application/ports/LoginUseCase';
+import { AuthenticateUseCase } from '../application/ports/AuthenticateUseCase';
 
 import { CreateTodo } from '../application/use-cases/CreateTodo';
 import { GetTodo } from '../application/use-cases/GetTodo';
@@ -12,12 +60,97 @@ import { ListTodos } from '../application/use-cases/ListTodos';
 import { UpdateTodo } from '../application/use-cases/UpdateTodo';
 import { CompleteTodo } from '../application/use-cases/CompleteTodo';
 import { DeleteTodo } from '../application/use-cases/DeleteTodo';
+import { ReopenTodo } from '../application/use-cases/ReopenTodo';
+import { BatchTodos } from '../application/use-cases/BatchTodos';
+import { SearchTodos } from '../application/use-cases/SearchTodos';
+import { WatchTodos } from '../application/use-cases/WatchTodos';
+import { IdempotentRequests } from '../application/use-cases/IdempotentRequests';
+import { ExportTodos } from '../application/use-cases/ExportTodos';
+import { ImportTodos } from '../application/use-cases/ImportTodos';
+import { GetAgenda } from '../application/use-cases/GetAgenda';
+import { ListTags } from '../application/use-cases/ListTags';
+import { RenameTag } from '../application/use-cases/RenameTag';
+import { DeleteTag } from '../application/use-cases/DeleteTag';
+import { AddChecklistItem } from '../application/use-cases/AddChecklistItem';
+import { ToggleChecklistItem } from '../application/use-cases/ToggleChecklistItem';
+import { ReorderChecklist } from '../application/use-cases/ReorderChecklist';
+import { RemoveChecklistItem } from '../application/use-cases/RemoveChecklistItem';
+import { GetSeries } from '../application/use-cases/GetSeries';
+import { UpdateSeries } from '../application/use-cases/UpdateSeries';
+import { EndSeries } from '../application/use-cases/EndSeries';
+import { RegisterWebhook } from '../application/use-cases/RegisterWebhook';
+import { ListWebhooks } from '../application/use-cases/ListWebhooks';
+import { GetWebhook } from '../application/use-cases/GetWebhook';
+import { DeleteWebhook } from '../application/use-cases/DeleteWebhook';
+import { ListWebhookDeliveries } from '../application/use-cases/ListWebhookDeliveries';
+import { ReplayWebhookDelivery } from '../application/use-cases/ReplayWebhookDelivery';
+import { EnqueueWebhookDeliveries } from '../application/use-cases/EnqueueWebhookDeliveries';
+import { ProcessWebhookDeliveries } from '../application/use-cases/ProcessWebhookDeliveries';
+import { GetTodoHistory } from '../application/use-cases/GetTodoHistory';
+import { ListTrash } from '../application/use-cases/ListTrash';
+import { RestoreTodo } from '../application/use-cases/RestoreTodo';
+import { PurgeTodo } from '../application/use-cases/PurgeTodo';
+import { EmptyTrash } from '../application/use-cases/EmptyTrash';
+import { RegisterUser } from '../application/use-cases/RegisterUser';
+import { Login } from '../application/use-cases/Login';
+import { Authenticate } from '../application/use-cases/Authenticate';
+import { CreateTodoList } from '../application/use-cases/CreateTodoList';
+import { ListTodoLists } from '../application/use-cases/ListTodoLists';
+import { GetTodoList } from '../application/use-cases/GetTodoList';
+import { RenameTodoList } from '../application/use-cases/RenameTodoList';
+import { DeleteTodoList } from '../application/use-cases/DeleteTodoList';
 
 import { InMemoryTodoRepository } from '../adapters/outbound/InMemoryTodoRepository';
 import { MongoTodoRepository } from '../adapters/outbound/MongoTodoRepository';
+import { InMemoryEventBus } from '../adapters/outbound/InMemoryEventBus';
+import { InMemoryEventHistory } from '../adapters/outbound/InMemoryEventHistory';
+import { InMemoryIdempotencyStore } from '../adapters/outbound/InMemoryIdempotencyStore';
+import { MongoIdempotencyStore } from '../adapters/outbound/MongoIdempotencyStore';
+import { InMemoryWebhookRepository } from '../adapters/outbound/InMemoryWebhookRepository';
+import { MongoWebhookRepository } from '../adapters/outbound/MongoWebhookRepository';
+import { InMemoryWebhookDeliveryRepository } from '../adapters/outbound/InMemoryWebhookDeliveryRepository';
+import { MongoWebhookDeliveryRepository } from '../adapters/outbound/MongoWebhookDeliveryRepository';
+import { HttpWebhookSender } from '../adapters/outbound/HttpWebhookSender';
+import { InMemoryAuditRepository } from '../adapters/outbound/InMemoryAuditRepository';
+import { MongoAuditRepository } from '../adapters/outbound/MongoAuditRepository';
+import { InMemoryUserRepository } from '../adapters/outbound/InMemoryUserRepository';
+import { MongoUserRepository } from '../adapters/outbound/MongoUserRepository';
+import { InMemoryTodoListRepository } from '../adapters/outbound/InMemoryTodoListRepository';
+import { MongoTodoListRepository } from '../adapters/outbound/MongoTodoListRepository';
+import { ScryptPasswordHasher } from '../adapters/outbound/ScryptPasswordHasher';
+import { HmacTokenService } from '../adapters/outbound/HmacTokenService';
+import { InMemoryTransactionManager } from '../adapters/outbound/InMemoryTransactionManager';
+import { MongoTransactionManager } from '../adapters/outbound/MongoTransactionManager';
+import { translateMongoErrors } from '../adapters/outbound/MongoErrors';
+import { JsonFileStore } from '../adapters/outbound/JsonFileStore';
+import { FileTodoRepository } from '../adapters/outbound/FileTodoRepository';
+import { FileUserRepository } from '../adapters/outbound/FileUserRepository';
+import { FileTodoListRepository } from '../adapters/outbound/FileTodoListRepository';
+import { FileAuditRepository } from '../adapters/outbound/FileAuditRepository';
+import { FileWebhookRepository } from '../adapters/outbound/FileWebhookRepository';
+import { FileWebhookDeliveryRepository } from '../adapters/outbound/FileWebhookDeliveryRepository';
+import { FileIdempotencyStore } from '../adapters/outbound/FileIdempotencyStore';
+import { JsonLogger } from '../adapters/outbound/JsonLogger';
 import { TodoController } from '../adapters/inbound/TodoController';
+import { GraphQLController } from '../adapters/inbound/GraphQLController';
+import { OpenApiController } from '../adapters/inbound/OpenApiController';
+import { createApiDocument } from '../adapters/inbound/OpenApiDocument';
+import { TagController } from '../adapters/inbound/TagController';
+import { ChecklistController } from '../adapters/inbound/ChecklistController';
+import { SeriesController } from '../adapters/inbound/SeriesController';
+import { WebhookController } from '../adapters/inbound/WebhookController';
+import { TrashController } from '../adapters/inbound/TrashController';
+import { AuthController } from '../adapters/inbound/AuthController';
+import { TodoListController } from '../adapters/inbound/TodoListController';
+import { ImportExportController } from '../adapters/inbound/ImportExportController';
 import { Config } from './Config';
 import { MongoDBClient } from './MongoDBClient';
+import { WebhookWorker } from './WebhookWorker';
+import { TrashPurgeJob } from './TrashPurgeJob';
+import { HealthChecks } from './HealthChecks';
+import { GracefulShutdown } from './GracefulShutdown';
+import { MetricsRegistry } from './Metrics';
+import { Instrumentation } from './Instrumentation';
 
 /**
  * Dependency Injection Container
@@ -27,30 +160,117 @@ export class DependencyContainer {
   private static instance: DependencyContainer;
   
   private _config: Config;
+  private _logger: Logger;
+  private _metrics = new MetricsRegistry();
+  private _instrumentation: Instrumentation;
+  private _healthChecks: HealthChecks;
+  private _gracefulShutdown = new GracefulShutdown();
   private _mongoClient?: MongoDBClient;
+  // File-backed repositories, closed on cleanup to release their lock files
+  private _fileRepositories: Array<{ close(): Promise<void> }> = [];
   private _todoRepository?: TodoRepository;
+  private _eventBus: InMemoryEventBus;
+  private _eventHistory: InMemoryEventHistory;
+  private _webhookRepository?: WebhookRepository;
+  private _webhookDeliveryRepository?: WebhookDeliveryRepository;
+  private _webhookWorker?: WebhookWorker;
+  private _trashPurgeJob?: TrashPurgeJob;
+  private _auditRepository?: AuditRepository;
+  private _userRepository?: UserRepository;
+  private _todoListRepository?: TodoListRepository;
+  private _transactionManager?: TransactionManager;
+  private _idempotencyStore?: IdempotencyStore;
   private _createTodoUseCase?: CreateTodoUseCase;
   private _getTodoUseCase?: GetTodoUseCase;
   private _listTodosUseCase?: ListTodosUseCase;
   private _updateTodoUseCase?: UpdateTodoUseCase;
   private _completeTodoUseCase?: CompleteTodoUseCase;
   private _deleteTodoUseCase?: DeleteTodoUseCase;
+  private _reopenTodoUseCase?: ReopenTodoUseCase;
+  private _batchTodosUseCase?: BatchTodosUseCase;
+  private _searchTodosUseCase?: SearchTodosUseCase;
+  private _watchTodosUseCase?: WatchTodosUseCase;
+  private _idempotentRequestsUseCase?: IdempotentRequestsUseCase;
+  private _exportTodosUseCase?: ExportTodosUseCase;
+  private _importTodosUseCase?: ImportTodosUseCase;
+  private _getAgendaUseCase?: GetAgendaUseCase;
+  private _listTagsUseCase?: ListTagsUseCase;
+  private _renameTagUseCase?: RenameTagUseCase;
+  private _deleteTagUseCase?: DeleteTagUseCase;
+  private _addChecklistItemUseCase?: AddChecklistItemUseCase;
+  private _toggleChecklistItemUseCase?: ToggleChecklistItemUseCase;
+  private _reorderChecklistUseCase?: ReorderChecklistUseCase;
+  private _removeChecklistItemUseCase?: RemoveChecklistItemUseCase;
+  private _getSeriesUseCase?: GetSeriesUseCase;
+  private _updateSeriesUseCase?: UpdateSeriesUseCase;
+  private _endSeriesUseCase?: EndSeriesUseCase;
+  private _registerWebhookUseCase?: RegisterWebhookUseCase;
+  private _listWebhooksUseCase?: ListWebhooksUseCase;
+  private _getWebhookUseCase?: GetWebhookUseCase;
+  private _deleteWebhookUseCase?: DeleteWebhookUseCase;
+  private _listWebhookDeliveriesUseCase?: ListWebhookDeliveriesUseCase;
+  private _replayWebhookDeliveryUseCase?: ReplayWebhookDeliveryUseCase;
+  private _enqueueWebhookDeliveriesUseCase?: EnqueueWebhookDeliveriesUseCase;
+  private _processWebhookDeliveriesUseCase?: ProcessWebhookDeliveriesUseCase;
+  private _getTodoHistoryUseCase?: GetTodoHistoryUseCase;
+  private _listTrashUseCase?: ListTrashUseCase;
+  private _restoreTodoUseCase?: RestoreTodoUseCase;
+  private _purgeTodoUseCase?: PurgeTodoUseCase;
+  private _emptyTrashUseCase?: EmptyTrashUseCase;
+  private _registerUserUseCase?: RegisterUserUseCase;
+  private _loginUseCase?: LoginUseCase;
+  private _authenticateUseCase?: AuthenticateUseCase;
+  private _createTodoListUseCase?: CreateTodoListUseCase;
+  private _listTodoListsUseCase?: ListTodoListsUseCase;
+  private _getTodoListUseCase?: GetTodoListUseCase;
+  private _renameTodoListUseCase?: RenameTodoListUseCase;
+  private _deleteTodoListUseCase?: DeleteTodoListUseCase;
   private _todoController?: TodoController;
+  private _graphQLController?: GraphQLController;
+  private _openApiController?: OpenApiController;
+  private _tagController?: TagController;
+  private _checklistController?: ChecklistController;
+  private _seriesController?: SeriesController;
+  private _webhookController?: WebhookController;
+  private _trashController?: TrashController;
+  private _authController?: AuthController;
+  private _todoListController?: TodoListController;
+  private _importExportController?: ImportExportController;
 
   private constructor() {
     // Load configuration
     this._config = Config.getInstance();
     this._config.validate();
+    this._logger = new JsonLogger(this._config.logLevel);
+    this._instrumentation = new Instrumentation(this._metrics, this._logger);
+    this.registerProcessMetrics();
+    this._healthChecks = new HealthChecks(this._config.healthCheckTimeoutMs, this._logger);
+    if (this._config.authTokenSecretGenerated) {
+      this._logger.warn('AUTH_TOKEN_SECRET is not set; issued tokens will not survive a restart');
+    }
+
+    // Domain events are published in-process; integrations subscribe to the bus
+    this._eventBus = new InMemoryEventBus(this._logger);
+    // Subscribes first, so that streams resuming after an event find it recorded
+    this._eventHistory = new InMemoryEventHistory(this._eventBus, this._config.eventReplayBufferSize);
 
     // Initialize repository (outbound adapter) based on configuration
-    if (this._config.useInMemoryDb) {
-      console.log('Using In-Memory repository');
+    if (this._config.storage === 'memory') {
+      this._logger.info('Using In-Memory repository');
+    } else if (this._config.storage === 'file') {
+      this._logger.info('Using JSON file repository', { dataDir: this._config.dataDir });
+      const dataDir = this._config.dataDir;
+      this._healthChecks.register('files', () => access(dataDir, constants.W_OK));
     } else {
-      console.log('Using MongoDB repository');
+      this._logger.info('Using MongoDB repository');
       this._mongoClient = MongoDBClient.getInstance(
         this._config.mongoUri,
-        this._config.mongoDbName
+        this._config.mongoDbName,
+        this._logger
       );
+      this.registerMongoPoolMetrics(this._mongoClient);
+      const mongoClient = this._mongoClient;
+      this._healthChecks.register('mongodb', () => mongoClient.ping());
       // Repository and use cases will be initialized after connection in initialize()
     }
   }
@@ -62,53 +282,385 @@ export class DependencyContainer {
     return DependencyContainer.instance;
   }
 
+  private registerProcessMetrics(): void {
+    this._metrics.gauge('process_resident_memory_bytes', 'Resident memory size', () => [[{}, process.memoryUsage().rss]]);
+    this._metrics.gauge('nodejs_heap_used_bytes', 'V8 heap in use', () => [[{}, process.memoryUsage().heapUsed]]);
+    this._metrics.gauge('process_uptime_seconds', 'Time since the process started', () => [[{}, process.uptime()]]);
+  }
+
+  private registerMongoPoolMetrics(client: MongoDBClient): void {
+    this._metrics.gauge('mongodb_pool_connections', 'MongoDB connection pool, by state', () => {
+      const stats = client.poolStats();
+      return [
+        [{ state: 'open' }, stats.open],
+        [{ state: 'checked_out' }, stats.checkedOut],
+        [{ state: 'waiting' }, stats.waiting]
+      ];
+    });
+    this._metrics.gauge('mongodb_pool_max_connections', 'Largest size of the MongoDB connection pool', () => [
+      [{}, client.poolStats().maxSize]
+    ]);
+  }
+
   private initializeUseCases(): void {
-    if (!this._todoRepository) {
+    if (!this._todoRepository || !this._auditRepository || !this._webhookRepository || !this._webhookDeliveryRepository ||
+        !this._userRepository || !this._todoListRepository || !this._transactionManager || !this._idempotencyStore) {
       throw new Error('Repository must be initialized before use cases.');
     }
-    // Initialize use cases (application layer)
-    this._createTodoUseCase = new CreateTodo(this._todoRepository);
-    this._getTodoUseCase = new GetTodo(this._todoRepository);
-    this._listTodosUseCase = new ListTodos(this._todoRepository);
-    this._updateTodoUseCase = new UpdateTodo(this._todoRepository);
-    this._completeTodoUseCase = new CompleteTodo(this._todoRepository);
-    this._deleteTodoUseCase = new DeleteTodo(this._todoRepository);
+    // Initialize use cases (application layer); each is counted by outcome
+    const instrument = <T extends object>(name: string, useCase: T): T => this._instrumentation.useCase(name, useCase);
+    const passwordHasher = new ScryptPasswordHasher();
+    const tokenService = new HmacTokenService(this._config.authTokenSecret, this._config.authTokenTtlSeconds);
+    this._registerUserUseCase = instrument('RegisterUser', new RegisterUser(this._userRepository, passwordHasher));
+    this._loginUseCase = instrument('Login', new Login(this._userRepository, passwordHasher, tokenService));
+    this._authenticateUseCase = instrument('Authenticate', new Authenticate(this._userRepository, tokenService));
+    this._idempotentRequestsUseCase = instrument('IdempotentRequests', new IdempotentRequests(
+      this._idempotencyStore, this._config.idempotencyKeyTtlSeconds
+    ));
+
+    this._createTodoUseCase = instrument('CreateTodo', new CreateTodo(
+      this._todoRepository, this._eventBus, this._todoListRepository
+    ));
+    this._getTodoUseCase = instrument('GetTodo', new GetTodo(this._todoRepository));
+    this._listTodosUseCase = instrument('ListTodos', new ListTodos(this._todoRepository, this._todoListRepository));
+    this._updateTodoUseCase = instrument('UpdateTodo', new UpdateTodo(
+      this._todoRepository, this._eventBus, this._auditRepository, this._todoListRepository
+    ));
+    this._completeTodoUseCase = instrument('CompleteTodo', new CompleteTodo(
+      this._todoRepository, this._eventBus, this._auditRepository, this._transactionManager
+    ));
+    this._deleteTodoUseCase = instrument('DeleteTodo', new DeleteTodo(
+      this._todoRepository, this._eventBus, this._auditRepository
+    ));
+    this._reopenTodoUseCase = instrument('ReopenTodo', new ReopenTodo(
+      this._todoRepository, this._eventBus, this._auditRepository
+    ));
+    this._batchTodosUseCase = instrument('BatchTodos', new BatchTodos(
+      this._createTodoUseCase,
+      this._updateTodoUseCase,
+      this._completeTodoUseCase,
+      this._reopenTodoUseCase,
+      this._deleteTodoUseCase,
+      this._transactionManager
+    ));
+    this._getAgendaUseCase = instrument('GetAgenda', new GetAgenda(this._todoRepository));
+    this._searchTodosUseCase = instrument('SearchTodos', new SearchTodos(this._todoRepository));
+    this._watchTodosUseCase = instrument('WatchTodos', new WatchTodos(
+      this._eventBus, this._eventHistory, this._todoListRepository
+    ));
+    this._exportTodosUseCase = instrument('ExportTodos', new ExportTodos(this._todoRepository));
+    this._importTodosUseCase = instrument('ImportTodos', new ImportTodos(
+      this._todoRepository, this._todoListRepository
+    ));
+    this._getTodoHistoryUseCase = instrument('GetTodoHistory', new GetTodoHistory(
+      this._todoRepository, this._auditRepository
+    ));
+    this._listTrashUseCase = instrument('ListTrash', new ListTrash(this._todoRepository));
+    this._restoreTodoUseCase = instrument('RestoreTodo', new RestoreTodo(
+      this._todoRepository, this._eventBus, this._auditRepository
+    ));
+    this._purgeTodoUseCase = instrument('PurgeTodo', new PurgeTodo(
+      this._todoRepository, this._eventBus, this._auditRepository
+    ));
+    this._emptyTrashUseCase = instrument('EmptyTrash', new EmptyTrash(
+      this._todoRepository, this._eventBus, this._auditRepository
+    ));
+    this._createTodoListUseCase = instrument('CreateTodoList', new CreateTodoList(this._todoListRepository));
+    this._listTodoListsUseCase = instrument('ListTodoLists', new ListTodoLists(
+      this._todoListRepository, this._todoRepository
+    ));
+    this._getTodoListUseCase = instrument('GetTodoList', new GetTodoList(
+      this._todoListRepository, this._todoRepository
+    ));
+    this._renameTodoListUseCase = instrument('RenameTodoList', new RenameTodoList(this._todoListRepository));
+    this._deleteTodoListUseCase = instrument('DeleteTodoList', new DeleteTodoList(
+      this._todoListRepository, this._todoRepository, this._eventBus, this._auditRepository, this._transactionManager
+    ));
+    this._listTagsUseCase = instrument('ListTags', new ListTags(this._todoRepository));
+    this._renameTagUseCase = instrument('RenameTag', new RenameTag(this._todoRepository));
+    this._deleteTagUseCase = instrument('DeleteTag', new DeleteTag(this._todoRepository));
+    this._addChecklistItemUseCase = instrument('AddChecklistItem', new AddChecklistItem(
+      this._todoRepository, this._eventBus
+    ));
+    this._toggleChecklistItemUseCase = instrument('ToggleChecklistItem', new ToggleChecklistItem(
+      this._todoRepository, this._eventBus
+    ));
+    this._reorderChecklistUseCase = instrument('ReorderChecklist', new ReorderChecklist(
+      this._todoRepository, this._eventBus
+    ));
+    this._removeChecklistItemUseCase = instrument('RemoveChecklistItem', new RemoveChecklistItem(
+      this._todoRepository, this._eventBus
+    ));
+    this._getSeriesUseCase = instrument('GetSeries', new GetSeries(this._todoRepository));
+    this._updateSeriesUseCase = instrument('UpdateSeries', new UpdateSeries(
+      this._todoRepository, this._eventBus, this._auditRepository, this._transactionManager
+    ));
+    this._endSeriesUseCase = instrument('EndSeries', new EndSeries(
+      this._todoRepository, this._eventBus, this._auditRepository, this._transactionManager
+    ));
+
+    const webhookSender = new HttpWebhookSender(this._config.webhookTimeoutMs);
+    const retryPolicy = {
+      maxAttempts: this._config.webhookMaxAttempts,
+      baseDelayMs: this._config.webhookRetryBaseDelayMs
+    };
+    this._registerWebhookUseCase = instrument('RegisterWebhook', new RegisterWebhook(this._webhookRepository));
+    this._listWebhooksUseCase = instrument('ListWebhooks', new ListWebhooks(this._webhookRepository));
+    this._getWebhookUseCase = instrument('GetWebhook', new GetWebhook(this._webhookRepository));
+    this._deleteWebhookUseCase = instrument('DeleteWebhook', new DeleteWebhook(
+      this._webhookRepository, this._webhookDeliveryRepository
+    ));
+    this._listWebhookDeliveriesUseCase = instrument('ListWebhookDeliveries', new ListWebhookDeliveries(
+      this._webhookRepository, this._webhookDeliveryRepository
+    ));
+    this._replayWebhookDeliveryUseCase = instrument('ReplayWebhookDelivery', new ReplayWebhookDelivery(
+      this._webhookRepository, this._webhookDeliveryRepository, webhookSender, retryPolicy
+    ));
+    this._enqueueWebhookDeliveriesUseCase = instrument('EnqueueWebhookDeliveries', new EnqueueWebhookDeliveries(
+      this._webhookRepository, this._webhookDeliveryRepository
+    ));
+    this._processWebhookDeliveriesUseCase = instrument('ProcessWebhookDeliveries', new ProcessWebhookDeliveries(
+      this._webhookRepository, this._webhookDeliveryRepository, webhookSender, retryPolicy
+    ));
 
     // Initialize controller (inbound adapter)
+    this._authController = new AuthController(
+      this._registerUserUseCase,
+      this._loginUseCase
+    );
+
     this._todoController = new TodoController(
       this._createTodoUseCase,
       this._getTodoUseCase,
       this._listTodosUseCase,
       this._updateTodoUseCase,
       this._completeTodoUseCase,
-      this._deleteTodoUseCase
+      this._deleteTodoUseCase,
+      this._getAgendaUseCase,
+      this._getTodoHistoryUseCase,
+      this._reopenTodoUseCase,
+      this._batchTodosUseCase,
+      this._searchTodosUseCase,
+      this._watchTodosUseCase,
+      this._config.streamHeartbeatIntervalMs
+    );
+
+    this._graphQLController = new GraphQLController(
+      this._createTodoUseCase,
+      this._getTodoUseCase,
+      this._listTodosUseCase,
+      this._updateTodoUseCase,
+      this._completeTodoUseCase,
+      this._reopenTodoUseCase,
+      this._deleteTodoUseCase,
+      this._getAgendaUseCase,
+      this._getTodoHistoryUseCase,
+      this._searchTodosUseCase,
+      this._eventBus,
+      this._logger
+    );
+
+    this._openApiController = new OpenApiController(createApiDocument());
+
+    this._importExportController = new ImportExportController(
+      this._exportTodosUseCase,
+      this._importTodosUseCase
+    );
+
+    this._todoListController = new TodoListController(
+      this._createTodoListUseCase,
+      this._listTodoListsUseCase,
+      this._getTodoListUseCase,
+      this._renameTodoListUseCase,
+      this._deleteTodoListUseCase
+    );
+
+    this._tagController = new TagController(
+      this._listTagsUseCase,
+      this._renameTagUseCase,
+      this._deleteTagUseCase
+    );
+
+    this._checklistController = new ChecklistController(
+      this._addChecklistItemUseCase,
+      this._toggleChecklistItemUseCase,
+      this._reorderChecklistUseCase,
+      this._removeChecklistItemUseCase
+    );
+
+    this._seriesController = new SeriesController(
+      this._getSeriesUseCase,
+      this._updateSeriesUseCase,
+      this._endSeriesUseCase
+    );
+
+    this._trashController = new TrashController(
+      this._listTrashUseCase,
+      this._restoreTodoUseCase,
+      this._purgeTodoUseCase,
+      this._emptyTrashUseCase
+    );
+
+    this._webhookController = new WebhookController(
+      this._registerWebhookUseCase,
+      this._listWebhooksUseCase,
+      this._getWebhookUseCase,
+      this._deleteWebhookUseCase,
+      this._listWebhookDeliveriesUseCase,
+      this._replayWebhookDeliveryUseCase
     );
   }
 
+  /**
+   * Queue every event for its webhooks and send them in the background,
+   * so that slow receivers do not hold up API requests. Without the worker,
+   * deliveries stay queued for a process that runs one.
+   */
+  private initializeWebhooks(runWorker: boolean): void {
+    const enqueue = this.enqueueWebhookDeliveriesUseCase;
+    const worker = runWorker
+      ? new WebhookWorker(this.processWebhookDeliveriesUseCase, this._config.webhookPollIntervalMs, this._logger)
+      : undefined;
+
+    this._eventBus.subscribe('*', async event => {
+      const deliveries = await enqueue.execute(event);
+      if (deliveries.length > 0) {
+        void worker?.tick();
+      }
+    });
+
+    worker?.start();
+    this._webhookWorker = worker;
+  }
+
   /**
    * Initialize async resources (like database connections)
+   * Short-lived processes such as the CLI pass `backgroundJobs: false` to
+   * leave webhook sending and trash purging to the server.
    */
-  public async initialize(): Promise<void> {
+  public async initialize(options: { backgroundJobs?: boolean } = {}): Promise<void> {
+    const backgroundJobs = options.backgroundJobs ?? true;
+
     if (this._config.useInMemoryDb) {
       this._todoRepository = new InMemoryTodoRepository();
+      this._auditRepository = new InMemoryAuditRepository();
+      this._userRepository = new InMemoryUserRepository();
+      this._todoListRepository = new InMemoryTodoListRepository();
+      this._webhookRepository = new InMemoryWebhookRepository();
+      this._webhookDeliveryRepository = new InMemoryWebhookDeliveryRepository();
+      this._transactionManager = new InMemoryTransactionManager();
+      this._idempotencyStore = new InMemoryIdempotencyStore();
+    } else if (this._config.storage === 'file') {
+      // Each repository is kept in files of its own under DATA_DIR
+      const storeOptions = { directory: this._config.dataDir, compactEvery: this._config.fileCompactEvery };
+      const store = <T>(name: string) => new JsonFileStore<T>({ ...storeOptions, name }, this._logger);
+      const todoRepository = new FileTodoRepository(store('todos'));
+      const auditRepository = new FileAuditRepository(store('history'));
+      const userRepository = new FileUserRepository(store('users'));
+      const todoListRepository = new FileTodoListRepository(store('lists'));
+      const webhookRepository = new FileWebhookRepository(store('webhooks'));
+      const webhookDeliveryRepository = new FileWebhookDeliveryRepository(store('webhook_deliveries'));
+      const idempotencyStore = new FileIdempotencyStore(store('idempotency_keys'));
+      this._fileRepositories = [
+        todoRepository,
+        auditRepository,
+        userRepository,
+        todoListRepository,
+        webhookRepository,
+        webhookDeliveryRepository,
+        idempotencyStore
+      ];
+      this._todoRepository = todoRepository;
+      this._auditRepository = auditRepository;
+      this._userRepository = userRepository;
+      this._todoListRepository = todoListRepository;
+      this._webhookRepository = webhookRepository;
+      this._webhookDeliveryRepository = webhookDeliveryRepository;
+      this._transactionManager = new InMemoryTransactionManager();
+      this._idempotencyStore = idempotencyStore;
     } else if (this._mongoClient) {
-      await this._mongoClient.connect();
-      // Now that connected, create repository and use cases
-      this._todoRepository = new MongoTodoRepository(this._mongoClient);
+      await this._mongoClient.connect({
+        attempts: this._config.mongoConnectAttempts,
+        delayMs: this._config.mongoConnectRetryDelayMs
+      });
+      // Now that connected, create repository and use cases; driver errors become InfrastructureException
+      const client = this._mongoClient;
+      const logger = this._logger;
+      const legacyOwnerId = this._config.legacyOwnerId;
+      this._todoRepository = translateMongoErrors(new MongoTodoRepository(client, logger, legacyOwnerId));
+      this._auditRepository = translateMongoErrors(new MongoAuditRepository(client, logger, legacyOwnerId));
+      this._userRepository = translateMongoErrors(new MongoUserRepository(client, logger));
+      this._todoListRepository = translateMongoErrors(new MongoTodoListRepository(client, logger));
+      this._webhookRepository = translateMongoErrors(new MongoWebhookRepository(client, logger, legacyOwnerId));
+      this._webhookDeliveryRepository = translateMongoErrors(new MongoWebhookDeliveryRepository(client, logger));
+      this._transactionManager = translateMongoErrors(new MongoTransactionManager(client));
+      this._idempotencyStore = translateMongoErrors(new MongoIdempotencyStore(client, logger));
     }
 
     if (!this._todoRepository) {
       throw new Error('Failed to initialize TodoRepository.');
     }
-    
+
+    if (!this._auditRepository) {
+      throw new Error('Failed to initialize AuditRepository.');
+    }
+
+    if (!this._userRepository) {
+      throw new Error('Failed to initialize UserRepository.');
+    }
+
+    if (!this._todoListRepository) {
+      throw new Error('Failed to initialize TodoListRepository.');
+    }
+
+    if (!this._webhookRepository || !this._webhookDeliveryRepository) {
+      throw new Error('Failed to initialize webhook repositories.');
+    }
+
+    if (!this._idempotencyStore) {
+      throw new Error('Failed to initialize IdempotencyStore.');
+    }
+
+    // Every repository operation is timed
+    const instrumentation = this._instrumentation;
+    this._todoRepository = instrumentation.repository('TodoRepository', this._todoRepository);
+    this._auditRepository = instrumentation.repository('AuditRepository', this._auditRepository);
+    this._userRepository = instrumentation.repository('UserRepository', this._userRepository);
+    this._todoListRepository = instrumentation.repository('TodoListRepository', this._todoListRepository);
+    this._webhookRepository = instrumentation.repository('WebhookRepository', this._webhookRepository);
+    this._webhookDeliveryRepository = instrumentation.repository(
+      'WebhookDeliveryRepository', this._webhookDeliveryRepository
+    );
+    this._idempotencyStore = instrumentation.repository('IdempotencyStore', this._idempotencyStore);
+
     await this._todoRepository.init();
+    await this._auditRepository.init();
+    await this._userRepository.init();
+    await this._todoListRepository.init();
+    await this._webhookRepository.init();
+    await this._webhookDeliveryRepository.init();
+    await this._idempotencyStore.init();
     this.initializeUseCases();
+    this.initializeWebhooks(backgroundJobs);
+
+    if (backgroundJobs) {
+      this._trashPurgeJob = new TrashPurgeJob(
+        this.emptyTrashUseCase,
+        this._config.trashRetentionDays,
+        this._config.trashPurgeIntervalMs,
+        this._logger
+      );
+      this._trashPurgeJob.start();
+    }
   }
 
   /**
    * Cleanup resources
    */
   public async cleanup(): Promise<void> {
+    this._webhookWorker?.stop();
+    this._trashPurgeJob?.stop();
+    await Promise.all(this._fileRepositories.map(repository => repository.close()));
     if (this._mongoClient) {
       await this._mongoClient.disconnect();
     }
@@ -118,10 +670,30 @@ export class DependencyContainer {
     return this._config;
   }
 
+  get logger(): Logger {
+    return this._logger;
+  }
+
+  get metrics(): MetricsRegistry {
+    return this._metrics;
+  }
+
+  get healthChecks(): HealthChecks {
+    return this._healthChecks;
+  }
+
+  get gracefulShutdown(): GracefulShutdown {
+    return this._gracefulShutdown;
+  }
+
   get mongoClient(): MongoDBClient | undefined {
     return this._mongoClient;
   }
 
+  get eventBus(): InMemoryEventBus {
+    return this._eventBus;
+  }
+
   get todoRepository(): TodoRepository {
     if (!this._todoRepository) {
       throw new Error('Repository not initialized. Call initialize() first.');
@@ -129,6 +701,41 @@ export class DependencyContainer {
     return this._todoRepository;
   }
 
+  get auditRepository(): AuditRepository {
+    if (!this._auditRepository) {
+      throw new Error('Repository not initialized. Call initialize() first.');
+    }
+    return this._auditRepository;
+  }
+
+  get userRepository(): UserRepository {
+    if (!this._userRepository) {
+      throw new Error('Repository not initialized. Call initialize() first.');
+    }
+    return this._userRepository;
+  }
+
+  get todoListRepository(): TodoListRepository {
+    if (!this._todoListRepository) {
+      throw new Error('Repository not initialized. Call initialize() first.');
+    }
+    return this._todoListRepository;
+  }
+
+  get webhookRepository(): WebhookRepository {
+    if (!this._webhookRepository) {
+      throw new Error('Repository not initialized. Call initialize() first.');
+    }
+    return this._webhookRepository;
+  }
+
+  get webhookDeliveryRepository(): WebhookDeliveryRepository {
+    if (!this._webhookDeliveryRepository) {
+      throw new Error('Repository not initialized. Call initialize() first.');
+    }
+    return this._webhookDeliveryRepository;
+  }
+
   get createTodoUseCase(): CreateTodoUseCase {
     if (!this._createTodoUseCase) {
       throw new Error('Use cases not initialized. Call initialize() first.');
@@ -171,11 +778,353 @@ export class DependencyContainer {
     return this._deleteTodoUseCase;
   }
 
+  get reopenTodoUseCase(): ReopenTodoUseCase {
+    if (!this._reopenTodoUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._reopenTodoUseCase;
+  }
+
+  get batchTodosUseCase(): BatchTodosUseCase {
+    if (!this._batchTodosUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._batchTodosUseCase;
+  }
+
+  get searchTodosUseCase(): SearchTodosUseCase {
+    if (!this._searchTodosUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._searchTodosUseCase;
+  }
+
+  get watchTodosUseCase(): WatchTodosUseCase {
+    if (!this._watchTodosUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._watchTodosUseCase;
+  }
+
+  get exportTodosUseCase(): ExportTodosUseCase {
+    if (!this._exportTodosUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._exportTodosUseCase;
+  }
+
+  get importTodosUseCase(): ImportTodosUseCase {
+    if (!this._importTodosUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._importTodosUseCase;
+  }
+
+  get getAgendaUseCase(): GetAgendaUseCase {
+    if (!this._getAgendaUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._getAgendaUseCase;
+  }
+
+  get createTodoListUseCase(): CreateTodoListUseCase {
+    if (!this._createTodoListUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._createTodoListUseCase;
+  }
+
+  get listTodoListsUseCase(): ListTodoListsUseCase {
+    if (!this._listTodoListsUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._listTodoListsUseCase;
+  }
+
+  get getTodoListUseCase(): GetTodoListUseCase {
+    if (!this._getTodoListUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._getTodoListUseCase;
+  }
+
+  get renameTodoListUseCase(): RenameTodoListUseCase {
+    if (!this._renameTodoListUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._renameTodoListUseCase;
+  }
+
+  get deleteTodoListUseCase(): DeleteTodoListUseCase {
+    if (!this._deleteTodoListUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._deleteTodoListUseCase;
+  }
+
+  get listTagsUseCase(): ListTagsUseCase {
+    if (!this._listTagsUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._listTagsUseCase;
+  }
+
+  get renameTagUseCase(): RenameTagUseCase {
+    if (!this._renameTagUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._renameTagUseCase;
+  }
+
+  get deleteTagUseCase(): DeleteTagUseCase {
+    if (!this._deleteTagUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._deleteTagUseCase;
+  }
+
+  get addChecklistItemUseCase(): AddChecklistItemUseCase {
+    if (!this._addChecklistItemUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._addChecklistItemUseCase;
+  }
+
+  get toggleChecklistItemUseCase(): ToggleChecklistItemUseCase {
+    if (!this._toggleChecklistItemUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._toggleChecklistItemUseCase;
+  }
+
+  get reorderChecklistUseCase(): ReorderChecklistUseCase {
+    if (!this._reorderChecklistUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._reorderChecklistUseCase;
+  }
+
+  get removeChecklistItemUseCase(): RemoveChecklistItemUseCase {
+    if (!this._removeChecklistItemUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._removeChecklistItemUseCase;
+  }
+
+  get getSeriesUseCase(): GetSeriesUseCase {
+    if (!this._getSeriesUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._getSeriesUseCase;
+  }
+
+  get updateSeriesUseCase(): UpdateSeriesUseCase {
+    if (!this._updateSeriesUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._updateSeriesUseCase;
+  }
+
+  get endSeriesUseCase(): EndSeriesUseCase {
+    if (!this._endSeriesUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._endSeriesUseCase;
+  }
+
+  get getTodoHistoryUseCase(): GetTodoHistoryUseCase {
+    if (!this._getTodoHistoryUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._getTodoHistoryUseCase;
+  }
+
+  get listTrashUseCase(): ListTrashUseCase {
+    if (!this._listTrashUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._listTrashUseCase;
+  }
+
+  get restoreTodoUseCase(): RestoreTodoUseCase {
+    if (!this._restoreTodoUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._restoreTodoUseCase;
+  }
+
+  get purgeTodoUseCase(): PurgeTodoUseCase {
+    if (!this._purgeTodoUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._purgeTodoUseCase;
+  }
+
+  get emptyTrashUseCase(): EmptyTrashUseCase {
+    if (!this._emptyTrashUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._emptyTrashUseCase;
+  }
+
+  get registerUserUseCase(): RegisterUserUseCase {
+    if (!this._registerUserUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._registerUserUseCase;
+  }
+
+  get loginUseCase(): LoginUseCase {
+    if (!this._loginUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._loginUseCase;
+  }
+
+  get authenticateUseCase(): AuthenticateUseCase {
+    if (!this._authenticateUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._authenticateUseCase;
+  }
+
+  get idempotentRequestsUseCase(): IdempotentRequestsUseCase {
+    if (!this._idempotentRequestsUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._idempotentRequestsUseCase;
+  }
+
+  get registerWebhookUseCase(): RegisterWebhookUseCase {
+    if (!this._registerWebhookUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._registerWebhookUseCase;
+  }
+
+  get listWebhooksUseCase(): ListWebhooksUseCase {
+    if (!this._listWebhooksUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._listWebhooksUseCase;
+  }
+
+  get getWebhookUseCase(): GetWebhookUseCase {
+    if (!this._getWebhookUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._getWebhookUseCase;
+  }
+
+  get deleteWebhookUseCase(): DeleteWebhookUseCase {
+    if (!this._deleteWebhookUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._deleteWebhookUseCase;
+  }
+
+  get listWebhookDeliveriesUseCase(): ListWebhookDeliveriesUseCase {
+    if (!this._listWebhookDeliveriesUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._listWebhookDeliveriesUseCase;
+  }
+
+  get replayWebhookDeliveryUseCase(): ReplayWebhookDeliveryUseCase {
+    if (!this._replayWebhookDeliveryUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._replayWebhookDeliveryUseCase;
+  }
+
+  get enqueueWebhookDeliveriesUseCase(): EnqueueWebhookDeliveriesUseCase {
+    if (!this._enqueueWebhookDeliveriesUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._enqueueWebhookDeliveriesUseCase;
+  }
+
+  get processWebhookDeliveriesUseCase(): ProcessWebhookDeliveriesUseCase {
+    if (!this._processWebhookDeliveriesUseCase) {
+      throw new Error('Use cases not initialized. Call initialize() first.');
+    }
+    return this._processWebhookDeliveriesUseCase;
+  }
+
+  get authController(): AuthController {
+    if (!this._authController) {
+      throw new Error('Controller not initialized. Call initialize() first.');
+    }
+    return this._authController;
+  }
+
   get todoController(): TodoController {
     if (!this._todoController) {
       throw new Error('Controller not initialized. Call initialize() first.');
     }
     return this._todoController;
   }
-}
 
+  get graphQLController(): GraphQLController {
+    if (!this._graphQLController) {
+      throw new Error('Controller not initialized. Call initialize() first.');
+    }
+    return this._graphQLController;
+  }
+
+  get openApiController(): OpenApiController {
+    if (!this._openApiController) {
+      throw new Error('Controller not initialized. Call initialize() first.');
+    }
+    return this._openApiController;
+  }
+
+  get todoListController(): TodoListController {
+    if (!this._todoListController) {
+      throw new Error('Controller not initialized. Call initialize() first.');
+    }
+    return this._todoListController;
+  }
+
+  get importExportController(): ImportExportController {
+    if (!this._importExportController) {
+      throw new Error('Controller not initialized. Call initialize() first.');
+    }
+    return this._importExportController;
+  }
+
+  get tagController(): TagController {
+    if (!this._tagController) {
+      throw new Error('Controller not initialized. Call initialize() first.');
+    }
+    return this._tagController;
+  }
+
+  get checklistController(): ChecklistController {
+    if (!this._checklistController) {
+      throw new Error('Controller not initialized. Call initialize() first.');
+    }
+    return this._checklistController;
+  }
+
+  get seriesController(): SeriesController {
+    if (!this._seriesController) {
+      throw new Error('Controller not initialized. Call initialize() first.');
+    }
+    return this._seriesController;
+  }
+
+  get trashController(): TrashController {
+    if (!this._trashController) {
+      throw new Error('Controller not initialized. Call initialize() first.');
+    }
+    return this._trashController;
+  }
+
+  get webhookController(): WebhookController {
+    if (!this._webhookController) {
+      throw new Error('Controller not initialized. Call initialize() first.');
+    }
+    return this._webhookController;
+  }
+}
@@ -1,30 +1,81 @@
 import express, { Application } from 'express';
 import cors from 'cors';
 import { DependencyContainer } from './DependencyContainer';
+import { Config } from './Config';
 import { createTodoRoutes } from '../adapters/inbound/TodoRoutes';
+import { createGraphQLRoutes } from '../adapters/inbound/GraphQLRoutes';
+import { createOpenApiRoutes } from '../adapters/inbound/OpenApiRoutes';
+import { createTodoListRoutes } from '../adapters/inbound/TodoListRoutes';
+import { createImportExportRoutes } from '../adapters/inbound/ImportExportRoutes';
+import { createTagRoutes } from '../adapters/inbound/TagRoutes';
+import { createChecklistRoutes } from '../adapters/inbound/ChecklistRoutes';
+import { createSeriesRoutes } from '../adapters/inbound/SeriesRoutes';
+import { createWebhookRoutes } from '../adapters/inbound/WebhookRoutes';
+import { createTrashRoutes } from '../adapters/inbound/TrashRoutes';
+import { createAuthRoutes } from '../adapters/inbound/AuthRoutes';
+import { createAuthMiddleware } from '../adapters/inbound/AuthMiddleware';
+import { createIdempotencyMiddleware } from '../adapters/inbound/IdempotencyMiddleware';
+import { createErrorMiddleware } from '../adapters/inbound/ProblemDetails';
+import { createRequestTracking } from './RequestTracking';
+import { NotFoundException } from '../domain/exceptions/DomainException';
 
 export function createApp(): Application {
   const app = express();
   const container = DependencyContainer.getInstance();
 
-  // Middleware
+  // Middleware; request tracking comes first, so that everything after runs with the request id
+  app.use(createRequestTracking(container.logger, container.metrics));
+  app.use(container.gracefulShutdown.middleware());
   app.use(cors());
+  // Imports are parsed by their format in the controller and may be larger than other requests
+  app.use('/api/todos/import', express.text({ type: () => true, limit: Config.getInstance().importMaxBytes }));
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
 
-  // Health check endpoint
-  app.get('/health', (req, res) => {
-    res.status(200).json({ status: 'ok', timestamp: new Date().toISOString() });
+  // Liveness: the process is up and answering. Dependencies are left to the
+  // readiness check, so that a database outage does not get the server restarted.
+  app.get(['/health', '/health/live'], (req, res) => {
+    res.status(200).json({ status: 'ok', timestamp: new Date().toISOString(), uptimeSeconds: process.uptime() });
   });
 
-  // API routes
+  // Readiness: every dependency answers and the server is not shutting down
+  app.get('/health/ready', async (req, res) => {
+    const report = await container.healthChecks.readiness();
+    res.status(report.status === 'ok' ? 200 : 503).json(report);
+  });
+
+  // Prometheus metrics, public like the health check
+  app.get('/metrics', (req, res) => {
+    res.type('text/plain; version=0.0.4').send(container.metrics.render());
+  });
+
+  // Account routes and the API documentation are public; every other API route requires a bearer token
+  const requireAuth = createAuthMiddleware(container.authenticateUseCase);
+  app.use('/api', createOpenApiRoutes(container.openApiController));
+  app.use('/api', createAuthRoutes(container.authController, requireAuth));
+  app.use('/api', requireAuth);
+  // Retried mutations with an Idempotency-Key get the first response again
+  app.use('/api', createIdempotencyMiddleware(container.idempotentRequestsUseCase, container.logger));
+
+  // API routes; export and import come before /todos/:id
+  app.use('/api', createImportExportRoutes(container.importExportController));
   app.use('/api', createTodoRoutes(container.todoController));
+  app.use('/api', createTodoListRoutes(container.todoListController));
+  app.use('/api', createTagRoutes(container.tagController));
+  app.use('/api', createChecklistRoutes(container.checklistController));
+  app.use('/api', createSeriesRoutes(container.seriesController));
+  app.use('/api', createTrashRoutes(container.trashController));
+  app.use('/api', createWebhookRoutes(container.webhookController));
+  app.use('/api', createGraphQLRoutes(container.graphQLController));
 
   // 404 handler
-  app.use((req, res) => {
-    res.status(404).json({ error: 'Route not found' });
+  app.use((req, res, next) => {
+    next(new NotFoundException(`Route ${req.method} ${req.path} not found`, 'ROUTE_NOT_FOUND'));
   });
 
+  // Every error, including malformed bodies, is answered as application/problem+json
+  app.use(createErrorMiddleware(container.logger));
+
   return app;
 }
 
@@ -0,0 +1,60 @@
+import { Server } from 'http';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+
+/**
+ * Lets the HTTP server finish the requests it is answering before the process exits
+ * While draining, the server takes no new connections and every response
+ * closes its connection. Event streams never finish by themselves, so they
+ * are ended; their clients reconnect, to another instance, with Last-Event-ID.
+ */
+export class GracefulShutdown {
+  private readonly responses = new Set<Response>();
+  private draining = false;
+
+  /**
+   * Keeps track of the responses in progress; must be registered before every route
+   */
+  middleware(): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction): void => {
+      if (this.draining) {
+        res.set('Connection', 'close');
+      }
+      this.responses.add(res);
+      res.on('close', () => this.responses.delete(res));
+      next();
+    };
+  }
+
+  get activeRequests(): number {
+    return this.responses.size;
+  }
+
+  /**
+   * Resolves to true once every request is answered, or to false when the
+   * timeout ran out first and the remaining connections were closed
+   */
+  async drain(server: Server, timeoutMs: number): Promise<boolean> {
+    this.draining = true;
+    const closed = new Promise<boolean>(resolve => server.close(() => resolve(true)));
+    server.closeIdleConnections();
+    for (const res of this.responses) {
+      if (!res.headersSent) {
+        res.set('Connection', 'close');
+      } else if (String(res.get('Content-Type')).startsWith('text/event-stream')) {
+        const socket = res.socket;
+        res.end(() => socket?.end());
+      }
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<boolean>(resolve => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+    const drained = await Promise.race([closed, timedOut]);
+    clearTimeout(timer);
+    if (!drained) {
+      server.closeAllConnections();
+    }
+    return drained;
+  }
+}
@@ -0,0 +1,69 @@
+import { Logger } from '../application/ports/Logger';
+
+export interface DependencyHealth {
+  status: 'up' | 'down';
+  latencyMs: number;
+}
+
+export interface HealthReport {
+  status: 'ok' | 'unavailable';
+  // Set once the server is shutting down
+  draining?: boolean;
+  dependencies: Record<string, DependencyHealth>;
+}
+
+/**
+ * Readiness of the dependencies the server needs to answer requests
+ * Every check runs on each report, with a timeout. Why a check failed is
+ * logged rather than reported, as the report is public.
+ */
+export class HealthChecks {
+  private readonly checks = new Map<string, () => Promise<unknown>>();
+  private draining = false;
+
+  constructor(private readonly timeoutMs: number, private readonly logger: Logger) {}
+
+  register(name: string, check: () => Promise<unknown>): void {
+    this.checks.set(name, check);
+  }
+
+  /**
+   * Reports the server unavailable from now on, so that load balancers stop sending it requests
+   */
+  markDraining(): void {
+    this.draining = true;
+  }
+
+  async readiness(): Promise<HealthReport> {
+    const results = await Promise.all(
+      Array.from(this.checks, async ([name, check]) => [name, await this.run(name, check)] as const)
+    );
+    const ready = !this.draining && results.every(([, health]) => health.status === 'up');
+    return {
+      status: ready ? 'ok' : 'unavailable',
+      ...(this.draining && { draining: true }),
+      dependencies: Object.fromEntries(results)
+    };
+  }
+
+  private async run(name: string, check: () => Promise<unknown>): Promise<DependencyHealth> {
+    const start = process.hrtime.bigint();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((resolve, reject) => {
+      timer = setTimeout(() => reject(new Error(`No answer within ${this.timeoutMs} ms`)), this.timeoutMs);
+    });
+    try {
+      await Promise.race([check(), timeout]);
+      return { status: 'up', latencyMs: elapsedMs(start) };
+    } catch (error) {
+      this.logger.warn('Health check failed', { dependency: name, error });
+      return { status: 'down', latencyMs: elapsedMs(start) };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+function elapsedMs(start: bigint): number {
+  return Math.round(Number(process.hrtime.bigint() - start) / 1e3) / 1e3;
+}
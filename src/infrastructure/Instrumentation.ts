@@ -0,0 +1,83 @@
+import { Logger } from '../application/ports/Logger';
+import { Counter, Histogram, MetricsRegistry } from './Metrics';
+
+type Outcome = 'success' | 'error';
+
+/**
+ * Wraps use cases and repositories to count and time their calls
+ * Calls keep running in the context of the request that made them, so
+ * that the debug entries logged here carry its id.
+ */
+export class Instrumentation {
+  private readonly useCaseExecutions: Counter;
+  private readonly repositoryDurations: Histogram;
+
+  constructor(metrics: MetricsRegistry, private readonly logger: Logger) {
+    this.useCaseExecutions = metrics.counter('use_case_executions_total', 'Use case executions, by outcome');
+    this.repositoryDurations = metrics.histogram(
+      'repository_operation_duration_seconds',
+      'Time spent in repository operations',
+      [0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5]
+    );
+  }
+
+  useCase<T extends object>(name: string, useCase: T): T {
+    return observeCalls(useCase, method => {
+      const start = process.hrtime.bigint();
+      return outcome => {
+        this.useCaseExecutions.inc({ use_case: name, outcome });
+        this.logger.debug('Use case executed', { useCase: name, method, outcome, durationMs: elapsedMs(start) });
+      };
+    });
+  }
+
+  repository<T extends object>(name: string, repository: T): T {
+    return observeCalls(repository, operation => {
+      const stop = this.repositoryDurations.startTimer({ repository: name, operation });
+      return outcome => stop({ outcome });
+    });
+  }
+}
+
+/**
+ * Calls `observe` as each method is called, and the function it returns once
+ * the call has returned or its promise has settled
+ */
+function observeCalls<T extends object>(target: T, observe: (method: string) => (outcome: Outcome) => void): T {
+  return new Proxy(target, {
+    get(object, property, receiver) {
+      const value = Reflect.get(object, property, receiver);
+      if (typeof value !== 'function' || typeof property !== 'string') {
+        return value;
+      }
+      return (...args: unknown[]) => {
+        const done = observe(property);
+        let result: unknown;
+        try {
+          result = value.apply(object, args);
+        } catch (error) {
+          done('error');
+          throw error;
+        }
+        if (result instanceof Promise) {
+          return result.then(
+            resolved => {
+              done('success');
+              return resolved;
+            },
+            error => {
+              done('error');
+              throw error;
+            }
+          );
+        }
+        done('success');
+        return result;
+      };
+    }
+  });
+}
+
+function elapsedMs(start: bigint): number {
+  return Math.round(Number(process.hrtime.bigint() - start) / 1e3) / 1e3;
+}
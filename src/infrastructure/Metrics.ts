@@ -0,0 +1,130 @@
+export type MetricLabels = Record<string, string>;
+
+// Upper bounds in seconds, from 5 ms to 10 s
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+interface Metric {
+  render(): string[];
+}
+
+export class Counter implements Metric {
+  private readonly values = new Map<string, number>();
+
+  constructor(private readonly name: string, private readonly help: string) {}
+
+  inc(labels: MetricLabels = {}, value = 1): void {
+    const key = labelText(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  render(): string[] {
+    return [
+      ...header(this.name, this.help, 'counter'),
+      ...Array.from(this.values, ([labels, value]) => `${this.name}${labels} ${value}`)
+    ];
+  }
+}
+
+export class Histogram implements Metric {
+  private readonly series = new Map<string, { labels: MetricLabels; counts: number[]; sum: number; count: number }>();
+
+  constructor(
+    private readonly name: string,
+    private readonly help: string,
+    private readonly buckets: number[] = DEFAULT_BUCKETS
+  ) {}
+
+  observe(labels: MetricLabels, value: number): void {
+    const key = labelText(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series!.counts[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Observes the seconds from now until the returned function is called
+   */
+  startTimer(labels: MetricLabels = {}): (more?: MetricLabels) => void {
+    const start = process.hrtime.bigint();
+    return more => this.observe({ ...labels, ...more }, Number(process.hrtime.bigint() - start) / 1e9);
+  }
+
+  render(): string[] {
+    const lines = header(this.name, this.help, 'histogram');
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${labelText({ ...labels, le: String(bound) })} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${labelText({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${labelText(labels)} ${sum}`);
+      lines.push(`${this.name}_count${labelText(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * A value read when the metrics are scraped, e.g. the size of a pool
+ */
+export class Gauge implements Metric {
+  constructor(
+    private readonly name: string,
+    private readonly help: string,
+    private readonly collect: () => Array<[MetricLabels, number]>
+  ) {}
+
+  render(): string[] {
+    return [
+      ...header(this.name, this.help, 'gauge'),
+      ...this.collect().map(([labels, value]) => `${this.name}${labelText(labels)} ${value}`)
+    ];
+  }
+}
+
+/**
+ * Metrics of the process, rendered in the Prometheus text exposition format
+ */
+export class MetricsRegistry {
+  private readonly metrics: Metric[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  gauge(name: string, help: string, collect: () => Array<[MetricLabels, number]>): Gauge {
+    return this.register(new Gauge(name, help, collect));
+  }
+
+  render(): string {
+    return this.metrics.flatMap(metric => metric.render()).join('\n') + '\n';
+  }
+
+  private register<M extends Metric>(metric: M): M {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+function labelText(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([name, value]) =>
+    `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return pairs.length === 0 ? '' : `{${pairs.join(',')}}`;
+}
@@ -1,4 +1,21 @@
-import { MongoClient, Db } from 'mongodb';
+import { ClientSession, MongoClient, Db } from 'mongodb';
+import { Logger } from '../application/ports/Logger';
+
+export interface MongoPoolStats {
+  // Connections open to the servers, in use or idle
+  open: number;
+  checkedOut: number;
+  // Operations waiting for a connection
+  waiting: number;
+  maxSize: number;
+}
+
+export interface ConnectRetry {
+  // Connection attempts, including the first
+  attempts: number;
+  // Wait before the first retry, doubled after every failed attempt
+  delayMs: number;
+}
 
 /**
  * MongoDB Connection Manager
@@ -10,37 +27,51 @@ export class MongoDBClient {
   private db: Db | null = null;
   private readonly uri: string;
   private readonly dbName: string;
+  private readonly logger: Logger;
+  // Kept up to date from the driver's connection pool events
+  private readonly pool = { open: 0, checkedOut: 0, waiting: 0 };
 
-  private constructor(uri: string, dbName: string) {
+  private constructor(uri: string, dbName: string, logger: Logger) {
     this.uri = uri;
     this.dbName = dbName;
+    this.logger = logger;
   }
 
-  public static getInstance(uri?: string, dbName?: string): MongoDBClient {
+  public static getInstance(uri?: string, dbName?: string, logger?: Logger): MongoDBClient {
     if (!MongoDBClient.instance) {
-      if (!uri || !dbName) {
-        throw new Error('MongoDB URI and database name are required for first initialization');
+      if (!uri || !dbName || !logger) {
+        throw new Error('MongoDB URI, database name and logger are required for first initialization');
       }
-      MongoDBClient.instance = new MongoDBClient(uri, dbName);
+      MongoDBClient.instance = new MongoDBClient(uri, dbName, logger);
     }
     return MongoDBClient.instance;
   }
 
-  public async connect(): Promise<void> {
+  /**
+   * Each attempt waits for a server up to the driver's server selection
+   * timeout, 30 seconds unless serverSelectionTimeoutMS is set in the URI
+   */
+  public async connect(retry: ConnectRetry = { attempts: 1, delayMs: 0 }): Promise<void> {
     if (this.client) {
-      console.log('MongoDB client already connected');
+      this.logger.debug('MongoDB client already connected');
       return;
     }
 
-    try {
-      console.log('Connecting to MongoDB...');
-      this.client = new MongoClient(this.uri);
-      await this.client.connect();
-      this.db = this.client.db(this.dbName);
-      console.log('Successfully connected to MongoDB');
-    } catch (error) {
-      console.error('Failed to connect to MongoDB:', error);
-      throw error;
+    this.logger.info('Connecting to MongoDB', { database: this.dbName });
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.open();
+        this.logger.info('Connected to MongoDB', { database: this.dbName, attempt });
+        return;
+      } catch (error) {
+        if (attempt >= retry.attempts) {
+          this.logger.error('Failed to connect to MongoDB', { database: this.dbName, attempts: attempt, error });
+          throw error;
+        }
+        const delayMs = retry.delayMs * 2 ** (attempt - 1);
+        this.logger.warn('Connecting to MongoDB failed; retrying', { attempt, retryInMs: delayMs, error });
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
     }
   }
 
@@ -49,7 +80,7 @@ export class MongoDBClient {
       await this.client.close();
       this.client = null;
       this.db = null;
-      console.log('Disconnected from MongoDB');
+      this.logger.info('Disconnected from MongoDB');
     }
   }
 
@@ -60,8 +91,51 @@ export class MongoDBClient {
     return this.db;
   }
 
+  public startSession(): ClientSession {
+    if (!this.client) {
+      throw new Error('Database not initialized. Call connect() first.');
+    }
+    return this.client.startSession();
+  }
+
   public isConnected(): boolean {
     return this.client !== null && this.db !== null;
   }
-}
 
+  /**
+   * Round trip to the server; fails when no server can be reached
+   */
+  public async ping(): Promise<void> {
+    await this.getDatabase().command({ ping: 1 });
+  }
+
+  public poolStats(): MongoPoolStats {
+    return { ...this.pool, maxSize: this.client?.options.maxPoolSize ?? 0 };
+  }
+
+  private async open(): Promise<void> {
+    const client = new MongoClient(this.uri);
+    this.trackPool(client);
+    try {
+      await client.connect();
+    } catch (error) {
+      await client.close().catch(() => undefined);
+      throw error;
+    }
+    this.client = client;
+    this.db = client.db(this.dbName);
+  }
+
+  private trackPool(client: MongoClient): void {
+    const pool = this.pool;
+    client.on('connectionCreated', () => pool.open++);
+    client.on('connectionClosed', () => pool.open--);
+    client.on('connectionCheckOutStarted', () => pool.waiting++);
+    client.on('connectionCheckOutFailed', () => pool.waiting--);
+    client.on('connectionCheckedOut', () => {
+      pool.waiting--;
+      pool.checkedOut++;
+    });
+    client.on('connectionCheckedIn', () => pool.checkedOut--);
+  }
+}
@@ -0,0 +1,20 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * The HTTP request the current async call chain serves
+ * Follows the request through the use cases and repositories it calls, so
+ * that everything they log carries its id.
+ */
+export interface RequestContext {
+  requestId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function currentRequest(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+export function runInRequest<T>(context: RequestContext, work: () => T): T {
+  return storage.run(context, work);
+}
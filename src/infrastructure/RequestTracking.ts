@@ -0,0 +1,80 @@
+import { randomUUID } from 'crypto';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { Logger } from '../application/ports/Logger';
+import { MetricsRegistry } from './Metrics';
+import { runInRequest } from './RequestContext';
+
+// Ids sent by proxies and clients are kept when they look like one
+const REQUEST_ID = /^[\w.:-]{1,128}$/;
+// Polled by monitoring, so only logged at debug level
+const PROBE_PATHS = ['/health', '/health/live', '/health/ready', '/metrics'];
+
+/**
+ * Gives every request an id, taken from X-Request-ID or generated, and
+ * returns it in X-Request-ID. The rest of the request runs in its
+ * RequestContext. Once answered, the request is logged and its duration
+ * recorded by route, so that /todos/:id is one series whatever the id.
+ * Must be registered before every route.
+ */
+export function createRequestTracking(logger: Logger, metrics: MetricsRegistry): RequestHandler {
+  const durations = metrics.histogram('http_request_duration_seconds', 'Time to answer HTTP requests, by route');
+  let inFlight = 0;
+  metrics.gauge('http_requests_in_flight', 'HTTP requests being answered', () => [[{}, inFlight]]);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const incoming = req.get('X-Request-ID');
+    const requestId = incoming !== undefined && REQUEST_ID.test(incoming) ? incoming : randomUUID();
+    res.set('X-Request-ID', requestId);
+
+    const start = process.hrtime.bigint();
+    const matched = trackRoute(req);
+    inFlight++;
+    res.on('close', () => {
+      inFlight--;
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      const route = matched.route ?? 'unmatched';
+      durations.observe({ method: req.method, route, status: String(res.statusCode) }, seconds);
+
+      const fields = {
+        requestId,
+        method: req.method,
+        path: req.originalUrl,
+        route,
+        status: res.statusCode,
+        durationMs: Math.round(seconds * 1e6) / 1e3,
+        ...(req.user && { userId: req.user.getId() }),
+        // Closed by the client before the response was complete
+        ...(!res.writableFinished && { aborted: true })
+      };
+      if (PROBE_PATHS.includes(req.path)) {
+        logger.debug('Request completed', fields);
+      } else {
+        logger.info('Request completed', fields);
+      }
+    });
+
+    runInRequest({ requestId }, next);
+  };
+}
+
+/**
+ * Path pattern of the route that answered, e.g. /api/todos/:id
+ * Noted as Express sets `req.route`, since `req.baseUrl` is reset before
+ * errors reach the error middleware.
+ */
+function trackRoute(req: Request): { route?: string } {
+  const matched: { route?: string } = {};
+  let current: Request['route'];
+  Object.defineProperty(req, 'route', {
+    configurable: true,
+    enumerable: true,
+    get: () => current,
+    set: (route: Request['route']) => {
+      current = route;
+      if (route) {
+        matched.route = `${req.baseUrl}${route.path}`;
+      }
+    }
+  });
+  return matched;
+}
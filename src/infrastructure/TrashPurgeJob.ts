@@ -0,0 +1,45 @@
+import { EmptyTrashUseCase } from '../application/ports/EmptyTrashUseCase';
+import { Logger } from '../application/ports/Logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Periodically purges todos that have been in the trash for longer than the retention period
+ */
+export class TrashPurgeJob {
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly emptyTrash: EmptyTrashUseCase,
+    private readonly retentionDays: number,
+    private readonly intervalMs: number,
+    private readonly logger: Logger
+  ) {}
+
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+    void this.run();
+    this.timer = setInterval(() => this.run(), this.intervalMs);
+    this.timer.unref();
+  }
+
+  public stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  public async run(now: Date = new Date()): Promise<void> {
+    try {
+      const purged = await this.emptyTrash.execute({
+        trashedBefore: new Date(now.getTime() - this.retentionDays * DAY_MS)
+      });
+      if (purged > 0) {
+        this.logger.info('Purged todos from the trash', { purged });
+      }
+    } catch (error) {
+      this.logger.error('Failed to purge the trash', { error });
+    }
+  }
+}
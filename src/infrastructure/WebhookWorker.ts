@@ -0,0 +1,48 @@
+import { ProcessWebhookDeliveriesUseCase } from '../application/ports/ProcessWebhookDeliveriesUseCase';
+import { Logger } from '../application/ports/Logger';
+
+/**
+ * Periodically sends the webhook deliveries that are due
+ * `tick()` can also be called to send new deliveries without waiting
+ */
+export class WebhookWorker {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly processWebhookDeliveries: ProcessWebhookDeliveriesUseCase,
+    private readonly intervalMs: number,
+    private readonly logger: Logger
+  ) {}
+
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.tick(), this.intervalMs);
+    // Do not keep the process alive just for retries
+    this.timer.unref();
+  }
+
+  public stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Skipped while a previous run is still sending
+   */
+  public async tick(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      await this.processWebhookDeliveries.execute();
+    } catch (error) {
+      this.logger.error('Failed to process webhook deliveries', { error });
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+
+export interface TestResponse<T = unknown> {
+  status: number;
+  headers: Headers;
+  // Parsed JSON, or the text of other bodies
+  body: T;
+}
+
+// Response bodies of the REST API, as far as the tests read them
+export interface TodoBody {
+  id: string;
+  title: string;
+  status: string;
+  version: number;
+}
+
+export interface TodoPageBody {
+  items: TodoBody[];
+  total: number;
+  nextCursor: string | null;
+}
+
+export interface ErrorBody {
+  code: string;
+}
+
+export interface RequestOptions {
+  token?: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface TestApp {
+  // T is the body the caller expects; it is not checked
+  request<T = unknown>(method: string, path: string, options?: RequestOptions): Promise<TestResponse<T>>;
+  // Registers an account and returns a bearer token for it
+  signUp(email: string): Promise<string>;
+  close(): Promise<void>;
+}
+
+/**
+ * The whole HTTP application over in-memory storage, on a free local port
+ * The container is a singleton, so there is one app per test file.
+ */
+export async function startApp(): Promise<TestApp> {
+  process.env.STORAGE = 'memory';
+  process.env.LOG_LEVEL = 'error';
+  // Loaded once the environment is set, as the configuration reads it on first use
+  const { DependencyContainer } = await import('../src/infrastructure/DependencyContainer');
+  const { createApp } = await import('../src/infrastructure/ExpressApp');
+
+  const container = DependencyContainer.getInstance();
+  await container.initialize({ backgroundJobs: false });
+  const server: Server = await new Promise(resolve => {
+    const listening = createApp().listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  async function request<T>(method: string, path: string, options: RequestOptions = {}): Promise<TestResponse<T>> {
+    const headers: Record<string, string> = { ...options.headers };
+    if (options.token) {
+      headers.Authorization = `Bearer ${options.token}`;
+    }
+    if (options.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers,
+      body: options.body === undefined ? undefined : JSON.stringify(options.body)
+    });
+    const text = await response.text();
+    const isJson = /json/.test(response.headers.get('content-type') ?? '');
+    return { status: response.status, headers: response.headers, body: isJson && text ? JSON.parse(text) : text };
+  }
+
+  return {
+    request,
+    async signUp(email: string): Promise<string> {
+      const credentials = { email, password: 'correct horse battery' };
+      await request('POST', '/api/auth/register', { body: credentials });
+      const login = await request<{ token: string }>('POST', '/api/auth/login', { body: credentials });
+      return login.body.token;
+    },
+    async close(): Promise<void> {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+      await container.cleanup();
+    }
+  };
+}
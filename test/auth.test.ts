@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import { User } from '../src/domain/entities/User';
+import { AuthenticationException } from '../src/domain/exceptions/DomainException';
+import { Login } from '../src/application/use-cases/Login';
+import { InMemoryUserRepository } from '../src/adapters/outbound/InMemoryUserRepository';
+import { ScryptPasswordHasher } from '../src/adapters/outbound/ScryptPasswordHasher';
+import { HmacTokenService } from '../src/adapters/outbound/HmacTokenService';
+
+const SECRET = 'token-signing-secret';
+
+/**
+ * ScryptPasswordHasher counting the hashes it checks
+ */
+class CountingPasswordHasher extends ScryptPasswordHasher {
+  verified = 0;
+
+  async verify(password: string, hash: string): Promise<boolean> {
+    this.verified++;
+    return super.verify(password, hash);
+  }
+}
+
+function signedToken(claims: unknown): string {
+  const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  const signature = createHmac('sha256', SECRET).update(`${header}.${payload}`).digest('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+describe('Login', () => {
+  async function login(): Promise<{ login: Login; hasher: CountingPasswordHasher }> {
+    const users = new InMemoryUserRepository();
+    const hasher = new CountingPasswordHasher();
+    await users.save(new User({ email: 'known@example.com', passwordHash: await hasher.hash('right password') }));
+    return { login: new Login(users, hasher, new HmacTokenService(SECRET, 60)), hasher };
+  }
+
+  it('issues a token for the right password', async () => {
+    const { login: useCase } = await login();
+
+    const result = await useCase.execute({ email: 'Known@Example.com ', password: 'right password' });
+
+    assert.equal(new HmacTokenService(SECRET, 60).verify(result.token), result.user.getId());
+  });
+
+  it('checks a password hash for unknown emails too, and fails them like wrong passwords', async () => {
+    const { login: useCase, hasher } = await login();
+
+    const unknown = await useCase.execute({ email: 'unknown@example.com', password: 'right password' }).catch(error => error);
+    const wrong = await useCase.execute({ email: 'known@example.com', password: 'wrong password' }).catch(error => error);
+
+    assert.ok(unknown instanceof AuthenticationException);
+    assert.ok(wrong instanceof AuthenticationException);
+    assert.equal(unknown.message, wrong.message);
+    assert.equal(hasher.verified, 2);
+  });
+});
+
+describe('HmacTokenService', () => {
+  const tokens = new HmacTokenService(SECRET, 60);
+
+  it('returns the user id of a token it issued', () => {
+    assert.equal(tokens.verify(tokens.issue('user-1').token), 'user-1');
+  });
+
+  it('rejects tokens signed with another secret', () => {
+    const other = new HmacTokenService('another-secret', 60).issue('user-1').token;
+
+    assert.throws(() => tokens.verify(other), AuthenticationException);
+  });
+
+  it('rejects signed tokens whose claims are not an object with sub and exp', () => {
+    const future = Math.floor(Date.now() / 1000) + 60;
+    for (const claims of [null, 'user-1', [], { sub: 'user-1' }, { sub: 1, exp: future }, { sub: 'user-1', exp: String(future) }]) {
+      assert.throws(() => tokens.verify(signedToken(claims)), /Invalid token/);
+    }
+  });
+
+  it('rejects expired tokens', () => {
+    const expired = signedToken({ sub: 'user-1', exp: Math.floor(Date.now() / 1000) - 1 });
+
+    assert.throws(() => tokens.verify(expired), /Token has expired/);
+  });
+});
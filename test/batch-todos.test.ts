@@ -0,0 +1,205 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Todo } from '../src/domain/entities/Todo';
+import { TodoEvent } from '../src/domain/events/TodoEvent';
+import { TodoNotFoundException } from '../src/domain/exceptions/DomainException';
+import { AuditRepository } from '../src/application/ports/AuditRepository';
+import { TodoRepository } from '../src/application/ports/TodoRepository';
+import { BatchTodos } from '../src/application/use-cases/BatchTodos';
+import { CreateTodo } from '../src/application/use-cases/CreateTodo';
+import { UpdateTodo } from '../src/application/use-cases/UpdateTodo';
+import { CompleteTodo } from '../src/application/use-cases/CompleteTodo';
+import { ReopenTodo } from '../src/application/use-cases/ReopenTodo';
+import { DeleteTodo } from '../src/application/use-cases/DeleteTodo';
+import { InMemoryTodoRepository } from '../src/adapters/outbound/InMemoryTodoRepository';
+import { InMemoryAuditRepository } from '../src/adapters/outbound/InMemoryAuditRepository';
+import { InMemoryTodoListRepository } from '../src/adapters/outbound/InMemoryTodoListRepository';
+import { InMemoryEventBus } from '../src/adapters/outbound/InMemoryEventBus';
+import { InMemoryTransactionManager } from '../src/adapters/outbound/InMemoryTransactionManager';
+import { FileTodoRepository } from '../src/adapters/outbound/FileTodoRepository';
+import { FileAuditRepository } from '../src/adapters/outbound/FileAuditRepository';
+import { JsonFileStore } from '../src/adapters/outbound/JsonFileStore';
+import { RecordingLogger, temporaryDirectory } from './support';
+
+const OWNER = 'owner-1';
+
+interface Repositories {
+  todos: TodoRepository;
+  audit: AuditRepository;
+}
+
+/**
+ * BatchTodos wired as by the container, with the events it delivers
+ */
+function batchTodos({ todos, audit }: Repositories): { batch: BatchTodos; delivered: TodoEvent[] } {
+  const eventBus = new InMemoryEventBus(new RecordingLogger());
+  const delivered: TodoEvent[] = [];
+  eventBus.subscribe('*', event => {
+    delivered.push(event);
+  });
+  const lists = new InMemoryTodoListRepository();
+  const transactionManager = new InMemoryTransactionManager();
+  const batch = new BatchTodos(
+    new CreateTodo(todos, eventBus, lists),
+    new UpdateTodo(todos, eventBus, audit, lists),
+    new CompleteTodo(todos, eventBus, audit, transactionManager),
+    new ReopenTodo(todos, eventBus, audit),
+    new DeleteTodo(todos, eventBus, audit),
+    transactionManager
+  );
+  return { batch, delivered };
+}
+
+async function existingTodo(todos: TodoRepository): Promise<Todo> {
+  return todos.save(new Todo({ ownerId: OWNER, title: 'Existing' }));
+}
+
+describe('BatchTodos', () => {
+  let todos: InMemoryTodoRepository;
+  let audit: InMemoryAuditRepository;
+
+  beforeEach(() => {
+    todos = new InMemoryTodoRepository();
+    audit = new InMemoryAuditRepository();
+  });
+
+  it('rolls back every operation of an atomic batch when one fails', async () => {
+    const existing = await existingTodo(todos);
+    const { batch, delivered } = batchTodos({ todos, audit });
+
+    const result = await batch.execute({
+      ownerId: OWNER,
+      atomic: true,
+      operations: [
+        { op: 'create', title: 'Created' },
+        { op: 'update', id: existing.getId().getValue(), title: 'Renamed' },
+        { op: 'complete', id: existing.getId().getValue() },
+        { op: 'delete', id: 'missing' },
+        { op: 'create', title: 'Never created' }
+      ]
+    });
+
+    assert.equal(result.rolledBack, true);
+    assert.deepEqual(result.results.map(item => item.outcome), ['rolledBack', 'rolledBack', 'rolledBack', 'failed', 'skipped']);
+    assert.ok(result.results[3].error instanceof TodoNotFoundException);
+
+    const stored = await todos.findAll(OWNER);
+    assert.equal(stored.length, 1);
+    assert.equal(stored[0].getTitle().getValue(), 'Existing');
+    assert.equal(stored[0].isCompleted(), false);
+    assert.equal(stored[0].getVersion(), existing.getVersion());
+    assert.deepEqual(await audit.findByTodoId(existing.getId().getValue(), OWNER), []);
+    assert.deepEqual(delivered, []);
+  });
+
+  it('applies an atomic batch and delivers its events once it commits', async () => {
+    const existing = await existingTodo(todos);
+    const { batch, delivered } = batchTodos({ todos, audit });
+
+    const result = await batch.execute({
+      ownerId: OWNER,
+      atomic: true,
+      operations: [
+        { op: 'create', title: 'Created' },
+        { op: 'complete', id: existing.getId().getValue() }
+      ]
+    });
+
+    assert.equal(result.rolledBack, false);
+    assert.deepEqual(result.results.map(item => item.outcome), ['succeeded', 'succeeded']);
+    assert.equal((await todos.findAll(OWNER)).length, 2);
+    assert.deepEqual(delivered.map(event => event.type), ['todo.created', 'todo.completed']);
+    assert.equal((await audit.findByTodoId(existing.getId().getValue(), OWNER)).length, 1);
+  });
+
+  it('keeps the operations that succeeded when the batch is not atomic', async () => {
+    const { batch } = batchTodos({ todos, audit });
+
+    const result = await batch.execute({
+      ownerId: OWNER,
+      operations: [
+        { op: 'create', title: 'Created' },
+        { op: 'complete', id: 'missing' },
+        { op: 'create', title: 'Created too' }
+      ]
+    });
+
+    assert.equal(result.rolledBack, false);
+    assert.deepEqual(result.results.map(item => item.outcome), ['succeeded', 'failed', 'succeeded']);
+    assert.equal((await todos.findAll(OWNER)).length, 2);
+  });
+
+  describe('with file storage', () => {
+    let directory: { path: string; remove: () => Promise<void> };
+    let open: Array<FileTodoRepository | FileAuditRepository> = [];
+
+    beforeEach(async () => {
+      directory = await temporaryDirectory();
+    });
+
+    afterEach(async () => {
+      await Promise.all(open.map(repository => repository.close()));
+      open = [];
+      await directory.remove();
+    });
+
+    async function fileRepositories(): Promise<{ todos: FileTodoRepository; audit: FileAuditRepository }> {
+      const logger = new RecordingLogger();
+      const store = <T>(name: string) => new JsonFileStore<T>({ directory: directory.path, name, compactEvery: 1000 }, logger);
+      const repositories = { todos: new FileTodoRepository(store('todos')), audit: new FileAuditRepository(store('history')) };
+      await repositories.todos.init();
+      await repositories.audit.init();
+      open.push(repositories.todos, repositories.audit);
+      return repositories;
+    }
+
+    async function reopen(): Promise<{ todos: FileTodoRepository; audit: FileAuditRepository }> {
+      await Promise.all(open.map(repository => repository.close()));
+      open = [];
+      return fileRepositories();
+    }
+
+    it('writes nothing to disk for a rolled back batch', async () => {
+      const repositories = await fileRepositories();
+      const existing = await existingTodo(repositories.todos);
+      const { batch } = batchTodos(repositories);
+
+      const result = await batch.execute({
+        ownerId: OWNER,
+        atomic: true,
+        operations: [
+          { op: 'create', title: 'Created' },
+          { op: 'complete', id: existing.getId().getValue() },
+          { op: 'reopen', id: 'missing' }
+        ]
+      });
+      assert.equal(result.rolledBack, true);
+
+      const reopened = await reopen();
+      const stored = await reopened.todos.findAll(OWNER);
+      assert.equal(stored.length, 1);
+      assert.equal(stored[0].isCompleted(), false);
+      assert.deepEqual(await reopened.audit.findByTodoId(existing.getId().getValue(), OWNER), []);
+    });
+
+    it('writes a committed batch to disk with its history', async () => {
+      const repositories = await fileRepositories();
+      const existing = await existingTodo(repositories.todos);
+      const { batch } = batchTodos(repositories);
+
+      await batch.execute({
+        ownerId: OWNER,
+        atomic: true,
+        operations: [
+          { op: 'create', title: 'Created' },
+          { op: 'complete', id: existing.getId().getValue() }
+        ]
+      });
+
+      const reopened = await reopen();
+      assert.equal((await reopened.todos.findAll(OWNER)).length, 2);
+      assert.equal((await reopened.todos.findById(existing.getId().getValue(), OWNER))!.isCompleted(), true);
+      assert.equal((await reopened.audit.findByTodoId(existing.getId().getValue(), OWNER)).length, 1);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Todo } from '../src/domain/entities/Todo';
+import { TodoEvent } from '../src/domain/events/TodoEvent';
+import { InfrastructureException } from '../src/domain/exceptions/DomainException';
+import { CompleteTodo } from '../src/application/use-cases/CompleteTodo';
+import { InMemoryTodoRepository } from '../src/adapters/outbound/InMemoryTodoRepository';
+import { InMemoryAuditRepository } from '../src/adapters/outbound/InMemoryAuditRepository';
+import { InMemoryEventBus } from '../src/adapters/outbound/InMemoryEventBus';
+import { InMemoryTransactionManager } from '../src/adapters/outbound/InMemoryTransactionManager';
+import { RecordingLogger } from './support';
+
+const OWNER = 'owner-1';
+
+/**
+ * Fails to save new todos once told to, as when the database goes away
+ */
+class FailingTodoRepository extends InMemoryTodoRepository {
+  failSaves = false;
+
+  async save(todo: Todo): Promise<Todo> {
+    if (this.failSaves) {
+      throw new InfrastructureException('Storage is unavailable');
+    }
+    return super.save(todo);
+  }
+}
+
+/**
+ * Counts the transactions it is asked to run, as a standalone MongoDB server has none
+ */
+class CountingTransactionManager extends InMemoryTransactionManager {
+  runs = 0;
+
+  async run<T>(work: () => Promise<T>): Promise<T> {
+    this.runs++;
+    return super.run(work);
+  }
+}
+
+describe('CompleteTodo', () => {
+  let todos: FailingTodoRepository;
+  let audit: InMemoryAuditRepository;
+  let delivered: TodoEvent[];
+  let transactions: CountingTransactionManager;
+  let completeTodo: CompleteTodo;
+
+  beforeEach(() => {
+    todos = new FailingTodoRepository();
+    audit = new InMemoryAuditRepository();
+    delivered = [];
+    const eventBus = new InMemoryEventBus(new RecordingLogger());
+    eventBus.subscribe('*', event => {
+      delivered.push(event);
+    });
+    transactions = new CountingTransactionManager();
+    completeTodo = new CompleteTodo(todos, eventBus, audit, transactions);
+  });
+
+  async function recurringTodo(): Promise<Todo> {
+    return todos.save(new Todo({
+      ownerId: OWNER,
+      title: 'Water the plants',
+      dueDate: { date: '2026-03-02' },
+      recurrence: 'FREQ=WEEKLY'
+    }));
+  }
+
+  it('saves the next occurrence of a recurring todo and records its history', async () => {
+    const todo = await recurringTodo();
+
+    await completeTodo.execute(todo.getId().getValue(), OWNER);
+
+    const next = (await todos.findAll(OWNER)).find(candidate => !candidate.isCompleted())!;
+    assert.equal(next.getDueDate()!.toObject().date, '2026-03-09');
+    assert.equal(next.getSeriesId(), todo.getSeriesId());
+    assert.deepEqual(delivered.map(event => event.type), ['todo.completed', 'todo.updated', 'todo.created']);
+    const history = await audit.findByTodoId(next.getId().getValue(), OWNER);
+    assert.deepEqual(history.map(entry => entry.toObject().action), ['todo.created']);
+    assert.equal(transactions.runs, 1);
+  });
+
+  it('completes a todo that does not recur without a transaction', async () => {
+    const todo = await todos.save(new Todo({ ownerId: OWNER, title: 'Post the letter' }));
+
+    const completed = await completeTodo.execute(todo.getId().getValue(), OWNER);
+
+    assert.equal(completed.isCompleted(), true);
+    assert.equal(completed.getVersion(), todo.getVersion() + 1);
+    assert.equal(transactions.runs, 0);
+    const history = await audit.findByTodoId(todo.getId().getValue(), OWNER);
+    assert.deepEqual(history.map(entry => entry.toObject().action), ['todo.completed']);
+  });
+
+  it('leaves the todo open when its next occurrence cannot be saved', async () => {
+    const todo = await recurringTodo();
+    todos.failSaves = true;
+
+    await assert.rejects(completeTodo.execute(todo.getId().getValue(), OWNER), InfrastructureException);
+
+    const stored = await todos.findAll(OWNER);
+    assert.equal(stored.length, 1);
+    assert.equal(stored[0].isCompleted(), false);
+    assert.equal(stored[0].getVersion(), todo.getVersion());
+    assert.ok(stored[0].getRecurrence());
+    assert.deepEqual(await audit.findByTodoId(todo.getId().getValue(), OWNER), []);
+    assert.deepEqual(delivered, []);
+  });
+});
@@ -0,0 +1,70 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Todo } from '../src/domain/entities/Todo';
+import { TodoList } from '../src/domain/entities/TodoList';
+import { InfrastructureException } from '../src/domain/exceptions/DomainException';
+import { DeleteTodoList } from '../src/application/use-cases/DeleteTodoList';
+import { InMemoryTodoRepository } from '../src/adapters/outbound/InMemoryTodoRepository';
+import { InMemoryTodoListRepository } from '../src/adapters/outbound/InMemoryTodoListRepository';
+import { InMemoryAuditRepository } from '../src/adapters/outbound/InMemoryAuditRepository';
+import { InMemoryEventBus } from '../src/adapters/outbound/InMemoryEventBus';
+import { InMemoryTransactionManager } from '../src/adapters/outbound/InMemoryTransactionManager';
+import { RecordingLogger } from './support';
+
+const OWNER = 'owner-1';
+
+/**
+ * Fails to delete lists once told to, as when the database goes away
+ */
+class FailingTodoListRepository extends InMemoryTodoListRepository {
+  failDeletes = false;
+
+  async delete(id: string, ownerId: string): Promise<boolean> {
+    if (this.failDeletes) {
+      throw new InfrastructureException('Storage is unavailable');
+    }
+    return super.delete(id, ownerId);
+  }
+}
+
+describe('DeleteTodoList', () => {
+  let todos: InMemoryTodoRepository;
+  let lists: FailingTodoListRepository;
+  let audit: InMemoryAuditRepository;
+  let deleteTodoList: DeleteTodoList;
+  let listId: string;
+
+  beforeEach(async () => {
+    todos = new InMemoryTodoRepository();
+    lists = new FailingTodoListRepository();
+    audit = new InMemoryAuditRepository();
+    const eventBus = new InMemoryEventBus(new RecordingLogger());
+    deleteTodoList = new DeleteTodoList(lists, todos, eventBus, audit, new InMemoryTransactionManager());
+    listId = (await lists.save(new TodoList({ ownerId: OWNER, name: 'Groceries' }))).getId();
+    for (const title of ['Milk', 'Bread']) {
+      await todos.save(new Todo({ ownerId: OWNER, title, listId }));
+    }
+  });
+
+  it('moves the todos of the list to the trash and deletes it', async () => {
+    const trashed = await deleteTodoList.execute({ id: listId, ownerId: OWNER, cascade: true });
+
+    assert.equal(trashed, 2);
+    assert.equal(await lists.findById(listId, OWNER), null);
+    const stored = await todos.findAll(OWNER, { includeTrashed: true });
+    assert.deepEqual(stored.map(todo => [todo.isTrashed(), todo.getListId()]), [[true, undefined], [true, undefined]]);
+  });
+
+  it('leaves the list and its todos as they were when the list cannot be deleted', async () => {
+    lists.failDeletes = true;
+
+    await assert.rejects(deleteTodoList.execute({ id: listId, ownerId: OWNER, cascade: true }), InfrastructureException);
+
+    assert.ok(await lists.findById(listId, OWNER));
+    const stored = await todos.findByListId(listId, OWNER);
+    assert.deepEqual(stored.map(todo => todo.isTrashed()), [false, false]);
+    for (const todo of stored) {
+      assert.deepEqual(await audit.findByTodoId(todo.getId().getValue(), OWNER), []);
+    }
+  });
+});
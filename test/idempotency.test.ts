@@ -0,0 +1,155 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { IdempotencyKeyInUseException, IdempotencyKeyReusedException } from '../src/domain/exceptions/DomainException';
+import { IdempotencyStore } from '../src/application/ports/IdempotencyStore';
+import { IdempotentRequests } from '../src/application/use-cases/IdempotentRequests';
+import { InMemoryIdempotencyStore } from '../src/adapters/outbound/InMemoryIdempotencyStore';
+import { FileIdempotencyStore } from '../src/adapters/outbound/FileIdempotencyStore';
+import { JsonFileStore } from '../src/adapters/outbound/JsonFileStore';
+import { ErrorBody, startApp, TestApp, TodoBody, TodoPageBody } from './app';
+import { RecordingLogger, temporaryDirectory } from './support';
+
+const RESPONSE = { status: 201, headers: { 'content-type': 'application/json' }, body: '{"id":"1"}' };
+
+describe('Idempotency-Key', () => {
+  let app: TestApp;
+  let token: string;
+
+  before(async () => {
+    app = await startApp();
+    token = await app.signUp('idempotency@example.com');
+  });
+
+  after(() => app.close());
+
+  async function todoCount(ownerToken = token): Promise<number> {
+    const response = await app.request<TodoPageBody>('GET', '/api/todos?limit=100', { token: ownerToken });
+    return response.body.items.length;
+  }
+
+  it('replays the first response to a retried request', async () => {
+    const before = await todoCount();
+    const request = { token, headers: { 'Idempotency-Key': 'create-1' }, body: { title: 'Buy milk' } };
+
+    const first = await app.request('POST', '/api/todos', request);
+    const retry = await app.request('POST', '/api/todos', request);
+
+    assert.equal(first.status, 201);
+    assert.equal(first.headers.get('idempotent-replayed'), null);
+    assert.equal(retry.status, 201);
+    assert.equal(retry.headers.get('idempotent-replayed'), 'true');
+    assert.deepEqual(retry.body, first.body);
+    assert.equal(retry.headers.get('etag'), first.headers.get('etag'));
+    assert.equal(retry.headers.get('location'), first.headers.get('location'));
+    assert.equal(await todoCount(), before + 1);
+  });
+
+  it('rejects a key reused for a different request', async () => {
+    await app.request('POST', '/api/todos', { token, headers: { 'Idempotency-Key': 'create-2' }, body: { title: 'First' } });
+
+    const reused = await app.request<ErrorBody>('POST', '/api/todos', {
+      token,
+      headers: { 'Idempotency-Key': 'create-2' },
+      body: { title: 'Second' }
+    });
+
+    assert.equal(reused.status, 422);
+    assert.equal(reused.body.code, 'IDEMPOTENCY_KEY_REUSED');
+  });
+
+  it('replays client errors', async () => {
+    const request = { token, headers: { 'Idempotency-Key': 'invalid-1' }, body: { title: '' } };
+
+    const first = await app.request('POST', '/api/todos', request);
+    const retry = await app.request('POST', '/api/todos', request);
+
+    assert.equal(first.status, 400);
+    assert.equal(retry.status, 400);
+    assert.equal(retry.headers.get('idempotent-replayed'), 'true');
+    assert.deepEqual(retry.body, first.body);
+  });
+
+  it('scopes keys to their user', async () => {
+    const otherToken = await app.signUp('idempotency-other@example.com');
+    const body = { title: 'Shared key' };
+
+    const first = await app.request<TodoBody>('POST', '/api/todos', { token, headers: { 'Idempotency-Key': 'shared' }, body });
+    const other = await app.request<TodoBody>('POST', '/api/todos', { token: otherToken, headers: { 'Idempotency-Key': 'shared' }, body });
+
+    assert.equal(other.status, 201);
+    assert.equal(other.headers.get('idempotent-replayed'), null);
+    assert.notEqual(other.body.id, first.body.id);
+    assert.equal(await todoCount(otherToken), 1);
+  });
+
+  it('runs requests without a key every time', async () => {
+    const before = await todoCount();
+
+    await app.request('POST', '/api/todos', { token, body: { title: 'Again' } });
+    await app.request('POST', '/api/todos', { token, body: { title: 'Again' } });
+
+    assert.equal(await todoCount(), before + 2);
+  });
+
+  it('rejects keys that are empty or too long', async () => {
+    const tooLong = await app.request('POST', '/api/todos', {
+      token,
+      headers: { 'Idempotency-Key': 'k'.repeat(256) },
+      body: { title: 'Too long' }
+    });
+
+    assert.equal(tooLong.status, 400);
+  });
+});
+
+describe('IdempotentRequests', () => {
+  function idempotentRequests(store: IdempotencyStore = new InMemoryIdempotencyStore()): IdempotentRequests {
+    return new IdempotentRequests(store, 60);
+  }
+
+  it('rejects a retry while the first request is running, and allows it once abandoned', async () => {
+    const requests = idempotentRequests();
+    assert.equal(await requests.start('owner-1', 'key', 'request-a'), null);
+
+    await assert.rejects(requests.start('owner-1', 'key', 'request-a'), IdempotencyKeyInUseException);
+    await assert.rejects(requests.start('owner-1', 'key', 'request-b'), IdempotencyKeyReusedException);
+
+    await requests.abandon('owner-1', 'key');
+    assert.equal(await requests.start('owner-1', 'key', 'request-a'), null);
+  });
+
+  it('forgets keys once they expire', async () => {
+    const requests = new IdempotentRequests(new InMemoryIdempotencyStore(), 0);
+    await requests.start('owner-1', 'key', 'request-a');
+    await requests.finish('owner-1', 'key', RESPONSE);
+
+    assert.equal(await requests.start('owner-1', 'key', 'request-b'), null);
+  });
+
+  it('keeps finished keys in file storage across restarts, but not running ones', async () => {
+    const directory = await temporaryDirectory();
+    const open = async () => {
+      const store = new FileIdempotencyStore(
+        new JsonFileStore({ directory: directory.path, name: 'idempotency_keys', compactEvery: 1000 }, new RecordingLogger())
+      );
+      await store.init();
+      return store;
+    };
+    try {
+      const first = await open();
+      let requests = idempotentRequests(first);
+      await requests.start('owner-1', 'finished', 'request-a');
+      await requests.finish('owner-1', 'finished', RESPONSE);
+      await requests.start('owner-1', 'running', 'request-a');
+      await first.close();
+
+      const second = await open();
+      requests = idempotentRequests(second);
+      assert.deepEqual(await requests.start('owner-1', 'finished', 'request-a'), RESPONSE);
+      assert.equal(await requests.start('owner-1', 'running', 'request-a'), null);
+      await second.close();
+    } finally {
+      await directory.remove();
+    }
+  });
+});
@@ -0,0 +1,50 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Todo } from '../src/domain/entities/Todo';
+import { ImportTodos } from '../src/application/use-cases/ImportTodos';
+import { InMemoryTodoRepository } from '../src/adapters/outbound/InMemoryTodoRepository';
+import { InMemoryTodoListRepository } from '../src/adapters/outbound/InMemoryTodoListRepository';
+
+describe('ImportTodos', () => {
+  let todos: InMemoryTodoRepository;
+  let importTodos: ImportTodos;
+
+  beforeEach(async () => {
+    todos = new InMemoryTodoRepository();
+    importTodos = new ImportTodos(todos, new InMemoryTodoListRepository());
+    await todos.save(new Todo({ id: 'taken', ownerId: 'someone-else', title: 'Not yours' }));
+    await todos.save(new Todo({ id: 'mine', ownerId: 'owner-1', title: 'Yours' }));
+  });
+
+  const records = [
+    { id: 'taken', title: 'Imported' },
+    { id: 'mine', title: 'Imported' },
+    { id: 'new', title: 'Imported' }
+  ];
+
+  it('reports the same outcome in a dry run as in the import itself', async () => {
+    const dryRun = await importTodos.execute({ ownerId: 'owner-1', records, dryRun: true });
+    const imported = await importTodos.execute({ ownerId: 'owner-1', records });
+
+    assert.deepEqual({ ...dryRun, dryRun: false }, imported);
+    assert.equal(imported.created, 1);
+    assert.deepEqual(imported.failed, [
+      { row: 1, id: 'taken', error: 'Todo with id taken already exists' },
+      { row: 2, id: 'mine', error: 'Todo with id mine already exists' }
+    ]);
+  });
+
+  it('writes nothing in a dry run', async () => {
+    await importTodos.execute({ ownerId: 'owner-1', records, dryRun: true, onDuplicate: 'overwrite' });
+
+    assert.equal((await todos.findAll('owner-1')).length, 1);
+    assert.equal((await todos.findById('taken', 'someone-else'))!.getTitle().getValue(), 'Not yours');
+  });
+
+  it('never overwrites the todos of another owner', async () => {
+    const result = await importTodos.execute({ ownerId: 'owner-1', records, onDuplicate: 'overwrite' });
+
+    assert.deepEqual([result.created, result.updated, result.failed.length], [1, 1, 1]);
+    assert.equal((await todos.findById('taken', 'someone-else'))!.getTitle().getValue(), 'Not yours');
+  });
+});
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { appendFile, readFile, stat, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { JsonFileStore } from '../src/adapters/outbound/JsonFileStore';
+import { InfrastructureException } from '../src/domain/exceptions/DomainException';
+import { RecordingLogger, temporaryDirectory } from './support';
+
+interface Item {
+  title: string;
+}
+
+describe('JsonFileStore', () => {
+  let directory: { path: string; remove: () => Promise<void> };
+  let logger: RecordingLogger;
+  const opened: Array<JsonFileStore<Item>> = [];
+
+  beforeEach(async () => {
+    directory = await temporaryDirectory();
+    logger = new RecordingLogger();
+  });
+
+  afterEach(async () => {
+    await Promise.all(opened.splice(0).map(store => store.close()));
+    await directory.remove();
+  });
+
+  function store(compactEvery = 1000): JsonFileStore<Item> {
+    const created = new JsonFileStore<Item>({ directory: directory.path, name: 'items', compactEvery }, logger);
+    opened.push(created);
+    return created;
+  }
+
+  const logPath = () => join(directory.path, 'items.wal');
+
+  /**
+   * Writes the entries with one store, then closes it without compacting,
+   * as after a crash
+   */
+  async function written(...writes: Array<Parameters<JsonFileStore<Item>['write']>[0]>): Promise<void> {
+    const first = store();
+    await first.open();
+    for (const operations of writes) {
+      await first.write(operations);
+    }
+    await first.close();
+    opened.splice(opened.indexOf(first), 1);
+  }
+
+  it('recovers the records from the write-ahead log', async () => {
+    await written(
+      [{ type: 'put', id: 'a', record: { title: 'A' } }],
+      [{ type: 'put', id: 'b', record: { title: 'B' } }, { type: 'put', id: 'c', record: { title: 'C' } }],
+      [{ type: 'delete', id: 'a' }]
+    );
+
+    const records = await store().open();
+
+    assert.deepEqual(Object.fromEntries(records), { b: { title: 'B' }, c: { title: 'C' } });
+    assert.deepEqual(logger.messages('warn'), []);
+  });
+
+  it('compacts the log into the snapshot when opened', async () => {
+    await written([{ type: 'put', id: 'a', record: { title: 'A' } }]);
+
+    await store().open();
+
+    assert.equal((await stat(logPath())).size, 0);
+    const snapshot = JSON.parse(await readFile(join(directory.path, 'items.snapshot.json'), 'utf8'));
+    assert.deepEqual(snapshot, { seq: 1, records: [['a', { title: 'A' }]] });
+  });
+
+  it('compacts after the configured number of writes and recovers from snapshot and log', async () => {
+    const first = store(2);
+    await first.open();
+    for (const id of ['a', 'b', 'c']) {
+      await first.write([{ type: 'put', id, record: { title: id.toUpperCase() } }]);
+    }
+    await first.close();
+    opened.length = 0;
+
+    // Only the write after the compaction is still in the log
+    assert.equal((await readFile(logPath(), 'utf8')).trim().split('\n').length, 1);
+    assert.deepEqual(Array.from((await store().open()).keys()), ['a', 'b', 'c']);
+  });
+
+  it('cuts off an incomplete last entry left by a crash', async () => {
+    await written([{ type: 'put', id: 'a', record: { title: 'A' } }]);
+    // A batch torn in the middle of its line: none of its operations may apply
+    await appendFile(logPath(), '0123456789abcdef {"seq":2,"operations":[{"type":"put","id":"b","record":{"title":"B"}},{"type":"del');
+
+    const records = await store().open();
+
+    assert.deepEqual(Object.fromEntries(records), { a: { title: 'A' } });
+    assert.equal(logger.messages('warn').length, 1);
+  });
+
+  it('cuts off a last entry that does not match its checksum', async () => {
+    await written(
+      [{ type: 'put', id: 'a', record: { title: 'A' } }],
+      [{ type: 'put', id: 'b', record: { title: 'B' } }]
+    );
+    const lines = (await readFile(logPath(), 'utf8')).split('\n');
+    lines[1] = lines[1].replace('"B"', '"X"');
+    await writeFile(logPath(), lines.join('\n'));
+
+    const records = await store().open();
+
+    assert.deepEqual(Object.fromEntries(records), { a: { title: 'A' } });
+    assert.equal(logger.messages('warn').length, 1);
+  });
+
+  it('keeps taking writes after cutting off a torn entry', async () => {
+    await written([{ type: 'put', id: 'a', record: { title: 'A' } }]);
+    await appendFile(logPath(), '0123456789abcdef {"seq":2,"oper');
+
+    const second = store();
+    await second.open();
+    await second.write([{ type: 'put', id: 'b', record: { title: 'B' } }]);
+    await second.close();
+    opened.length = 0;
+
+    assert.deepEqual(Array.from((await store().open()).keys()), ['a', 'b']);
+  });
+
+  it('refuses to open a log damaged before its last entry', async () => {
+    await written(
+      [{ type: 'put', id: 'a', record: { title: 'A' } }],
+      [{ type: 'put', id: 'b', record: { title: 'B' } }]
+    );
+    const lines = (await readFile(logPath(), 'utf8')).split('\n');
+    lines[0] = lines[0].replace('"A"', '"X"');
+    await writeFile(logPath(), lines.join('\n'));
+
+    await assert.rejects(store().open(), InfrastructureException);
+    // The log is left as it was, to be restored from a backup
+    assert.equal((await readFile(logPath(), 'utf8')).split('\n').length, 3);
+  });
+});
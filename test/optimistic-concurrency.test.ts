@@ -0,0 +1,106 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Todo } from '../src/domain/entities/Todo';
+import { ConcurrencyConflictException } from '../src/domain/exceptions/DomainException';
+import { InMemoryTodoRepository } from '../src/adapters/outbound/InMemoryTodoRepository';
+import { ErrorBody, startApp, TestApp, TodoBody } from './app';
+
+describe('If-Match and ETag', () => {
+  let app: TestApp;
+  let token: string;
+
+  before(async () => {
+    app = await startApp();
+    token = await app.signUp('etag@example.com');
+  });
+
+  after(() => app.close());
+
+  async function createTodo(): Promise<{ id: string; etag: string }> {
+    const created = await app.request<TodoBody>('POST', '/api/todos', { token, body: { title: 'Versioned' } });
+    return { id: created.body.id, etag: created.headers.get('etag')! };
+  }
+
+  it('returns the version as a strong ETag', async () => {
+    const { id, etag } = await createTodo();
+
+    const fetched = await app.request<TodoBody>('GET', `/api/todos/${id}`, { token });
+
+    assert.equal(etag, '"1"');
+    assert.equal(fetched.headers.get('etag'), '"1"');
+    assert.equal(fetched.body.version, 1);
+  });
+
+  it('applies a change made at the current version and returns the new ETag', async () => {
+    const { id, etag } = await createTodo();
+
+    const updated = await app.request<TodoBody>('PUT', `/api/todos/${id}`, { token, headers: { 'If-Match': etag }, body: { title: 'Renamed' } });
+
+    assert.equal(updated.status, 200);
+    assert.equal(updated.headers.get('etag'), '"2"');
+    assert.equal(updated.body.title, 'Renamed');
+  });
+
+  it('rejects changes made at a stale version with 412', async () => {
+    const { id, etag } = await createTodo();
+    await app.request('PUT', `/api/todos/${id}`, { token, headers: { 'If-Match': etag }, body: { title: 'First' } });
+
+    const stale = { token, headers: { 'If-Match': etag } };
+    const update = await app.request<ErrorBody>('PUT', `/api/todos/${id}`, { ...stale, body: { title: 'Second' } });
+    const complete = await app.request('PATCH', `/api/todos/${id}/complete`, { ...stale, body: {} });
+    const remove = await app.request('DELETE', `/api/todos/${id}`, stale);
+
+    assert.deepEqual([update.status, complete.status, remove.status], [412, 412, 412]);
+    assert.equal(update.body.code, 'VERSION_MISMATCH');
+    const current = await app.request<TodoBody>('GET', `/api/todos/${id}`, { token });
+    assert.equal(current.body.title, 'First');
+    assert.equal(current.body.status, 'PENDING');
+  });
+
+  it('accepts weak ETags, `*` and requests without If-Match', async () => {
+    const { id } = await createTodo();
+
+    const weak = await app.request('PUT', `/api/todos/${id}`, { token, headers: { 'If-Match': 'W/"1"' }, body: { title: 'Weak' } });
+    const any = await app.request('PUT', `/api/todos/${id}`, { token, headers: { 'If-Match': '*' }, body: { title: 'Any' } });
+    const none = await app.request('PUT', `/api/todos/${id}`, { token, body: { title: 'None' } });
+
+    assert.deepEqual([weak.status, any.status, none.status], [200, 200, 200]);
+    assert.equal(none.headers.get('etag'), '"4"');
+  });
+
+  it('rejects If-Match headers that are not an ETag of this API', async () => {
+    const { id } = await createTodo();
+
+    const invalid = await app.request('PUT', `/api/todos/${id}`, { token, headers: { 'If-Match': '"1", "2"' }, body: { title: 'Both' } });
+
+    assert.equal(invalid.status, 400);
+  });
+
+  it('moves a todo to the trash only at the expected version', async () => {
+    const { id, etag } = await createTodo();
+
+    const deleted = await app.request('DELETE', `/api/todos/${id}`, { token, headers: { 'If-Match': etag } });
+
+    assert.equal(deleted.status, 204);
+    assert.equal((await app.request('GET', `/api/todos/${id}`, { token })).status, 404);
+  });
+});
+
+describe('conditional updates', () => {
+  it('let only the first of two writers that read the same version win', async () => {
+    const repository = new InMemoryTodoRepository();
+    const saved = await repository.save(new Todo({ ownerId: 'owner-1', title: 'Contended' }));
+    const id = saved.getId().getValue();
+    const first = (await repository.findById(id, 'owner-1'))!;
+    const second = (await repository.findById(id, 'owner-1'))!;
+
+    first.complete();
+    await repository.update(first);
+    second.updateTitle('Renamed');
+
+    await assert.rejects(repository.update(second), ConcurrencyConflictException);
+    const stored = (await repository.findById(id, 'owner-1'))!;
+    assert.equal(stored.isCompleted(), true);
+    assert.equal(stored.getVersion(), 2);
+  });
+});
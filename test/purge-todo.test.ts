@@ -0,0 +1,98 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Todo } from '../src/domain/entities/Todo';
+import { ConcurrencyConflictException } from '../src/domain/exceptions/DomainException';
+import { FindOptions, TrashFilter } from '../src/application/ports/TodoRepository';
+import { PurgeTodo } from '../src/application/use-cases/PurgeTodo';
+import { EmptyTrash } from '../src/application/use-cases/EmptyTrash';
+import { InMemoryTodoRepository } from '../src/adapters/outbound/InMemoryTodoRepository';
+import { InMemoryAuditRepository } from '../src/adapters/outbound/InMemoryAuditRepository';
+import { InMemoryEventBus } from '../src/adapters/outbound/InMemoryEventBus';
+import { RecordingLogger } from './support';
+
+const OWNER = 'owner-1';
+
+/**
+ * Restores the trashed todos it hands out before the caller can act on them,
+ * as when a restore request lands between the read and the purge
+ */
+class RacingTodoRepository extends InMemoryTodoRepository {
+  restoreOnRead = false;
+
+  async findById(id: string, ownerId: string, options?: FindOptions): Promise<Todo | null> {
+    const todo = await super.findById(id, ownerId, options);
+    if (todo) {
+      await this.restoreBehindTheCaller(todo);
+    }
+    return todo;
+  }
+
+  async findTrashed(filter: TrashFilter): Promise<Todo[]> {
+    const trashed = await super.findTrashed(filter);
+    for (const todo of trashed) {
+      await this.restoreBehindTheCaller(todo);
+    }
+    return trashed;
+  }
+
+  private async restoreBehindTheCaller(todo: Todo): Promise<void> {
+    if (!this.restoreOnRead || !todo.isTrashed()) {
+      return;
+    }
+    const copy = new Todo(todo.toObject());
+    copy.restore();
+    await this.update(copy);
+  }
+}
+
+describe('Purging the trash', () => {
+  let todos: RacingTodoRepository;
+  let audit: InMemoryAuditRepository;
+  let purgeTodo: PurgeTodo;
+  let emptyTrash: EmptyTrash;
+
+  beforeEach(() => {
+    todos = new RacingTodoRepository();
+    audit = new InMemoryAuditRepository();
+    const eventBus = new InMemoryEventBus(new RecordingLogger());
+    purgeTodo = new PurgeTodo(todos, eventBus, audit);
+    emptyTrash = new EmptyTrash(todos, eventBus, audit);
+  });
+
+  async function trashedTodo(title: string): Promise<Todo> {
+    const todo = await todos.save(new Todo({ ownerId: OWNER, title }));
+    todo.moveToTrash();
+    return todos.update(todo);
+  }
+
+  it('purges a todo that is still in the trash', async () => {
+    const todo = await trashedTodo('Old notes');
+
+    await purgeTodo.execute(todo.getId().getValue(), OWNER);
+
+    assert.equal(await todos.exists(todo.getId().getValue()), false);
+    const history = await audit.findByTodoId(todo.getId().getValue(), OWNER);
+    assert.deepEqual(history.map(entry => entry.toObject().action), ['todo.purged']);
+  });
+
+  it('keeps a todo that was restored while it was being purged', async () => {
+    const todo = await trashedTodo('Still needed');
+    todos.restoreOnRead = true;
+
+    await assert.rejects(purgeTodo.execute(todo.getId().getValue(), OWNER), ConcurrencyConflictException);
+
+    const stored = await todos.findById(todo.getId().getValue(), OWNER);
+    assert.ok(stored);
+    assert.deepEqual(await audit.findByTodoId(todo.getId().getValue(), OWNER), []);
+  });
+
+  it('skips todos restored while the trash was being emptied', async () => {
+    await trashedTodo('Still needed');
+    todos.restoreOnRead = true;
+
+    const purged = await emptyTrash.execute({ ownerId: OWNER });
+
+    assert.equal(purged, 0);
+    assert.equal((await todos.findAll(OWNER)).length, 1);
+  });
+});
@@ -0,0 +1,91 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Todo } from '../src/domain/entities/Todo';
+import { InfrastructureException } from '../src/domain/exceptions/DomainException';
+import { UpdateSeries } from '../src/application/use-cases/UpdateSeries';
+import { EndSeries } from '../src/application/use-cases/EndSeries';
+import { InMemoryTodoRepository } from '../src/adapters/outbound/InMemoryTodoRepository';
+import { InMemoryAuditRepository } from '../src/adapters/outbound/InMemoryAuditRepository';
+import { InMemoryEventBus } from '../src/adapters/outbound/InMemoryEventBus';
+import { InMemoryTransactionManager } from '../src/adapters/outbound/InMemoryTransactionManager';
+import { RecordingLogger } from './support';
+
+const OWNER = 'owner-1';
+const SERIES = 'series-1';
+
+/**
+ * Fails the nth update it is given, as when the database goes away partway through
+ */
+class FailingTodoRepository extends InMemoryTodoRepository {
+  failUpdate?: number;
+  private updates = 0;
+
+  async update(todo: Todo): Promise<Todo> {
+    if (++this.updates === this.failUpdate) {
+      throw new InfrastructureException('Storage is unavailable');
+    }
+    return super.update(todo);
+  }
+}
+
+describe('Series', () => {
+  let todos: FailingTodoRepository;
+  let audit: InMemoryAuditRepository;
+  let updateSeries: UpdateSeries;
+  let endSeries: EndSeries;
+
+  beforeEach(() => {
+    todos = new FailingTodoRepository();
+    audit = new InMemoryAuditRepository();
+    const eventBus = new InMemoryEventBus(new RecordingLogger());
+    const transactions = new InMemoryTransactionManager();
+    updateSeries = new UpdateSeries(todos, eventBus, audit, transactions);
+    endSeries = new EndSeries(todos, eventBus, audit, transactions);
+  });
+
+  async function occurrences(): Promise<Todo[]> {
+    const saved: Todo[] = [];
+    for (const date of ['2026-03-02', '2026-03-09']) {
+      saved.push(await todos.save(new Todo({
+        ownerId: OWNER,
+        title: 'Water the plants',
+        dueDate: { date },
+        recurrence: 'FREQ=WEEKLY',
+        seriesId: SERIES
+      })));
+    }
+    return saved;
+  }
+
+  it('returns the occurrences as saved, at their new version', async () => {
+    const before = await occurrences();
+
+    const updated = await updateSeries.execute({ seriesId: SERIES, ownerId: OWNER, title: 'Water the ferns' });
+
+    assert.deepEqual(updated.map(todo => todo.getVersion()), before.map(todo => todo.getVersion() + 1));
+    const stored = await todos.findBySeriesId(SERIES, OWNER);
+    assert.deepEqual(stored.map(todo => todo.getVersion()), updated.map(todo => todo.getVersion()));
+  });
+
+  it('records the changes in the history of each occurrence', async () => {
+    const before = await occurrences();
+
+    await endSeries.execute(SERIES, OWNER);
+
+    for (const todo of before) {
+      const history = await audit.findByTodoId(todo.getId().getValue(), OWNER);
+      assert.deepEqual(history.map(entry => entry.toObject().action), ['todo.updated']);
+    }
+  });
+
+  it('leaves every occurrence as it was when one of them cannot be saved', async () => {
+    await occurrences();
+    todos.failUpdate = 2;
+
+    await assert.rejects(updateSeries.execute({ seriesId: SERIES, ownerId: OWNER, title: 'Water the ferns' }), InfrastructureException);
+
+    const stored = await todos.findBySeriesId(SERIES, OWNER);
+    assert.deepEqual(stored.map(todo => todo.getTitle().getValue()), ['Water the plants', 'Water the plants']);
+    assert.deepEqual(await audit.findByTodoId(stored[0].getId().getValue(), OWNER), []);
+  });
+});
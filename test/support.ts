@@ -0,0 +1,43 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LogFields, Logger, LogLevel } from '../src/application/ports/Logger';
+
+/**
+ * Logger keeping its entries, so that tests can check what was logged
+ */
+export class RecordingLogger implements Logger {
+  constructor(readonly entries: Array<{ level: LogLevel; message: string; fields?: LogFields }> = []) {}
+
+  debug(message: string, fields?: LogFields): void {
+    this.entries.push({ level: 'debug', message, fields });
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.entries.push({ level: 'info', message, fields });
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.entries.push({ level: 'warn', message, fields });
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.entries.push({ level: 'error', message, fields });
+  }
+
+  child(): Logger {
+    return this;
+  }
+
+  messages(level: LogLevel): string[] {
+    return this.entries.filter(entry => entry.level === level).map(entry => entry.message);
+  }
+}
+
+/**
+ * A fresh directory under the system's temporary directory, and its removal
+ */
+export async function temporaryDirectory(): Promise<{ path: string; remove: () => Promise<void> }> {
+  const path = await mkdtemp(join(tmpdir(), 'todo-hex-test-'));
+  return { path, remove: () => rm(path, { recursive: true, force: true }) };
+}
@@ -0,0 +1,104 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddChecklistItemUseCase } from '../src/application/ports/AddChecklistItemUseCase';
+import { ToggleChecklistItemUseCase } from '../src/application/ports/ToggleChecklistItemUseCase';
+import { EXIT_NOT_FOUND, EXIT_OK, TodoCli } from '../src/adapters/inbound/TodoCli';
+
+const CREDENTIALS = { email: 'cli@example.com', password: 'correct horse battery' };
+
+describe('todo CLI', () => {
+  let cli: TodoCli;
+  let addChecklistItem: AddChecklistItemUseCase;
+  let toggleChecklistItem: ToggleChecklistItemUseCase;
+  let ownerId: string;
+  let cleanup: () => Promise<void>;
+
+  before(async () => {
+    process.env.STORAGE = 'memory';
+    process.env.LOG_LEVEL = 'error';
+    // Loaded once the environment is set, as the configuration reads it on first use
+    const { DependencyContainer } = await import('../src/infrastructure/DependencyContainer');
+    const container = DependencyContainer.getInstance();
+    await container.initialize({ backgroundJobs: false });
+    cleanup = () => container.cleanup();
+    ownerId = (await container.registerUserUseCase.execute(CREDENTIALS)).getId();
+    addChecklistItem = container.addChecklistItemUseCase;
+    toggleChecklistItem = container.toggleChecklistItemUseCase;
+    cli = new TodoCli(
+      container.createTodoUseCase,
+      container.getTodoUseCase,
+      container.listTodosUseCase,
+      container.updateTodoUseCase,
+      container.completeTodoUseCase,
+      container.reopenTodoUseCase,
+      container.deleteTodoUseCase,
+      container.loginUseCase,
+      container.authenticateUseCase
+    );
+  });
+
+  after(() => cleanup());
+
+  async function run(...args: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+    let stdout = '';
+    let stderr = '';
+    const code = await cli.run(args, {
+      env: { TODO_EMAIL: CREDENTIALS.email, TODO_PASSWORD: CREDENTIALS.password },
+      stdout: text => {
+        stdout += text;
+      },
+      stderr: text => {
+        stderr += text;
+      }
+    });
+    return { code, stdout, stderr };
+  }
+
+  it('prints added todos as JSON', async () => {
+    const added = await run('add', 'Call the plumber', '--json');
+
+    assert.equal(added.code, EXIT_OK);
+    assert.equal(JSON.parse(added.stdout).title, 'Call the plumber');
+  });
+
+  it('pages through list --json with the next cursor', async () => {
+    await run('add', 'Page one', '--tags', 'paging');
+    await run('add', 'Page two', '--tags', 'paging');
+
+    const first = JSON.parse((await run('list', '--tags', 'paging', '--limit', '1', '--json')).stdout);
+    const second = JSON.parse((await run('list', '--tags', 'paging', '--limit', '1', '--cursor', first.nextCursor, '--json')).stdout);
+
+    assert.equal(typeof first.nextCursor, 'string');
+    assert.deepEqual([...first.items, ...second.items].map(todo => todo.title).sort(), ['Page one', 'Page two']);
+    assert.equal(second.nextCursor, null);
+  });
+
+  it('shows checklist progress as a percentage', async () => {
+    const { id } = JSON.parse((await run('add', 'Pack', '--json')).stdout);
+    const withItems = await addChecklistItem.execute({ todoId: id, ownerId, text: 'Socks' });
+    await addChecklistItem.execute({ todoId: id, ownerId, text: 'Shoes' });
+    await toggleChecklistItem.execute({ todoId: id, ownerId, itemId: withItems.getChecklist()[0].getId(), done: true });
+
+    const shown = await run('show', id);
+
+    assert.match(shown.stdout, /50% of 2 item\(s\) done/);
+  });
+
+  it('prints a JSON object for rm --json', async () => {
+    const { id } = JSON.parse((await run('add', 'Throw away', '--json')).stdout);
+
+    const removed = await run('rm', id, '--json');
+
+    assert.equal(removed.code, EXIT_OK);
+    assert.deepEqual(JSON.parse(removed.stdout), { id, trashed: true });
+    assert.equal((await run('show', id)).code, EXIT_NOT_FOUND);
+  });
+
+  it('confirms rm in words without --json', async () => {
+    const { id } = JSON.parse((await run('add', 'Throw away too', '--json')).stdout);
+
+    const removed = await run('rm', id);
+
+    assert.equal(removed.stdout, `Moved ${id} to the trash\n`);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Todo } from '../src/domain/entities/Todo';
+import { ValidationException } from '../src/domain/exceptions/DomainException';
+import { decodeCursor, encodeCursor } from '../src/adapters/outbound/TodoCursor';
+
+function encoded(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+describe('TodoCursor', () => {
+  it('decodes the cursor of a todo to its sort value and id', () => {
+    const todo = new Todo({ ownerId: 'owner-1', title: 'Paged' }).toObject();
+
+    assert.deepEqual(decodeCursor(encodeCursor(todo, 'createdAt')), { value: todo.createdAt!.getTime(), id: todo.id });
+    assert.deepEqual(decodeCursor(encodeCursor(todo, 'title')), { value: 'Paged', id: todo.id });
+  });
+
+  it('rejects cursors that are not an object with an id and a sort value', () => {
+    const invalid = ['not base64 json', encoded(null), encoded('id'), encoded([]), encoded({ value: 1 }), encoded({ id: 'a', value: {} })];
+    for (const cursor of invalid) {
+      assert.throws(() => decodeCursor(cursor), ValidationException);
+    }
+  });
+});
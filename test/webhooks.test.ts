@@ -0,0 +1,195 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { createHmac } from 'crypto';
+import { WebhookSubscription } from '../src/domain/entities/WebhookSubscription';
+import { WebhookDelivery, WebhookDeliveryStatus } from '../src/domain/entities/WebhookDelivery';
+import { TodoEvent, TodoEventType } from '../src/domain/events/TodoEvent';
+import { InMemoryWebhookRepository } from '../src/adapters/outbound/InMemoryWebhookRepository';
+import { InMemoryWebhookDeliveryRepository } from '../src/adapters/outbound/InMemoryWebhookDeliveryRepository';
+import { HttpWebhookSender } from '../src/adapters/outbound/HttpWebhookSender';
+import { EnqueueWebhookDeliveries } from '../src/application/use-cases/EnqueueWebhookDeliveries';
+import { ProcessWebhookDeliveries } from '../src/application/use-cases/ProcessWebhookDeliveries';
+import { ReplayWebhookDelivery } from '../src/application/use-cases/ReplayWebhookDelivery';
+
+const SECRET = 'receiver-shared-secret';
+const RETRY_POLICY = { maxAttempts: 3, baseDelayMs: 60_000 };
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Local HTTP receiver answering with the queued statuses, then 200
+ */
+class Receiver {
+  readonly requests: ReceivedRequest[] = [];
+  statuses: number[] = [];
+  private readonly server: Server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      this.requests.push({ headers: req.headers, body: Buffer.concat(chunks).toString('utf8') });
+      res.statusCode = this.statuses.shift() ?? 200;
+      res.end();
+    });
+  });
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/hooks`;
+  }
+
+  start(): Promise<void> {
+    return new Promise(resolve => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  stop(): Promise<void> {
+    this.server.closeAllConnections();
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+function createdEvent(ownerId: string): TodoEvent {
+  const now = new Date();
+  return {
+    id: 'event-1',
+    type: TodoEventType.CREATED,
+    todoId: 'todo-1',
+    occurredAt: now,
+    changes: {},
+    todo: { id: 'todo-1', ownerId, title: 'Write tests', createdAt: now, updatedAt: now }
+  };
+}
+
+function later(ms: number): Date {
+  return new Date(Date.now() + ms);
+}
+
+describe('webhook deliveries', () => {
+  const receiver = new Receiver();
+  let webhookRepository: InMemoryWebhookRepository;
+  let deliveryRepository: InMemoryWebhookDeliveryRepository;
+  let enqueue: EnqueueWebhookDeliveries;
+  let processDeliveries: ProcessWebhookDeliveries;
+  let replay: ReplayWebhookDelivery;
+  let webhook: WebhookSubscription;
+
+  before(() => receiver.start());
+  after(() => receiver.stop());
+
+  beforeEach(async () => {
+    receiver.requests.length = 0;
+    receiver.statuses = [];
+    webhookRepository = new InMemoryWebhookRepository();
+    deliveryRepository = new InMemoryWebhookDeliveryRepository();
+    const sender = new HttpWebhookSender(5_000);
+    enqueue = new EnqueueWebhookDeliveries(webhookRepository, deliveryRepository);
+    processDeliveries = new ProcessWebhookDeliveries(webhookRepository, deliveryRepository, sender, RETRY_POLICY);
+    replay = new ReplayWebhookDelivery(webhookRepository, deliveryRepository, sender, RETRY_POLICY);
+    webhook = await webhookRepository.save(new WebhookSubscription({
+      ownerId: 'owner-1',
+      url: receiver.url,
+      events: [TodoEventType.CREATED],
+      secret: SECRET
+    }));
+  });
+
+  async function enqueueOne(): Promise<WebhookDelivery> {
+    const deliveries = await enqueue.execute(createdEvent('owner-1'));
+    assert.equal(deliveries.length, 1);
+    return deliveries[0];
+  }
+
+  async function reload(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    return (await deliveryRepository.findById(delivery.getId()))!;
+  }
+
+  it('posts the event signed with the webhook secret', async () => {
+    const delivery = await enqueueOne();
+
+    assert.equal(await processDeliveries.execute(), 1);
+
+    assert.equal(receiver.requests.length, 1);
+    const [request] = receiver.requests;
+    const expected = `sha256=${createHmac('sha256', SECRET).update(request.body).digest('hex')}`;
+    assert.equal(request.headers['x-webhook-signature'], expected);
+    assert.equal(request.headers['x-webhook-event'], TodoEventType.CREATED);
+    assert.equal(request.headers['x-webhook-delivery'], delivery.getId());
+    assert.equal(request.headers['content-type'], 'application/json');
+    assert.equal(JSON.parse(request.body).todo.title, 'Write tests');
+    assert.equal((await reload(delivery)).getStatus(), WebhookDeliveryStatus.SUCCEEDED);
+  });
+
+  it('does not post events the webhook is not subscribed to', async () => {
+    const deliveries = await enqueue.execute({ ...createdEvent('owner-1'), type: TodoEventType.COMPLETED });
+
+    assert.equal(deliveries.length, 0);
+    assert.equal(await processDeliveries.execute(), 0);
+    assert.equal(receiver.requests.length, 0);
+  });
+
+  it('retries failed deliveries with exponential backoff', async () => {
+    receiver.statuses = [500, 503];
+    const delivery = await enqueueOne();
+
+    await processDeliveries.execute();
+    let stored = (await reload(delivery)).toObject();
+    assert.equal(stored.status, WebhookDeliveryStatus.PENDING);
+    assert.equal(stored.lastResponseStatus, 500);
+    assert.equal(stored.nextAttemptAt!.getTime() - stored.lastAttemptAt!.getTime(), 60_000);
+
+    // Not due before the delay has passed
+    assert.equal(await processDeliveries.execute(), 0);
+
+    assert.equal(await processDeliveries.execute(later(61_000)), 1);
+    stored = (await reload(delivery)).toObject();
+    assert.equal(stored.lastResponseStatus, 503);
+    assert.equal(stored.nextAttemptAt!.getTime() - stored.lastAttemptAt!.getTime(), 120_000);
+
+    assert.equal(await processDeliveries.execute(later(121_000)), 1);
+    stored = (await reload(delivery)).toObject();
+    assert.equal(stored.status, WebhookDeliveryStatus.SUCCEEDED);
+    assert.equal(stored.attempts, 3);
+
+    // Every attempt sends the same signed body
+    assert.equal(receiver.requests.length, 3);
+    assert.equal(new Set(receiver.requests.map(request => request.headers['x-webhook-signature'])).size, 1);
+  });
+
+  it('gives up after the last attempt and sends again on replay', async () => {
+    receiver.statuses = [500, 500, 500];
+    const delivery = await enqueueOne();
+
+    await processDeliveries.execute();
+    await processDeliveries.execute(later(61_000));
+    await processDeliveries.execute(later(121_000));
+    assert.equal((await reload(delivery)).getStatus(), WebhookDeliveryStatus.FAILED);
+    assert.equal(await processDeliveries.execute(later(3_600_000)), 0);
+
+    const replayed = await replay.execute({ ownerId: 'owner-1', webhookId: webhook.getId(), deliveryId: delivery.getId() });
+
+    assert.equal(replayed.getStatus(), WebhookDeliveryStatus.SUCCEEDED);
+    assert.equal(replayed.getAttempts(), 4);
+    assert.equal(receiver.requests.length, 4);
+  });
+
+  it('records unreachable receivers as failed attempts', async () => {
+    const unreachable = await webhookRepository.save(new WebhookSubscription({
+      ownerId: 'owner-2',
+      url: 'http://127.0.0.1:9/hooks',
+      events: [TodoEventType.CREATED],
+      secret: SECRET
+    }));
+    const [delivery] = await enqueue.execute(createdEvent('owner-2'));
+
+    await processDeliveries.execute();
+
+    const stored = (await reload(delivery)).toObject();
+    assert.equal(stored.webhookId, unreachable.getId());
+    assert.equal(stored.status, WebhookDeliveryStatus.PENDING);
+    assert.equal(stored.lastResponseStatus, null);
+    assert.ok(stored.lastError);
+  });
+});